@@ -6,13 +6,38 @@ import { Server } from 'socket.io';
 import dialogflow from '@google-cloud/dialogflow-cx';
 import textToSpeech from '@google-cloud/text-to-speech';
 import fs from 'fs';
+import { randomUUID } from 'crypto';
 import path from 'path';
 import multer from 'multer';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import admin from 'firebase-admin';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import KnowledgeService from './services/knowledgeService.js';
+import KnowledgeService, { DEFAULT_RETRIEVAL, isInEffect } from './services/knowledgeService.js';
+import IngestionQueue from './services/ingestionQueue.js';
+import ConversationStore from './services/conversationStore.js';
+import TranscriptStore from './services/transcriptStore.js';
+import FeedbackStore from './services/feedbackStore.js';
+import KnowledgeGapStore from './services/knowledgeGapStore.js';
+import SourceSync from './services/sourceSync.js';
+import CoachingService, { generateCoaching, TRANSCRIPT_WINDOW } from './services/coachingService.js';
+import { criticalBreach, judgePolicies, policyPrompt } from './services/policyCompliance.js';
+import RoutingService, { RECONNECT_GRACE_MS } from './services/routingService.js';
+import TransferService from './services/transferService.js';
+import AuthService, { hasRole } from './services/authService.js';
+import ConfigService from './services/configService.js';
+import TenantService, { DEFAULT_TENANT_ID, tenantOf } from './services/tenantService.js';
+import { DATA_DIR } from './services/storage.js';
+import { createLlmProvider, resolveLlmProvider } from './services/llmProvider.js';
+import { createVectorStore, resolveVectorDriver, VECTOR_DB_PATH } from './services/vectorStore.js';
+import { DEFAULT_CHUNKING } from './services/chunker.js';
+import { requireAuth, socketAuth } from './middleware/auth.js';
+import { resolveTenant, socketTenant } from './middleware/tenant.js';
+import { validateSocketEvents } from './middleware/protocol.js';
+import { apiNotFound, asyncHandler, asyncListener, errorBody, errorHandler, sendError } from './middleware/errors.js';
+import { validate } from './middleware/validate.js';
+import { schemas } from '../shared/api.js';
+import { describeErrors } from '../shared/schema.js';
+import { renderTemplate, TEMPLATE_FIELDS, templateError, templateValues } from '../shared/template.js';
 
 const { ConversationsClient } = dialogflow;
 
@@ -38,50 +63,6 @@ if (firebaseServiceAccount) {
 }
 
 const firestore = admin.apps.length ? admin.firestore() : null;
-const CONFIG_COLLECTION = 'agent_success_admin_configuration';
-const CONFIG_DOC = 'agent_success_agent_settings';
-const TRANSCRIPTS_COLLECTION = 'agent_success_transcripts';
-
-// Load config from Firestore
-async function loadConfigFromFirestore() {
-    if (!firestore) return null;
-    try {
-        const snap = await firestore.collection(CONFIG_COLLECTION).doc(CONFIG_DOC).get();
-        if (snap.exists) {
-            console.log('[Firebase] Config loaded from Firestore');
-            return snap.data();
-        }
-    } catch (e) {
-        console.warn('[Firebase] Could not load config:', e.message);
-    }
-    return null;
-}
-
-// Save config to Firestore
-async function saveConfigToFirestore(config) {
-    if (!firestore) return;
-    try {
-        await firestore.collection(CONFIG_COLLECTION).doc(CONFIG_DOC).set(config);
-        console.log('[Firebase] Config saved to Firestore');
-    } catch (e) {
-        console.warn('[Firebase] Could not save config:', e.message);
-    }
-}
-
-// Save transcript/summary to Firestore
-async function saveTranscriptToFirestore(id, type, data) {
-    if (!firestore) return;
-    try {
-        await firestore.collection(TRANSCRIPTS_COLLECTION).doc(id).set({
-            ...data,
-            type,
-            lastUpdated: new Date().toISOString()
-        }, { merge: true });
-        console.log(`[Firebase] Transcript ${id} saved to Firestore`);
-    } catch (e) {
-        console.warn(`[Firebase] Could not save transcript ${id}:`, e.message);
-    }
-}
 
 const app = express();
 const httpServer = createServer(app);
@@ -94,7 +75,7 @@ app.use(helmet({
 const limiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 100, // Limit each IP to 100 requests per windowMs
-    message: 'Too many requests from this IP, please try again after 15 minutes'
+    message: errorBody(429, 'Too many requests from this IP, please try again after 15 minutes')
 });
 app.use('/api/', limiter);
 
@@ -142,19 +123,30 @@ app.use((req, res, next) => {
 const PORT = process.env.PORT || 5007;
 const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT_ID;
 
-// Gemini AI setup
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-let geminiModel = null;
-if (GEMINI_API_KEY) {
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-    geminiModel = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-    console.log('Gemini AI initialized.');
+// AI provider for coaching, summaries and knowledge embeddings (LLM_PROVIDER: gemini, openai or mock)
+const llm = createLlmProvider(resolveLlmProvider(process.env.LLM_PROVIDER));
+if (llm) {
+    console.log(`AI provider initialized: ${llm.name}.`);
 } else {
-    console.warn('WARNING: GEMINI_API_KEY not set. Summary generation will be unavailable.');
+    console.warn('WARNING: No AI provider configured (set GEMINI_API_KEY or LLM_PROVIDER). Coaching and summaries will be unavailable.');
 }
 
-// Knowledge Service
-const knowledgeService = new KnowledgeService(GEMINI_API_KEY);
+// Knowledge Service — one vector store per tenant (VECTOR_STORE: hnsw or json).
+// The default tenant keeps server/data/vector-index/, or server/vector-db.json with the json driver.
+const vectorDriver = resolveVectorDriver(process.env.VECTOR_STORE);
+const knowledgeServices = new Map();
+const knowledgeFor = (tenantId) => {
+    if (!knowledgeServices.has(tenantId)) {
+        const dir = tenantId === DEFAULT_TENANT_ID ? DATA_DIR : path.join(DATA_DIR, 'tenants', tenantId);
+        const store = createVectorStore({
+            driver: vectorDriver,
+            jsonPath: tenantId === DEFAULT_TENANT_ID ? VECTOR_DB_PATH : path.join(dir, 'vector-db.json'),
+            indexDir: path.join(dir, 'vector-index')
+        });
+        knowledgeServices.set(tenantId, new KnowledgeService(llm, store));
+    }
+    return knowledgeServices.get(tenantId);
+};
 
 // TTS Client setup
 const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
@@ -179,252 +171,814 @@ try {
     console.warn('TTS will operate in mock mode.');
 }
 
-// --- Chat state ---
-// conversations = { [id]: { messages: [], customerInfo: {}, status: 'waiting' | 'active' } }
-let conversations = {};
-
-// --- Voice session state ---
-// voiceSessions = { [sessionId]: { entries: [], callerName: '' } }
-let voiceSessions = {};
-
-// --- Admin Configuration State (defaults, overridden by Firestore) ---
-let adminConfig = {
-    systemPrompt: 'You are a professional inbound customer support agent handling a customer who is calling in with an issue, complaint, or request. Follow this order: (1) Greet warmly and thank them for calling, (2) Verify their identity — collect name, phone, and email, (3) Listen actively without interrupting, (4) Acknowledge and empathize with their issue, (5) Offer a clear resolution or escalation path, (6) Confirm the resolution and thank them. Be empathetic, patient, and professional at all times.',
-    companyName: 'AgentOS',
-    agentName: 'Support Agent',
-    welcomeMessage: 'Thank you for calling Customer Support! My name is [Agent Name]. May I please get your name to get started?',
-    maxResponseTime: 120,
-    autoGreeting: true,
-    enableTTS: true,
-    enableTypingIndicator: true,
-    language: 'en-US',
-    tone: 'professional',
-    coachingPolicies: [
-        { id: '1', name: 'Empathy First', description: 'Always acknowledge the customer\'s feelings before providing solutions.', enabled: true, priority: 'high' },
-        { id: '2', name: 'Refund Policy', description: 'Enterprise customers get immediate refunds under $500 without approval. All other refunds require supervisor approval.', enabled: true, priority: 'high' },
-        { id: '3', name: 'Escalation Protocol', description: 'If a customer mentions lawsuit, legal action, or asks for supervisor 3 times, automatically escalate.', enabled: true, priority: 'critical' },
-        { id: '4', name: 'Security Verification', description: 'Verify customer identity with 2 security questions before any account changes.', enabled: true, priority: 'high' },
-        { id: '5', name: 'Positive Closure', description: 'Always end the conversation by asking if there is anything else and thank the customer.', enabled: false, priority: 'medium' },
-    ],
-    documents: [],
-    coachingPrompt: `You are an expert inbound call center coach. The customer has called in to report an issue or complaint. Your job is to guide the agent through resolving it professionally.
-
-### CRITICAL: FINANCIAL EMPATHY
-If the customer mentions "losing money", "financial loss", "losing my money", or any extreme frustration regarding costs:
-- The smartReplies MUST lead with profound empathy (e.g., "I completely understand how stressful it is to feel like you're losing your hard-earned money. I am going to look into this immediately for you.")
-- Focus on being HELPFUL and context-aware. If a policy prevents a refund, the smart reply should bridge that gap with alternatives or a sincere apology and investigation path.
-
-Coaching journey stages:
-1. GREETING & VERIFICATION — Did the agent greet warmly and collect Name, Phone, Email?
-2. ISSUE CAPTURE — Has the agent clearly understood and repeated back the customer's issue?
-3. EMPATHY — Has the agent acknowledged the customer's frustration before jumping to solutions?
-4. RESOLUTION — Is the agent offering a clear, actionable resolution or escalation path?
-5. CLOSURE — Has the agent confirmed the resolution and asked if there is anything else?
-
-Analyze the conversation and return ONLY valid JSON — no markdown, no explanation:
-{
-  "nextAction": "Short coaching label (5-8 words, action-oriented, e.g. 'Verify Identity Before Proceeding', 'Acknowledge Issue Before Solving', 'Offer Resolution Options Now', 'Confirm Fix and Close Warmly')",
-  "smartReplies": [
-    "Exact professional sentence the agent should say next",
-    "Alternative phrasing option",
-    "Empathy or resolution phrasing option"
-  ],
-  "sentiment": "neutral",
-  "insights": [
-    {
-      "label": "Inbound QA coaching tag (e.g. Identity Not Verified, Empathy Gap, Issue Not Confirmed, Resolution Offered, Escalation Signal, Positive Closure)",
-      "tip": "Specific actionable guidance based on the most recent message",
-      "color": "green"
-    }
-  ],
-  "escalationRisk": 10
-}
+// --- Chat & voice session state ---
+// Persisted through a pluggable driver (memory | file | firestore) so a reload or
+// instance recycle does not drop in-flight customers. Set CONVERSATION_STORE to override.
+const conversationStore = new ConversationStore({ driver: process.env.CONVERSATION_STORE, firestore });
+
+// Finished transcripts and summaries (Firestore agent_success_transcripts, or a local file without Firebase)
+const transcriptStore = new TranscriptStore({ driver: process.env.TRANSCRIPT_STORE, firestore });
+
+// Agents' thumbs up/down and "used in reply" signals on knowledge snippets; they nudge search ranking
+const feedbackStore = new FeedbackStore({ driver: process.env.FEEDBACK_STORE, firestore });
+
+// Questions the knowledge base could not answer, grouped into topics for content owners
+const gapStore = new KnowledgeGapStore({ driver: process.env.KNOWLEDGE_GAP_STORE, firestore });
+
+// --- Authentication ---
+// Agents, supervisors and admins sign in; customers stay anonymous.
+const authService = new AuthService({ firestore, secret: process.env.AUTH_SECRET });
+const requireAgent = requireAuth(authService, 'agent');
+const requireSupervisor = requireAuth(authService, 'supervisor');
+const requireAdmin = requireAuth(authService, 'admin');
+
+// --- Tenants ---
+// Config, knowledge, users, uploads and live conversations are isolated per tenant.
+// Each tenant has a Socket.IO room for everyone and one for its signed-in staff.
+const tenantService = new TenantService({ firestore });
+const configService = new ConfigService({ firestore });
+const tenantRoom = (tenantId) => `tenant:${tenantId}`;
+const agentsRoom = (tenantId) => `tenant:${tenantId}:agents`;
+const adminsRoom = (tenantId) => `tenant:${tenantId}:admins`;
+const supervisorsRoom = (tenantId) => `tenant:${tenantId}:supervisors`;
+const userRoom = (userId) => `user:${userId}`;
+
+// Only admins of the default tenant may manage other tenants
+const requirePlatformAdmin = [requireAdmin, (req, res, next) => {
+    if (req.tenantId !== DEFAULT_TENANT_ID) return sendError(res, 403, 'Insufficient permissions');
+    next();
+}];
+
+// --- Routing ---
+// Waiting chats are queued by priority and wait time and handed to available agents up to their capacity.
+const routing = new RoutingService({ conversationStore });
+
+// Conversation list for the agent console; queued conversations carry their place in line
+const broadcastConversations = async (tenantId) => {
+    const queue = await routing.queue(tenantId);
+    // Whispers are for the handling agent only, so they stay out of the team-wide list
+    const conversations = (await conversationStore.listConversations(tenantId)).map(({ whispers, ...conv }) => {
+        const position = queue.findIndex(q => q.id === conv.id);
+        return position === -1 ? conv : { ...conv, queuePosition: position + 1 };
+    });
+    io.to(agentsRoom(tenantId)).emit('update_conversations', conversations);
+};
+
+const emitRoutingStatus = async (tenantId) => {
+    const { agentCapacity } = await configService.get(tenantId);
+    io.to(agentsRoom(tenantId)).emit('routing_status', { agents: await routing.agentStatus(tenantId, agentCapacity), capacity: agentCapacity });
+};
+
+// Every socket of the agent joins the conversation room, and the customer learns who picked them up.
+// `handoff` is set when the conversation came from another agent (see TransferService).
+const notifyAssigned = (conv, handoff) => {
+    io.in(userRoom(conv.assignedAgent.id)).socketsJoin(conv.id);
+    io.to(userRoom(conv.assignedAgent.id)).emit('conversation_assigned', { conversationId: conv.id, handoff });
+    io.to(conv.id).emit('agent_assigned', { conversationId: conv.id, agentName: conv.assignedAgent.name });
+};
+
+// Assign whatever can be assigned, then refresh queue positions and the agents' lists
+const dispatchQueue = async (tenantId) => {
+    const { agentCapacity, autoAssign } = await configService.get(tenantId);
+    if (autoAssign !== false) {
+        for (const { conv } of await routing.dispatch(tenantId, agentCapacity)) {
+            console.log(`[Routing] ${conv.id} assigned to ${conv.assignedAgent.email}`);
+            notifyAssigned(conv);
+        }
+    }
+    const queue = await routing.queue(tenantId);
+    queue.forEach((conv, i) => {
+        io.to(conv.id).emit('queue_position', { conversationId: conv.id, position: i + 1, queueLength: queue.length });
+    });
+    await broadcastConversations(tenantId);
+    await emitRoutingStatus(tenantId);
+};
+
+// --- Transfers & supervision ---
+// Agents hand chats and calls to each other (warm with a note, or cold); supervisors listen in,
+// whisper to the handling agent, or take the conversation over.
+const transfers = new TransferService({ conversationStore, routing });
+const roomOf = (kind, id) => kind === 'voice' ? `voice-${id}` : id;
+// Supervisors listening in sit in a side room, so they follow the conversation without being part of it
+const monitorRoom = (kind, id) => `monitor:${kind}:${id}`;
+// Staff with the voice console open — the people a call can be transferred to
+const voiceConsolesRoom = (tenantId) => `tenant:${tenantId}:voice`;
+
+const voiceConsoleUsers = async (tenantId) => {
+    const consoles = await io.in(voiceConsolesRoom(tenantId)).fetchSockets();
+    return [...new Map(consoles.map(s => [s.data.user.id, s.data.user])).values()];
+};
+
+const onCall = async (tenantId, userId) =>
+    (await conversationStore.listVoiceSessions(tenantId)).some(s => s.agent?.id === userId);
+
+// Live calls and who could take one, for the voice console
+const emitVoiceStatus = async (tenantId) => {
+    const sessions = await conversationStore.listVoiceSessions(tenantId);
+    const agents = (await voiceConsoleUsers(tenantId)).map(user => ({
+        id: user.id,
+        name: user.name,
+        busy: sessions.some(s => s.agent?.id === user.id)
+    }));
+    const calls = sessions.map(({ id, callerName, agent, startTime }) => ({ id, callerName, agent, startTime }));
+    io.to(voiceConsolesRoom(tenantId)).emit('voice_status', { calls, agents });
+};
 
-Rules:
-- If identity (name/email/phone) not yet collected → nextAction should be to collect it
-- If customer mentions "losing money" or extreme frustration → escalationRisk > 80, nextAction MUST be "De-escalate with Deep Empathy"
-- If agent has not shown empathy → add 'Empathy Gap' insight, color = amber
-- If customer mentions supervisor, legal, or complaint → escalationRisk > 80
-- sentiment: positive | neutral | negative | frustrated
-- color: green (good), blue (info), amber (needs attention), rose (urgent)
-- escalationRisk: integer 0-100`,
-    summaryPrompt: 'Generate a structured call summary in exactly this format — fill in each field based on the conversation:\n\n**Customer Information**\nCustomer Name: [name or "Not Collected"]\nCustomer Email: [email or "Not Collected"]\nCustomer Phone: [phone or "Not Collected"]\nCustomer Address: [address or "Not Collected"]\n\n**Call Details**\nReason: [concise description of why the customer called]\nResolution: [what was done — e.g. agent escalated, refunded, explained policy, offered alternative]\n\n**Sentiment Analysis**\nStarting Sentiment: [Neutral / Positive / Negative]\nPeak Sentiment: [emotion at the most intense point, e.g. Frustrated / Angry / Relieved]\nEnding Sentiment: [emotion at call end, e.g. Accepting / Satisfied / Neutral]\n\n**QA & CX Metrics**\nPolicy Compliance: [✅ or ❌]\nEffort Demonstrated: [✅ or ❌]\nEmpathy Demonstrated: [✅ or ❌]\nClarity & Transparency: [✅ or ❌]\nDe-escalation Techniques Used: [✅ or ❌]\nOwnership & Advocacy: [✅ or ❌]\nTone & Professionalism: [✅ or ❌]\nActive Listening Indicators: [Present / Absent]\nNext-Step Guidance Provided: [✅ or ❌]\nCustomer Effort Score (Estimated): [Low / Moderate / High]\nFirst Contact Resolution: [Yes / No / Partial]\nRetention Opportunity Created: [Yes / No]',
+// Both sides of a warm transfer follow its status: pending → declined | cancelled | expired
+const emitTransferUpdate = (transfer, status) => {
+    const { timer, ...details } = transfer;
+    io.to(userRoom(transfer.from.id)).to(userRoom(transfer.to.id)).emit('transfer_updated', { transfer: details, status });
 };
 
-// Load saved config from Firestore on startup
-(async () => {
-    const saved = await loadConfigFromFirestore();
-    if (saved) {
-        adminConfig = { ...adminConfig, ...saved };
-        console.log(`[Config] Loaded: companyName="${adminConfig.companyName}", welcomeMessage="${adminConfig.welcomeMessage}"`);
+const withdrawTransfer = (kind, id) => {
+    const transfer = transfers.cancelFor(kind, id);
+    if (transfer) emitTransferUpdate(transfer, 'cancelled');
+};
+
+// Ownership moved: the previous owner drops out, the new owner picks up, and the customer hears who they are talking to now
+const announceHandoff = async (transfer, record) => {
+    const { tenantId, kind, targetId, from, to } = transfer;
+    const handoff = record.handoffs[record.handoffs.length - 1];
+    if (from) {
+        io.in(userRoom(from.id)).socketsLeave(roomOf(kind, targetId));
+        io.to(userRoom(from.id)).emit('handed_off', { kind, id: targetId, handoff });
+    }
+    console.log(`[Transfer] ${kind} ${targetId}: ${from?.email || 'unassigned'} → ${to.email} (${transfer.mode})`);
+    if (kind === 'chat') {
+        notifyAssigned(record, handoff);
+        await dispatchQueue(tenantId);
+        return;
     }
-})();
+    // The new owner's voice console joins the call and asks the customer's browser for a fresh connection
+    io.to(userRoom(to.id)).emit('voice_handoff', { sessionId: targetId, callerName: record.callerName, handoff });
+    io.to(roomOf(kind, targetId)).emit('voice_agent_changed', { sessionId: targetId, agentName: to.name });
+    await emitVoiceStatus(tenantId);
+};
 
-// File upload config
+const broadcastConfig = (tenantId, config) => {
+    io.to(tenantRoom(tenantId)).emit('config_updated', config);
+};
+
+// A template setting (welcome message or prompt) filled in for a conversation; see shared/template.js
+const renderSetting = (config, field, context) => renderTemplate(config[field], templateValues(config, context));
+
+// File upload config — the default tenant keeps the top-level uploads/ folder
 const uploadsDir = path.resolve('uploads');
 if (!fs.existsSync(uploadsDir)) fs.mkdirSync(uploadsDir, { recursive: true });
+const uploadsDirFor = (tenantId) => {
+    const dir = tenantId === DEFAULT_TENANT_ID ? uploadsDir : path.join(uploadsDir, 'tenants', tenantId);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    return dir;
+};
 const upload = multer({
     storage: multer.diskStorage({
-        destination: (req, file, cb) => cb(null, uploadsDir),
+        destination: (req, file, cb) => cb(null, uploadsDirFor(req.tenantId)),
         filename: (req, file, cb) => cb(null, `${Date.now()}-${file.originalname}`)
     }),
     limits: { fileSize: 10 * 1024 * 1024 } // 10MB
 });
 
+// A rejected upload leaves no file behind
+const discardFailedUpload = (req, res, next) => {
+    res.on('finish', () => {
+        if (res.statusCode >= 400 && req.file) fs.unlink(req.file.path, () => { });
+    });
+    next();
+};
+
+// --- Knowledge indexing ---
+const documentPath = (tenantId, doc) => path.join(uploadsDirFor(tenantId), doc.filename);
+
+// Retrieval only sees documents in effect right now: past their effective date and not yet expired
+const effectiveFilter = (documents) => {
+    const current = new Set(documents.filter(doc => isInEffect(doc)).map(doc => doc.id));
+    return (chunk) => current.has(chunk.docId);
+};
+
+// Log a query whose results are empty or all score under the tenant's gap threshold. Never fails the request.
+const recordGap = async (tenantId, retrieval, gap) => {
+    const { gapScore } = { ...DEFAULT_RETRIEVAL, ...retrieval };
+    if (!knowledgeFor(tenantId).enabled || (gap.results.length && gap.results[0].score >= gapScore)) return;
+    try {
+        await gapStore.record(tenantId, gap);
+    } catch (e) {
+        console.error('[Knowledge] Could not record knowledge gap:', e.message);
+    }
+};
+
+// Answer 400 when a document would expire before it takes effect → whether it did
+const rejectValidity = (res, { effectiveFrom, expiresAt }) => {
+    if (!effectiveFrom || !expiresAt || Date.parse(expiresAt) > Date.parse(effectiveFrom)) return false;
+    sendError(res, 400, 'expiresAt must be after effectiveFrom', { code: 'validation_failed', fields: { expiresAt: 'must be after effectiveFrom' } });
+    return true;
+};
+
+// The history entry a document's current version leaves behind when a new version replaces it
+const versionEntry = (doc) => ({
+    version: doc.version || 1,
+    name: doc.name,
+    filename: doc.filename,
+    size: doc.size,
+    type: doc.type,
+    format: doc.format,
+    uploadedAt: doc.uploadedAt,
+    effectiveFrom: doc.effectiveFrom ?? null,
+    expiresAt: doc.expiresAt ?? null,
+    supersededAt: new Date().toISOString()
+});
+
+// Publish the final status of an ingestion job. A document deleted meanwhile leaves no chunks behind.
+const finishIndexing = async (tenantId, docId, { success, format, error }) => {
+    const config = await configService.get(tenantId);
+    const current = config.documents.find(d => d.id === docId);
+    if (!current) {
+        knowledgeFor(tenantId).removeDocument(docId);
+        return;
+    }
+    Object.assign(current, success ? { status: 'ready', format } : { status: 'error', error });
+    broadcastConfig(tenantId, config);
+    await configService.save(tenantId);
+};
+
+// Extraction and embedding run in a background job queue; progress goes to the tenant's admins.
+// Unfinished jobs are kept in INGESTION_STORE and resume after a restart (see IngestionQueue).
+const ingestion = new IngestionQueue({
+    knowledgeFor,
+    driver: process.env.INGESTION_STORE,
+    firestore,
+    concurrency: Number(process.env.INGESTION_CONCURRENCY) || undefined,
+    batchSize: Number(process.env.INGESTION_BATCH_SIZE) || undefined,
+    maxAttempts: Number(process.env.INGESTION_MAX_ATTEMPTS) || undefined,
+    onProgress: (tenantId, progress) => io.to(adminsRoom(tenantId)).emit('document_progress', progress),
+    onSettled: (tenantId, docId, result) => finishIndexing(tenantId, docId, result)
+        .catch(e => console.error(`[Knowledge] Could not record indexing result (tenant: ${tenantId}):`, e.message))
+});
+
+// Mark documents as processing and queue them for indexing
+const startIndexing = async (tenantId, docs) => {
+    const config = await configService.get(tenantId);
+    for (const doc of docs) {
+        doc.status = 'processing';
+        delete doc.error;
+        delete doc.format;
+    }
+    broadcastConfig(tenantId, config);
+    await configService.save(tenantId);
+    for (const doc of docs) await ingestion.enqueue(tenantId, doc, documentPath(tenantId, doc));
+};
+
+// Delete a document together with its file, any pending ingestion job and its chunks
+const removeDocument = async (tenantId, doc) => {
+    const config = await configService.get(tenantId);
+    for (const file of [doc, ...(doc.versions || []), ...(doc.scheduledVersion ? [doc.scheduledVersion] : [])]) {
+        const filepath = file.filename && documentPath(tenantId, file);
+        if (filepath && fs.existsSync(filepath)) fs.unlinkSync(filepath);
+    }
+    config.documents = config.documents.filter(d => d.id !== doc.id);
+    await ingestion.cancel(tenantId, doc.id);
+    knowledgeFor(tenantId).removeDocument(doc.id);
+    await configService.save(tenantId);
+    broadcastConfig(tenantId, config);
+};
+
+// Make `file` ({ name, filename, size, type, uploadedAt, effectiveFrom, expiresAt }) the current version of a
+// document and index it. The superseded version's file stays with its history entry, and its chunks keep
+// answering searches until the new ones are stored. A version still scheduled is dropped.
+const applyVersion = async (tenantId, doc, file) => {
+    discardScheduledVersion(tenantId, doc);
+    Object.assign(doc, { versions: [...(doc.versions || []), versionEntry(doc)], version: (doc.version || 1) + 1, ...file });
+    await startIndexing(tenantId, [doc]);
+};
+
+const discardScheduledVersion = (tenantId, doc) => {
+    if (!doc.scheduledVersion) return;
+    const filepath = documentPath(tenantId, doc.scheduledVersion);
+    if (fs.existsSync(filepath)) fs.unlinkSync(filepath);
+    delete doc.scheduledVersion;
+};
+
+// Versions uploaded with a later effective date wait in `scheduledVersion`; once the date has come they
+// become current. Checked every SCHEDULE_CHECK_MS.
+const SCHEDULE_CHECK_MS = 60000;
+const promoteScheduledVersions = async () => {
+    for (const { id: tenantId } of await tenantService.listTenants()) {
+        const config = await configService.get(tenantId);
+        const due = config.documents.filter(doc => doc.scheduledVersion && doc.status !== 'processing'
+            && Date.parse(doc.scheduledVersion.effectiveFrom) <= Date.now());
+        for (const doc of due) {
+            const { version, ...file } = doc.scheduledVersion;
+            delete doc.scheduledVersion;
+            await applyVersion(tenantId, doc, file);
+            console.log(`[Knowledge] Document ${doc.id} moved to scheduled version ${doc.version}: ${doc.name} (tenant: ${tenantId})`);
+        }
+    }
+};
+
+// --- Knowledge sources ---
+// Store a synced item in the tenant's uploads and index it, as a new document or as the next version of `doc`
+const saveSourceItem = async (tenantId, doc, { name, type, content, source }) => {
+    const filename = `${Date.now()}-${randomUUID().slice(0, 8)}-${path.basename(name).replace(/[^\w. -]+/g, '_')}`;
+    fs.writeFileSync(path.join(uploadsDirFor(tenantId), filename), content);
+    const file = { name, filename, size: content.length, type, uploadedAt: new Date().toISOString(), source };
+    if (!doc) {
+        doc = { id: randomUUID(), ...file, status: 'processing', chunking: { ...DEFAULT_CHUNKING }, version: 1, effectiveFrom: null, expiresAt: null, versions: [] };
+        (await configService.get(tenantId)).documents.push(doc);
+        await startIndexing(tenantId, [doc]);
+        return doc;
+    }
+    const previousFile = documentPath(tenantId, doc);
+    Object.assign(doc, { versions: [...(doc.versions || []), versionEntry(doc)], version: (doc.version || 1) + 1, ...file });
+    await startIndexing(tenantId, [doc]);
+    if (fs.existsSync(previousFile)) fs.unlinkSync(previousFile);
+    return doc;
+};
+
+const sourceSync = new SourceSync({
+    driver: process.env.KNOWLEDGE_SOURCE_STORE,
+    firestore,
+    folderRoot: process.env.KNOWLEDGE_SOURCE_ROOT,
+    allowPrivateUrls: process.env.KNOWLEDGE_SOURCE_ALLOW_PRIVATE === 'true',
+    library: {
+        documents: async (tenantId) => (await configService.get(tenantId)).documents,
+        save: saveSourceItem,
+        remove: removeDocument
+    },
+    onStatus: (tenantId, source) => io.to(adminsRoom(tenantId)).emit('source_status', source)
+});
+
+/**
+ * Bring a tenant's vector DB in line with the documents its config lists. Chunks of deleted documents
+ * are purged; indexed documents whose upload still exists and documents with an unfinished ingestion job
+ * are listed again (the config is only kept in memory without Firestore); listed documents without chunks
+ * or a job are re-indexed.
+ */
+const reconcileKnowledge = async (tenantId) => {
+    const knowledge = knowledgeFor(tenantId);
+    const config = await configService.get(tenantId);
+    const listed = new Set(config.documents.map(d => d.id));
+    let purged = 0, relisted = 0;
+    // Jobs left over from the previous process resume on their own once the queue starts
+    const queued = new Set();
+    for (const { doc } of await ingestion.pending(tenantId)) {
+        queued.add(doc.id);
+        if (listed.has(doc.id)) continue;
+        config.documents.push({ ...doc, status: 'processing' });
+        listed.add(doc.id);
+        relisted++;
+    }
+    for (const id of knowledge.indexedDocumentIds()) {
+        if (listed.has(id)) continue;
+        const indexed = knowledge.indexedDocument(id);
+        if (indexed?.filename && knowledge.hasChunks(id) && fs.existsSync(documentPath(tenantId, indexed))) {
+            config.documents.push({ ...indexed, status: 'ready' });
+            relisted++;
+        } else {
+            knowledge.removeDocument(id);
+            purged++;
+        }
+    }
+    const unindexed = config.documents.filter(d => d.status !== 'error' && !queued.has(d.id) && !knowledge.hasChunks(d.id));
+    const finished = config.documents.filter(d => d.status === 'processing' && !queued.has(d.id) && knowledge.hasChunks(d.id));
+    finished.forEach(doc => { doc.status = 'ready'; });
+    if (purged || relisted || unindexed.length) {
+        console.log(`[Knowledge] Reconciled tenant ${tenantId}: ${purged} purged, ${relisted} relisted, ${unindexed.length} to re-index`);
+    }
+    if (knowledge.enabled && unindexed.length) return startIndexing(tenantId, unindexed);
+    if (relisted || finished.length) await configService.save(tenantId);
+};
+
+// --- Coaching ---
+// Knowledge for the last line of a transcript and the coaching prompt around both, with the tenant's policies
+// to judge → { prompt, knowledgeContext, query }. A customer line the knowledge base cannot answer is logged as a gap.
+const coachingContext = async (tenantId, transcript, { conversation, agent, customer = null }) => {
+    const transcriptText = transcript
+        .map(m => `${(m.role || m.speaker || 'unknown').toUpperCase()}: ${m.text}`)
+        .join('\n');
+
+    // Knowledge Retrieval
+    const last = transcript[transcript.length - 1];
+    const query = last?.text || '';
+    const config = await configService.get(tenantId);
+    const { coachingPolicies, retrieval, documents } = config;
+    const knowledgeContext = await knowledgeFor(tenantId).search(query, {
+        ...retrieval, filter: effectiveFilter(documents), boosts: await feedbackStore.boosts(tenantId), limit: 2
+    });
+    // Only customer lines are questions the knowledge base should answer
+    if (query.trim() && (last.role || last.speaker) !== 'agent') {
+        await recordGap(tenantId, retrieval, {
+            query, source: 'coaching', results: knowledgeContext, conversation, agent,
+            context: transcript.map(m => ({ role: m.role || m.speaker || 'unknown', text: m.text }))
+        });
+    }
+    const contextString = knowledgeContext.length > 0
+        ? `\n\n--- RELEVANT KNOWLEDGE ---\n${knowledgeContext.map(k => `[From ${[k.docName, ...k.headings].join(' > ')}]: ${k.text}`).join('\n---\n')}\n--- END KNOWLEDGE ---`
+        : '';
+    return {
+        prompt: `${renderSetting(config, 'coachingPrompt', { agent, customer })}${contextString}${policyPrompt(coachingPolicies)}\n\n--- LIVE CONVERSATION ---\n${transcriptText}\n--- END ---`,
+        knowledgeContext,
+        query
+    };
+};
+
+// A live chat or call of the tenant with its agent, customer and stored transcript; null when there is none
+const liveConversation = async (tenantId, { kind, id }) => {
+    if (kind === 'voice') {
+        const session = await conversationStore.getVoiceSession(id);
+        if (!session || tenantOf(session) !== tenantId) return null;
+        return { agent: session.agent, customer: { name: session.callerName }, transcript: session.entries.filter(e => e.text?.trim()).map(e => ({ role: e.speaker, text: e.text })) };
+    }
+    const conv = await conversationStore.getConversation(id);
+    if (!conv || tenantOf(conv) !== tenantId || conv.status !== 'active') return null;
+    return { agent: conv.assignedAgent, customer: conv.customerInfo, transcript: conv.messages.map(m => ({ role: m.role, text: m.text })) };
+};
+
+// An agent works only on the chats assigned to them; supervisors on any chat of their tenant
+const handlesConversation = (user, conv) => conv.assignedAgent?.id === user.id || hasRole(user, 'supervisor');
+
+// A violation of a critical policy flags the conversation for escalation, once, and alerts its agent and the
+// tenant's supervisors
+const flagEscalation = async (tenantId, { kind, id }, breach) => {
+    const record = kind === 'voice' ? await conversationStore.getVoiceSession(id) : await conversationStore.getConversation(id);
+    if (!record || tenantOf(record) !== tenantId || record.escalation) return;
+    const escalation = { policyId: breach.policyId, policyName: breach.name, evidence: breach.evidence, flaggedAt: new Date().toISOString() };
+    if (kind === 'voice') await conversationStore.updateVoiceSession(id, { escalation });
+    else await conversationStore.updateConversation(id, { escalation });
+    console.log(`[Policy] ${kind} ${id} flagged for escalation by "${breach.name}" (tenant: ${tenantId})`);
+    const agent = kind === 'voice' ? record.agent : record.assignedAgent;
+    const rooms = [supervisorsRoom(tenantId), ...(agent ? [userRoom(agent.id)] : [])];
+    io.to(rooms).emit('escalation_flagged', { kind, id, escalation });
+    if (kind === 'chat') await broadcastConversations(tenantId);
+};
+
+// Every new chat message and call line is coached on the server and streamed to the conversation's agent
+const coaching = new CoachingService({
+    llm,
+    load: liveConversation,
+    prepare: coachingContext,
+    review: async (tenantId, ref, result, transcript) => {
+        const { coachingPolicies } = await configService.get(tenantId);
+        const policies = judgePolicies(coachingPolicies, result.policies, transcript);
+        const breach = criticalBreach(policies);
+        if (breach) await flagEscalation(tenantId, ref, breach);
+        return { ...result, policies };
+    },
+    emit: (agent, event, payload) => io.to(userRoom(agent.id)).emit(event, payload)
+});
+
 // --- Socket.IO ---
+io.use(socketAuth(authService));
+io.use(socketTenant(tenantService));
+
 io.on('connection', (socket) => {
-    console.log(`[Socket] Client connected: ${socket.id}`);
+    console.log(`[Socket] Client connected: ${socket.id} (tenant: ${socket.tenantId})`);
+    const { tenantId } = socket;
+    socket.join(tenantRoom(tenantId));
+    if (hasRole(socket.user, 'admin')) socket.join(adminsRoom(tenantId));
+    if (hasRole(socket.user, 'supervisor')) socket.join(supervisorsRoom(tenantId));
+    // Payloads are checked against shared/protocol.js before any handler below sees them
+    socket.use(validateSocketEvents(socket));
+
+    // Conversations and calls are addressed by id, so every lookup is checked against the socket's tenant
+    const ownConversation = async (id) => {
+        const conv = id ? await conversationStore.getConversation(id) : null;
+        return conv && tenantOf(conv) === tenantId ? conv : null;
+    };
+    const inVoiceRoom = (sessionId) => socket.rooms.has(`voice-${sessionId}`);
 
     // Register based on role and optional conversationId
-    socket.on('register', ({ role, conversationId, customerInfo }) => {
-        socket.role = role;
-
-        if (role === 'customer') {
-            if (!conversationId) conversationId = `conv-${Date.now()}`;
+    socket.on('register', asyncListener('register', async ({ role, conversationId, customerInfo }) => {
+        // Only authenticated staff may act as an agent; everyone else is a customer
+        if (role === 'agent' && !socket.user) {
+            socket.emit('auth_error', { error: 'Authentication required' });
+            return;
+        }
+        socket.role = role === 'agent' ? 'agent' : 'customer';
+
+        if (socket.role === 'customer') {
+            let conv = await ownConversation(conversationId);
+            // Unknown ids, and ids that belong to another tenant, start a fresh conversation
+            if (!conv) {
+                if (!conversationId || await conversationStore.getConversation(conversationId)) {
+                    conversationId = `conv-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+                }
+                conv = await conversationStore.createConversation(conversationId, customerInfo, tenantId);
+            }
             socket.conversationId = conversationId;
             socket.join(conversationId);
 
-            if (!conversations[conversationId]) {
-                conversations[conversationId] = {
-                    id: conversationId,
-                    messages: [],
-                    customerInfo: customerInfo || { name: 'Anonymous' },
-                    status: 'waiting',
-                    startTime: new Date().toISOString()
-                };
-            }
-
             // Send history for this specific conversation
-            socket.emit('chat_history', conversations[conversationId].messages);
+            socket.emit('chat_history', conv.messages);
             socket.emit('session_started', { conversationId });
+            if (conv.status === 'active' && conv.assignedAgent) {
+                socket.emit('agent_assigned', { conversationId, agentName: conv.assignedAgent.name });
+            }
 
-            // Notify agents about new/updated conversation
-            io.emit('update_conversations', Object.values(conversations));
+            // Queue the conversation (or re-announce its position) and notify agents
+            await dispatchQueue(tenantId);
 
             // Auto-greeting
-            if (adminConfig.autoGreeting && adminConfig.welcomeMessage && conversations[conversationId].messages.length === 0) {
+            const config = await configService.get(tenantId);
+            if (config.autoGreeting && config.welcomeMessage && conv.messages.length === 0) {
+                // Dispatching may have just assigned an agent, whose name the greeting then carries
+                const { assignedAgent, customerInfo } = await conversationStore.getConversation(conversationId);
                 const welcomeMsg = {
                     id: Date.now().toString(),
                     role: 'agent',
-                    text: adminConfig.welcomeMessage,
+                    text: renderSetting(config, 'welcomeMessage', { agent: assignedAgent, customer: customerInfo }),
                     time: new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
                     conversationId: conversationId
                 };
-                conversations[conversationId].messages.push(welcomeMsg);
+                await conversationStore.appendMessage(conversationId, welcomeMsg);
                 io.to(conversationId).emit('new_message', welcomeMsg);
-                io.emit('update_conversations', Object.values(conversations));
+                await broadcastConversations(tenantId);
+            }
+        } else {
+            socket.join(agentsRoom(tenantId));
+            socket.join(userRoom(socket.user.id));
+            routing.agentConnected(tenantId, socket.user, socket.id);
+            // Rejoin conversations this agent already holds (page reload, second tab)
+            for (const conv of await conversationStore.listConversations(tenantId)) {
+                if (conv.status === 'active' && conv.assignedAgent?.id === socket.user.id) socket.join(conv.id);
             }
-        } else if (role === 'agent') {
-            socket.join('agents');
-            // Send overall list of conversations to agent
-            socket.emit('update_conversations', Object.values(conversations));
+            await dispatchQueue(tenantId);
         }
-    });
+    }));
+
+    const isAssignedToMe = (conv) => !!conv && conv.status === 'active' && conv.assignedAgent?.id === socket.user?.id;
 
-    // Agent joins a specific conversation
-    socket.on('join_conversation', (conversationId) => {
-        if (socket.role === 'agent') {
+    // Agent opens a conversation: their own, or a waiting one which is then claimed
+    socket.on('join_conversation', asyncListener('join_conversation', async (conversationId) => {
+        if (socket.role !== 'agent' || !socket.user) return;
+        const conv = await ownConversation(conversationId);
+        if (!conv) return;
+        if (isAssignedToMe(conv)) {
             socket.join(conversationId);
-            if (conversations[conversationId]) {
-                conversations[conversationId].status = 'active';
-                socket.emit('chat_history', conversations[conversationId].messages);
-                io.emit('update_conversations', Object.values(conversations));
-            }
+            socket.emit('chat_history', conv.messages);
+            socket.emit('whisper_history', { kind: 'chat', id: conversationId, whispers: conv.whispers || [] });
+            // Coaching only follows new messages; an agent opening the chat again needs it for the ones so far
+            if (conv.messages.length) coaching.schedule(tenantId, { kind: 'chat', id: conversationId });
+            return;
         }
-    });
+        await claimConversation(conversationId);
+    }));
+
+    const claimConversation = async (conversationId) => {
+        const { agentCapacity } = await configService.get(tenantId);
+        const { conv, error } = await routing.claim(tenantId, conversationId, socket.user, agentCapacity);
+        if (error) {
+            socket.emit('assignment_error', { conversationId, error });
+            return;
+        }
+        console.log(`[Routing] ${conversationId} claimed by ${socket.user.email}`);
+        notifyAssigned(conv);
+        socket.emit('chat_history', conv.messages);
+        if (conv.messages.length) coaching.schedule(tenantId, { kind: 'chat', id: conversationId });
+        await dispatchQueue(tenantId);
+    };
+
+    socket.on('claim_conversation', asyncListener('claim_conversation', async (conversationId) => {
+        if (socket.role === 'agent' && socket.user) await claimConversation(conversationId);
+    }));
+
+    // Hand a conversation back to the queue; it keeps its place in line but is not routed back to this agent
+    socket.on('release_conversation', asyncListener('release_conversation', async (conversationId) => {
+        if (socket.role !== 'agent' || !isAssignedToMe(await ownConversation(conversationId))) return;
+        withdrawTransfer('chat', conversationId);
+        await routing.release(conversationId, socket.user.id);
+        io.in(userRoom(socket.user.id)).socketsLeave(conversationId);
+        console.log(`[Routing] ${conversationId} released by ${socket.user.email}`);
+        await dispatchQueue(tenantId);
+    }));
+
+    // Agents pause or resume receiving new conversations
+    socket.on('set_availability', asyncListener('set_availability', async ({ available }) => {
+        if (socket.role !== 'agent' || !socket.user) return;
+        routing.setAvailability(socket.user.id, available);
+        await dispatchQueue(tenantId);
+    }));
 
     // A message is sent from either side
-    socket.on('send_message', ({ conversationId, text, role }) => {
-        const targetId = conversationId || socket.conversationId;
-        if (!targetId || !conversations[targetId]) return;
+    socket.on('send_message', asyncListener('send_message', async ({ conversationId, text }) => {
+        // Customers can only write into their own conversation; the role is never taken from the client
+        const targetId = socket.role === 'agent' ? conversationId : socket.conversationId;
+        const conv = await ownConversation(targetId);
+        if (!socket.role || !conv) return;
+        // Only the assigned agent answers a customer
+        if (socket.role === 'agent' && !isAssignedToMe(conv)) return;
 
         const msg = {
             id: Date.now().toString(),
-            role: role || socket.role,
+            role: socket.role,
             text,
             time: new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
             conversationId: targetId
         };
 
-        conversations[targetId].messages.push(msg);
-        io.to(targetId).emit('new_message', msg);
+        if (!await conversationStore.appendMessage(targetId, msg)) return;
+        io.to(targetId).to(monitorRoom('chat', targetId)).emit('new_message', msg);
+        coaching.schedule(tenantId, { kind: 'chat', id: targetId });
 
         // Update agents on the list
-        io.emit('update_conversations', Object.values(conversations));
-    });
+        await broadcastConversations(tenantId);
+    }));
 
-    // Typing indication
-    socket.on('typing', ({ conversationId }) => {
-        const id = conversationId || socket.conversationId;
-        socket.to(id).emit('user_typing', { role: socket.role, conversationId: id });
+    // Typing indication — customers type in their own conversation, agents in one whose room they were let into
+    const typingTarget = (conversationId) => {
+        if (socket.role === 'customer') return socket.conversationId;
+        return socket.role === 'agent' && socket.rooms.has(conversationId) ? conversationId : null;
+    };
+
+    socket.on('typing', ({ conversationId } = {}) => {
+        const id = typingTarget(conversationId);
+        if (id) socket.to(id).emit('user_typing', { role: socket.role, conversationId: id });
     });
 
-    socket.on('stop_typing', ({ conversationId }) => {
-        const id = conversationId || socket.conversationId;
-        socket.to(id).emit('user_stop_typing', { role: socket.role, conversationId: id });
+    socket.on('stop_typing', ({ conversationId } = {}) => {
+        const id = typingTarget(conversationId);
+        if (id) socket.to(id).emit('user_stop_typing', { role: socket.role, conversationId: id });
     });
 
-    socket.on('disconnect', () => {
+    socket.on('disconnect', asyncListener('disconnect', async () => {
         console.log(`[Socket] Client disconnected: ${socket.id}`);
-        // Optional: notify others if needed
-    });
+        // A closed voice console drops out of the transfer list
+        if (socket.data.user) await emitVoiceStatus(tenantId);
+        if (socket.role !== 'agent' || !socket.user) return;
+        // An agent who stays away past the grace period loses their chats back to the queue
+        routing.agentDisconnected(socket.user.id, socket.id, asyncListener('disconnect', async (agent) => {
+            const released = await routing.releaseAll(tenantId, agent.user.id);
+            if (released.length) console.log(`[Routing] ${agent.user.email} went offline — ${released.length} conversation(s) re-queued`);
+            await dispatchQueue(tenantId);
+        }));
+        await emitRoutingStatus(tenantId);
+    }));
 
     // ── Voice session events ──────────────────────────────────────
-    socket.on('voice_start', ({ sessionId, callerName }) => {
+    socket.on('voice_start', asyncListener('voice_start', async ({ sessionId, callerName }) => {
+        const existing = await conversationStore.getVoiceSession(sessionId);
+        // Starting wipes the session's entries: a running call is only restarted by the staff member on it or a supervisor
+        if (existing && (tenantOf(existing) !== tenantId || !socket.user
+            || (existing.agent?.id !== socket.user.id && !hasRole(socket.user, 'supervisor')))) return;
         socket.join(`voice-${sessionId}`);
-        voiceSessions[sessionId] = { entries: [], callerName: callerName || 'Caller' };
+        const agent = socket.user ? { id: socket.user.id, name: socket.user.name, email: socket.user.email } : null;
+        await conversationStore.startVoiceSession(sessionId, callerName, tenantId, agent);
         console.log(`[Voice] Session started: ${sessionId} — caller: ${callerName}`);
-    });
+        await emitVoiceStatus(tenantId);
+    }));
 
     // Customer joins an existing session
-    socket.on('voice_join', ({ sessionId }) => {
+    socket.on('voice_join', asyncListener('voice_join', async ({ sessionId }) => {
+        const session = await conversationStore.getVoiceSession(sessionId);
+        if (session && tenantOf(session) !== tenantId) return;
         socket.join(`voice-${sessionId}`);
-        const session = voiceSessions[sessionId];
         if (session) {
             socket.emit('voice_history', session.entries);
             console.log(`[Voice] Customer joined session: ${sessionId} (${session.entries.length} entries)`);
         }
-    });
+    }));
 
-    socket.on('voice_transcript', ({ sessionId, entry }) => {
-        if (voiceSessions[sessionId]) {
-            voiceSessions[sessionId].entries.push(entry);
-        }
+    socket.on('voice_transcript', asyncListener('voice_transcript', async ({ sessionId, entry }) => {
+        if (!inVoiceRoom(sessionId)) return;
         // Broadcast ONLY to the other participants — not back to sender (sender already added locally)
-        socket.to(`voice-${sessionId}`).emit('voice_new_entry', { sessionId, entry });
-    });
-
-    socket.on('voice_end', ({ sessionId }) => {
-        socket.to(`voice-${sessionId}`).emit('voice_session_ended', { sessionId });
-        delete voiceSessions[sessionId];
+        socket.to(`voice-${sessionId}`).to(monitorRoom('voice', sessionId)).emit('voice_new_entry', { sessionId, entry });
+        await conversationStore.appendVoiceEntry(sessionId, entry);
+        coaching.schedule(tenantId, { kind: 'voice', id: sessionId });
+    }));
+
+    socket.on('voice_end', asyncListener('voice_end', async ({ sessionId }) => {
+        if (!inVoiceRoom(sessionId)) return;
+        socket.to(`voice-${sessionId}`).to(monitorRoom('voice', sessionId)).emit('voice_session_ended', { sessionId });
+        withdrawTransfer('voice', sessionId);
+        coaching.cancel({ kind: 'voice', id: sessionId });
+        await conversationStore.endVoiceSession(sessionId);
         console.log(`[Voice] Session ended: ${sessionId}`);
-    });
+        await emitVoiceStatus(tenantId);
+    }));
 
     // ── WebRTC Signaling ──────────────────────────────────────────
     socket.on('voice_webrtc_offer', ({ sessionId, offer }) => {
+        if (!inVoiceRoom(sessionId)) return;
         socket.to(`voice-${sessionId}`).emit('voice_webrtc_offer', { sessionId, offer });
     });
 
     socket.on('voice_webrtc_answer', ({ sessionId, answer }) => {
+        if (!inVoiceRoom(sessionId)) return;
         socket.to(`voice-${sessionId}`).emit('voice_webrtc_answer', { sessionId, answer });
     });
 
     socket.on('voice_webrtc_ice_candidate', ({ sessionId, candidate }) => {
+        if (!inVoiceRoom(sessionId)) return;
         socket.to(`voice-${sessionId}`).emit('voice_webrtc_ice_candidate', { sessionId, candidate });
     });
 
     socket.on('voice_request_offer', ({ sessionId }) => {
+        if (!inVoiceRoom(sessionId)) return;
         socket.to(`voice-${sessionId}`).emit('voice_request_offer', { sessionId });
     });
+
+    // ── Transfers & supervision ───────────────────────────────────
+    // Chats and calls are both addressed as { kind: 'chat' | 'voice', id }
+    const isSupervisor = () => hasRole(socket.user, 'supervisor');
+    const transferError = (kind, id, error) => socket.emit('transfer_error', { kind, id, error });
+
+    // Staff open the voice console to receive call transfers and see live calls
+    socket.on('voice_console', asyncListener('voice_console', async () => {
+        if (!socket.user) return;
+        socket.data.user = { id: socket.user.id, name: socket.user.name, email: socket.user.email };
+        socket.join(voiceConsolesRoom(tenantId));
+        socket.join(userRoom(socket.user.id));
+        await emitVoiceStatus(tenantId);
+    }));
+
+    // Chats go to an online agent with a free slot; calls to a colleague on the voice console who is not on a call
+    const transferTarget = async (kind, agentId) => {
+        if (kind === 'chat') {
+            const user = routing.onlineAgent(tenantId, agentId);
+            if (!user) return { error: 'That agent is not online' };
+            const { agentCapacity } = await configService.get(tenantId);
+            if (await routing.load(tenantId, user.id) >= agentCapacity) return { error: `${user.name} is at capacity (${agentCapacity} chats)` };
+            return { user };
+        }
+        const user = (await voiceConsoleUsers(tenantId)).find(u => u.id === agentId);
+        if (!user) return { error: 'That agent does not have the voice console open' };
+        if (await onCall(tenantId, user.id)) return { error: `${user.name} is on another call` };
+        return { user };
+    };
+
+    socket.on('transfer_request', asyncListener('transfer_request', async ({ kind, id, toAgentId, mode, note }) => {
+        if (!socket.user) return;
+        const target = await transferTarget(kind, toAgentId);
+        if (target.error) return transferError(kind, id, target.error);
+        const { transfer, record, error } = await transfers.request(tenantId, { kind, id, from: socket.user, to: target.user, mode, note },
+            (expired) => emitTransferUpdate(expired, 'expired'));
+        if (error) return transferError(kind, id, error);
+        if (record) return announceHandoff(transfer, record);
+        const { timer, ...details } = transfer;
+        io.to(userRoom(transfer.to.id)).emit('transfer_offered', details);
+        emitTransferUpdate(transfer, 'pending');
+    }));
+
+    socket.on('transfer_accept', asyncListener('transfer_accept', async ({ transferId }) => {
+        if (!socket.user) return;
+        const { transfer, record, error } = await transfers.accept(transferId, socket.user);
+        if (error) {
+            if (transfer) emitTransferUpdate(transfer, 'cancelled');
+            return transferError(transfer?.kind, transfer?.targetId, error);
+        }
+        await announceHandoff(transfer, record);
+    }));
+
+    // The receiving agent declines, or the sending agent withdraws the offer
+    socket.on('transfer_decline', ({ transferId }) => {
+        if (!socket.user) return;
+        const transfer = transfers.settle(transferId, socket.user);
+        if (transfer) emitTransferUpdate(transfer, transfer.from.id === socket.user.id ? 'cancelled' : 'declined');
+    });
+
+    // Silent monitoring: the supervisor gets the history now and every new message or transcript line after it
+    socket.on('monitor_start', asyncListener('monitor_start', async ({ kind, id }) => {
+        if (!isSupervisor()) return;
+        const record = await transfers.find(tenantId, kind, id);
+        if (!record) return;
+        socket.join(monitorRoom(kind, id));
+        if (kind === 'chat') socket.emit('chat_history', record.messages);
+        else socket.emit('voice_history', record.entries);
+        socket.emit('whisper_history', { kind, id, whispers: record.whispers || [] });
+        console.log(`[Supervision] ${socket.user.email} monitoring ${kind} ${id}`);
+    }));
+
+    socket.on('monitor_stop', ({ kind, id }) => {
+        socket.leave(monitorRoom(kind, id));
+    });
+
+    // Whisper: only the handling agent and other supervisors listening in receive it
+    socket.on('whisper', asyncListener('whisper', async ({ kind, id, text }) => {
+        if (!isSupervisor()) return;
+        const result = await transfers.whisper(tenantId, kind, id, socket.user, text);
+        if (!result) return;
+        const recipients = result.owner ? io.to(monitorRoom(kind, id)).to(userRoom(result.owner.id)) : io.to(monitorRoom(kind, id));
+        recipients.emit('whisper', { kind, id, whisper: result.whisper });
+    }));
+
+    // Barge-in: the supervisor becomes the handling agent
+    socket.on('take_over', asyncListener('take_over', async ({ kind, id }) => {
+        if (!isSupervisor()) return;
+        if (kind === 'voice' && await onCall(tenantId, socket.user.id)) return transferError(kind, id, 'Finish your current call first');
+        withdrawTransfer(kind, id);
+        const { transfer, record, error } = await transfers.takeOver(tenantId, kind, id, socket.user);
+        if (error) return transferError(kind, id, error);
+        socket.leave(monitorRoom(kind, id));
+        await announceHandoff(transfer, record);
+    }));
+
 });
 
 // --- REST Endpoints ---
-app.post('/api/tts', async (req, res) => {
+// Every API request is pinned to a tenant before it reaches a route
+app.use('/api', resolveTenant({ tenantService, authService }));
+
+app.post('/api/tts', requireAgent, validate(schemas.tts), asyncHandler(async (req, res) => {
     try {
         const { text, speaker = 'agent' } = req.body;
-        if (!text) {
-            return res.status(400).json({ error: 'Text is required' });
-        }
 
         if (!ttsClient) {
             console.warn('[TTS] Request received but ttsClient is null. Returning mock/error.');
@@ -447,11 +1001,11 @@ app.post('/api/tts', async (req, res) => {
         res.json({ audioContent: response.audioContent.toString('base64') });
     } catch (error) {
         console.error('TTS Error:', error);
-        res.status(500).json({ error: 'Failed to synthesize speech' });
+        sendError(res, 500, 'Failed to synthesize speech');
     }
-});
+}));
 
-app.post('/api/conversations', async (req, res) => {
+app.post('/api/conversations', validate(schemas.createDialogflowConversation), asyncHandler(async (req, res) => {
     try {
         const { customerId } = req.body;
         const conversationId = `mock-${Date.now()}`;
@@ -460,60 +1014,147 @@ app.post('/api/conversations', async (req, res) => {
         });
     } catch (error) {
         console.error('Error creating conversation:', error);
-        res.status(500).json({ error: 'Failed to create conversation' });
+        sendError(res, 500, 'Failed to create conversation');
     }
+}));
+
+// --- Auth API ---
+app.post('/api/auth/login', validate(schemas.login), asyncHandler(async (req, res) => {
+    const { email, password } = req.body;
+    const session = await authService.login(email, password);
+    if (!session) return sendError(res, 401, 'Invalid email or password');
+    console.log(`[Auth] Signed in: ${session.user.email}`);
+    res.json({ success: true, ...session });
+}));
+
+app.get('/api/auth/me', requireAgent, (req, res) => {
+    res.json({ user: req.user });
 });
 
+// Branding needed by the anonymous customer pages
+// `aiCoaching` tells the consoles whether the server coaches conversations or they must coach offline
+app.get('/api/config/public', asyncHandler(async (req, res) => {
+    const { companyName, agentName, language, enableTypingIndicator } = await configService.get(req.tenantId);
+    res.json({ companyName, agentName, language, enableTypingIndicator, aiCoaching: Boolean(llm) });
+}));
+
 // --- Admin API ---
+// Every /api/admin route needs a signed-in user; individual routes raise the bar further.
+app.use('/api/admin', requireAgent);
+
+// Current tenant — staff need its API key to share customer links
+app.get('/api/admin/tenant', asyncHandler(async (req, res) => {
+    const tenant = await tenantService.getTenant(req.tenantId);
+    if (!tenant) return sendError(res, 404, 'Tenant not found');
+    res.json(tenant);
+}));
 
 // Get full admin config
-app.get('/api/admin/config', (req, res) => {
-    res.json(adminConfig);
-});
+app.get('/api/admin/config', asyncHandler(async (req, res) => {
+    res.json(await configService.get(req.tenantId));
+}));
 
-// Update general settings
-app.put('/api/admin/config', async (req, res) => {
-    const { systemPrompt, companyName, agentName, welcomeMessage, maxResponseTime, autoGreeting, enableTTS, enableTypingIndicator, language, tone, summaryPrompt, coachingPrompt } = req.body;
-    adminConfig = { ...adminConfig, systemPrompt, companyName, agentName, welcomeMessage, maxResponseTime, autoGreeting, enableTTS, enableTypingIndicator, language, tone, summaryPrompt, coachingPrompt };
-    io.emit('config_updated', adminConfig);
-    await saveConfigToFirestore(adminConfig);
-    console.log('[Admin] Config updated and saved to Firestore');
-    res.json({ success: true, config: adminConfig });
+// Update general settings — PUT sends every editable field, PATCH only the ones that change.
+// Either way validate() has reduced the body to those settings, so nothing else in the config can be overwritten.
+const updateConfig = asyncHandler(async (req, res) => {
+    // The welcome message and prompts must only use known {{variables}} (shared/template.js)
+    const fields = Object.fromEntries(TEMPLATE_FIELDS
+        .filter(field => typeof req.body[field] === 'string')
+        .map(field => [field, templateError(req.body[field])])
+        .filter(([, error]) => error));
+    if (Object.keys(fields).length) return sendError(res, 400, describeErrors(fields), { code: 'validation_failed', fields });
+    const current = await configService.get(req.tenantId);
+    const config = await configService.set(req.tenantId,
+        { ...current, ...req.body },
+        { author: req.user, action: 'config.update' });
+    broadcastConfig(req.tenantId, config);
+    console.log(`[Admin] Config updated (tenant: ${req.tenantId}): ${Object.keys(req.body).join(', ') || 'no changes'}`);
+    // Capacity or auto-assign may have changed
+    await dispatchQueue(req.tenantId);
+    res.json({ success: true, config });
 });
+app.put('/api/admin/config', requireAdmin, validate(schemas.replaceConfig), updateConfig);
+app.patch('/api/admin/config', requireAdmin, validate(schemas.updateConfig), updateConfig);
 
 // Coaching Policies CRUD
-app.get('/api/admin/policies', (req, res) => {
-    res.json(adminConfig.coachingPolicies);
-});
+app.get('/api/admin/policies', requireAdmin, asyncHandler(async (req, res) => {
+    res.json((await configService.get(req.tenantId)).coachingPolicies);
+}));
 
-app.post('/api/admin/policies', async (req, res) => {
-    const policy = { id: Date.now().toString(), ...req.body };
-    adminConfig.coachingPolicies.push(policy);
-    io.emit('config_updated', adminConfig);
-    await saveConfigToFirestore(adminConfig);
+app.post('/api/admin/policies', requireAdmin, validate(schemas.createPolicy), asyncHandler(async (req, res) => {
+    const current = await configService.get(req.tenantId);
+    const policy = { id: Date.now().toString(), description: '', enabled: true, priority: 'medium', ...req.body };
+    const config = await configService.set(req.tenantId,
+        { ...current, coachingPolicies: [...current.coachingPolicies, policy] },
+        { author: req.user, action: 'policy.create' });
+    broadcastConfig(req.tenantId, config);
     console.log(`[Admin] Policy added: ${policy.name}`);
     res.json({ success: true, policy });
-});
+}));
 
-app.put('/api/admin/policies/:id', async (req, res) => {
-    const idx = adminConfig.coachingPolicies.findIndex(p => p.id === req.params.id);
-    if (idx === -1) return res.status(404).json({ error: 'Policy not found' });
-    adminConfig.coachingPolicies[idx] = { ...adminConfig.coachingPolicies[idx], ...req.body };
-    io.emit('config_updated', adminConfig);
-    await saveConfigToFirestore(adminConfig);
-    res.json({ success: true, policy: adminConfig.coachingPolicies[idx] });
+// PUT replaces the policy's name, description, enabled flag and priority; PATCH changes only the fields sent
+const updatePolicy = asyncHandler(async (req, res) => {
+    const current = await configService.get(req.tenantId);
+    const existing = current.coachingPolicies.find(p => p.id === req.params.id);
+    if (!existing) return sendError(res, 404, 'Policy not found');
+    const policy = { ...existing, ...req.body };
+    const config = await configService.set(req.tenantId,
+        { ...current, coachingPolicies: current.coachingPolicies.map(p => p.id === policy.id ? policy : p) },
+        { author: req.user, action: 'policy.update' });
+    broadcastConfig(req.tenantId, config);
+    res.json({ success: true, policy });
 });
-
-app.delete('/api/admin/policies/:id', async (req, res) => {
-    adminConfig.coachingPolicies = adminConfig.coachingPolicies.filter(p => p.id !== req.params.id);
-    io.emit('config_updated', adminConfig);
-    await saveConfigToFirestore(adminConfig);
+app.put('/api/admin/policies/:id', requireAdmin, validate(schemas.replacePolicy), updatePolicy);
+app.patch('/api/admin/policies/:id', requireAdmin, validate(schemas.updatePolicy), updatePolicy);
+
+app.delete('/api/admin/policies/:id', requireAdmin, asyncHandler(async (req, res) => {
+    const current = await configService.get(req.tenantId);
+    if (!current.coachingPolicies.some(p => p.id === req.params.id)) return sendError(res, 404, 'Policy not found');
+    const config = await configService.set(req.tenantId,
+        { ...current, coachingPolicies: current.coachingPolicies.filter(p => p.id !== req.params.id) },
+        { author: req.user, action: 'policy.delete' });
+    broadcastConfig(req.tenantId, config);
     res.json({ success: true });
-});
+}));
+
+// Config revision history — every config and policy save above appends one
+const revisionSummary = ({ config, ...revision }) => revision;
+
+app.get('/api/admin/config/revisions', requireAdmin, asyncHandler(async (req, res) => {
+    res.json((await configService.listRevisions(req.tenantId)).map(revisionSummary));
+}));
+
+app.get('/api/admin/config/revisions/:id', requireAdmin, asyncHandler(async (req, res) => {
+    const revision = await configService.getRevision(req.tenantId, req.params.id);
+    if (!revision) return sendError(res, 404, 'Revision not found');
+    res.json(revision);
+}));
+
+// Diff against ?against=<revisionId>, or the previous revision by default
+app.get('/api/admin/config/revisions/:id/diff', requireAdmin, validate(schemas.revisionDiff), asyncHandler(async (req, res) => {
+    const diff = await configService.diffRevisions(req.tenantId, req.params.id, req.query.against);
+    if (!diff) return sendError(res, 404, 'Revision not found');
+    res.json(diff);
+}));
+
+app.post('/api/admin/config/revisions/:id/restore', requireAdmin, asyncHandler(async (req, res) => {
+    const config = await configService.restoreRevision(req.tenantId, req.params.id, req.user);
+    if (!config) return sendError(res, 404, 'Revision not found');
+    broadcastConfig(req.tenantId, config);
+    console.log(`[Admin] Config restored to ${req.params.id} by ${req.user.email}`);
+    res.json({ success: true, config });
+}));
+
+// Multipart forms cannot send null: an empty date field clears the date
+const blankDates = (req, res, next) => {
+    for (const field of ['effectiveFrom', 'expiresAt']) if (req.body?.[field] === '') req.body[field] = null;
+    next();
+};
 
 // Document upload
-app.post('/api/admin/documents', upload.single('file'), async (req, res) => {
-    if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+app.post('/api/admin/documents', requireAdmin, upload.single('file'), discardFailedUpload, blankDates, validate(schemas.uploadDocument), asyncHandler(async (req, res) => {
+    if (!req.file) return sendError(res, 400, 'No file uploaded', { code: 'validation_failed', fields: { file: 'is required' } });
+    if (rejectValidity(res, req.body)) return;
     const doc = {
         id: Date.now().toString(),
         name: req.file.originalname,
@@ -521,68 +1162,304 @@ app.post('/api/admin/documents', upload.single('file'), async (req, res) => {
         size: req.file.size,
         type: req.file.mimetype,
         uploadedAt: new Date().toISOString(),
-        status: 'processed'
+        status: 'processing',
+        chunking: { ...DEFAULT_CHUNKING },
+        version: 1,
+        effectiveFrom: req.body.effectiveFrom ?? null,
+        expiresAt: req.body.expiresAt ?? null,
+        versions: []
     };
-    adminConfig.documents.push(doc);
-    console.log(`[Admin] Document uploaded: ${doc.name}`);
-    await saveConfigToFirestore(adminConfig);
+    const { tenantId } = req;
+    (await configService.get(tenantId)).documents.push(doc);
+    console.log(`[Admin] Document uploaded: ${doc.name} (tenant: ${tenantId})`);
 
     // Process document for Knowledge Assist (background)
-    knowledgeService.processDocument(doc, req.file.path).then(async success => {
-        const d = adminConfig.documents.find(item => item.id === doc.id);
-        if (d) d.status = success ? 'ready' : 'error';
-        io.emit('config_updated', adminConfig);
-        await saveConfigToFirestore(adminConfig);
-    });
+    await startIndexing(tenantId, [doc]);
 
     res.json({ success: true, document: doc });
-});
+}));
 
-app.get('/api/admin/documents', (req, res) => {
-    res.json(adminConfig.documents);
-});
+app.get('/api/admin/documents', requireAdmin, asyncHandler(async (req, res) => {
+    res.json((await configService.get(req.tenantId)).documents);
+}));
 
-app.delete('/api/admin/documents/:id', async (req, res) => {
-    const doc = adminConfig.documents.find(d => d.id === req.params.id);
-    if (doc) {
-        const filepath = path.join(uploadsDir, doc.filename);
-        if (fs.existsSync(filepath)) fs.unlinkSync(filepath);
-        adminConfig.documents = adminConfig.documents.filter(d => d.id !== req.params.id);
-        await saveConfigToFirestore(adminConfig);
+app.patch('/api/admin/documents/:id', requireAdmin, validate(schemas.updateDocument), asyncHandler(async (req, res) => {
+    const config = await configService.get(req.tenantId);
+    const doc = config.documents.find(d => d.id === req.params.id);
+    if (!doc) return sendError(res, 404, 'Document not found');
+    const { chunking: changes, ...dates } = req.body;
+    const validity = { effectiveFrom: doc.effectiveFrom ?? null, expiresAt: doc.expiresAt ?? null, ...dates };
+    if (rejectValidity(res, validity)) return;
+    if (!changes) {
+        Object.assign(doc, validity);
+        broadcastConfig(req.tenantId, config);
+        await configService.save(req.tenantId);
+        return res.json({ success: true, document: doc });
+    }
+    if (doc.status === 'processing') return sendError(res, 409, 'Document is already being indexed');
+    const chunking = { ...DEFAULT_CHUNKING, ...doc.chunking, ...changes };
+    if (chunking.overlap >= chunking.size) {
+        return sendError(res, 400, 'chunking.overlap must be smaller than chunking.size', { code: 'validation_failed', fields: { 'chunking.overlap': 'must be smaller than chunking.size' } });
+    }
+    Object.assign(doc, validity, { chunking });
+    await startIndexing(req.tenantId, [doc]);
+    res.json({ success: true, document: doc });
+}));
+
+// Upload a new version of a document. Dates left out carry over from the current version. A version that takes
+// effect later, while the current one is in effect, waits as `scheduledVersion` and the current version keeps
+// answering searches until then; any other version supersedes the current one at once, which moves to the
+// version history (its chunks answer until the new version is indexed).
+app.post('/api/admin/documents/:id/versions', requireAdmin, upload.single('file'), discardFailedUpload, blankDates, validate(schemas.uploadDocument), asyncHandler(async (req, res) => {
+    if (!req.file) return sendError(res, 400, 'No file uploaded', { code: 'validation_failed', fields: { file: 'is required' } });
+    const { tenantId } = req;
+    const config = await configService.get(tenantId);
+    const doc = config.documents.find(d => d.id === req.params.id);
+    if (!doc) return sendError(res, 404, 'Document not found');
+    if (doc.status === 'processing') return sendError(res, 409, 'Document is still being indexed');
+    const { effectiveFrom = doc.effectiveFrom ?? null, expiresAt = doc.expiresAt ?? null } = req.body;
+    if (rejectValidity(res, { effectiveFrom, expiresAt })) return;
+    const file = {
+        name: req.file.originalname,
+        filename: req.file.filename,
+        size: req.file.size,
+        type: req.file.mimetype,
+        uploadedAt: new Date().toISOString(),
+        effectiveFrom,
+        expiresAt
+    };
+    if (isInEffect(doc) && effectiveFrom && Date.parse(effectiveFrom) > Date.now()) {
+        discardScheduledVersion(tenantId, doc);
+        doc.scheduledVersion = { version: (doc.version || 1) + 1, ...file };
+        broadcastConfig(tenantId, config);
+        await configService.save(tenantId);
+        console.log(`[Admin] Document ${doc.id} version ${doc.scheduledVersion.version} scheduled for ${effectiveFrom}: ${file.name} (tenant: ${tenantId})`);
+        return res.json({ success: true, document: doc });
     }
+    await applyVersion(tenantId, doc, file);
+    console.log(`[Admin] Document ${doc.id} updated to version ${doc.version}: ${doc.name} (tenant: ${tenantId})`);
+    res.json({ success: true, document: doc });
+}));
+
+// Which snippets and documents agents found most and least useful
+app.get('/api/admin/knowledge/feedback', requireAdmin, validate(schemas.knowledgeFeedbackReport), asyncHandler(async (req, res) => {
+    res.json(await feedbackStore.report(req.tenantId, { limit: req.query.limit }));
+}));
+
+// Recurring questions the knowledge base could not answer, and marking them answered once an article covers them
+app.get('/api/admin/knowledge/gaps', requireAdmin, validate(schemas.knowledgeGapReport), asyncHandler(async (req, res) => {
+    res.json(await gapStore.report(req.tenantId, req.query));
+}));
+
+app.post('/api/admin/knowledge/gaps/resolve', requireAdmin, validate(schemas.resolveKnowledgeGaps), asyncHandler(async (req, res) => {
+    res.json({ success: true, resolved: await gapStore.resolve(req.tenantId, req.body.ids) });
+}));
+
+app.delete('/api/admin/documents/:id', requireAdmin, asyncHandler(async (req, res) => {
+    const doc = (await configService.get(req.tenantId)).documents.find(d => d.id === req.params.id);
+    if (!doc) return sendError(res, 404, 'Document not found');
+    await removeDocument(req.tenantId, doc);
     res.json({ success: true });
-});
+}));
+
+// Rebuild the chunks of every document from its uploaded file — documents already being indexed are skipped
+app.post('/api/admin/documents/reindex', requireAdmin, asyncHandler(async (req, res) => {
+    if (!knowledgeFor(req.tenantId).enabled) return sendError(res, 503, 'AI provider not configured');
+    const config = await configService.get(req.tenantId);
+    await startIndexing(req.tenantId, config.documents.filter(d => d.status !== 'processing'));
+    res.json({ success: true, documents: config.documents });
+}));
+
+app.post('/api/admin/documents/:id/reindex', requireAdmin, asyncHandler(async (req, res) => {
+    if (!knowledgeFor(req.tenantId).enabled) return sendError(res, 503, 'AI provider not configured');
+    const doc = (await configService.get(req.tenantId)).documents.find(d => d.id === req.params.id);
+    if (!doc) return sendError(res, 404, 'Document not found');
+    if (doc.status === 'processing') return sendError(res, 409, 'Document is already being indexed');
+    await startIndexing(req.tenantId, [doc]);
+    res.json({ success: true, document: doc });
+}));
+
+// Knowledge sources — folders and web pages synced into the knowledge base. A sync runs in the background;
+// its progress reaches the tenant's admins as source_status events.
+const startSync = (tenantId, source) => {
+    sourceSync.sync(tenantId, source.id).catch(e => console.error(`[Sources] Sync of "${source.name}" failed:`, e.message));
+    return { ...source, status: 'syncing', lastError: null };
+};
+
+app.get('/api/admin/sources', requireAdmin, asyncHandler(async (req, res) => {
+    res.json(await sourceSync.list(req.tenantId));
+}));
+
+app.post('/api/admin/sources', requireAdmin, validate(schemas.createSource), asyncHandler(async (req, res) => {
+    let source;
+    try {
+        source = await sourceSync.create(req.tenantId, req.body);
+    } catch (e) {
+        return sendError(res, 400, e.message);
+    }
+    console.log(`[Admin] Knowledge source added: ${source.name} (tenant: ${req.tenantId})`);
+    res.json({ success: true, source: startSync(req.tenantId, source) });
+}));
+
+app.patch('/api/admin/sources/:id', requireAdmin, validate(schemas.updateSource), asyncHandler(async (req, res) => {
+    try {
+        const source = await sourceSync.update(req.tenantId, req.params.id, req.body);
+        if (!source) return sendError(res, 404, 'Source not found');
+        res.json({ success: true, source });
+    } catch (e) {
+        sendError(res, 400, e.message);
+    }
+}));
+
+// Deleting a source also deletes the documents it synced
+app.delete('/api/admin/sources/:id', requireAdmin, asyncHandler(async (req, res) => {
+    if (sourceSync.isSyncing(req.params.id)) return sendError(res, 409, 'Source is syncing — try again when it finishes');
+    if (!await sourceSync.remove(req.tenantId, req.params.id)) return sendError(res, 404, 'Source not found');
+    res.json({ success: true });
+}));
+
+app.post('/api/admin/sources/:id/sync', requireAdmin, asyncHandler(async (req, res) => {
+    const source = await sourceSync.get(req.tenantId, req.params.id);
+    if (!source) return sendError(res, 404, 'Source not found');
+    if (sourceSync.isSyncing(source.id)) return sendError(res, 409, 'Source is already syncing');
+    res.json({ success: true, source: startSync(req.tenantId, source) });
+}));
+
+// User management
+app.get('/api/admin/users', requireAdmin, asyncHandler(async (req, res) => {
+    res.json(await authService.listUsers(req.tenantId));
+}));
+
+app.post('/api/admin/users', requireAdmin, validate(schemas.createUser), asyncHandler(async (req, res) => {
+    if (await authService.findByEmail(req.body.email)) {
+        return sendError(res, 409, 'A user with this email already exists', { fields: { email: 'is already in use' } });
+    }
+    try {
+        const user = await authService.createUser({ ...req.body, tenantId: req.tenantId });
+        res.json({ success: true, user });
+    } catch (e) {
+        sendError(res, 400, e.message);
+    }
+}));
+
+app.delete('/api/admin/users/:id', requireAdmin, asyncHandler(async (req, res) => {
+    if (req.params.id === req.user.id) return sendError(res, 400, 'You cannot delete your own account');
+    const user = await authService.getUser(req.params.id);
+    if (!user || tenantOf(user) !== req.tenantId) return sendError(res, 404, 'User not found');
+    await authService.deleteUser(req.params.id);
+    console.log(`[Admin] User deleted: ${req.params.id}`);
+    res.json({ success: true });
+}));
+
+// Tenant management (platform admins only)
+app.get('/api/admin/tenants', requirePlatformAdmin, asyncHandler(async (req, res) => {
+    res.json(await tenantService.listTenants());
+}));
+
+// Creates the tenant together with its first admin account
+app.post('/api/admin/tenants', requirePlatformAdmin, validate(schemas.createTenant), asyncHandler(async (req, res) => {
+    const { id, name, hostnames = [], adminEmail, adminPassword } = req.body;
+    if (await authService.findByEmail(adminEmail)) {
+        return sendError(res, 409, 'A user with this email already exists', { fields: { adminEmail: 'is already in use' } });
+    }
+    try {
+        const tenant = await tenantService.createTenant({ id, name, hostnames });
+        const admin = await authService.createUser({ email: adminEmail, name: `${name} Admin`, password: adminPassword, role: 'admin', tenantId: tenant.id });
+        res.json({ success: true, tenant, admin });
+    } catch (e) {
+        sendError(res, 400, e.message);
+    }
+}));
+
+// Everything a deleted tenant leaves behind: accounts, conversations, config and its history, knowledge
+// (documents, chunks, uploaded files, sync sources and pending indexing), feedback, gaps and transcripts
+const purgeTenant = async (tenantId) => {
+    await authService.deleteTenantUsers(tenantId);
+    await conversationStore.clearConversations(tenantId);
+    await conversationStore.clearVoiceSessions(tenantId);
+    await transcriptStore.deleteTenantTranscripts(tenantId);
+    await sourceSync.deleteTenantSources(tenantId);
+    await ingestion.cancelTenant(tenantId);
+    await configService.deleteTenantConfig(tenantId);
+    await feedbackStore.deleteTenantFeedback(tenantId);
+    await gapStore.deleteTenantGaps(tenantId);
+    knowledgeServices.delete(tenantId);
+    fs.rmSync(path.join(DATA_DIR, 'tenants', tenantId), { recursive: true, force: true });
+    fs.rmSync(path.join(uploadsDir, 'tenants', tenantId), { recursive: true, force: true });
+};
+
+app.delete('/api/admin/tenants/:id', requirePlatformAdmin, asyncHandler(async (req, res) => {
+    try {
+        const tenantId = req.params.id;
+        if (!await tenantService.deleteTenant(tenantId)) return sendError(res, 404, 'Tenant not found');
+        io.in(tenantRoom(tenantId)).disconnectSockets();
+        await purgeTenant(tenantId);
+        console.log(`[Admin] Tenant deleted: ${req.params.id}`);
+        res.json({ success: true });
+    } catch (e) {
+        sendError(res, 400, e.message);
+    }
+}));
+
+// Queue priority — supervisors can move a waiting customer ahead
+app.put('/api/admin/conversations/:id/priority', requireSupervisor, validate(schemas.setConversationPriority), asyncHandler(async (req, res) => {
+    const conv = await routing.setPriority(req.tenantId, req.params.id, req.body.priority);
+    if (!conv) return sendError(res, 404, 'Conversation not found');
+    await dispatchQueue(req.tenantId);
+    res.json({ success: true, conversation: conv });
+}));
+
+// Transcript history — finished chats and calls with their summaries
+app.get('/api/admin/transcripts', requireSupervisor, validate(schemas.listTranscripts), asyncHandler(async (req, res) => {
+    res.json(await transcriptStore.list(req.tenantId, req.query));
+}));
+
+app.get('/api/admin/transcripts/:id', requireSupervisor, asyncHandler(async (req, res) => {
+    const transcript = await transcriptStore.get(req.tenantId, req.params.id);
+    if (!transcript) return sendError(res, 404, 'Transcript not found');
+    res.json(transcript);
+}));
 
 // Clear chat history
-app.delete('/api/admin/chat-history', (req, res) => {
+app.delete('/api/admin/chat-history', validate(schemas.clearChatHistory), asyncHandler(async (req, res) => {
     const { conversationId } = req.body;
-    if (conversationId && conversations[conversationId]) {
-        conversations[conversationId].messages = [];
+    // Agents may clear a single conversation; wiping every conversation needs a supervisor
+    if (!conversationId && !hasRole(req.user, 'supervisor')) {
+        return sendError(res, 403, 'Insufficient permissions');
+    }
+    if (conversationId) {
+        const conv = await conversationStore.getConversation(conversationId);
+        if (!conv || tenantOf(conv) !== req.tenantId) return sendError(res, 404, 'Conversation not found');
+        if (!handlesConversation(req.user, conv)) return sendError(res, 403, 'Conversation is assigned to another agent');
+        await conversationStore.clearMessages(conversationId);
         io.to(conversationId).emit('chat_history', []);
     } else {
-        conversations = {};
-        io.emit('chat_history', []);
+        await conversationStore.clearConversations(req.tenantId);
+        io.to(tenantRoom(req.tenantId)).emit('chat_history', []);
     }
-    io.emit('update_conversations', Object.values(conversations));
+    await broadcastConversations(req.tenantId);
     res.json({ success: true });
-});
+}));
 
-// Generate conversation summary using Gemini
-app.post('/api/admin/generate-summary', async (req, res) => {
+// Generate conversation summary with the AI provider
+app.post('/api/admin/generate-summary', validate(schemas.generateSummary), asyncHandler(async (req, res) => {
     try {
         const { conversationId } = req.body;
-        const conv = conversations[conversationId];
-        if (!geminiModel) return res.status(503).json({ error: 'Gemini AI not configured' });
-        if (!conv || conv.messages.length === 0) return res.status(400).json({ error: 'No conversation to summarize' });
+        const conv = await conversationStore.getConversation(conversationId);
+        if (!llm) return sendError(res, 503, 'AI provider not configured');
+        if (!conv || tenantOf(conv) !== req.tenantId) return sendError(res, 404, 'Conversation not found');
+        if (!handlesConversation(req.user, conv)) return sendError(res, 403, 'Conversation is assigned to another agent');
+        if (conv.messages.length === 0) return sendError(res, 400, 'No conversation to summarize');
 
+        const config = await configService.get(req.tenantId);
         const transcript = conv.messages.map(m => `${m.role.toUpperCase()} [${m.time}]: ${m.text}`).join('\n');
-        const prompt = `${adminConfig.summaryPrompt}\n\n--- CONVERSATION ---\n${transcript}\n--- END ---`;
+        const summaryPrompt = renderSetting(config, 'summaryPrompt', { agent: conv.assignedAgent, customer: conv.customerInfo });
+        const prompt = `${summaryPrompt}\n\n--- CONVERSATION ---\n${transcript}\n--- END ---`;
 
-        const result = await geminiModel.generateContent(prompt);
-        const summary = result.response.text();
+        const summary = await llm.generate(prompt);
 
         // Persist transcript and summary
-        await saveTranscriptToFirestore(conversationId, 'chat', {
+        await transcriptStore.save(conversationId, 'chat', req.tenantId, {
             messages: conv.messages,
             customerInfo: conv.customerInfo,
             summary,
@@ -592,130 +1469,153 @@ app.post('/api/admin/generate-summary', async (req, res) => {
 
         res.json({ success: true, summary });
     } catch (error) {
-        res.status(500).json({ error: 'Failed' });
+        console.error('[Summary] Error:', error.message);
+        sendError(res, 500, 'Failed to generate summary');
     }
-});
+}));
 
-// Real-time AI coaching via Gemini (for voice + chat)
-app.post('/api/coaching', async (req, res) => {
+// One-off AI coaching for a transcript the page sends; live chats and calls are coached over the socket (see CoachingService).
+// Coaching the model cannot get into shape answers 502 with the failure `reason` and the knowledge found anyway.
+app.post('/api/coaching', requireAgent, validate(schemas.coaching), asyncHandler(async (req, res) => {
+    let knowledgeContext = [];
     try {
-        const { transcript } = req.body;
-        if (!geminiModel) return res.status(503).json({ error: 'Gemini AI not configured' });
-        if (!transcript || transcript.length === 0) return res.json({ coaching: null });
-
-        const transcriptText = transcript
-            .map(m => `${(m.role || m.speaker || 'unknown').toUpperCase()}: ${m.text}`)
-            .join('\n');
-
-        // Knowledge Retrieval
-        const lastMessage = transcript[transcript.length - 1]?.text || '';
-        const knowledgeContext = await knowledgeService.search(lastMessage, 2);
-        const contextString = knowledgeContext.length > 0
-            ? `\n\n--- RELEVANT KNOWLEDGE ---\n${knowledgeContext.map(k => `[From ${k.docName}]: ${k.text}`).join('\n---\n')}\n--- END KNOWLEDGE ---`
-            : '';
-
-        const prompt = `${adminConfig.coachingPrompt}${contextString}\n\n--- LIVE CONVERSATION ---\n${transcriptText}\n--- END ---`;
-        const result = await geminiModel.generateContent(prompt);
-        const raw = result.response.text().trim();
-
-        // Strip markdown code fences if Gemini wrapped the JSON
-        const cleaned = raw
-            .replace(/^```json\s*/i, '')
-            .replace(/^```\s*/i, '')
-            .replace(/\s*```$/i, '')
-            .trim();
-
-        try {
-            const coaching = JSON.parse(cleaned);
-            return res.json({ success: true, coaching, knowledgeContext });
-        } catch {
-            // Fallback: extract first JSON object from the text
-            const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                const coaching = JSON.parse(jsonMatch[0]);
-                return res.json({ success: true, coaching, knowledgeContext });
-            }
-            return res.json({ success: false, error: 'Could not parse coaching JSON', knowledgeContext });
-        }
+        const { transcript, conversation } = req.body;
+        if (!llm) return sendError(res, 503, 'AI provider not configured');
+        if (transcript.length === 0) return res.json({ coaching: null });
+
+        const recent = transcript.slice(-TRANSCRIPT_WINDOW);
+        // The named chat or call only counts when the caller handles it, or supervises
+        const live = conversation ? await liveConversation(req.tenantId, conversation) : null;
+        const handled = live && (live.agent?.id === req.user.id || hasRole(req.user, 'supervisor')) ? live : null;
+        const context = await coachingContext(req.tenantId, recent, { conversation, agent: req.user, customer: handled?.customer || null });
+        knowledgeContext = context.knowledgeContext;
+        const result = await generateCoaching(llm, context.prompt);
+        const { coachingPolicies } = await configService.get(req.tenantId);
+        const policies = judgePolicies(coachingPolicies, result.policies, transcript);
+        // A page coaching a live chat or call escalates it as the socket coaching would, judged on the stored
+        // transcript rather than the one the page sent
+        const breach = handled && criticalBreach(judgePolicies(coachingPolicies, result.policies, handled.transcript));
+        if (breach) await flagEscalation(req.tenantId, conversation, breach);
+        res.json({ success: true, coaching: { ...result, policies }, knowledgeContext });
     } catch (error) {
         console.error('[Coaching] Error:', error.message);
-        res.status(500).json({ error: 'Failed to generate coaching' });
+        if (!error.reason) return sendError(res, 500, 'Failed to generate coaching');
+        const [message, code] = error.reason === 'provider_error'
+            ? ['AI provider failed to generate coaching', 'ai_provider_error']
+            : [error.message, 'invalid_ai_response'];
+        res.status(502).json({ ...errorBody(502, message, { code, fields: error.fields || undefined }), reason: error.reason, knowledgeContext });
     }
-});
+}));
 
 // Standalone Knowledge Search (for manual agent queries)
-app.post('/api/knowledge/search', async (req, res) => {
+app.post('/api/knowledge/search', requireAgent, validate(schemas.knowledgeSearch), asyncHandler(async (req, res) => {
     try {
-        const { query, limit } = req.body;
-        if (!query) return res.status(400).json({ error: 'Query is required' });
+        const { query, limit, conversation } = req.body;
 
-        const results = await knowledgeService.search(query, limit || 5);
+        const { retrieval, documents } = await configService.get(req.tenantId);
+        const results = await knowledgeFor(req.tenantId).search(query, {
+            ...retrieval, filter: effectiveFilter(documents), boosts: await feedbackStore.boosts(req.tenantId), limit: limit || 5
+        });
+        await recordGap(req.tenantId, retrieval, { query, source: 'search', results, conversation, agent: req.user });
         res.json({ success: true, results });
     } catch (error) {
         console.error('[Knowledge Search] Error:', error.message);
-        res.status(500).json({ error: 'Failed to search knowledge base' });
+        sendError(res, 500, 'Failed to search knowledge base');
     }
-});
+}));
 
-// Generate voice call summary using Gemini
-app.post('/api/voice/summary', async (req, res) => {
+// Agent feedback on a snippet from coaching or a manual search
+app.post('/api/knowledge/feedback', requireAgent, validate(schemas.knowledgeFeedback), asyncHandler(async (req, res) => {
+    const { chunkId, signal, query, conversation } = req.body;
+    const chunk = knowledgeFor(req.tenantId).store.getChunk(chunkId);
+    if (!chunk) return sendError(res, 404, 'Snippet is no longer in the knowledge base');
+    await feedbackStore.record(req.tenantId, { signal, chunk, query, conversation, agent: req.user });
+    res.json({ success: true });
+}));
+
+// Generate voice call summary with the AI provider
+app.post('/api/voice/summary', requireAgent, validate(schemas.voiceSummary), asyncHandler(async (req, res) => {
     try {
-        const { transcript } = req.body;
-        if (!geminiModel) return res.status(503).json({ error: 'Gemini AI not configured' });
-        if (!transcript) return res.status(400).json({ error: 'No transcript provided' });
+        const { transcript, sessionId, callerName, entries, sentiment } = req.body;
+        if (!llm) return sendError(res, 503, 'AI provider not configured');
 
-        const prompt = `${adminConfig.summaryPrompt}\n\n--- VOICE CALL TRANSCRIPT ---\n${transcript}\n--- END ---`;
-        const result = await geminiModel.generateContent(prompt);
-        const summary = result.response.text();
+        // Persist voice transcript and summary under the call's session id when the console sends it
+        const session = sessionId ? await conversationStore.getVoiceSession(sessionId) : null;
+        if (sessionId && (session ? tenantOf(session) !== req.tenantId : await transcriptStore.belongsToOtherTenant(req.tenantId, sessionId))) {
+            return sendError(res, 404, 'Voice session not found');
+        }
 
-        // Persist voice transcript and summary
-        // Note: For voice, we might want to capture more metadata if available
-        await saveTranscriptToFirestore(`voice-${Date.now()}`, 'voice', {
+        const summaryPrompt = renderSetting(await configService.get(req.tenantId), 'summaryPrompt', {
+            agent: session?.agent || req.user, customer: { name: callerName || session?.callerName }
+        });
+        const prompt = `${summaryPrompt}\n\n--- VOICE CALL TRANSCRIPT ---\n${transcript}\n--- END ---`;
+        const summary = await llm.generate(prompt);
+        const endTime = new Date().toISOString();
+        await transcriptStore.save(sessionId || `voice-${Date.now()}`, 'voice', req.tenantId, {
             transcript,
+            entries: entries || session?.entries || [],
+            customerInfo: { name: callerName || session?.callerName || 'Caller' },
             summary,
-            timestamp: new Date().toISOString()
+            sentiment: sentiment || null,
+            startTime: session?.startTime || null,
+            endTime,
+            timestamp: endTime
         });
 
         res.json({ success: true, summary });
     } catch (error) {
-        res.status(500).json({ error: 'Failed to generate voice summary' });
+        console.error('[Voice Summary] Error:', error.message);
+        sendError(res, 500, 'Failed to generate voice summary');
     }
-});
+}));
 
 
-app.post('/api/admin/end-conversation', async (req, res) => {
+app.post('/api/admin/end-conversation', validate(schemas.endConversation), asyncHandler(async (req, res) => {
     try {
         const { conversationId } = req.body;
-        const conv = conversations[conversationId];
-        if (!conv) return res.status(404).json({ error: 'Not found' });
+        const conv = await conversationStore.getConversation(conversationId);
+        if (!conv || tenantOf(conv) !== req.tenantId) return sendError(res, 404, 'Conversation not found');
+        if (conv.assignedAgent && conv.assignedAgent.id !== req.user.id && !hasRole(req.user, 'supervisor')) {
+            return sendError(res, 403, 'Conversation is assigned to another agent');
+        }
 
         let summary = null;
-        if (geminiModel && conv.messages.length > 0) {
+        if (llm && conv.messages.length > 0) {
+            const config = await configService.get(req.tenantId);
             const transcript = conv.messages.map(m => `${m.role.toUpperCase()} [${m.time}]: ${m.text}`).join('\n');
-            const prompt = `${adminConfig.summaryPrompt}\n\n--- CONVERSATION ---\n${transcript}\n--- END ---`;
-            const result = await geminiModel.generateContent(prompt);
-            summary = result.response.text();
+            const summaryPrompt = renderSetting(config, 'summaryPrompt', { agent: conv.assignedAgent, customer: conv.customerInfo });
+            const prompt = `${summaryPrompt}\n\n--- CONVERSATION ---\n${transcript}\n--- END ---`;
+            summary = await llm.generate(prompt);
         }
 
         // Persist final state before closing
-        await saveTranscriptToFirestore(conversationId, 'chat', {
+        await transcriptStore.save(conversationId, 'chat', req.tenantId, {
             messages: conv.messages,
             customerInfo: conv.customerInfo,
             summary,
+            handoffs: conv.handoffs || [],
             startTime: conv.startTime,
             endTime: new Date().toISOString()
         });
 
         // Remove conversation or mark as closed
-        delete conversations[conversationId];
-        io.to(conversationId).emit('conversation_ended', { summary });
-        io.emit('update_conversations', Object.values(conversations));
+        withdrawTransfer('chat', conversationId);
+        coaching.cancel({ kind: 'chat', id: conversationId });
+        await conversationStore.deleteConversation(conversationId);
+        io.to(conversationId).to(monitorRoom('chat', conversationId)).emit('conversation_ended', { conversationId, summary });
+        // The agent has a free slot again
+        await dispatchQueue(req.tenantId);
 
         res.json({ success: true, summary });
     } catch (error) {
-        res.status(500).json({ error: 'Failed' });
+        console.error('[End Conversation] Error:', error.message);
+        sendError(res, 500, 'Failed to end conversation');
     }
-});
+}));
+
+// Unknown /api paths and any error thrown above answer with the standard error body
+app.use('/api', apiNotFound);
+app.use(errorHandler);
 
 // --- Serve React frontend (production) ----------------------------
 // In production (Cloud Run), Express serves the built Vite output.
@@ -733,7 +1633,32 @@ if (process.env.NODE_ENV === 'production') {
     });
 }
 
-httpServer.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
+// Rehydrate live sessions, load tenants and users, and warm the default config before accepting connections
+Promise.all([
+    conversationStore.init(),
+    transcriptStore.init(),
+    feedbackStore.init(),
+    gapStore.init(),
+    sourceSync.init(),
+    tenantService.init(),
+    authService.init(),
+    configService.init().then(() => configService.get(DEFAULT_TENANT_ID)),
+    ingestion.init()
+]).then(() => {
+    httpServer.listen(PORT, () => {
+        console.log(`Server running on port ${PORT}`);
+    });
+    tenantService.listTenants().then(async tenants => {
+        for (const { id } of tenants) await reconcileKnowledge(id);
+    }).catch(e => console.error('[Knowledge] Startup reconcile failed:', e.message))
+        .finally(() => {
+            ingestion.start();
+            sourceSync.start().catch(e => console.error('[Sources] Scheduled sync failed:', e.message));
+        });
+    setInterval(() => promoteScheduledVersions().catch(e => console.error('[Knowledge] Scheduled versions failed:', e.message)), SCHEDULE_CHECK_MS).unref();
+    // Conversations restored from the store whose agent does not come back are re-queued
+    setTimeout(() => routing.releaseOffline()
+        .then(async tenantIds => { for (const tenantId of tenantIds) await dispatchQueue(tenantId); })
+        .catch(e => console.error('[Routing] Re-queueing offline agents failed:', e.message)), RECONNECT_GRACE_MS);
 });
 
@@ -0,0 +1,43 @@
+import { hasRole } from '../services/authService.js';
+import { tenantOf } from '../services/tenantService.js';
+import { sendError } from './errors.js';
+
+export const bearerToken = (req) => {
+    const header = req.headers.authorization || '';
+    return header.startsWith('Bearer ') ? header.slice(7).trim() : null;
+};
+
+/**
+ * Express middleware that rejects requests without a valid session token
+ * or whose user is below `minimumRole`. The user is exposed as `req.user`.
+ */
+export function requireAuth(authService, minimumRole = 'agent') {
+    return async (req, res, next) => {
+        try {
+            const user = req.user || await authService.verifyToken(bearerToken(req));
+            if (!user) return sendError(res, 401, 'Authentication required');
+            if (!hasRole(user, minimumRole)) return sendError(res, 403, 'Insufficient permissions');
+            req.user = user;
+            // Staff always work inside the tenant their account belongs to
+            req.tenantId = tenantOf(user);
+            next();
+        } catch (e) {
+            next(e);
+        }
+    };
+}
+
+/**
+ * Socket.IO middleware: resolves `handshake.auth.token` to `socket.user`.
+ * Anonymous sockets are still allowed through — customers never sign in.
+ */
+export function socketAuth(authService) {
+    return async (socket, next) => {
+        try {
+            socket.user = await authService.verifyToken(socket.handshake.auth?.token);
+        } catch {
+            socket.user = null;
+        }
+        next();
+    };
+}
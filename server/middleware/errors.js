@@ -0,0 +1,44 @@
+// Every failed /api request answers with the same body:
+//   { success: false, error: 'Human readable message', code: 'machine_code', fields?: { 'field.path': 'message' } }
+
+const CODES = {
+    400: 'bad_request',
+    401: 'unauthenticated',
+    403: 'forbidden',
+    404: 'not_found',
+    409: 'conflict',
+    413: 'payload_too_large',
+    429: 'rate_limited',
+    500: 'internal_error',
+    502: 'bad_gateway',
+    503: 'unavailable'
+};
+
+export const errorBody = (status, error, { code, fields } = {}) =>
+    ({ success: false, error, code: code || CODES[status] || 'error', ...(fields ? { fields } : {}) });
+
+export const sendError = (res, status, error, details) => res.status(status).json(errorBody(status, error, details));
+
+/** Catch-all for /api paths no route answered. */
+export const apiNotFound = (req, res) => sendError(res, 404, `No API route for ${req.method} ${req.originalUrl.split('?')[0]}`);
+
+/**
+ * Last Express error handler: unreadable JSON and oversized bodies or uploads become 4xx responses,
+ * anything else is logged and reported as a 500 without leaking internals.
+ * Express recognises error handlers by their four parameters, so `next` stays even where unused.
+ */
+export function errorHandler(err, req, res, next) {
+    if (res.headersSent) return next(err);
+    if (err.type === 'entity.parse.failed') return sendError(res, 400, 'Request body is not valid JSON', { code: 'invalid_json' });
+    if (err.type === 'entity.too.large' || err.code === 'LIMIT_FILE_SIZE') return sendError(res, 413, 'Request is too large');
+    if (err.name === 'MulterError') return sendError(res, 400, err.message, { fields: { [err.field || 'file']: err.message } });
+    console.error(`[API] ${req.method} ${req.originalUrl} failed:`, err);
+    sendError(res, 500, 'Something went wrong');
+}
+
+/** Route handler whose rejected promise reaches errorHandler — Express 4 only catches errors thrown synchronously. */
+export const asyncHandler = (handler) => (req, res, next) => Promise.resolve(handler(req, res, next)).catch(next);
+
+/** Socket.IO event handler whose rejected promise is logged instead of becoming an unhandled rejection. */
+export const asyncListener = (event, handler) => (...args) => Promise.resolve(handler(...args))
+    .catch(err => console.error(`[Socket] "${event}" handler failed:`, err));
@@ -0,0 +1,20 @@
+import { validateEvent } from '../../shared/protocol.js';
+
+/**
+ * Per-socket packet middleware (`socket.use`) that checks every incoming event against the
+ * shared protocol. Unknown events and malformed payloads never reach a handler; the sender
+ * gets a `protocol_error` with the reason instead. Handlers get the parsed payload, so keys
+ * the protocol does not declare are never stored or relayed.
+ */
+export function validateSocketEvents(socket) {
+    return (packet, next) => {
+        const [event, payload] = packet;
+        const { value, error } = validateEvent(event, payload);
+        if (!error) {
+            if (value !== undefined) packet[1] = value;
+            return next();
+        }
+        console.warn(`[Socket] Rejected "${event}" from ${socket.id}: ${error}`);
+        socket.emit('protocol_error', { event, error });
+    };
+}
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateSocketEvents } from './protocol.js';
+
+// Runs one packet through the middleware → what the handler would get, or the protocol_error sent instead
+function receive(packet) {
+    const sent = [];
+    const socket = { id: 's1', emit: (event, payload) => sent.push({ event, payload }) };
+    let handled = null;
+    validateSocketEvents(socket)(packet, () => { handled = packet; });
+    return { handled, sent };
+}
+
+test('handlers get the payload with only the declared fields', () => {
+    const { handled } = receive(['voice_transcript', {
+        sessionId: 'call-1',
+        entry: { id: 'e1', speaker: 'customer', text: 'Hello', time: '10:00', isAdmin: true },
+        extra: 'x'.repeat(1000)
+    }]);
+    assert.deepEqual(handled[1], { sessionId: 'call-1', entry: { id: 'e1', speaker: 'customer', text: 'Hello', time: '10:00' } });
+});
+
+test('relayed ICE candidates keep every field the browser needs', () => {
+    const candidate = { candidate: 'candidate:1 1 udp 1 10.0.0.1 5000 typ host', sdpMid: '0', sdpMLineIndex: 0, usernameFragment: 'abc' };
+    const { handled } = receive(['voice_webrtc_ice_candidate', { sessionId: 'call-1', candidate }]);
+    assert.deepEqual(handled[1].candidate, candidate);
+});
+
+test('events without a payload and acknowledgements pass through untouched', () => {
+    const ack = () => { };
+    assert.deepEqual(receive(['voice_console']).handled, ['voice_console']);
+    assert.equal(receive(['join_conversation', 'conv-1', ack]).handled[2], ack);
+});
+
+test('unknown events and malformed payloads never reach a handler', () => {
+    const unknown = receive(['drop_tables', {}]);
+    assert.equal(unknown.handled, null);
+    assert.deepEqual(unknown.sent, [{ event: 'protocol_error', payload: { event: 'drop_tables', error: 'Unknown event "drop_tables"' } }]);
+    const malformed = receive(['send_message', { conversationId: 'conv-1', text: 42 }]);
+    assert.equal(malformed.handled, null);
+    assert.equal(malformed.sent[0].payload.error, 'send_message.text must be a string');
+});
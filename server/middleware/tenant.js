@@ -0,0 +1,47 @@
+import { tenantOf } from '../services/tenantService.js';
+import { bearerToken } from './auth.js';
+
+/**
+ * Express middleware that sets `req.tenantId`. A valid session token pins the
+ * request to the user's tenant; anonymous callers are matched by the
+ * `X-API-Key` header or the request hostname.
+ */
+export function resolveTenant({ tenantService, authService }) {
+    return async (req, res, next) => {
+        try {
+            req.user = await authService.verifyToken(bearerToken(req));
+            if (req.user) {
+                req.tenantId = tenantOf(req.user);
+            } else {
+                const tenant = await tenantService.resolve({ apiKey: req.get('x-api-key'), hostname: req.hostname });
+                req.tenantId = tenant.id;
+            }
+            next();
+        } catch (e) {
+            next(e);
+        }
+    };
+}
+
+/**
+ * Socket.IO counterpart of resolveTenant — runs after socketAuth and sets
+ * `socket.tenantId` from the signed-in user, `handshake.auth.apiKey` or the Host header.
+ */
+export function socketTenant(tenantService) {
+    return async (socket, next) => {
+        try {
+            if (socket.user) {
+                socket.tenantId = tenantOf(socket.user);
+            } else {
+                const tenant = await tenantService.resolve({
+                    apiKey: socket.handshake.auth?.apiKey,
+                    hostname: socket.handshake.headers.host
+                });
+                socket.tenantId = tenant.id;
+            }
+            next();
+        } catch (e) {
+            next(e);
+        }
+    };
+}
@@ -0,0 +1,27 @@
+import { describeErrors, parse } from '../../shared/schema.js';
+import { sendError } from './errors.js';
+
+/**
+ * Express middleware that checks `req.body` and/or `req.query` against the given schemas
+ * (see shared/api.js). Invalid requests get a 400 with one message per failing field;
+ * valid ones continue with body and query reduced to the declared fields.
+ */
+export function validate({ body, query } = {}) {
+    return (req, res, next) => {
+        const fields = {};
+        if (body) {
+            const { value, errors } = parse(body, req.body, { root: 'body' });
+            Object.assign(fields, errors);
+            req.body = value ?? {};
+        }
+        if (query) {
+            const { value, errors } = parse(query, req.query, { root: 'query', coerce: true });
+            Object.assign(fields, errors);
+            req.query = value ?? {};
+        }
+        if (Object.keys(fields).length) {
+            return sendError(res, 400, describeErrors(fields), { code: 'validation_failed', fields });
+        }
+        next();
+    };
+}
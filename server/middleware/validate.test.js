@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validate } from './validate.js';
+import { schemas } from '../../shared/api.js';
+
+// Runs a request through the middleware → { status, body } of an error, or the request that went on
+function call(middleware, { body, query = {} } = {}) {
+    const req = { body, query };
+    let answer = null;
+    const res = { status: (status) => ({ json: (json) => { answer = { status, body: json }; } }) };
+    middleware(req, res, () => { answer = { req }; });
+    return answer;
+}
+
+test('an invalid body answers 400 with every failing field', () => {
+    const { status, body } = call(validate(schemas.createUser), { body: { email: 'a', password: '', role: 'owner', isAdmin: true } });
+    assert.equal(status, 400);
+    assert.equal(body.code, 'validation_failed');
+    assert.equal(body.error, 'email must be at least 3 characters');
+    assert.deepEqual(Object.keys(body.fields).sort(), ['email', 'isAdmin', 'password', 'role']);
+});
+
+test('a valid body goes on with only the declared fields', () => {
+    const { req } = call(validate(schemas.coaching), {
+        body: { transcript: [{ role: 'customer', text: 'Hi', sentiment: 'x' }], conversation: { kind: 'chat', id: 'c1' }, extra: 1 }
+    });
+    assert.deepEqual(req.body, { transcript: [{ role: 'customer', text: 'Hi' }], conversation: { kind: 'chat', id: 'c1' } });
+    assert.equal(call(validate(schemas.coaching), { body: { transcript: [], conversation: { kind: 'chat', id: 'c1', tenantId: 'x' } } }).status, 400);
+});
+
+test('query strings are coerced, checked and reduced', () => {
+    const { req } = call(validate(schemas.listTranscripts), { query: { limit: '20', offset: '0', type: 'chat', debug: '1' } });
+    assert.deepEqual(req.query, { limit: 20, offset: 0, type: 'chat' });
+    const { status, body } = call(validate(schemas.listTranscripts), { query: { limit: '500', from: 'yesterday' } });
+    assert.equal(status, 400);
+    assert.deepEqual(body.fields, { limit: 'must be at most 200', from: 'must be a date (YYYY-MM-DD)' });
+});
+
+test('an optional body may be left out', () => {
+    assert.deepEqual(call(validate(schemas.clearChatHistory)).req.body, {});
+    assert.deepEqual(call(validate(schemas.clearChatHistory), { body: { conversationId: 'c1' } }).req.body, { conversationId: 'c1' });
+});
+
+test('PATCH bodies take any subset of the fields PUT requires', () => {
+    assert.deepEqual(call(validate(schemas.updateConfig), { body: { companyName: 'Acme' } }).req.body, { companyName: 'Acme' });
+    assert.equal(call(validate(schemas.replaceConfig), { body: { companyName: 'Acme' } }).status, 400);
+    assert.deepEqual(call(validate(schemas.updateConfig), { body: { retrieval: { rerank: true } } }).body.fields, {
+        'retrieval.vectorWeight': 'is required',
+        'retrieval.lexicalWeight': 'is required',
+        'retrieval.minVectorScore': 'is required',
+        'retrieval.minScore': 'is required'
+    });
+});
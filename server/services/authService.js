@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { createRecordStore, resolveDriver } from './storage.js';
+import { DEFAULT_TENANT_ID, tenantOf } from './tenantService.js';
+import { ROLES } from '../../shared/api.js';
+
+const USERS_COLLECTION = 'agent_success_users';
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+// Ordered from least to most privileged — a role satisfies every role before it
+export { ROLES };
+
+export const hasRole = (user, minimumRole) =>
+    !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(minimumRole);
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+class AuthService {
+    constructor({ firestore, secret, driver } = {}) {
+        this.users = createRecordStore({
+            name: 'users',
+            driver: resolveDriver(driver, firestore),
+            firestore,
+            collection: USERS_COLLECTION
+        });
+        if (!secret) {
+            console.warn('WARNING: AUTH_SECRET not set. Session tokens will be invalidated on every restart.');
+        }
+        this.secret = secret || crypto.randomBytes(32).toString('hex');
+    }
+
+    async init() {
+        await this.users.init();
+        if ((await this.users.list()).length === 0) await this.seedAdmin();
+        return this;
+    }
+
+    // First boot: create an admin from ADMIN_EMAIL / ADMIN_PASSWORD, or a one-off generated password
+    async seedAdmin() {
+        const email = process.env.ADMIN_EMAIL || 'admin@agentos.local';
+        let password = process.env.ADMIN_PASSWORD;
+        if (!password) {
+            password = crypto.randomBytes(9).toString('base64url');
+            console.warn(`[Auth] No users found. Created admin "${email}" with generated password: ${password}`);
+        } else {
+            console.log(`[Auth] No users found. Created admin "${email}" from ADMIN_EMAIL/ADMIN_PASSWORD`);
+        }
+        await this.createUser({ email, name: 'Administrator', password, role: 'admin' });
+    }
+
+    hashPassword(password, salt = crypto.randomBytes(16).toString('hex')) {
+        const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+        return `${salt}:${hash}`;
+    }
+
+    verifyPassword(password, stored) {
+        const [salt, hash] = (stored || '').split(':');
+        if (!salt || !hash) return false;
+        const candidate = crypto.scryptSync(password, salt, 64);
+        const expected = Buffer.from(hash, 'hex');
+        return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+    }
+
+    // Strip the password hash before a user leaves the service
+    toPublic(user) {
+        if (!user) return null;
+        const { passwordHash, ...rest } = user;
+        return rest;
+    }
+
+    async findByEmail(email) {
+        const normalized = (email || '').trim().toLowerCase();
+        return (await this.users.list()).find(u => u.email === normalized) || null;
+    }
+
+    async getUser(id) {
+        return this.toPublic(await this.users.get(id));
+    }
+
+    async listUsers(tenantId = DEFAULT_TENANT_ID) {
+        return (await this.users.list())
+            .filter(u => tenantOf(u) === tenantId)
+            .map(u => this.toPublic(u));
+    }
+
+    async createUser({ email, name, password, role = 'agent', tenantId = DEFAULT_TENANT_ID }) {
+        if (!email || !password) throw new Error('Email and password are required');
+        if (!ROLES.includes(role)) throw new Error(`Unknown role "${role}"`);
+        if (await this.findByEmail(email)) throw new Error('A user with this email already exists');
+
+        const user = {
+            id: crypto.randomUUID(),
+            email: email.trim().toLowerCase(),
+            name: name || email,
+            role,
+            tenantId,
+            passwordHash: this.hashPassword(password),
+            createdAt: new Date().toISOString()
+        };
+        await this.users.put(user.id, user);
+        console.log(`[Auth] User created: ${user.email} (${role}, tenant: ${tenantId})`);
+        return this.toPublic(user);
+    }
+
+    async deleteUser(id) {
+        return this.users.remove(id);
+    }
+
+    async deleteTenantUsers(tenantId) {
+        for (const user of await this.users.list()) {
+            if (tenantOf(user) === tenantId) await this.users.remove(user.id);
+        }
+    }
+
+    // ── Session tokens: base64url(payload).base64url(HMAC-SHA256) ──
+    sign(payload) {
+        const body = base64url(JSON.stringify(payload));
+        const signature = crypto.createHmac('sha256', this.secret).update(body).digest('base64url');
+        return `${body}.${signature}`;
+    }
+
+    async login(email, password) {
+        const user = await this.findByEmail(email);
+        if (!user || !this.verifyPassword(password, user.passwordHash)) return null;
+        const token = this.sign({ sub: user.id, role: user.role, exp: Date.now() + TOKEN_TTL_MS });
+        return { token, user: this.toPublic(user) };
+    }
+
+    /** Resolve a session token to its (public) user, or null when invalid or expired. */
+    async verifyToken(token) {
+        if (!token || typeof token !== 'string') return null;
+        const [body, signature] = token.split('.');
+        if (!body || !signature) return null;
+
+        const expected = crypto.createHmac('sha256', this.secret).update(body).digest('base64url');
+        if (signature.length !== expected.length ||
+            !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) return null;
+
+        try {
+            const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+            if (!payload.exp || payload.exp < Date.now()) return null;
+            // Re-read the user so deleted accounts and role changes take effect immediately
+            return this.toPublic(await this.users.get(payload.sub));
+        } catch {
+            return null;
+        }
+    }
+}
+
+export default AuthService;
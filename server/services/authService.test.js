@@ -0,0 +1,95 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import AuthService, { hasRole } from './authService.js';
+import { requireAuth } from '../middleware/auth.js';
+
+const create = () => new AuthService({ driver: 'memory', secret: 'test-secret' });
+
+// Runs a request through the middleware → { status, body } of an error, or the request that went on
+async function call(middleware, headers = {}) {
+    const req = { headers };
+    let answer = null;
+    const res = { status: (status) => ({ json: (body) => { answer = { status, body }; } }) };
+    await middleware(req, res, () => { answer = { req }; });
+    return answer;
+}
+
+test('a role satisfies itself and every role below it', () => {
+    assert.ok(hasRole({ role: 'admin' }, 'supervisor'));
+    assert.ok(hasRole({ role: 'supervisor' }, 'supervisor'));
+    assert.ok(hasRole({ role: 'supervisor' }, 'agent'));
+    assert.ok(!hasRole({ role: 'agent' }, 'supervisor'));
+    assert.ok(!hasRole({ role: 'owner' }, 'agent'));
+    assert.ok(!hasRole(null, 'agent'));
+});
+
+test('users are unique by email and never leave the service with their password hash', async () => {
+    const auth = create();
+    const user = await auth.createUser({ email: ' Ann@Example.com ', password: 'secret123', role: 'supervisor', tenantId: 'acme' });
+    assert.equal(user.email, 'ann@example.com');
+    assert.equal(user.passwordHash, undefined);
+    assert.equal((await auth.getUser(user.id)).passwordHash, undefined);
+    await assert.rejects(auth.createUser({ email: 'ANN@example.com', password: 'other' }), /already exists/);
+    await assert.rejects(auth.createUser({ email: 'bob@example.com', password: 'pw', role: 'owner' }), /Unknown role/);
+    await assert.rejects(auth.createUser({ email: 'bob@example.com' }), /required/);
+});
+
+test('a login token resolves to its user until it is tampered with, expires or the user is deleted', async () => {
+    const auth = create();
+    const user = await auth.createUser({ email: 'ann@example.com', password: 'secret123' });
+    assert.equal(await auth.login('ann@example.com', 'wrong'), null);
+    assert.equal(await auth.login('nobody@example.com', 'secret123'), null);
+    const { token } = await auth.login('ANN@example.com', 'secret123');
+    assert.equal((await auth.verifyToken(token)).id, user.id);
+
+    const [body, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url')), role: 'admin' })).toString('base64url');
+    assert.equal(await auth.verifyToken(`${forged}.${signature}`), null);
+    assert.equal(await new AuthService({ driver: 'memory', secret: 'another-secret' }).verifyToken(token), null);
+    assert.equal(await auth.verifyToken('not-a-token'), null);
+
+    mock.timers.enable({ apis: ['Date'], now: Date.now() + 13 * 60 * 60 * 1000 });
+    try {
+        assert.equal(await auth.verifyToken(token), null);
+    } finally {
+        mock.timers.reset();
+    }
+    await auth.deleteUser(user.id);
+    assert.equal(await auth.verifyToken(token), null);
+});
+
+test('a role change applies to tokens already issued', async () => {
+    const auth = create();
+    const user = await auth.createUser({ email: 'ann@example.com', password: 'secret123', role: 'admin' });
+    const { token } = await auth.login('ann@example.com', 'secret123');
+    await auth.users.put(user.id, { ...await auth.users.get(user.id), role: 'agent' });
+    assert.equal((await auth.verifyToken(token)).role, 'agent');
+});
+
+test('routes answer 401 without a session, 403 below the role, and run in the user\'s tenant', async () => {
+    const auth = create();
+    await auth.createUser({ email: 'ann@example.com', password: 'secret123', role: 'agent', tenantId: 'acme' });
+    const { token } = await auth.login('ann@example.com', 'secret123');
+    const headers = { authorization: `Bearer ${token}` };
+
+    assert.deepEqual(await call(requireAuth(auth, 'agent')), { status: 401, body: { success: false, error: 'Authentication required', code: 'unauthenticated' } });
+    assert.equal((await call(requireAuth(auth, 'supervisor'), headers)).status, 403);
+    const { req } = await call(requireAuth(auth, 'agent'), headers);
+    assert.equal(req.user.email, 'ann@example.com');
+    assert.equal(req.tenantId, 'acme');
+});
+
+test('the first start creates an admin from the environment', async () => {
+    process.env.ADMIN_EMAIL = 'root@example.com';
+    process.env.ADMIN_PASSWORD = 'first-password';
+    try {
+        const auth = await create().init();
+        const { user } = await auth.login('root@example.com', 'first-password');
+        assert.equal(user.role, 'admin');
+        await auth.init();
+        assert.equal((await auth.listUsers()).length, 1);
+    } finally {
+        delete process.env.ADMIN_EMAIL;
+        delete process.env.ADMIN_PASSWORD;
+    }
+});
@@ -0,0 +1,63 @@
+// Okapi BM25 keyword index over knowledge chunks. It catches exact terms — policy codes, SKUs,
+// "RF-201" — that embeddings blur, and works without calling the AI provider.
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Words too common to say what a question is about; queries drop them, and knowledge gaps group questions without them
+export const STOP_WORDS = new Set(`a about am an and any are as at be been but by can could did do does for from get got had has have
+    hello hi how i if in is it its just me my need no not of on or our please should so that the their them then there
+    they thanks thank this to too us was we what when where which who why will with would yes you your`.split(/\s+/));
+
+/** Lowercased terms. Codes such as "RF-201" are kept whole and also split into "rf" and "201". */
+export function tokenize(text) {
+    const terms = [];
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu) || []) {
+        terms.push(word);
+        if (/[-_./]/.test(word)) terms.push(...word.split(/[-_./]/));
+    }
+    return terms;
+}
+
+export class Bm25Index {
+    /** @param {{ id: any, text: string }[]} docs */
+    constructor(docs) {
+        this.docs = docs.map(({ id, text }) => {
+            const terms = tokenize(text);
+            const tf = new Map();
+            for (const term of terms) tf.set(term, (tf.get(term) || 0) + 1);
+            return { id, tf, length: terms.length };
+        });
+        this.avgLength = this.docs.reduce((sum, doc) => sum + doc.length, 0) / (this.docs.length || 1) || 1;
+        this.df = new Map();
+        for (const doc of this.docs) {
+            for (const term of doc.tf.keys()) this.df.set(term, (this.df.get(term) || 0) + 1);
+        }
+    }
+
+    idf(term) {
+        const n = this.df.get(term) || 0;
+        return Math.log(1 + (this.docs.length - n + 0.5) / (n + 0.5));
+    }
+
+    /**
+     * Score the documents that contain any query term → Map(id → 0–1). Stop words are left out of the query.
+     * Scores are divided by what a document of average length earns by holding every query term once, terms
+     * missing from the index included, and capped at 1 — so matching one word of an off-topic question scores low.
+     */
+    search(query) {
+        const terms = [...new Set(tokenize(query))].filter(term => !STOP_WORDS.has(term));
+        const ceiling = terms.reduce((sum, term) => sum + this.idf(term), 0);
+        const scores = new Map();
+        if (!ceiling) return scores;
+        for (const doc of this.docs) {
+            let score = 0;
+            for (const term of terms) {
+                const f = doc.tf.get(term);
+                if (f) score += this.idf(term) * (f * (K1 + 1)) / (f + K1 * (1 - B + B * doc.length / this.avgLength));
+            }
+            if (score > 0) scores.set(doc.id, Math.min(score / ceiling, 1));
+        }
+        return scores;
+    }
+}
@@ -0,0 +1,29 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Bm25Index, tokenize } from './bm25Index.js';
+
+const index = new Bm25Index([
+    { id: 'refund', text: 'Refund policy: a refund is issued within 14 days. It is the policy of the company that the customer is refunded in full.' },
+    { id: 'shipping', text: 'Shipping takes 3 to 5 business days. Express shipping is available for orders over $50.' },
+    { id: 'declined', text: 'Error RF-201 means the card was declined by the issuing bank.' }
+]);
+
+test('tokenize keeps codes whole and splits them', () => {
+    assert.deepEqual(tokenize('Error RF-201!'), ['error', 'rf-201', 'rf', '201']);
+});
+
+test('an off-topic question scores near zero, however many stop words it shares', () => {
+    const scores = index.search('what is the weather on mars');
+    assert.ok((scores.get('refund') || 0) < 0.05);
+});
+
+test('a question matching one of several content words scores below a full match', () => {
+    const partial = index.search('refund for my broken umbrella').get('refund');
+    const full = index.search('refund policy').get('refund');
+    assert.ok(partial > 0 && partial < 0.5);
+    assert.equal(full, 1);
+});
+
+test('exact codes find their chunk', () => {
+    assert.deepEqual([...index.search('RF-201').keys()], ['declined']);
+});
@@ -0,0 +1,166 @@
+// Splits extracted document text (Markdown-flavoured, see documentExtractor.js) into chunks for embedding.
+// The structured strategy keeps headings, paragraphs, list items, tables and sentences whole where it can,
+// starts a fresh chunk at every heading and records the heading path each chunk sits under.
+
+export const DEFAULT_CHUNKING = { strategy: 'structured', size: 1500, overlap: 200 };
+
+// Bullets, numbered clauses ("3.", "2.1", "4.1.2") and lettered or roman items ("(a)", "b)", "(iv)")
+const LIST_ITEM = /^([-*•]|\d+(\.\d+)+\.?|\d+[.)]|\(?[a-z][.)]|\([ivx]+\))\s+/i;
+
+const sentenceSegmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
+
+/** Blocks of the text in order: headings, paragraphs, single list items and tables. */
+function parseBlocks(text) {
+    const blocks = [];
+    let current = null;
+    const flush = () => {
+        if (current) blocks.push({ type: current.type, text: current.lines.join(current.type === 'paragraph' ? ' ' : '\n') });
+        current = null;
+    };
+    for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            flush();
+            continue;
+        }
+        const heading = trimmed.match(/^(#{1,6})\s+(.+)$/);
+        if (heading) {
+            flush();
+            blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+        } else if (trimmed.startsWith('|')) {
+            if (current?.type !== 'table') {
+                flush();
+                current = { type: 'table', lines: [] };
+            }
+            current.lines.push(trimmed);
+        } else if (LIST_ITEM.test(trimmed)) {
+            flush();
+            current = { type: 'item', lines: [trimmed] };
+        } else {
+            // Wrapped lines continue the paragraph or list item above them
+            if (!current || current.type === 'table') {
+                flush();
+                current = { type: 'paragraph', lines: [] };
+            }
+            current.lines.push(trimmed);
+        }
+    }
+    flush();
+    return blocks;
+}
+
+// Cut text at word boundaries into pieces of at most `size` characters; longer words are cut too
+function splitWords(text, size) {
+    const pieces = [];
+    let piece = '';
+    for (let word of text.split(/\s+/)) {
+        while (word.length > size) {
+            if (piece) pieces.push(piece);
+            piece = '';
+            pieces.push(word.slice(0, size));
+            word = word.slice(size);
+        }
+        if (piece && piece.length + word.length + 1 > size) {
+            pieces.push(piece);
+            piece = '';
+        }
+        piece = piece ? `${piece} ${word}` : word;
+    }
+    if (piece) pieces.push(piece);
+    return pieces;
+}
+
+/** Break a block that does not fit in one chunk into pieces of at most `size` characters. */
+function splitBlock(block, size) {
+    if (block.type === 'table') {
+        // Each piece repeats the header row and its separator so the columns stay labelled
+        const [header, separator, ...rows] = block.text.split('\n');
+        const head = separator?.includes('---') ? [header, separator] : [];
+        const body = head.length ? rows : block.text.split('\n');
+        const pieces = [];
+        let lines = [...head];
+        for (const row of body) {
+            if (lines.length > head.length && [...lines, row].join('\n').length > size) {
+                pieces.push(lines.join('\n'));
+                lines = [...head];
+            }
+            lines.push(row);
+        }
+        pieces.push(lines.join('\n'));
+        return pieces.flatMap(piece => piece.length > size ? splitWords(piece, size) : [piece]);
+    }
+    const sentences = [...sentenceSegmenter.segment(block.text)].map(s => s.segment.trim()).filter(Boolean);
+    return sentences.flatMap(sentence => sentence.length > size ? splitWords(sentence, size) : [sentence]);
+}
+
+function structuredChunks(text, { size, overlap }) {
+    const chunks = [];
+    const path = [];
+    let units = [];
+    let fresh = 0;
+    const length = (list) => list.reduce((sum, unit) => sum + unit.text.length + 2, 0);
+    // List items and sentences of one paragraph sit on adjacent lines; other blocks are separated by a blank line
+    const join = (list) => list.map((unit, i) => (i === 0 ? '' : unit.joinPrevious ? (unit.type === 'sentence' ? ' ' : '\n') : '\n\n') + unit.text).join('');
+
+    const emit = () => {
+        if (fresh > 0) chunks.push({ text: join(units), headings: path.map(h => h.text) });
+        // The last units, up to `overlap` characters, open the next chunk of the same section
+        const carried = [];
+        for (let i = units.length - 1; i >= 0 && length([units[i], ...carried]) <= overlap; i--) carried.unshift(units[i]);
+        units = carried;
+        fresh = 0;
+    };
+    const add = (unit) => {
+        if (fresh > 0 && length(units) + unit.text.length > size) emit();
+        while (fresh === 0 && units.length && length(units) + unit.text.length > size) units.shift();
+        units.push(unit);
+        fresh++;
+    };
+
+    let previous = null;
+    for (const block of parseBlocks(text)) {
+        if (block.type === 'heading') {
+            emit();
+            units = [];
+            while (path.length && path[path.length - 1].level >= block.level) path.pop();
+            path.push(block);
+            previous = null;
+            continue;
+        }
+        const joinPrevious = block.type === 'item' && previous?.type === 'item';
+        if (block.text.length <= size) {
+            add({ type: block.type, text: block.text, joinPrevious });
+        } else {
+            splitBlock(block, size).forEach((piece, i) => add({ type: block.type === 'table' ? 'table' : 'sentence', text: piece, joinPrevious: i > 0 && block.type !== 'table' }));
+        }
+        previous = block;
+    }
+    emit();
+    return chunks;
+}
+
+// Fixed windows of `size` characters, each starting `size - overlap` after the previous one
+function fixedChunks(text, { size, overlap }) {
+    const chunks = [];
+    let start = 0;
+    while (start < text.length) {
+        const end = Math.min(start + size, text.length);
+        chunks.push({ text: text.slice(start, end), headings: [] });
+        if (end === text.length) break;
+        start += size - overlap;
+    }
+    return chunks;
+}
+
+/**
+ * Split a document's text → [{ text, headings }], where `headings` is the path of section headings
+ * the chunk sits under, outermost first (empty for the fixed strategy).
+ * @param {{ strategy?: 'structured' | 'fixed', size?: number, overlap?: number }} options
+ */
+export function chunkDocument(text, options = {}) {
+    const settings = { ...DEFAULT_CHUNKING, ...options };
+    const overlap = Math.min(settings.overlap, settings.size - 1);
+    return settings.strategy === 'fixed'
+        ? fixedChunks(text, { size: settings.size, overlap })
+        : structuredChunks(text, { size: settings.size, overlap });
+}
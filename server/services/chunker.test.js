@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkDocument } from './chunker.js';
+
+const guide = `# Refunds
+
+Refunds are issued to the original payment method. They take five days.
+
+## Eligibility
+
+- Orders under $500
+- Enterprise customers
+  on an annual plan
+
+# Shipping
+
+Orders ship within two days.`;
+
+test('every heading starts a chunk that records the section path', () => {
+    assert.deepEqual(chunkDocument(guide), [
+        { text: 'Refunds are issued to the original payment method. They take five days.', headings: ['Refunds'] },
+        { text: '- Orders under $500\n- Enterprise customers\non an annual plan', headings: ['Refunds', 'Eligibility'] },
+        { text: 'Orders ship within two days.', headings: ['Shipping'] }
+    ]);
+});
+
+test('long paragraphs split at sentences and overlap into the next chunk', () => {
+    const sentences = Array.from({ length: 6 }, (_, i) => `Sentence number ${i + 1} is here.`);
+    const chunks = chunkDocument(sentences.join(' '), { size: 80, overlap: 40 });
+    assert.deepEqual(chunks.map(c => c.text), [
+        `${sentences[0]} ${sentences[1]}`,
+        `${sentences[1]} ${sentences[2]}`,
+        `${sentences[2]} ${sentences[3]}`,
+        `${sentences[3]} ${sentences[4]}`,
+        `${sentences[4]} ${sentences[5]}`
+    ]);
+    assert.ok(chunks.every(c => c.text.length <= 80));
+});
+
+test('a table too big for one chunk repeats its header row in every piece', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => `| Plan ${i} | $${i}0 |`);
+    const table = ['| Plan | Price |', '| --- | --- |', ...rows].join('\n');
+    const chunks = chunkDocument(table, { size: 90, overlap: 0 });
+    assert.ok(chunks.length > 1);
+    for (const { text } of chunks) {
+        assert.ok(text.startsWith('| Plan | Price |\n| --- | --- |\n| Plan '));
+        assert.ok(text.length <= 90);
+    }
+    assert.deepEqual(chunks.flatMap(c => c.text.split('\n').slice(2)), rows);
+});
+
+test('words longer than a chunk are cut rather than overflowing it', () => {
+    const chunks = chunkDocument(`Token: ${'x'.repeat(25)}`, { size: 10, overlap: 0 });
+    assert.deepEqual(chunks.map(c => c.text), ['Token:', 'xxxxxxxxxx', 'xxxxxxxxxx', 'xxxxx']);
+});
+
+test('the fixed strategy cuts windows of the given size and overlap', () => {
+    assert.deepEqual(chunkDocument('abcdefghij', { strategy: 'fixed', size: 4, overlap: 1 }), [
+        { text: 'abcd', headings: [] },
+        { text: 'defg', headings: [] },
+        { text: 'ghij', headings: [] }
+    ]);
+    assert.equal(chunkDocument('abcdef', { strategy: 'fixed', size: 2, overlap: 5 }).length, 5);
+});
@@ -0,0 +1,287 @@
+// Live coaching: the server coaches the agent on a chat or call itself whenever a new line arrives, instead of
+// the agent's page posting the whole transcript. The model's JSON reply is streamed, and each field is pushed
+// to the agent once it is complete — nextAction first, then smartReplies, sentiment, insights and
+// escalationRisk, in the order the coaching prompt lists them. A newer line aborts the generation still
+// running for the same conversation, so only the latest turn reaches the agent.
+// Replies are held to COACHING_SCHEMA: obvious slips (a capitalised sentiment, "red" for rose, a risk of "85%")
+// are repaired, and a reply beyond repair gets one retry that is told what was wrong.
+
+import { array, describeErrors, integer, jsonSchema, object, oneOf, parse, partial, string } from '../../shared/schema.js';
+import { INSIGHT_COLORS, POLICY_VERDICTS, SENTIMENTS } from '../../shared/api.js';
+
+// Lines of the conversation the model sees, so a long call costs no more per turn than a short one
+export const TRANSCRIPT_WINDOW = 40;
+// Lines arriving closer together than this are coached as one turn
+const DEBOUNCE_MS = 300;
+
+const MAX_SMART_REPLIES = 4;
+const MAX_INSIGHTS = 6;
+const NEXT_ACTION_LENGTH = 200;
+const MAX_POLICIES = 50;
+
+// The Coaching type of shared/api.d.ts
+const COACHING_SCHEMA = object({
+    nextAction: string({ min: 1, max: NEXT_ACTION_LENGTH }),
+    smartReplies: array(string({ min: 1, max: 1000 }), { min: 1, max: MAX_SMART_REPLIES }),
+    sentiment: oneOf(...SENTIMENTS),
+    insights: array(object({
+        label: string({ min: 1, max: 100 }),
+        tip: string({ min: 1, max: 1000 }),
+        color: oneOf(...INSIGHT_COLORS)
+    }, { strict: true }), { max: MAX_INSIGHTS }),
+    escalationRisk: integer({ min: 0, max: 100 }),
+    // A verdict per coaching policy, see policyCompliance.js
+    policies: array(object({
+        policyId: string({ min: 1, max: 200 }),
+        verdict: oneOf(...POLICY_VERDICTS),
+        evidence: string({ max: 1000 })
+    }, { strict: true }), { max: MAX_POLICIES })
+}, { strict: true });
+const COACHING_JSON_SCHEMA = jsonSchema(COACHING_SCHEMA);
+
+const SENTIMENT_ALIASES = { angry: 'frustrated', upset: 'negative', annoyed: 'frustrated', happy: 'positive', satisfied: 'positive' };
+const COLOR_ALIASES = { red: 'rose', orange: 'amber', yellow: 'amber' };
+const VERDICT_ALIASES = { passed: 'pass', compliant: 'pass', violated: 'violation', fail: 'violation', 'n/a': 'not_applicable', 'not applicable': 'not_applicable' };
+
+const tryParse = (text) => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+};
+
+/** Coaching JSON from a model reply, unwrapping Markdown code fences and surrounding prose → object or null. */
+export function parseCoaching(raw) {
+    const cleaned = raw.trim()
+        .replace(/^```json\s*/i, '')
+        .replace(/^```\s*/i, '')
+        .replace(/\s*```$/i, '')
+        .trim();
+    return tryParse(cleaned) ?? tryParse(cleaned.match(/\{[\s\S]*\}/)?.[0] ?? '');
+}
+
+const word = (value) => typeof value === 'string' ? value.trim().toLowerCase() : value;
+const listOf = (value) => Array.isArray(value) ? value : [value];
+const trimmed = (value) => typeof value === 'string' ? value.trim() : value;
+
+// 85, 85.4, "85" and "85%" → 85; out-of-range values are clamped
+const risk = (value) => {
+    const n = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? Math.round(Math.min(100, Math.max(0, n))) : value;
+};
+
+/**
+ * Fix what a model commonly gets almost right, field by field: case and synonyms of sentiments and colors,
+ * numbers written as text, single values where lists belong, surplus replies and insights, unknown keys.
+ * Fields it cannot fix are left for the schema to reject.
+ */
+export function repairCoaching(value) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+    const repair = {
+        nextAction: (v) => typeof v === 'string' ? v.trim().slice(0, NEXT_ACTION_LENGTH) : v,
+        smartReplies: (v) => listOf(v).map(trimmed).filter(reply => reply !== '').slice(0, MAX_SMART_REPLIES),
+        sentiment: (v) => SENTIMENT_ALIASES[word(v)] || word(v),
+        insights: (v) => listOf(v).slice(0, MAX_INSIGHTS).map(insight => insight && typeof insight === 'object'
+            ? { label: trimmed(insight.label), tip: trimmed(insight.tip), color: COLOR_ALIASES[word(insight.color)] || word(insight.color) }
+            : insight),
+        escalationRisk: risk,
+        policies: (v) => listOf(v).slice(0, MAX_POLICIES).map(verdict => verdict && typeof verdict === 'object'
+            ? {
+                policyId: typeof verdict.policyId === 'number' ? String(verdict.policyId) : verdict.policyId,
+                verdict: VERDICT_ALIASES[word(verdict.verdict)] || word(verdict.verdict),
+                evidence: trimmed(verdict.evidence ?? '')
+            }
+            : verdict)
+    };
+    return Object.fromEntries(Object.entries(repair).filter(([key]) => value[key] !== undefined).map(([key, fix]) => [key, fix(value[key])]));
+}
+
+/** Check a model reply against the coaching schema after repair → { coaching } or { reason, errors }. */
+export function checkCoaching(raw) {
+    const value = parseCoaching(raw);
+    if (!value) return { reason: 'unparseable', errors: null };
+    const { value: coaching, errors } = parse(COACHING_SCHEMA, repairCoaching(value), { root: 'coaching' });
+    return errors ? { reason: 'invalid_schema', errors } : { coaching };
+}
+
+// The valid fields of coaching still being streamed; a field the schema rejects waits for the final check,
+// and policy verdicts wait for the review
+function validFields(value) {
+    const { value: checked, errors } = parse(partial(COACHING_SCHEMA), repairCoaching(value), { root: 'coaching' });
+    if (!checked || typeof checked !== 'object') return {};
+    const failed = new Set([...Object.keys(errors || {}).map(field => field.split(/[.[]/)[0]), 'policies']);
+    return Object.fromEntries(Object.entries(checked).filter(([key]) => !failed.has(key)));
+}
+
+const retryPrompt = (prompt, { reason, errors }) => `${prompt}
+
+--- YOUR PREVIOUS REPLY WAS REJECTED ---
+${reason === 'unparseable'
+        ? 'It was not a JSON object.'
+        : `It did not match the required format: ${Object.entries(errors).map(([field, message]) => `${field} ${message}`).join('; ')}.`}
+Reply again with ONLY a JSON object matching this JSON Schema:
+${JSON.stringify(COACHING_JSON_SCHEMA)}`;
+
+/**
+ * Coaching for `prompt` that passed the schema. `reply` is a reply already received (streamed); otherwise the
+ * model is asked, with structured output where the provider has it. A reply beyond repair gets one retry; if
+ * that fails too, throws an Error with `reason` 'provider_error', 'unparseable' or 'invalid_schema' and the
+ * rejected `fields`.
+ */
+export async function generateCoaching(llm, prompt, { reply, signal } = {}) {
+    const ask = async (request) => {
+        try {
+            return await llm.generate(request, { json: true, schema: COACHING_JSON_SCHEMA });
+        } catch (e) {
+            throw Object.assign(new Error(`Coaching model failed: ${e.message}`), { reason: 'provider_error', status: e.status });
+        }
+    };
+    const first = checkCoaching(reply ?? await ask(prompt));
+    if (first.coaching) return first.coaching;
+    signal?.throwIfAborted();
+    console.warn(`[Coaching] Rejected reply (${first.reason}${first.errors ? `: ${describeErrors(first.errors)}` : ''}), retrying once`);
+    const second = checkCoaching(await ask(retryPrompt(prompt, first)));
+    if (second.coaching) return second.coaching;
+    throw Object.assign(
+        new Error(second.reason === 'unparseable' ? 'Could not parse coaching JSON' : `Coaching does not match its schema: ${describeErrors(second.errors)}`),
+        { reason: second.reason, fields: second.errors }
+    );
+}
+
+/**
+ * The top-level fields of a JSON object still being streamed that are already complete. A field counts once
+ * the next one has begun or the object has closed; an array still being written yields the items finished so far.
+ */
+export function partialObject(text) {
+    const start = text.indexOf('{');
+    if (start === -1) return {};
+    let depth = 0, inString = false, escaped = false;
+    // Last comma between top-level fields; the array value being written and the last comma between its items
+    let fieldsEnd = -1, arrayStart = -1, itemsEnd = -1;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            depth++;
+            if (depth === 2 && ch === '[') {
+                arrayStart = i;
+                itemsEnd = -1;
+            }
+        } else if (ch === '}' || ch === ']') {
+            depth--;
+            if (depth === 0) return tryParse(text.slice(start, i + 1)) || {};
+            if (depth === 1) arrayStart = -1;
+        } else if (ch === ',') {
+            if (depth === 1) fieldsEnd = i;
+            else if (depth === 2 && arrayStart !== -1) itemsEnd = i;
+        }
+    }
+    const fields = (fieldsEnd !== -1 && tryParse(`${text.slice(start, fieldsEnd)}}`)) || {};
+    if (arrayStart !== -1 && itemsEnd !== -1) {
+        const key = text.slice(fieldsEnd === -1 ? start + 1 : fieldsEnd + 1, arrayStart).match(/"((?:[^"\\]|\\.)*)"\s*:\s*$/)?.[1];
+        const items = tryParse(`${text.slice(arrayStart, itemsEnd)}]`);
+        if (key !== undefined && items) fields[tryParse(`"${key}"`) ?? key] = items;
+    }
+    return fields;
+}
+
+const conversationKey = ({ kind, id }) => `${kind}:${id}`;
+
+class CoachingService {
+    /**
+     * @param {{
+     *   llm: { generateStream: (prompt: string, options: { json: boolean, signal: AbortSignal }) => AsyncIterable<string> } | null,
+     *   load: (tenantId: string, ref: { kind: 'chat' | 'voice', id: string }) => Promise<{ agent: object, customer: object | null, transcript: { role: string, text: string }[] } | null>,
+     *   prepare: (tenantId: string, transcript: object[], context: { conversation: object, agent: object, customer: object | null }) => Promise<{ prompt: string, knowledgeContext: object[], query: string }>,
+     *   review?: (tenantId: string, ref: { kind: 'chat' | 'voice', id: string }, coaching: object, transcript: object[]) => Promise<object>,
+     *   emit: (agent: object, event: 'coaching_update' | 'coaching_error', payload: object) => void,
+     *   debounceMs?: number
+     * }} options  `load` returns the conversation's agent, customer and transcript, or null when nobody is there to coach;
+     *             `prepare` retrieves knowledge for the transcript and builds the prompt; `review` turns the
+     *             model's validated coaching into what the agent is sent, given the whole transcript.
+     */
+    constructor({ llm, load, prepare, review = async (tenantId, ref, coaching) => coaching, emit, debounceMs = DEBOUNCE_MS }) {
+        this.llm = llm;
+        this.load = load;
+        this.prepare = prepare;
+        this.review = review;
+        this.emit = emit;
+        this.debounceMs = debounceMs;
+        // conversation key → { turn, timer, controller } while a turn is pending or running
+        this.live = new Map();
+        // Turns count up across conversations, so a conversation's turns keep rising after its entry is dropped
+        this.turns = 0;
+    }
+
+    /** A new line arrived: coach it shortly, superseding whatever is pending or running for the conversation. */
+    schedule(tenantId, ref) {
+        if (!this.llm) return;
+        const key = conversationKey(ref);
+        const previous = this.live.get(key);
+        clearTimeout(previous?.timer);
+        previous?.controller?.abort();
+        const state = { turn: ++this.turns, timer: null, controller: null };
+        state.timer = setTimeout(() => {
+            state.controller = new AbortController();
+            this.run(tenantId, ref, state.turn, state.controller.signal)
+                .catch(e => console.error(`[Coaching] ${ref.kind} ${ref.id} (tenant: ${tenantId}):`, e.message))
+                .finally(() => {
+                    if (this.live.get(key) === state) this.live.delete(key);
+                });
+        }, this.debounceMs);
+        this.live.set(key, state);
+    }
+
+    /** The conversation ended: drop its pending and running coaching. */
+    cancel(ref) {
+        const key = conversationKey(ref);
+        const state = this.live.get(key);
+        if (!state) return;
+        clearTimeout(state.timer);
+        state.controller?.abort();
+        this.live.delete(key);
+    }
+
+    async run(tenantId, ref, turn, signal) {
+        const live = await this.load(tenantId, ref);
+        if (!live?.agent || !live.transcript.length || signal.aborted) return;
+        const send = (event, payload) => {
+            if (!signal.aborted) this.emit(live.agent, event, { kind: ref.kind, id: ref.id, turn, ...payload });
+        };
+        try {
+            const transcript = live.transcript.slice(-TRANSCRIPT_WINDOW);
+            const { prompt, knowledgeContext, query } = await this.prepare(tenantId, transcript, { conversation: ref, agent: live.agent, customer: live.customer });
+            send('coaching_update', { coaching: {}, knowledgeContext, query, done: false });
+            let raw = '', sent = '{}';
+            try {
+                for await (const piece of this.llm.generateStream(prompt, { json: true, schema: COACHING_JSON_SCHEMA, signal })) {
+                    raw += piece;
+                    const fields = JSON.stringify(validFields(partialObject(raw)));
+                    if (fields === sent) continue;
+                    sent = fields;
+                    send('coaching_update', { coaching: JSON.parse(fields), done: false });
+                }
+            } catch (e) {
+                if (signal.aborted) return;
+                throw Object.assign(e, { reason: 'provider_error' });
+            }
+            const generated = await generateCoaching(this.llm, prompt, { reply: raw, signal });
+            // A newer line has taken over; its own turn will be reviewed
+            signal.throwIfAborted();
+            const coaching = await this.review(tenantId, ref, generated, live.transcript);
+            send('coaching_update', { coaching, knowledgeContext, query, done: true });
+        } catch (e) {
+            if (signal.aborted) return;
+            console.error(`[Coaching] ${ref.kind} ${ref.id} (tenant: ${tenantId}):`, e.message);
+            send('coaching_error', { error: 'Failed to generate coaching', reason: e.reason || 'provider_error' });
+        }
+    }
+}
+
+export default CoachingService;
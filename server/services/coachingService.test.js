@@ -0,0 +1,140 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import CoachingService, { checkCoaching, generateCoaching, parseCoaching, partialObject, repairCoaching } from './coachingService.js';
+
+const coaching = {
+    nextAction: 'Verify Identity Before Proceeding',
+    smartReplies: ['May I have your email?', 'Could you confirm your phone number?'],
+    sentiment: 'neutral',
+    insights: [{ label: 'Identity Not Verified', tip: 'Ask for the email on file', color: 'amber' }],
+    escalationRisk: 10,
+    policies: [{ policyId: '4', verdict: 'not_applicable', evidence: '' }]
+};
+const reply = JSON.stringify(coaching);
+
+// A model that answers each request with the next of `replies` and records the prompts it got
+function fakeLlm(replies, chunks = []) {
+    return {
+        prompts: [],
+        async generate(prompt) {
+            this.prompts.push(prompt);
+            const next = replies.shift();
+            if (next instanceof Error) throw next;
+            return next;
+        },
+        async *generateStream(prompt, { signal }) {
+            for (const chunk of chunks) {
+                await new Promise(resolve => setImmediate(resolve));
+                if (signal.aborted) throw new Error('aborted');
+                yield chunk;
+            }
+        }
+    };
+}
+
+test('coaching JSON is found inside code fences and prose', () => {
+    assert.deepEqual(parseCoaching(`\`\`\`json\n${reply}\n\`\`\``), coaching);
+    assert.deepEqual(parseCoaching(`Here is the coaching:\n${reply}\nGood luck!`), coaching);
+    assert.equal(parseCoaching('I cannot help with that.'), null);
+});
+
+test('near misses are repaired and the rest left for the schema to reject', () => {
+    const repaired = repairCoaching({
+        ...coaching,
+        sentiment: ' Angry ',
+        smartReplies: 'Let me check that for you.',
+        insights: [{ label: 'Escalation Signal', tip: 'Apologise', color: 'RED', extra: true }],
+        escalationRisk: '85.6%',
+        policies: [{ policyId: 3, verdict: 'Violated', evidence: ' I want a lawyer ' }],
+        confidence: 0.9
+    });
+    assert.equal(repaired.sentiment, 'frustrated');
+    assert.deepEqual(repaired.smartReplies, ['Let me check that for you.']);
+    assert.deepEqual(repaired.insights, [{ label: 'Escalation Signal', tip: 'Apologise', color: 'rose' }]);
+    assert.equal(repaired.escalationRisk, 86);
+    assert.deepEqual(repaired.policies, [{ policyId: '3', verdict: 'violation', evidence: 'I want a lawyer' }]);
+    assert.equal(repaired.confidence, undefined);
+    assert.equal(repairCoaching({ ...coaching, escalationRisk: 250 }).escalationRisk, 100);
+});
+
+test('a reply is checked against the schema after repair', () => {
+    assert.deepEqual(checkCoaching(reply), { coaching });
+    assert.deepEqual(checkCoaching('not json'), { reason: 'unparseable', errors: null });
+    const { reason, errors } = checkCoaching(JSON.stringify({ ...coaching, sentiment: 'confused', smartReplies: [] }));
+    assert.equal(reason, 'invalid_schema');
+    assert.deepEqual(errors, { smartReplies: 'must have at least 1 item', sentiment: 'must be one of: positive, neutral, negative, frustrated' });
+});
+
+test('a reply beyond repair gets one retry that is told what was wrong', async () => {
+    const llm = fakeLlm([reply]);
+    assert.deepEqual(await generateCoaching(llm, 'PROMPT', { reply: '{"nextAction": ""}' }), coaching);
+    assert.equal(llm.prompts.length, 1);
+    assert.match(llm.prompts[0], /^PROMPT\n\n--- YOUR PREVIOUS REPLY WAS REJECTED ---\nIt did not match the required format: nextAction must not be empty; smartReplies is required;/);
+    assert.match(llm.prompts[0], /"additionalProperties":false/);
+});
+
+test('a valid streamed reply costs no further call, and a second failure gives up with the reason', async () => {
+    const llm = fakeLlm(['still not json']);
+    assert.deepEqual(await generateCoaching(llm, 'PROMPT', { reply }), coaching);
+    assert.equal(llm.prompts.length, 0);
+    await assert.rejects(generateCoaching(llm, 'PROMPT', { reply: 'nope' }), { reason: 'unparseable', message: 'Could not parse coaching JSON' });
+    await assert.rejects(generateCoaching(fakeLlm([Object.assign(new Error('quota'), { status: 429 })]), 'PROMPT'),
+        { reason: 'provider_error', status: 429, message: 'Coaching model failed: quota' });
+});
+
+test('a streamed object yields each field once it is complete, and finished array items early', () => {
+    assert.deepEqual(partialObject(''), {});
+    assert.deepEqual(partialObject('{"nextAction": "Verify Iden'), {});
+    assert.deepEqual(partialObject('{"nextAction": "Verify, then act", "smartReplies": ["May I'), { nextAction: 'Verify, then act' });
+    assert.deepEqual(partialObject('{"nextAction": "Go", "smartReplies": ["One, two", "Thr'), { nextAction: 'Go', smartReplies: ['One, two'] });
+    assert.deepEqual(partialObject('{"a": {"b": [1, 2]}, "c": "\\"quoted\\", still'), { a: { b: [1, 2] } });
+    assert.deepEqual(partialObject(`Sure! ${reply} trailing`), coaching);
+});
+
+test('live coaching streams the fields in order and ends with the reviewed coaching', async () => {
+    const chunks = reply.match(/.{1,12}/g);
+    const sent = [];
+    let resolveDone;
+    const done = new Promise(resolve => { resolveDone = resolve; });
+    const service = new CoachingService({
+        llm: fakeLlm([], chunks),
+        load: async () => ({ agent: { id: 'ann' }, customer: null, transcript: [{ role: 'customer', text: 'Hi' }] }),
+        prepare: async () => ({ prompt: 'PROMPT', knowledgeContext: [], query: 'hi' }),
+        review: async (tenantId, ref, generated) => ({ ...generated, reviewed: true }),
+        emit: (agent, event, payload) => {
+            sent.push({ event, payload });
+            if (payload.done || event === 'coaching_error') resolveDone();
+        },
+        debounceMs: 0
+    });
+    service.schedule('acme', { kind: 'chat', id: 'c1' });
+    await done;
+    const updates = sent.map(({ payload }) => Object.keys(payload.coaching));
+    assert.deepEqual(updates[0], []);
+    assert.deepEqual(updates[1], ['nextAction']);
+    assert.ok(updates.slice(1, -1).every(keys => !keys.includes('policies')));
+    assert.deepEqual(sent.at(-1).payload, { kind: 'chat', id: 'c1', turn: 1, coaching: { ...coaching, reviewed: true }, knowledgeContext: [], query: 'hi', done: true });
+});
+
+test('a newer line supersedes the turn still being coached', async () => {
+    const sent = [];
+    let resolveDone;
+    const done = new Promise(resolve => { resolveDone = resolve; });
+    const service = new CoachingService({
+        llm: fakeLlm([], reply.match(/.{1,12}/g)),
+        load: async () => ({ agent: { id: 'ann' }, customer: null, transcript: [{ role: 'customer', text: 'Hi' }] }),
+        prepare: async () => ({ prompt: 'PROMPT', knowledgeContext: [], query: 'hi' }),
+        emit: (agent, event, payload) => {
+            sent.push(payload.turn);
+            if (payload.done) resolveDone();
+        },
+        debounceMs: 0
+    });
+    service.schedule('acme', { kind: 'chat', id: 'c1' });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    service.schedule('acme', { kind: 'chat', id: 'c1' });
+    await done;
+    const lastOfFirst = sent.lastIndexOf(1);
+    assert.ok(lastOfFirst < sent.indexOf(2));
+    assert.equal(sent.at(-1), 2);
+});
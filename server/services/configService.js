@@ -0,0 +1,251 @@
+import { createRecordStore, resolveDriver } from './storage.js';
+import { DEFAULT_TENANT_ID, tenantOf } from './tenantService.js';
+import { DEFAULT_RETRIEVAL } from './knowledgeService.js';
+
+const CONFIG_COLLECTION = 'agent_success_admin_configuration';
+const CONFIG_DOC = 'agent_success_agent_settings';
+const REVISIONS_COLLECTION = 'agent_success_config_revisions';
+
+// Documents follow the knowledge index, not the editor, so they are left out of revisions and restores
+const UNVERSIONED_FIELDS = ['documents'];
+
+// --- Admin configuration defaults (overridden per tenant by Firestore) ---
+export const DEFAULT_CONFIG = {
+    systemPrompt: 'You are a professional inbound customer support agent handling a customer who is calling in with an issue, complaint, or request. Follow this order: (1) Greet warmly and thank them for calling, (2) Verify their identity — collect name, phone, and email, (3) Listen actively without interrupting, (4) Acknowledge and empathize with their issue, (5) Offer a clear resolution or escalation path, (6) Confirm the resolution and thank them. Be empathetic, patient, and professional at all times.',
+    companyName: 'AgentOS',
+    agentName: 'Support Agent',
+    welcomeMessage: 'Thank you for calling {{companyName}} Support! My name is {{agentName}}. May I please get your name to get started?',
+    maxResponseTime: 120,
+    autoGreeting: true,
+    enableTTS: true,
+    enableTypingIndicator: true,
+    language: 'en-US',
+    tone: 'professional',
+    agentCapacity: 3,
+    autoAssign: true,
+    retrieval: { ...DEFAULT_RETRIEVAL },
+    coachingPolicies: [
+        { id: '1', name: 'Empathy First', description: 'Always acknowledge the customer\'s feelings before providing solutions.', enabled: true, priority: 'high' },
+        { id: '2', name: 'Refund Policy', description: 'Enterprise customers get immediate refunds under $500 without approval. All other refunds require supervisor approval.', enabled: true, priority: 'high' },
+        { id: '3', name: 'Escalation Protocol', description: 'If a customer mentions lawsuit, legal action, or asks for supervisor 3 times, automatically escalate.', enabled: true, priority: 'critical' },
+        { id: '4', name: 'Security Verification', description: 'Verify customer identity with 2 security questions before any account changes.', enabled: true, priority: 'high' },
+        { id: '5', name: 'Positive Closure', description: 'Always end the conversation by asking if there is anything else and thank the customer.', enabled: false, priority: 'medium' },
+    ],
+    documents: [],
+    coachingPrompt: `You are an expert inbound call center coach. The customer has called in to report an issue or complaint. Your job is to guide the agent through resolving it professionally.
+
+### CRITICAL: FINANCIAL EMPATHY
+If the customer mentions "losing money", "financial loss", "losing my money", or any extreme frustration regarding costs:
+- The smartReplies MUST lead with profound empathy (e.g., "I completely understand how stressful it is to feel like you're losing your hard-earned money. I am going to look into this immediately for you.")
+- Focus on being HELPFUL and context-aware. If a policy prevents a refund, the smart reply should bridge that gap with alternatives or a sincere apology and investigation path.
+
+Coaching journey stages:
+1. GREETING & VERIFICATION — Did the agent greet warmly and collect Name, Phone, Email?
+2. ISSUE CAPTURE — Has the agent clearly understood and repeated back the customer's issue?
+3. EMPATHY — Has the agent acknowledged the customer's frustration before jumping to solutions?
+4. RESOLUTION — Is the agent offering a clear, actionable resolution or escalation path?
+5. CLOSURE — Has the agent confirmed the resolution and asked if there is anything else?
+
+Analyze the conversation and return ONLY valid JSON — no markdown, no explanation:
+{
+  "nextAction": "Short coaching label (5-8 words, action-oriented, e.g. 'Verify Identity Before Proceeding', 'Acknowledge Issue Before Solving', 'Offer Resolution Options Now', 'Confirm Fix and Close Warmly')",
+  "smartReplies": [
+    "Exact professional sentence the agent should say next",
+    "Alternative phrasing option",
+    "Empathy or resolution phrasing option"
+  ],
+  "sentiment": "neutral",
+  "insights": [
+    {
+      "label": "Inbound QA coaching tag (e.g. Identity Not Verified, Empathy Gap, Issue Not Confirmed, Resolution Offered, Escalation Signal, Positive Closure)",
+      "tip": "Specific actionable guidance based on the most recent message",
+      "color": "green"
+    }
+  ],
+  "escalationRisk": 10
+}
+
+Rules:
+- If identity (name/email/phone) not yet collected → nextAction should be to collect it
+- If customer mentions "losing money" or extreme frustration → escalationRisk > 80, nextAction MUST be "De-escalate with Deep Empathy"
+- If agent has not shown empathy → add 'Empathy Gap' insight, color = amber
+- If customer mentions supervisor, legal, or complaint → escalationRisk > 80
+- sentiment: positive | neutral | negative | frustrated
+- color: green (good), blue (info), amber (needs attention), rose (urgent)
+- escalationRisk: integer 0-100`,
+    summaryPrompt: 'Generate a structured call summary in exactly this format — fill in each field based on the conversation:\n\n**Customer Information**\nCustomer Name: [name or "Not Collected"]\nCustomer Email: [email or "Not Collected"]\nCustomer Phone: [phone or "Not Collected"]\nCustomer Address: [address or "Not Collected"]\n\n**Call Details**\nReason: [concise description of why the customer called]\nResolution: [what was done — e.g. agent escalated, refunded, explained policy, offered alternative]\n\n**Sentiment Analysis**\nStarting Sentiment: [Neutral / Positive / Negative]\nPeak Sentiment: [emotion at the most intense point, e.g. Frustrated / Angry / Relieved]\nEnding Sentiment: [emotion at call end, e.g. Accepting / Satisfied / Neutral]\n\n**QA & CX Metrics**\nPolicy Compliance: [✅ or ❌]\nEffort Demonstrated: [✅ or ❌]\nEmpathy Demonstrated: [✅ or ❌]\nClarity & Transparency: [✅ or ❌]\nDe-escalation Techniques Used: [✅ or ❌]\nOwnership & Advocacy: [✅ or ❌]\nTone & Professionalism: [✅ or ❌]\nActive Listening Indicators: [Present / Absent]\nNext-Step Guidance Provided: [✅ or ❌]\nCustomer Effort Score (Estimated): [Low / Moderate / High]\nFirst Contact Resolution: [Yes / No / Partial]\nRetention Opportunity Created: [Yes / No]',
+};
+
+// The default tenant keeps the original document id so existing deployments keep their settings
+const configDocId = (tenantId) => tenantId === DEFAULT_TENANT_ID ? CONFIG_DOC : `${CONFIG_DOC}__${tenantId}`;
+
+const versionedSnapshot = (config) => {
+    const snapshot = structuredClone(config);
+    UNVERSIONED_FIELDS.forEach(field => delete snapshot[field]);
+    return snapshot;
+};
+
+const SYSTEM_AUTHOR = { id: 'system', email: null, name: 'System' };
+
+// Per-tenant admin configuration, cached in memory and persisted to Firestore.
+// Every edit made on behalf of a user also appends an immutable revision:
+// revision = { id, tenantId, number, author: { id, email, name }, action, restoredFrom?, changedFields: [], config, createdAt }
+class ConfigService {
+    constructor({ firestore, driver } = {}) {
+        this.firestore = firestore;
+        this.configs = new Map();
+        this.revisions = createRecordStore({
+            name: 'config-revisions',
+            driver: resolveDriver(driver, firestore),
+            firestore,
+            collection: REVISIONS_COLLECTION
+        });
+    }
+
+    async init() {
+        await this.revisions.init();
+        return this;
+    }
+
+    async loadFromFirestore(tenantId) {
+        if (!this.firestore) return null;
+        try {
+            const snap = await this.firestore.collection(CONFIG_COLLECTION).doc(configDocId(tenantId)).get();
+            if (snap.exists) {
+                console.log(`[Firebase] Config loaded from Firestore (tenant: ${tenantId})`);
+                return snap.data();
+            }
+        } catch (e) {
+            console.warn('[Firebase] Could not load config:', e.message);
+        }
+        return null;
+    }
+
+    async saveToFirestore(tenantId, config) {
+        if (!this.firestore) return;
+        try {
+            await this.firestore.collection(CONFIG_COLLECTION).doc(configDocId(tenantId)).set(config);
+            console.log(`[Firebase] Config saved to Firestore (tenant: ${tenantId})`);
+        } catch (e) {
+            console.warn('[Firebase] Could not save config:', e.message);
+        }
+    }
+
+    /** Config for a tenant — loaded once, then served from memory. */
+    async get(tenantId = DEFAULT_TENANT_ID) {
+        if (!this.configs.has(tenantId)) {
+            const saved = await this.loadFromFirestore(tenantId);
+            // Deep-copy the defaults so tenants never share the policy/document arrays
+            const config = { ...structuredClone(DEFAULT_CONFIG), ...(saved || {}) };
+            // Welcome messages saved before templates (shared/template.js) existed carry a literal placeholder
+            config.welcomeMessage = config.welcomeMessage.replaceAll('[Agent Name]', '{{agentName}}');
+            this.configs.set(tenantId, config);
+            if (saved) console.log(`[Config] Loaded (${tenantId}): companyName="${config.companyName}", welcomeMessage="${config.welcomeMessage}"`);
+        }
+        return this.configs.get(tenantId);
+    }
+
+    /**
+     * Replace a tenant's config and persist it. Pass `revision` ({ author, action })
+     * to record the change in the tenant's history.
+     */
+    async set(tenantId, config, revision) {
+        if (revision) await this.recordRevision(tenantId, config, revision);
+        this.configs.set(tenantId, config);
+        await this.saveToFirestore(tenantId, config);
+        return config;
+    }
+
+    /** Persist in-place changes made to the object returned by get(). */
+    async save(tenantId, revision) {
+        return this.set(tenantId, await this.get(tenantId), revision);
+    }
+
+    /** Forget a deleted tenant's config and its whole revision history. */
+    async deleteTenantConfig(tenantId) {
+        this.configs.delete(tenantId);
+        for (const revision of await this.listRevisions(tenantId)) await this.revisions.remove(revision.id);
+        if (!this.firestore) return;
+        try {
+            await this.firestore.collection(CONFIG_COLLECTION).doc(configDocId(tenantId)).delete();
+        } catch (e) {
+            console.warn('[Firebase] Could not delete config:', e.message);
+        }
+    }
+
+    // ── Revisions ──
+    async listRevisions(tenantId = DEFAULT_TENANT_ID) {
+        return (await this.revisions.list())
+            .filter(r => tenantOf(r) === tenantId)
+            .sort((a, b) => b.number - a.number);
+    }
+
+    async getRevision(tenantId, id) {
+        const revision = await this.revisions.get(id);
+        return revision && tenantOf(revision) === tenantId ? revision : null;
+    }
+
+    async recordRevision(tenantId, config, { author, action, ...details }) {
+        const revisions = await this.listRevisions(tenantId);
+        let latest = revisions[0];
+        // First edit of a tenant: keep the pre-edit config as revision 1 so it can be restored
+        if (!latest) {
+            latest = await this.putRevision(tenantId, 1, {
+                author: SYSTEM_AUTHOR,
+                action: 'baseline',
+                changedFields: [],
+                config: versionedSnapshot(this.configs.get(tenantId) || DEFAULT_CONFIG)
+            });
+        }
+        const snapshot = versionedSnapshot(config);
+        return this.putRevision(tenantId, latest.number + 1, {
+            author: author ? { id: author.id, email: author.email, name: author.name } : SYSTEM_AUTHOR,
+            action,
+            ...details,
+            changedFields: diffConfigs(latest.config, snapshot).map(c => c.field),
+            config: snapshot
+        });
+    }
+
+    async putRevision(tenantId, number, fields) {
+        const id = `${tenantId}-r${number}`;
+        return this.revisions.put(id, { id, tenantId, number, ...fields, createdAt: new Date().toISOString() });
+    }
+
+    /** Field-level changes from revision `fromId` to `toId`; `fromId` defaults to the revision before `toId`. */
+    async diffRevisions(tenantId, toId, fromId) {
+        const to = await this.getRevision(tenantId, toId);
+        if (!to) return null;
+        const from = fromId
+            ? await this.getRevision(tenantId, fromId)
+            : (await this.listRevisions(tenantId)).find(r => r.number === to.number - 1) || null;
+        if (fromId && !from) return null;
+        return {
+            from: from ? from.id : null,
+            to: to.id,
+            changes: diffConfigs(from ? from.config : {}, to.config)
+        };
+    }
+
+    /** Make an old revision current again. The restore itself is recorded as a new revision. */
+    async restoreRevision(tenantId, id, author) {
+        const revision = await this.getRevision(tenantId, id);
+        if (!revision) return null;
+        const current = await this.get(tenantId);
+        const restored = { ...structuredClone(revision.config) };
+        UNVERSIONED_FIELDS.forEach(field => { restored[field] = current[field]; });
+        return this.set(tenantId, restored, { author, action: 'restore', restoredFrom: revision.id });
+    }
+}
+
+/** Compare two config snapshots field by field → [{ field, before, after }]. */
+export function diffConfigs(before = {}, after = {}) {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...fields]
+        .filter(field => !UNVERSIONED_FIELDS.includes(field))
+        .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+        .sort()
+        .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+export default ConfigService;
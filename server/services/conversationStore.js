@@ -0,0 +1,137 @@
+import { createRecordStore, resolveDriver } from './storage.js';
+import { DEFAULT_TENANT_ID, tenantOf } from './tenantService.js';
+
+const CONVERSATIONS_COLLECTION = 'agent_success_live_conversations';
+const VOICE_SESSIONS_COLLECTION = 'agent_success_live_voice_sessions';
+
+// Live chat conversations and voice sessions.
+// conversation  = { id, tenantId, messages: [], customerInfo: {}, status: 'waiting' | 'active', startTime,
+//                   priority, queuedAt, assignedAgent, assignedAt, releasedBy,   — routing fields, see RoutingService
+//                   handoffs: [], whispers: [] }                                 — see TransferService
+// voice session = { id, tenantId, entries: [], callerName, agent, startTime, handoffs: [], whispers: [] }
+class ConversationStore {
+    constructor({ driver, firestore } = {}) {
+        this.driver = resolveDriver(driver, firestore);
+        this.conversations = createRecordStore({
+            name: 'conversations',
+            driver: this.driver,
+            firestore,
+            collection: CONVERSATIONS_COLLECTION
+        });
+        this.voiceSessions = createRecordStore({
+            name: 'voice-sessions',
+            driver: this.driver,
+            firestore,
+            collection: VOICE_SESSIONS_COLLECTION
+        });
+    }
+
+    // Rehydrate in-flight conversations and calls left over from a previous process
+    async init() {
+        await this.conversations.init();
+        await this.voiceSessions.init();
+        const chats = (await this.conversations.list()).length;
+        const calls = (await this.voiceSessions.list()).length;
+        console.log(`[Store] Using ${this.driver} driver — rehydrated ${chats} conversation(s), ${calls} voice session(s)`);
+        return this;
+    }
+
+    // ── Chat conversations ──
+    async listConversations(tenantId = DEFAULT_TENANT_ID) {
+        return (await this.conversations.list()).filter(c => tenantOf(c) === tenantId);
+    }
+
+    async listAllConversations() {
+        return this.conversations.list();
+    }
+
+    async getConversation(id) {
+        return this.conversations.get(id);
+    }
+
+    async createConversation(id, customerInfo, tenantId = DEFAULT_TENANT_ID) {
+        const now = new Date().toISOString();
+        return this.conversations.put(id, {
+            id,
+            tenantId,
+            messages: [],
+            customerInfo: customerInfo || { name: 'Anonymous' },
+            status: 'waiting',
+            priority: 'normal',
+            queuedAt: now,
+            assignedAgent: null,
+            startTime: now
+        });
+    }
+
+    async updateConversation(id, changes) {
+        const conv = await this.conversations.get(id);
+        if (!conv) return null;
+        return this.conversations.put(id, { ...conv, ...changes });
+    }
+
+    async appendMessage(id, message) {
+        const conv = await this.conversations.get(id);
+        if (!conv) return null;
+        return this.conversations.put(id, { ...conv, messages: [...conv.messages, message] });
+    }
+
+    async clearMessages(id) {
+        return this.updateConversation(id, { messages: [] });
+    }
+
+    async deleteConversation(id) {
+        return this.conversations.remove(id);
+    }
+
+    async clearConversations(tenantId = DEFAULT_TENANT_ID) {
+        for (const conv of await this.listConversations(tenantId)) {
+            await this.conversations.remove(conv.id);
+        }
+    }
+
+    // ── Voice sessions ──
+    async getVoiceSession(sessionId) {
+        return this.voiceSessions.get(sessionId);
+    }
+
+    async listVoiceSessions(tenantId = DEFAULT_TENANT_ID) {
+        return (await this.voiceSessions.list()).filter(s => tenantOf(s) === tenantId);
+    }
+
+    // `agent` is the signed-in staff member handling the call, or null when the customer dialled in first
+    async startVoiceSession(sessionId, callerName, tenantId = DEFAULT_TENANT_ID, agent = null) {
+        return this.voiceSessions.put(sessionId, {
+            id: sessionId,
+            tenantId,
+            entries: [],
+            callerName: callerName || 'Caller',
+            agent,
+            startTime: new Date().toISOString()
+        });
+    }
+
+    async updateVoiceSession(sessionId, changes) {
+        const session = await this.voiceSessions.get(sessionId);
+        if (!session) return null;
+        return this.voiceSessions.put(sessionId, { ...session, ...changes });
+    }
+
+    async appendVoiceEntry(sessionId, entry) {
+        const session = await this.voiceSessions.get(sessionId);
+        if (!session) return null;
+        return this.voiceSessions.put(sessionId, { ...session, entries: [...session.entries, entry] });
+    }
+
+    async endVoiceSession(sessionId) {
+        return this.voiceSessions.remove(sessionId);
+    }
+
+    async clearVoiceSessions(tenantId = DEFAULT_TENANT_ID) {
+        for (const session of await this.listVoiceSessions(tenantId)) {
+            await this.voiceSessions.remove(session.id);
+        }
+    }
+}
+
+export default ConversationStore;
@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+
+// Turns uploaded knowledge documents into plain text for chunking and embedding.
+// Every extractor emits Markdown-flavoured text: headings as `#` lines and tables as `| a | b |` rows,
+// so structure survives into the chunks the coaching prompt quotes.
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“' };
+
+const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+});
+
+// Text of an inline HTML fragment on one line
+const inlineText = (html) => decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+function markdownTable(rows) {
+    const width = Math.max(...rows.map(row => row.length));
+    const line = (cells) => `| ${Array.from({ length: width }, (_, i) => (cells[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`;
+    return [line(rows[0]), line(new Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+const tidy = (text) => text
+    .replace(/\r\n?/g, '\n')
+    .split('\n').map(line => line.replace(/[ \t]+/g, ' ').trimEnd()).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+function htmlToText(html) {
+    const text = html
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|head|noscript|template)\b[\s\S]*?<\/\1>/gi, '')
+        .replace(/<table\b[\s\S]*?<\/table>/gi, (table) => {
+            const rows = (table.match(/<tr\b[\s\S]*?<\/tr>/gi) || [])
+                .map(row => (row.match(/<t[hd]\b[^>]*>[\s\S]*?<\/t[hd]>/gi) || []).map(inlineText))
+                .filter(cells => cells.length > 0);
+            return rows.length ? `\n\n${markdownTable(rows)}\n\n` : '';
+        })
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (match, level, inner) => `\n\n${'#'.repeat(Number(level))} ${inlineText(inner)}\n\n`)
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<\/li>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|article|ul|ol|blockquote|pre|tr|dt|dd)>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '');
+    return tidy(decodeEntities(text));
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text) {
+    const rows = [];
+    let row = [], field = '', quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"') quoted = true;
+        else if (ch === ',') { row.push(field.trim()); field = ''; }
+        else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field.trim()); rows.push(row); row = []; field = '';
+        } else field += ch;
+    }
+    if (field || row.length) { row.push(field.trim()); rows.push(row); }
+    return rows.filter(cells => cells.some(Boolean));
+}
+
+function readText(filePath) {
+    const text = fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, '');
+    if (text.includes('\u0000')) throw new Error('File is not text — check the file type');
+    return text;
+}
+
+async function extractPdf(filePath) {
+    const parser = new PDFParse({ data: fs.readFileSync(filePath) });
+    try {
+        const { pages } = await parser.getText();
+        const { pages: tablePages } = await parser.getTable();
+        return pages.map(page => {
+            const tables = tablePages.find(p => p.num === page.num)?.tables || [];
+            return [page.text, ...tables.filter(rows => rows.length).map(markdownTable)].join('\n\n');
+        }).join('\n\n');
+    } finally {
+        await parser.destroy();
+    }
+}
+
+async function extractDocx(filePath) {
+    const { value } = await mammoth.convertToHtml({ path: filePath });
+    return htmlToText(value);
+}
+
+const FORMATS = [
+    { format: 'pdf', extensions: ['.pdf'], mimetypes: ['application/pdf'], extract: extractPdf },
+    {
+        format: 'docx',
+        extensions: ['.docx'],
+        mimetypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+        extract: extractDocx
+    },
+    { format: 'html', extensions: ['.html', '.htm'], mimetypes: ['text/html', 'application/xhtml+xml'], extract: async (file) => htmlToText(readText(file)) },
+    { format: 'markdown', extensions: ['.md', '.markdown'], mimetypes: ['text/markdown', 'text/x-markdown'], extract: async (file) => tidy(readText(file)) },
+    {
+        format: 'csv',
+        extensions: ['.csv'],
+        mimetypes: ['text/csv'],
+        extract: async (file) => {
+            const rows = parseCsv(readText(file));
+            return rows.length ? markdownTable(rows) : '';
+        }
+    },
+    { format: 'text', extensions: ['.txt', '.text', '.json'], mimetypes: ['text/plain', 'application/json'], extract: async (file) => tidy(readText(file)) }
+];
+
+/**
+ * Pick the extractor for an upload. The extension wins because browsers often send a generic
+ * mimetype such as application/octet-stream; the mimetype covers files named without one.
+ */
+export function detectFormat({ name = '', type = '' }) {
+    const extension = path.extname(name).toLowerCase();
+    return FORMATS.find(f => f.extensions.includes(extension))
+        || FORMATS.find(f => f.mimetypes.includes(type.split(';')[0].trim().toLowerCase()))
+        || null;
+}
+
+/**
+ * Extract the text of an uploaded document → { format, text }.
+ * Throws with a reason an admin can act on when the type is unsupported or nothing readable comes out.
+ * @param {{ name: string, type: string }} doc  original file name and multer mimetype
+ */
+export async function extractDocument(filePath, doc) {
+    const extractor = detectFormat(doc);
+    if (!extractor) {
+        const hint = path.extname(doc.name).toLowerCase() === '.doc' ? ' Save legacy .doc files as .docx.' : '';
+        throw new Error(`Unsupported file type "${path.extname(doc.name) || doc.type}".${hint}`);
+    }
+    let text;
+    try {
+        text = await extractor.extract(filePath);
+    } catch (e) {
+        throw new Error(`Could not read ${extractor.format.toUpperCase()} file: ${e.message}`);
+    }
+    if (!text.trim()) {
+        throw new Error(extractor.format === 'pdf'
+            ? 'No text found — scanned PDFs must be run through OCR first'
+            : 'No text found in the document');
+    }
+    return { format: extractor.format, text };
+}
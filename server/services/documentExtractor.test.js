@@ -0,0 +1,51 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { detectFormat, extractDocument } from './documentExtractor.js';
+
+let dir;
+before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'extractor-')); });
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// Extract `content` uploaded under `name` with the browser's `type`
+function extract(name, content, type = 'application/octet-stream') {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return extractDocument(file, { name, type });
+}
+
+test('the extension picks the extractor, the mimetype covers files without one', () => {
+    assert.equal(detectFormat({ name: 'Guide.HTM', type: 'application/octet-stream' }).format, 'html');
+    assert.equal(detectFormat({ name: 'notes', type: 'text/markdown; charset=utf-8' }).format, 'markdown');
+    assert.equal(detectFormat({ name: 'prices.csv', type: 'text/plain' }).format, 'csv');
+    assert.equal(detectFormat({ name: 'image.png', type: 'image/png' }), null);
+});
+
+test('HTML keeps its headings, lists and tables as Markdown', async () => {
+    const { format, text } = await extract('faq.html', `<html><head><title>x</title><style>p{}</style></head><body>
+<h2>Returns &amp; <b>refunds</b></h2><!-- internal -->
+<p>Within&nbsp;30 days.<br>Keep the receipt.</p>
+<ul><li>Unopened</li><li>With tags</li></ul>
+<table><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro | Team</td><td>&#36;20</td></tr></table>
+<script>alert(1)</script></body></html>`);
+    assert.equal(format, 'html');
+    assert.equal(text, [
+        '## Returns & refunds',
+        'Within 30 days.\nKeep the receipt.',
+        '- Unopened\n- With tags',
+        '| Plan | Price |\n| --- | --- |\n| Pro \\| Team | $20 |'
+    ].join('\n\n'));
+});
+
+test('CSV rows become a table, quoted commas and line breaks included', async () => {
+    const { text } = await extract('plans.csv', '﻿Plan,Notes\r\n"Pro, yearly","Say ""hi""\nthen stop"\r\n,,\r\nFree\r\n');
+    assert.equal(text, '| Plan | Notes |\n| --- | --- |\n| Pro, yearly | Say "hi"\nthen stop |\n| Free |  |');
+});
+
+test('unsupported, binary and empty files are refused with a reason', async () => {
+    await assert.rejects(extract('old.doc', 'x', 'application/msword'), { message: 'Unsupported file type ".doc". Save legacy .doc files as .docx.' });
+    await assert.rejects(extract('data.txt', Buffer.from([0x50, 0x00, 0x4b])), { message: 'Could not read TEXT file: File is not text — check the file type' });
+    await assert.rejects(extract('blank.md', '  \n\n '), { message: 'No text found in the document' });
+});
@@ -0,0 +1,124 @@
+import { createRecordStore, resolveDriver } from './storage.js';
+import { snippetKey } from './knowledgeService.js';
+
+const FEEDBACK_COLLECTION = 'agent_success_knowledge_feedback';
+
+// Agents' verdicts on the knowledge snippets shown to them: a thumbs up or down, and whether they used it in a reply.
+// feedback = { id, tenantId, signal: 'up' | 'down' | 'used', key, chunkId, docId, docName, headings, text,
+//              query, conversation: { kind: 'chat' | 'voice', id } | null, agent: { id, name }, createdAt }
+// `key` is the snippetKey() of the chunk, so verdicts outlive re-indexing as long as the passage is unchanged.
+
+// A reply built on a snippet counts half as much as an explicit thumbs up
+const USED_WEIGHT = 0.5;
+// Pseudo-votes that keep a single verdict from swinging a snippet to the extremes
+const PRIOR = 2;
+// Snippet text kept with each verdict for the report
+const EXCERPT_LENGTH = 300;
+
+const tally = () => ({ up: 0, down: 0, used: 0 });
+
+/** How useful a tally says a snippet is, from -1 (always voted down) to 1. */
+function usefulness({ up, down, used }) {
+    const positive = up + USED_WEIGHT * used;
+    return (positive - down) / (positive + down + PRIOR);
+}
+
+class FeedbackStore {
+    constructor({ driver, firestore } = {}) {
+        this.feedback = createRecordStore({
+            name: 'knowledge-feedback',
+            driver: resolveDriver(driver, firestore),
+            firestore,
+            collection: FEEDBACK_COLLECTION
+        });
+        // tenantId → Map(snippet key → usefulness), dropped whenever the tenant's feedback changes
+        this.boostCache = new Map();
+    }
+
+    async init() {
+        await this.feedback.init();
+        return this;
+    }
+
+    /**
+     * Record an agent's verdict on a chunk. An agent has one vote per snippet and conversation, so a thumbs
+     * down replaces an earlier thumbs up; using a snippet is recorded once next to the vote.
+     */
+    async record(tenantId, { signal, chunk, query, conversation, agent }) {
+        const key = snippetKey(chunk);
+        const scope = conversation ? `${conversation.kind}:${conversation.id}` : '-';
+        const id = [tenantId, signal === 'used' ? 'used' : 'vote', scope, agent.id, key].join(':');
+        const saved = await this.feedback.put(id, {
+            id,
+            tenantId,
+            signal,
+            key,
+            chunkId: chunk.id,
+            docId: chunk.docId,
+            docName: chunk.docName,
+            headings: chunk.headings || [],
+            text: chunk.text.slice(0, EXCERPT_LENGTH),
+            query: query || null,
+            conversation: conversation || null,
+            agent: { id: agent.id, name: agent.name || agent.email || null },
+            createdAt: new Date().toISOString()
+        });
+        this.boostCache.delete(tenantId);
+        return saved;
+    }
+
+    async list(tenantId) {
+        return (await this.feedback.list()).filter(f => f.tenantId === tenantId);
+    }
+
+    async deleteTenantFeedback(tenantId) {
+        for (const f of await this.list(tenantId)) await this.feedback.remove(f.id);
+        this.boostCache.delete(tenantId);
+    }
+
+    /** Snippet key → usefulness (-1…1) for every snippet of the tenant that has feedback; see KnowledgeService.search. */
+    async boosts(tenantId) {
+        if (!this.boostCache.has(tenantId)) {
+            const tallies = new Map();
+            for (const f of await this.list(tenantId)) {
+                if (!tallies.has(f.key)) tallies.set(f.key, tally());
+                tallies.get(f.key)[f.signal]++;
+            }
+            this.boostCache.set(tenantId, new Map([...tallies].map(([key, counts]) => [key, usefulness(counts)])));
+        }
+        return this.boostCache.get(tenantId);
+    }
+
+    /**
+     * The snippets and documents agents found most and least useful, `limit` of each. Each entry carries its
+     * vote counts and `score` (usefulness, -1…1); snippets also their latest text and the query it answered.
+     */
+    async report(tenantId, { limit = 10 } = {}) {
+        const feedback = (await this.list(tenantId)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const snippets = new Map();
+        const documents = new Map();
+        const totals = tally();
+        for (const f of feedback) {
+            totals[f.signal]++;
+            if (!snippets.has(f.key)) snippets.set(f.key, { key: f.key, docId: f.docId, ...tally() });
+            if (!documents.has(f.docId)) documents.set(f.docId, { docId: f.docId, ...tally() });
+            // Later feedback carries the latest name, position and wording
+            const snippet = snippets.get(f.key);
+            Object.assign(snippet, { chunkId: f.chunkId, docName: f.docName, headings: f.headings, text: f.text, query: f.query || snippet.query || null });
+            documents.get(f.docId).docName = f.docName;
+            snippet[f.signal]++;
+            documents.get(f.docId)[f.signal]++;
+        }
+
+        const rank = (entries) => {
+            const scored = [...entries.values()].map(entry => ({ ...entry, score: Math.round(usefulness(entry) * 1000) / 1000 }));
+            return {
+                mostUseful: scored.filter(e => e.score > 0).sort((a, b) => b.score - a.score).slice(0, limit),
+                leastUseful: scored.filter(e => e.score < 0).sort((a, b) => a.score - b.score).slice(0, limit)
+            };
+        };
+        return { totals, snippets: rank(snippets), documents: rank(documents) };
+    }
+}
+
+export default FeedbackStore;
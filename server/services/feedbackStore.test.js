@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import FeedbackStore from './feedbackStore.js';
+import { snippetKey } from './knowledgeService.js';
+
+const refunds = { id: 'doc1:0', docId: 'doc1', docName: 'Refunds.md', headings: ['Refunds'], text: 'Refunds take five days.' };
+const shipping = { id: 'doc2:0', docId: 'doc2', docName: 'Shipping.md', headings: [], text: 'Orders ship within two days.' };
+const ann = { id: 'ann', name: 'Ann' };
+const bob = { id: 'bob', email: 'bob@example.com' };
+const chat = (id) => ({ kind: 'chat', id });
+
+test('an agent has one vote per snippet and conversation, and using a snippet counts once beside it', async () => {
+    const feedback = await new FeedbackStore({ driver: 'memory' }).init();
+    await feedback.record('acme', { signal: 'up', chunk: refunds, conversation: chat('c1'), agent: ann });
+    await feedback.record('acme', { signal: 'down', chunk: refunds, conversation: chat('c1'), agent: ann });
+    await feedback.record('acme', { signal: 'used', chunk: refunds, conversation: chat('c1'), agent: ann });
+    await feedback.record('acme', { signal: 'used', chunk: refunds, conversation: chat('c1'), agent: ann });
+    assert.deepEqual((await feedback.list('acme')).map(f => f.signal).sort(), ['down', 'used']);
+
+    await feedback.record('acme', { signal: 'up', chunk: refunds, conversation: chat('c2'), agent: ann });
+    await feedback.record('acme', { signal: 'up', chunk: refunds, conversation: chat('c1'), agent: bob });
+    assert.equal((await feedback.list('acme')).length, 4);
+});
+
+test('boosts weigh votes and uses against a prior, per tenant', async () => {
+    const feedback = await new FeedbackStore({ driver: 'memory' }).init();
+    await feedback.record('acme', { signal: 'up', chunk: refunds, conversation: chat('c1'), agent: ann });
+    await feedback.record('acme', { signal: 'used', chunk: refunds, conversation: chat('c1'), agent: ann });
+    await feedback.record('acme', { signal: 'down', chunk: shipping, conversation: chat('c1'), agent: ann });
+    await feedback.record('globex', { signal: 'down', chunk: refunds, conversation: null, agent: bob });
+
+    const boosts = await feedback.boosts('acme');
+    assert.equal(boosts.get(snippetKey(refunds)), 1.5 / 3.5);
+    assert.equal(boosts.get(snippetKey(shipping)), -1 / 3);
+    assert.equal((await feedback.boosts('globex')).get(snippetKey(refunds)), -1 / 3);
+});
+
+test('new feedback replaces the cached boosts, and reworded snippets start over', async () => {
+    const feedback = await new FeedbackStore({ driver: 'memory' }).init();
+    await feedback.record('acme', { signal: 'up', chunk: refunds, conversation: chat('c1'), agent: ann });
+    assert.equal((await feedback.boosts('acme')).get(snippetKey(refunds)), 1 / 3);
+    await feedback.record('acme', { signal: 'up', chunk: refunds, conversation: chat('c1'), agent: bob });
+    assert.equal((await feedback.boosts('acme')).get(snippetKey(refunds)), 2 / 4);
+    assert.equal((await feedback.boosts('acme')).get(snippetKey({ ...refunds, text: 'Refunds take ten days.' })), undefined);
+
+    await feedback.deleteTenantFeedback('acme');
+    assert.equal((await feedback.boosts('acme')).size, 0);
+});
+
+test('the report ranks snippets and documents by usefulness with their latest wording', async () => {
+    const feedback = await new FeedbackStore({ driver: 'memory' }).init();
+    await feedback.record('acme', { signal: 'up', chunk: refunds, query: 'refund time', conversation: chat('c1'), agent: ann });
+    await feedback.record('acme', { signal: 'down', chunk: shipping, conversation: chat('c1'), agent: ann });
+    await feedback.record('acme', { signal: 'down', chunk: shipping, conversation: chat('c2'), agent: bob });
+    await feedback.record('acme', { signal: 'used', chunk: { ...refunds, docName: 'Refunds v2.md' }, conversation: chat('c2'), agent: bob });
+
+    const { totals, snippets, documents } = await feedback.report('acme');
+    assert.deepEqual(totals, { up: 1, down: 2, used: 1 });
+    assert.deepEqual(snippets.mostUseful.map(s => [s.docName, s.query, s.score]), [['Refunds v2.md', 'refund time', 0.429]]);
+    assert.deepEqual(snippets.leastUseful.map(s => [s.docName, s.down, s.score]), [['Shipping.md', 2, -0.5]]);
+    assert.deepEqual(documents.mostUseful.map(d => d.docId), ['doc1']);
+    assert.deepEqual((await feedback.report('acme', { limit: 0 })).snippets, { mostUseful: [], leastUseful: [] });
+});
@@ -0,0 +1,195 @@
+// Hierarchical Navigable Small World graph (Malkov & Yashunin) for approximate nearest-neighbour search
+// by cosine similarity. Vectors are normalised on insert, so similarity is a dot product.
+// Deletes are tombstones: removed nodes still route searches but never appear in results;
+// the owner rebuilds the graph once tombstones outweigh live nodes (see `needsRebuild`).
+
+const dot = (a, b) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+};
+
+function normalise(vector) {
+    const norm = Math.sqrt(dot(vector, vector));
+    return norm ? Float32Array.from(vector, v => v / norm) : null;
+}
+
+// Insert into an array kept sorted by descending similarity
+function insertSorted(list, item) {
+    let lo = 0, hi = list.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (list[mid].similarity >= item.similarity) lo = mid + 1;
+        else hi = mid;
+    }
+    list.splice(lo, 0, item);
+}
+
+export class HnswIndex {
+    /**
+     * @param {{ m?: number, efConstruction?: number, efSearch?: number }} options  `m` links per node and layer
+     *        (twice that on the base layer); `efConstruction` / `efSearch` candidates kept while inserting / searching
+     */
+    constructor({ m = 16, efConstruction = 100, efSearch = 64 } = {}) {
+        this.m = m;
+        this.efConstruction = efConstruction;
+        this.efSearch = efSearch;
+        this.levelFactor = 1 / Math.log(m);
+        this.ids = [];
+        this.vectors = [];
+        // links[node][level] are neighbour nodes; weights[node][level] their similarity to the node
+        this.links = [];
+        this.weights = [];
+        this.nodeOf = new Map();
+        this.deleted = new Set();
+        this.entry = -1;
+        this.topLevel = -1;
+    }
+
+    get size() {
+        return this.nodeOf.size;
+    }
+
+    /** Tombstones make up more than half the graph; searches slow down until it is rebuilt. */
+    get needsRebuild() {
+        return this.deleted.size > 64 && this.deleted.size > this.nodeOf.size;
+    }
+
+    has(id) {
+        return this.nodeOf.has(id);
+    }
+
+    /** Add a vector under `id`, replacing any vector the id had. Zero vectors cannot be compared and are skipped. */
+    add(id, vector) {
+        this.remove(id);
+        const normalised = normalise(vector);
+        if (!normalised) return false;
+        const node = this.vectors.length;
+        const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor);
+        this.ids.push(id);
+        this.vectors.push(normalised);
+        this.links.push(Array.from({ length: level + 1 }, () => []));
+        this.weights.push(Array.from({ length: level + 1 }, () => []));
+        this.nodeOf.set(id, node);
+
+        if (this.entry === -1) {
+            this.entry = node;
+            this.topLevel = level;
+            return true;
+        }
+        let entry = this.entry;
+        for (let l = this.topLevel; l > level; l--) entry = this.greedy(normalised, entry, l);
+        for (let l = Math.min(level, this.topLevel); l >= 0; l--) {
+            const found = this.searchLayer(normalised, entry, this.efConstruction, l);
+            const max = l === 0 ? this.m * 2 : this.m;
+            for (const { node: neighbour, similarity } of this.selectNeighbours(found, max)) {
+                this.links[node][l].push(neighbour);
+                this.weights[node][l].push(similarity);
+                this.connect(neighbour, node, similarity, l, max);
+            }
+            entry = found[0].node;
+        }
+        if (level > this.topLevel) {
+            this.topLevel = level;
+            this.entry = node;
+        }
+        return true;
+    }
+
+    remove(id) {
+        const node = this.nodeOf.get(id);
+        if (node === undefined) return false;
+        this.nodeOf.delete(id);
+        this.deleted.add(node);
+        return true;
+    }
+
+    /**
+     * The `k` stored vectors most similar to `vector` → [{ id, similarity }], best first.
+     * `accept(id)` restricts results without cutting the graph, so filtered searches still find their way.
+     */
+    search(vector, k, { accept } = {}) {
+        const query = normalise(vector);
+        if (!query || this.entry === -1 || this.nodeOf.size === 0) return [];
+        let entry = this.entry;
+        for (let l = this.topLevel; l > 0; l--) entry = this.greedy(query, entry, l);
+        const include = (node) => !this.deleted.has(node) && (!accept || accept(this.ids[node]));
+        return this.searchLayer(query, entry, Math.max(this.efSearch, k), 0, include)
+            .slice(0, k)
+            .map(({ node, similarity }) => ({ id: this.ids[node], similarity }));
+    }
+
+    // Walk to the node on `level` most similar to the query
+    greedy(query, entry, level) {
+        let best = entry;
+        let bestSimilarity = dot(query, this.vectors[entry]);
+        for (let improved = true; improved;) {
+            improved = false;
+            for (const neighbour of this.links[best][level] || []) {
+                const similarity = dot(query, this.vectors[neighbour]);
+                if (similarity > bestSimilarity) {
+                    best = neighbour;
+                    bestSimilarity = similarity;
+                    improved = true;
+                }
+            }
+        }
+        return best;
+    }
+
+    // Best-first search of one layer → up to `ef` included nodes, most similar first
+    searchLayer(query, entry, ef, level, include = () => true) {
+        const start = { node: entry, similarity: dot(query, this.vectors[entry]) };
+        const visited = new Set([entry]);
+        const candidates = [start];
+        const results = include(entry) ? [start] : [];
+        while (candidates.length) {
+            const current = candidates.shift();
+            if (results.length >= ef && current.similarity < results[results.length - 1].similarity) break;
+            for (const neighbour of this.links[current.node][level] || []) {
+                if (visited.has(neighbour)) continue;
+                visited.add(neighbour);
+                const similarity = dot(query, this.vectors[neighbour]);
+                if (results.length < ef || similarity > results[results.length - 1].similarity) {
+                    insertSorted(candidates, { node: neighbour, similarity });
+                    if (include(neighbour)) {
+                        insertSorted(results, { node: neighbour, similarity });
+                        if (results.length > ef) results.pop();
+                    }
+                }
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Pick up to `max` links from candidates sorted by similarity, skipping any candidate that is closer to an
+     * already picked one than to the node itself. Links then point in different directions, which keeps
+     * clusters connected to each other instead of only to their own members.
+     */
+    selectNeighbours(candidates, max) {
+        const selected = [];
+        for (const candidate of candidates) {
+            if (selected.length >= max) break;
+            const vector = this.vectors[candidate.node];
+            if (selected.every(picked => dot(vector, this.vectors[picked.node]) < candidate.similarity)) selected.push(candidate);
+        }
+        return selected;
+    }
+
+    // Link `node` to `neighbour` on `level`; a node with `max` links drops its least similar one for a closer neighbour
+    connect(node, neighbour, similarity, level, max) {
+        const links = this.links[node][level];
+        const weights = this.weights[node][level];
+        if (links.length < max) {
+            links.push(neighbour);
+            weights.push(similarity);
+            return;
+        }
+        let weakest = 0;
+        for (let i = 1; i < weights.length; i++) if (weights[i] < weights[weakest]) weakest = i;
+        if (weights[weakest] >= similarity) return;
+        links[weakest] = neighbour;
+        weights[weakest] = similarity;
+    }
+}
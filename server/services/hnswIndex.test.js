@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HnswIndex } from './hnswIndex.js';
+
+// Seeded so a failing recall can be reproduced
+function random(seed) {
+    return () => {
+        seed = (seed * 1664525 + 1013904223) % 4294967296;
+        return seed / 4294967296;
+    };
+}
+
+const vectors = (count, dimensions, next) =>
+    Array.from({ length: count }, () => Array.from({ length: dimensions }, () => next() * 2 - 1));
+
+const cosine = (a, b) => {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        na += a[i] * a[i];
+        nb += b[i] * b[i];
+    }
+    return dot / Math.sqrt(na * nb);
+};
+
+const bruteForce = (points, query, k, accept = () => true) => points
+    .map((vector, i) => ({ id: `p${i}`, similarity: cosine(query, vector) }))
+    .filter(hit => accept(hit.id))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(hit => hit.id);
+
+const recall = (index, points, queries, k, accept) => {
+    let found = 0;
+    for (const query of queries) {
+        const expected = new Set(bruteForce(points, query, k, accept));
+        found += index.search(query, k, { accept }).filter(hit => expected.has(hit.id)).length;
+    }
+    return found / (queries.length * k);
+};
+
+const build = (points) => {
+    const index = new HnswIndex();
+    points.forEach((vector, i) => index.add(`p${i}`, vector));
+    return index;
+};
+
+test('finds nearly the same neighbours as comparing every vector', () => {
+    const next = random(7);
+    const points = vectors(1000, 16, next);
+    const index = build(points);
+    assert.equal(index.size, 1000);
+    assert.ok(recall(index, points, vectors(20, 16, next), 10) >= 0.9);
+});
+
+test('returns results best first with their similarity', () => {
+    const index = build([[1, 0], [0, 1], [1, 1]]);
+    const hits = index.search([1, 0.1], 3);
+    assert.deepEqual(hits.map(hit => hit.id), ['p0', 'p2', 'p1']);
+    assert.ok(Math.abs(hits[0].similarity - cosine([1, 0.1], [1, 0])) < 1e-6);
+});
+
+test('skips zero vectors and replaces the vector of an id added again', () => {
+    const index = new HnswIndex();
+    assert.equal(index.add('zero', [0, 0]), false);
+    assert.equal(index.has('zero'), false);
+    index.add('a', [1, 0]);
+    index.add('b', [0, 1]);
+    index.add('a', [0, -1]);
+    assert.equal(index.size, 2);
+    assert.deepEqual(index.search([0, -1], 1).map(hit => hit.id), ['a']);
+});
+
+test('removed vectors never come back, and enough of them call for a rebuild', () => {
+    const next = random(11);
+    const points = vectors(300, 8, next);
+    const index = build(points);
+    for (let i = 0; i < 200; i++) index.remove(`p${i}`);
+    assert.equal(index.size, 100);
+    assert.ok(index.needsRebuild);
+    for (const query of vectors(10, 8, next)) {
+        const hits = index.search(query, 10);
+        assert.equal(hits.length, 10);
+        assert.ok(hits.every(hit => Number(hit.id.slice(1)) >= 200));
+    }
+});
+
+test('a filtered search only returns accepted vectors and still finds the best of them', () => {
+    const next = random(23);
+    const points = vectors(1000, 16, next);
+    const index = build(points);
+    const accept = (id) => Number(id.slice(1)) % 10 === 0;
+    const queries = vectors(20, 16, next);
+    for (const query of queries) assert.ok(index.search(query, 5, { accept }).every(hit => accept(hit.id)));
+    assert.ok(recall(index, points, queries, 5, accept) >= 0.9);
+});
@@ -0,0 +1,367 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { createRecordStore, DATA_DIR, resolveDriver } from './storage.js';
+
+const JOBS_COLLECTION = 'agent_success_ingestion_jobs';
+const EMBEDDINGS_COLLECTION = 'agent_success_ingestion_embeddings';
+
+// Background ingestion of knowledge documents: extract → chunk → embed in batches → store.
+// Pending jobs are kept in a record store (server/data/ingestion-jobs.json with the file driver), written only
+// when a job changes stage. A job holds no chunk text or embeddings, so it stays small in any store: the
+// embeddings made so far are spooled batch by batch next to the jobs (server/data/ingestion-embeddings/<runId>.jsonl
+// with the file driver, the agent_success_ingestion_embeddings collection with Firestore), and a resumed job
+// chunks its file again. After a restart each document thus resumes from its last finished batch.
+// A job belongs to the server that queued it (`host`), which holds its upload and the knowledge index; servers
+// sharing a job store only resume their own jobs.
+// job = { id, tenantId, doc, filePath, host, runId, stage: 'queued' | 'extracting' | 'embedding',
+//         format, total, chunksHash, createdAt, updatedAt }
+
+// Longest pause between two attempts of the same batch
+const MAX_RETRY_DELAY_MS = 30000;
+
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+/** Rate limits, server errors, timeouts and dropped connections are worth another try; anything else is not. */
+export function isTransient(error) {
+    const status = error?.status;
+    if (status) return status === 408 || status === 429 || status >= 500;
+    if (error?.name === 'TimeoutError' || error?.name === 'AbortError') return true;
+    if (TRANSIENT_CODES.includes(error?.code ?? error?.cause?.code)) return true;
+    return /fetch failed|socket hang up|timed? ?out/i.test(error?.message || '');
+}
+
+const jobId = (tenantId, docId) => `${tenantId}:${docId}`;
+
+// Identifies the chunks a job embeds, so a resumed job can tell whether chunking its file again gave the same ones
+const chunksHash = (chunks) => createHash('sha256').update(JSON.stringify(chunks.map(({ text, headings }) => [text, headings]))).digest('hex');
+
+// A run's embeddings, batch by batch. Every spool reads back the batches that follow on from each other and drops
+// the rest, so a batch cut short by a crash is embedded again.
+class MemorySpool {
+    constructor() {
+        this.runs = new Map();
+    }
+
+    async append(runId, offset, embeddings) {
+        this.runs.set(runId, [...(this.runs.get(runId) || []), { offset, embeddings }]);
+    }
+
+    async read(runId) {
+        return contiguous(this.runs.get(runId) || []);
+    }
+
+    async remove(runId) {
+        this.runs.delete(runId);
+    }
+
+    /** Delete the spooled batches of runs that are not in `runIds`. */
+    async prune(runIds) {
+        for (const runId of this.runs.keys()) if (!runIds.has(runId)) this.runs.delete(runId);
+    }
+}
+
+// One JSON line per batch in a file per run: each batch costs one append
+class FileSpool {
+    constructor(dir) {
+        this.dir = dir;
+    }
+
+    file(runId) {
+        return path.join(this.dir, `${runId}.jsonl`);
+    }
+
+    async append(runId, offset, embeddings) {
+        fs.mkdirSync(this.dir, { recursive: true });
+        fs.appendFileSync(this.file(runId), `${JSON.stringify({ offset, embeddings })}\n`);
+    }
+
+    async read(runId) {
+        if (!fs.existsSync(this.file(runId))) return [];
+        const batches = [];
+        let count = 0;
+        for (const line of fs.readFileSync(this.file(runId), 'utf-8').split('\n')) {
+            if (!line) continue;
+            try {
+                const batch = JSON.parse(line);
+                // Lines spooled before batches carried their offset hold just the embeddings, in order
+                batches.push(Array.isArray(batch) ? { offset: count, embeddings: batch } : batch);
+                count = batches.at(-1).offset + batches.at(-1).embeddings.length;
+            } catch {
+                break;
+            }
+        }
+        return contiguous(batches);
+    }
+
+    async remove(runId) {
+        fs.rmSync(this.file(runId), { force: true });
+    }
+
+    async prune(runIds) {
+        if (!fs.existsSync(this.dir)) return;
+        for (const name of fs.readdirSync(this.dir)) {
+            if (!runIds.has(path.basename(name, '.jsonl'))) fs.rmSync(path.join(this.dir, name), { force: true });
+        }
+    }
+}
+
+// One document per batch. Firestore holds no nested arrays, so each embedding is stored as { values }; a batch of
+// `batchSize` embeddings has to fit in a document (1 MiB, about 16 embeddings of 3072 dimensions).
+class FirestoreSpool {
+    constructor(firestore, collection) {
+        this.firestore = firestore;
+        this.collection = firestore.collection(collection);
+    }
+
+    async append(runId, offset, embeddings) {
+        try {
+            await this.collection.doc(`${runId}:${offset}`).set({ runId, offset, embeddings: embeddings.map(values => ({ values })) });
+        } catch (e) {
+            console.warn(`[Firebase] Could not spool embeddings of run ${runId}:`, e.message);
+        }
+    }
+
+    async read(runId) {
+        try {
+            const snap = await this.collection.where('runId', '==', runId).get();
+            return contiguous(snap.docs.map(doc => doc.data())
+                .map(({ offset, embeddings }) => ({ offset, embeddings: embeddings.map(({ values }) => values) })));
+        } catch (e) {
+            console.warn(`[Firebase] Could not read embeddings of run ${runId}:`, e.message);
+            return [];
+        }
+    }
+
+    async remove(runId) {
+        await this.deleteWhere(this.collection.where('runId', '==', runId));
+    }
+
+    async prune(runIds) {
+        await this.deleteWhere(this.collection.select('runId'), doc => !runIds.has(doc.get('runId')));
+    }
+
+    async deleteWhere(query, matches = () => true) {
+        try {
+            const docs = (await query.get()).docs.filter(matches);
+            // Firestore batches are capped at 500 writes
+            for (let i = 0; i < docs.length; i += 500) {
+                const batch = this.firestore.batch();
+                docs.slice(i, i + 500).forEach(doc => batch.delete(doc.ref));
+                await batch.commit();
+            }
+        } catch (e) {
+            console.warn('[Firebase] Could not delete spooled embeddings:', e.message);
+        }
+    }
+}
+
+// The embeddings of the batches that follow on from the first, in order
+function contiguous(batches) {
+    const embeddings = [];
+    for (const { offset, embeddings: batch } of [...batches].sort((a, b) => a.offset - b.offset)) {
+        if (offset !== embeddings.length) break;
+        embeddings.push(...batch);
+    }
+    return embeddings;
+}
+
+function createSpool(driver, { firestore, dir }) {
+    switch (driver) {
+        case 'firestore':
+            return new FirestoreSpool(firestore, EMBEDDINGS_COLLECTION);
+        case 'file':
+            return new FileSpool(dir);
+        default:
+            return new MemorySpool();
+    }
+}
+
+class IngestionQueue {
+    /**
+     * @param {{
+     *   knowledgeFor: (tenantId: string) => import('./knowledgeService.js').default,
+     *   onProgress?: (tenantId: string, progress: object) => void,
+     *   onSettled?: (tenantId: string, docId: string, result: { success: boolean, format?: string, error?: string }) => void,
+     *   driver?: string, firestore?: any, filePath?: string, spoolDir?: string, host?: string,
+     *   concurrency?: number, batchSize?: number, maxAttempts?: number, retryDelayMs?: number
+     * }} options  `driver` picks the job store as resolveDriver() does; the embeddings are spooled to the same place.
+     *             `host` names this server among those sharing the store. `concurrency` documents are ingested at once;
+     *             each embedding call sends `batchSize` chunks and is tried up to `maxAttempts` times, waiting
+     *             `retryDelayMs` doubled per attempt in between.
+     */
+    constructor({ knowledgeFor, onProgress = () => { }, onSettled = () => { }, driver, firestore, filePath, spoolDir = path.join(DATA_DIR, 'ingestion-embeddings'), host = os.hostname(), concurrency = 2, batchSize = 16, maxAttempts = 5, retryDelayMs = 1000 }) {
+        const resolved = resolveDriver(driver, firestore);
+        this.jobs = createRecordStore({ name: 'ingestion-jobs', driver: resolved, firestore, collection: JOBS_COLLECTION, filePath });
+        this.spool = createSpool(resolved, { firestore, dir: spoolDir });
+        this.host = host;
+        this.knowledgeFor = knowledgeFor;
+        this.onProgress = onProgress;
+        this.onSettled = onSettled;
+        this.concurrency = concurrency;
+        this.batchSize = batchSize;
+        this.maxAttempts = maxAttempts;
+        this.retryDelayMs = retryDelayMs;
+        this.waiting = [];
+        this.running = new Set();
+        this.started = false;
+    }
+
+    // Load the jobs a previous process of this server left unfinished; they run once start() is called
+    async init() {
+        await this.jobs.init();
+        const jobs = (await this.jobs.list()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        await this.spool.prune(new Set(jobs.map(job => job.runId)));
+        // Jobs saved by earlier versions carry their chunks, and maybe embeddings, in the record
+        for (const { chunks, embeddings, ...job } of jobs.filter(job => job.chunks || job.embeddings)) {
+            if (embeddings?.length) await this.spool.append(job.runId, 0, embeddings);
+            await this.jobs.put(job.id, { ...job, total: chunks?.length || 0, chunksHash: chunks?.length ? chunksHash(chunks) : null });
+        }
+        const pending = jobs.filter(job => this.owns(job));
+        this.waiting = pending.map(job => job.id);
+        if (pending.length) console.log(`[Ingestion] ${pending.length} unfinished job(s) will resume`);
+        return this;
+    }
+
+    start() {
+        this.started = true;
+        this.drain();
+    }
+
+    // Jobs queued before they named their server are taken by whichever server loads them
+    owns(job) {
+        return !job.host || job.host === this.host;
+    }
+
+    /** Jobs of a tenant that this server has not finished yet. */
+    async pending(tenantId) {
+        return (await this.jobs.list()).filter(job => job.tenantId === tenantId && this.owns(job));
+    }
+
+    /** Queue a document for (re-)indexing. A job already pending for the document is replaced. */
+    async enqueue(tenantId, doc, filePath) {
+        const id = jobId(tenantId, doc.id);
+        const now = new Date().toISOString();
+        const replaced = await this.jobs.get(id);
+        if (replaced) await this.spool.remove(replaced.runId);
+        const job = await this.jobs.put(id, {
+            id, tenantId, doc, filePath, host: this.host, runId: randomUUID(), stage: 'queued', total: 0, chunksHash: null, createdAt: now, updatedAt: now
+        });
+        this.waiting = [...this.waiting.filter(waiting => waiting !== id), id];
+        this.report(job);
+        this.drain();
+        return job;
+    }
+
+    /** Drop a document's job; a run in progress stops after its current batch and stores nothing. */
+    async cancel(tenantId, docId) {
+        const id = jobId(tenantId, docId);
+        this.waiting = this.waiting.filter(waiting => waiting !== id);
+        const job = await this.jobs.get(id);
+        if (job) await this.spool.remove(job.runId);
+        return this.jobs.remove(id);
+    }
+
+    /** Drop every job of a deleted tenant, whichever server queued it. */
+    async cancelTenant(tenantId) {
+        for (const job of await this.jobs.list()) {
+            if (job.tenantId === tenantId) await this.cancel(tenantId, job.doc.id);
+        }
+    }
+
+    drain() {
+        if (!this.started) return;
+        while (this.running.size < this.concurrency) {
+            // A replaced job waits until the run it replaces has noticed and stopped
+            const next = this.waiting.findIndex(id => !this.running.has(id));
+            if (next === -1) return;
+            const [id] = this.waiting.splice(next, 1);
+            this.running.add(id);
+            this.run(id)
+                .catch(e => console.error(`[Ingestion] Job ${id} crashed:`, e.message))
+                .finally(() => {
+                    this.running.delete(id);
+                    this.drain();
+                });
+        }
+    }
+
+    async run(id) {
+        let job = await this.jobs.get(id);
+        if (!job) return;
+        const { runId } = job;
+        // False once the job was cancelled or replaced by a newer one for the same document
+        const current = async () => (await this.jobs.get(id))?.runId === runId;
+        const knowledge = this.knowledgeFor(job.tenantId);
+
+        try {
+            if (!knowledge.enabled) throw new Error('No AI provider configured');
+            const resuming = job.stage === 'embedding';
+            if (!resuming) job = await this.update(job, { stage: 'extracting' });
+            if (!fs.existsSync(job.filePath)) throw new Error('Uploaded file is missing — upload the document again');
+            // A resumed job chunks its file again; the spooled embeddings only count if that gave the same chunks
+            const { format, chunks } = await knowledge.prepareDocument(job.doc, job.filePath);
+            if (!(await current())) return;
+            const hash = chunksHash(chunks);
+            const embeddings = resuming && hash === job.chunksHash ? (await this.spool.read(runId)).slice(0, chunks.length) : [];
+            if (resuming && hash === job.chunksHash) {
+                this.report(job, { processed: embeddings.length });
+            } else {
+                if (resuming) await this.spool.remove(runId);
+                job = await this.update(job, { stage: 'embedding', format, total: chunks.length, chunksHash: hash });
+            }
+            while (embeddings.length < chunks.length) {
+                const batch = chunks.slice(embeddings.length, embeddings.length + this.batchSize);
+                const embedded = await this.withRetry(job, () => knowledge.embedChunks(batch), { processed: embeddings.length });
+                if (!(await current())) return;
+                await this.spool.append(runId, embeddings.length, embedded);
+                embeddings.push(...embedded);
+                this.report(job, { processed: embeddings.length });
+            }
+            knowledge.storeDocument(job.doc, chunks, embeddings);
+            await this.jobs.remove(id);
+            await this.spool.remove(runId);
+            this.onSettled(job.tenantId, job.doc.id, { success: true, format: job.format });
+        } catch (e) {
+            if (!(await current())) return;
+            console.error(`[Ingestion] ${job.doc.name} failed:`, e.message);
+            await this.jobs.remove(id);
+            await this.spool.remove(runId);
+            this.onSettled(job.tenantId, job.doc.id, { success: false, error: e.message });
+        }
+    }
+
+    // Retry transient failures with exponential backoff and jitter; other errors fail the job at once
+    async withRetry(job, call, progress) {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await call();
+            } catch (e) {
+                if (attempt >= this.maxAttempts || !isTransient(e)) throw e;
+                const delay = Math.round(Math.min(this.retryDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS) * (0.5 + Math.random() / 2));
+                console.warn(`[Ingestion] ${job.doc.name}: ${e.message} — retry ${attempt}/${this.maxAttempts - 1} in ${delay}ms`);
+                this.report(job, { ...progress, retry: attempt, retryInMs: delay });
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    async update(job, changes) {
+        const next = await this.jobs.put(job.id, { ...job, ...changes, updatedAt: new Date().toISOString() });
+        this.report(next);
+        return next;
+    }
+
+    report(job, extra = {}) {
+        this.onProgress(job.tenantId, {
+            documentId: job.doc.id,
+            stage: job.stage,
+            processed: 0,
+            total: job.total || 0,
+            ...extra
+        });
+    }
+}
+
+export default IngestionQueue;
@@ -0,0 +1,248 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import IngestionQueue, { isTransient } from './ingestionQueue.js';
+
+const doc = { id: 'doc1', name: 'Returns.txt' };
+const chunksOf = (count, prefix = 'chunk') => Array.from({ length: count }, (_, i) => ({ text: `${prefix} ${i}`, headings: [] }));
+const embeddingOf = (chunk) => [chunk.text.length, Number(chunk.text.split(' ').pop())];
+
+// A knowledge service whose embedding calls are recorded; `hangAfter` calls, the next one never returns (a crash)
+function fakeKnowledge({ chunks, hangAfter = Infinity }) {
+    const knowledge = {
+        enabled: true,
+        chunks,
+        calls: [],
+        stored: null,
+        prepareDocument: async () => ({ format: 'text', chunks: knowledge.chunks }),
+        embedChunks: async (batch) => {
+            if (knowledge.calls.length >= hangAfter) return new Promise(() => { });
+            knowledge.calls.push(batch.map(chunk => chunk.text));
+            return batch.map(embeddingOf);
+        },
+        storeDocument: (stored, chunks, embeddings) => { knowledge.stored = { chunks, embeddings }; }
+    };
+    return knowledge;
+}
+
+function setup() {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingestion-'));
+    const filePath = path.join(dir, 'returns.txt');
+    fs.writeFileSync(filePath, 'Returns within 30 days');
+    return { dir, filePath, jobsPath: path.join(dir, 'jobs.json'), spoolDir: path.join(dir, 'spool') };
+}
+
+const queue = ({ jobsPath, spoolDir }, knowledge, options = {}) => new IngestionQueue({
+    knowledgeFor: () => knowledge, driver: 'file', filePath: jobsPath, spoolDir, batchSize: 2, host: 'a', ...options
+});
+
+// Resolves with the result of the first job to settle
+function settled() {
+    let resolve;
+    const done = new Promise(r => { resolve = r; });
+    return { done, onSettled: (tenantId, docId, result) => resolve(result) };
+}
+
+const until = async (check) => {
+    while (!check()) await new Promise(resolve => setTimeout(resolve, 5));
+};
+
+test('a restarted queue chunks the file again and embeds only the batches not spooled yet', async () => {
+    const paths = setup();
+    const crashed = fakeKnowledge({ chunks: chunksOf(7), hangAfter: 2 });
+    const first = await queue(paths, crashed).init();
+    first.start();
+    await first.enqueue('acme', doc, paths.filePath);
+    await until(() => crashed.calls.length === 2 && fs.readdirSync(paths.spoolDir).length);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    // The job record keeps no chunk text or embeddings
+    const [record] = Object.values(JSON.parse(fs.readFileSync(paths.jobsPath, 'utf-8')));
+    assert.equal(record.stage, 'embedding');
+    assert.equal(record.total, 7);
+    assert.equal(record.chunks, undefined);
+    assert.ok(!JSON.stringify(record).includes('chunk 0'));
+
+    const knowledge = fakeKnowledge({ chunks: chunksOf(7) });
+    const { done, onSettled } = settled();
+    const second = await queue(paths, knowledge, { onSettled }).init();
+    second.start();
+    assert.deepEqual(await done, { success: true, format: 'text' });
+    assert.deepEqual(knowledge.calls, [['chunk 4', 'chunk 5'], ['chunk 6']]);
+    assert.deepEqual(knowledge.stored.embeddings, chunksOf(7).map(embeddingOf));
+    assert.deepEqual(JSON.parse(fs.readFileSync(paths.jobsPath, 'utf-8')), {});
+    assert.deepEqual(fs.readdirSync(paths.spoolDir), []);
+    fs.rmSync(paths.dir, { recursive: true, force: true });
+});
+
+test('a resumed job whose file now chunks differently embeds from the start', async () => {
+    const paths = setup();
+    const crashed = fakeKnowledge({ chunks: chunksOf(5), hangAfter: 1 });
+    const first = await queue(paths, crashed).init();
+    first.start();
+    await first.enqueue('acme', doc, paths.filePath);
+    await until(() => crashed.calls.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const knowledge = fakeKnowledge({ chunks: chunksOf(3, 'edited') });
+    const { done, onSettled } = settled();
+    const second = await queue(paths, knowledge, { onSettled }).init();
+    second.start();
+    await done;
+    assert.deepEqual(knowledge.calls, [['edited 0', 'edited 1'], ['edited 2']]);
+    assert.equal(knowledge.stored.embeddings.length, 3);
+    fs.rmSync(paths.dir, { recursive: true, force: true });
+});
+
+test('servers sharing a job store resume only their own jobs', async () => {
+    const paths = setup();
+    const now = new Date().toISOString();
+    fs.writeFileSync(paths.jobsPath, JSON.stringify({
+        'acme:doc1': { id: 'acme:doc1', tenantId: 'acme', doc, filePath: paths.filePath, host: 'b', runId: 'r1', stage: 'queued', total: 0, createdAt: now, updatedAt: now }
+    }));
+    const knowledge = fakeKnowledge({ chunks: chunksOf(1) });
+    const mine = await queue(paths, knowledge).init();
+    mine.start();
+    assert.deepEqual(await mine.pending('acme'), []);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.deepEqual(knowledge.calls, []);
+
+    const { done, onSettled } = settled();
+    const theirs = await queue(paths, knowledge, { host: 'b', onSettled }).init();
+    theirs.start();
+    assert.equal((await done).success, true);
+    fs.rmSync(paths.dir, { recursive: true, force: true });
+});
+
+test('jobs saved with their chunks and embeddings by earlier versions resume without them', async () => {
+    const paths = setup();
+    const now = new Date().toISOString();
+    const chunks = chunksOf(4);
+    fs.writeFileSync(paths.jobsPath, JSON.stringify({
+        'acme:doc1': { id: 'acme:doc1', tenantId: 'acme', doc, filePath: paths.filePath, runId: 'r1', stage: 'embedding', format: 'text', chunks, embeddings: chunks.slice(0, 2).map(embeddingOf), createdAt: now, updatedAt: now }
+    }));
+    const knowledge = fakeKnowledge({ chunks });
+    const { done, onSettled } = settled();
+    const resumed = await queue(paths, knowledge, { onSettled }).init();
+    const [record] = Object.values(JSON.parse(fs.readFileSync(paths.jobsPath, 'utf-8')));
+    assert.equal(record.chunks, undefined);
+    assert.equal(record.embeddings, undefined);
+    resumed.start();
+    await done;
+    assert.deepEqual(knowledge.calls, [['chunk 2', 'chunk 3']]);
+    assert.deepEqual(knowledge.stored.embeddings, chunks.map(embeddingOf));
+    fs.rmSync(paths.dir, { recursive: true, force: true });
+});
+
+// Just enough of the Firestore Admin SDK for the job store and the embedding spool
+function fakeFirestore() {
+    const collections = new Map();
+    const collection = (name) => {
+        if (!collections.has(name)) collections.set(name, new Map());
+        const data = collections.get(name);
+        const doc = (id) => ({
+            set: async (value) => { data.set(id, structuredClone(value)); },
+            delete: async () => { data.delete(id); }
+        });
+        const snapshot = (id) => ({ id, ref: doc(id), data: () => data.get(id), get: (field) => data.get(id)[field] });
+        const query = (filter = () => true) => ({
+            get: async () => {
+                const docs = [...data.keys()].filter(id => filter(data.get(id))).map(snapshot);
+                return { docs, forEach: (fn) => docs.forEach(fn) };
+            }
+        });
+        return { ...query(), doc, select: () => query(), where: (field, op, value) => query(record => record[field] === value) };
+    };
+    return {
+        collections,
+        collection,
+        batch: () => {
+            const writes = [];
+            return { delete: (ref) => writes.push(() => ref.delete()), commit: async () => { for (const write of writes) await write(); } };
+        }
+    };
+}
+
+test('with Firestore the embeddings are spooled to Firestore, one document per batch', async () => {
+    const paths = setup();
+    const firestore = fakeFirestore();
+    const options = { driver: 'firestore', firestore, spoolDir: paths.spoolDir };
+    const crashed = fakeKnowledge({ chunks: chunksOf(5), hangAfter: 2 });
+    const first = await queue(paths, crashed, options).init();
+    first.start();
+    await first.enqueue('acme', doc, paths.filePath);
+    await until(() => firestore.collections.get('agent_success_ingestion_embeddings')?.size === 2);
+
+    const spooled = [...firestore.collections.get('agent_success_ingestion_embeddings').values()];
+    assert.deepEqual(spooled.map(batch => batch.offset).sort(), [0, 2]);
+    assert.ok(spooled.every(batch => batch.embeddings.every(embedding => Array.isArray(embedding.values))));
+    assert.equal(fs.existsSync(paths.spoolDir), false);
+
+    const knowledge = fakeKnowledge({ chunks: chunksOf(5) });
+    const { done, onSettled } = settled();
+    const second = await queue(paths, knowledge, { ...options, onSettled }).init();
+    second.start();
+    await done;
+    assert.deepEqual(knowledge.calls, [['chunk 4']]);
+    assert.deepEqual(knowledge.stored.embeddings, chunksOf(5).map(embeddingOf));
+    assert.equal(firestore.collections.get('agent_success_ingestion_embeddings').size, 0);
+    assert.equal(firestore.collections.get('agent_success_ingestion_jobs').size, 0);
+    fs.rmSync(paths.dir, { recursive: true, force: true });
+});
+
+test('rate limits, server errors and dropped connections count as transient', () => {
+    for (const status of [408, 429, 500, 503]) assert.ok(isTransient(Object.assign(new Error('x'), { status })));
+    assert.ok(!isTransient(Object.assign(new Error('Invalid API key'), { status: 401 })));
+    assert.ok(isTransient(Object.assign(new Error('x'), { cause: { code: 'ECONNRESET' } })));
+    assert.ok(isTransient(new Error('fetch failed')));
+    assert.ok(!isTransient(new Error('Input is too long')));
+});
+
+test('a transient embedding failure is retried, a permanent one fails the job at once', async () => {
+    const paths = setup();
+    const knowledge = fakeKnowledge({ chunks: chunksOf(3) });
+    const embed = knowledge.embedChunks;
+    const failures = [Object.assign(new Error('Too many requests'), { status: 429 }), new Error('socket hang up')];
+    knowledge.embedChunks = (batch) => (failures.length ? Promise.reject(failures.shift()) : embed(batch));
+    const progress = [];
+    let { done, onSettled } = settled();
+    const retrying = await queue(paths, knowledge, { onSettled, retryDelayMs: 1, onProgress: (tenantId, update) => progress.push(update) }).init();
+    retrying.start();
+    await retrying.enqueue('acme', doc, paths.filePath);
+    assert.deepEqual(await done, { success: true, format: 'text' });
+    assert.deepEqual(progress.filter(p => p.retry).map(p => p.retry), [1, 2]);
+    assert.equal(knowledge.stored.embeddings.length, 3);
+
+    knowledge.embedChunks = async () => {
+        knowledge.calls.push('rejected');
+        throw Object.assign(new Error('Invalid API key'), { status: 401 });
+    };
+    knowledge.calls = [];
+    ({ done, onSettled } = settled());
+    const failing = await queue(paths, knowledge, { onSettled, retryDelayMs: 1 }).init();
+    failing.start();
+    await failing.enqueue('acme', doc, paths.filePath);
+    assert.deepEqual(await done, { success: false, error: 'Invalid API key' });
+    assert.deepEqual(knowledge.calls, ['rejected']);
+    fs.rmSync(paths.dir, { recursive: true, force: true });
+});
+
+test('a batch still failing after the last attempt fails the job', async () => {
+    const paths = setup();
+    const knowledge = fakeKnowledge({ chunks: chunksOf(1) });
+    let attempts = 0;
+    knowledge.embedChunks = async () => {
+        attempts++;
+        throw Object.assign(new Error('Service unavailable'), { status: 503 });
+    };
+    const { done, onSettled } = settled();
+    const retrying = await queue(paths, knowledge, { onSettled, retryDelayMs: 1, maxAttempts: 3 }).init();
+    retrying.start();
+    await retrying.enqueue('acme', doc, paths.filePath);
+    assert.deepEqual(await done, { success: false, error: 'Service unavailable' });
+    assert.equal(attempts, 3);
+    assert.deepEqual(JSON.parse(fs.readFileSync(paths.jobsPath, 'utf-8')), {});
+    fs.rmSync(paths.dir, { recursive: true, force: true });
+});
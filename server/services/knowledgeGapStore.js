@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import { createRecordStore, resolveDriver } from './storage.js';
+import { STOP_WORDS, tokenize } from './bm25Index.js';
+
+const GAPS_COLLECTION = 'agent_success_knowledge_gaps';
+
+// Questions the knowledge base could not answer: coaching lookups and manual searches that found nothing,
+// or nothing scoring above the tenant's retrieval.gapScore. The report groups them into recurring topics.
+// gap = { id, tenantId, query, source: 'coaching' | 'search', results, topScore,
+//         conversation: { kind, id } | null, context: [{ role, text }], agent: { id, name } | null,
+//         createdAt, resolvedAt? }
+
+// Transcript lines kept with a gap, and how much of each
+const CONTEXT_LINES = 6;
+const CONTEXT_LENGTH = 500;
+// Share of terms a question must have in common with a topic to join it (Jaccard similarity)
+const TOPIC_SIMILARITY = 0.5;
+const TOPIC_EXAMPLES = 5;
+// Small talk a customer line may consist of, on top of the stop words; such lines ask nothing
+const FILLER_WORDS = new Set(`alright bye cheers cool fine good great nope ok okay perfect right sure thx ty yeah yep`.split(/\s+/));
+
+/** Content words of a question, lowercased, with plural endings trimmed so "refunds" and "refund" match. */
+export function topicTerms(text) {
+    const terms = tokenize(text)
+        .filter(term => term.length > 1 && !STOP_WORDS.has(term) && !FILLER_WORDS.has(term))
+        .map(term => term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+    return [...new Set(terms)];
+}
+
+const jaccard = (a, b) => {
+    let shared = 0;
+    for (const term of a) if (b.has(term)) shared++;
+    return shared / (a.size + b.size - shared || 1);
+};
+
+/**
+ * Greedily group gaps, oldest first, into topics: a gap joins the topic whose signature (the terms more than
+ * half of its questions share) it overlaps most, or starts a new topic when none reaches TOPIC_SIMILARITY.
+ */
+function clusterTopics(gaps) {
+    const topics = [];
+    for (const gap of gaps) {
+        const terms = new Set(topicTerms(gap.query));
+        let best = null, bestSimilarity = 0;
+        for (const topic of topics) {
+            const similarity = jaccard(terms, topic.signature);
+            if (similarity > bestSimilarity) {
+                best = topic;
+                bestSimilarity = similarity;
+            }
+        }
+        if (!best || bestSimilarity < TOPIC_SIMILARITY) {
+            best = { gaps: [], counts: new Map(), signature: new Set() };
+            topics.push(best);
+        }
+        best.gaps.push(gap);
+        for (const term of terms) best.counts.set(term, (best.counts.get(term) || 0) + 1);
+        best.signature = new Set([...best.counts].filter(([, count]) => count * 2 > best.gaps.length).map(([term]) => term));
+    }
+    return topics;
+}
+
+class KnowledgeGapStore {
+    constructor({ driver, firestore } = {}) {
+        this.gaps = createRecordStore({
+            name: 'knowledge-gaps',
+            driver: resolveDriver(driver, firestore),
+            firestore,
+            collection: GAPS_COLLECTION
+        });
+    }
+
+    async init() {
+        await this.gaps.init();
+        return this;
+    }
+
+    /**
+     * Log an unanswered question. Asking the same thing again in the same conversation, or as the same agent
+     * on the same day, updates the earlier record instead of counting twice. A line without content words
+     * ("thanks", "ok") is no question and is not logged → null.
+     */
+    async record(tenantId, { query, source, results, conversation, context = [], agent }) {
+        if (!topicTerms(query).length) return null;
+        const now = new Date().toISOString();
+        const scope = conversation ? `${conversation.kind}:${conversation.id}` : `agent:${agent?.id || '-'}:${now.slice(0, 10)}`;
+        const fingerprint = createHash('sha1').update(query.trim().toLowerCase()).digest('hex').slice(0, 16);
+        const id = `${tenantId}:${scope}:${fingerprint}`;
+        return this.gaps.put(id, {
+            id,
+            tenantId,
+            query: query.trim(),
+            source,
+            results: results.length,
+            topScore: results[0]?.score ?? 0,
+            conversation: conversation || null,
+            context: context.slice(-CONTEXT_LINES).map(({ role, text }) => ({ role, text: text.slice(0, CONTEXT_LENGTH) })),
+            agent: agent ? { id: agent.id, name: agent.name || agent.email || null } : null,
+            createdAt: now
+        });
+    }
+
+    async deleteTenantGaps(tenantId) {
+        for (const gap of await this.gaps.list()) {
+            if (gap.tenantId === tenantId) await this.gaps.remove(gap.id);
+        }
+    }
+
+    /**
+     * Open gaps of the last `days` days grouped into topics, most frequent first → { total, since, topics }.
+     * Each topic has a label (its most common question), its shared terms, counts, and the latest examples.
+     */
+    async report(tenantId, { days = 30, limit = 20 } = {}) {
+        const since = new Date(Date.now() - days * 86400000).toISOString();
+        const gaps = (await this.gaps.list())
+            .filter(g => g.tenantId === tenantId && !g.resolvedAt && g.createdAt >= since && topicTerms(g.query).length)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+        const topics = clusterTopics(gaps).map(({ gaps: members, counts, signature }) => {
+            // Lowercased question → [as first asked, times asked]
+            const asked = new Map();
+            for (const { query } of members) {
+                const key = query.toLowerCase();
+                asked.set(key, [asked.get(key)?.[0] || query, (asked.get(key)?.[1] || 0) + 1]);
+            }
+            const [label] = [...asked.values()].sort((a, b) => b[1] - a[1])[0];
+            return {
+                id: members[0].id,
+                label,
+                terms: [...signature].sort((a, b) => counts.get(b) - counts.get(a)),
+                count: members.length,
+                conversations: new Set(members.filter(g => g.conversation).map(g => `${g.conversation.kind}:${g.conversation.id}`)).size,
+                sources: { coaching: members.filter(g => g.source === 'coaching').length, search: members.filter(g => g.source === 'search').length },
+                bestScore: Math.max(...members.map(g => g.topScore)),
+                firstSeen: members[0].createdAt,
+                lastSeen: members[members.length - 1].createdAt,
+                gapIds: members.map(g => g.id),
+                examples: members.slice(-TOPIC_EXAMPLES).reverse()
+                    .map(({ id, query, source, topScore, conversation, context, createdAt }) => ({ id, query, source, topScore, conversation, context, createdAt }))
+            };
+        }).sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen));
+
+        return { total: gaps.length, since, topics: topics.slice(0, limit) };
+    }
+
+    /** Mark gaps as answered (an article was written) so they leave the report → how many were open. */
+    async resolve(tenantId, ids) {
+        let resolved = 0;
+        for (const id of ids) {
+            const gap = await this.gaps.get(id);
+            if (!gap || gap.tenantId !== tenantId || gap.resolvedAt) continue;
+            await this.gaps.put(id, { ...gap, resolvedAt: new Date().toISOString() });
+            resolved++;
+        }
+        return resolved;
+    }
+}
+
+export default KnowledgeGapStore;
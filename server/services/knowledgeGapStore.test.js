@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import KnowledgeGapStore, { topicTerms } from './knowledgeGapStore.js';
+
+const agent = { id: 'u1', name: 'Ann' };
+
+async function storeWith(questions, tenantId = 'acme') {
+    const store = await new KnowledgeGapStore({ driver: 'memory' }).init();
+    for (const [i, query] of questions.entries()) {
+        await store.record(tenantId, { query, source: 'coaching', results: [], conversation: { kind: 'chat', id: `c${i}` }, agent });
+    }
+    return store;
+}
+
+test('topic terms drop stop words and small talk and trim plurals', () => {
+    assert.deepEqual(topicTerms('How do I get my refunds?'), ['refund']);
+    assert.deepEqual(topicTerms('Thanks, ok, great!'), []);
+    assert.deepEqual(topicTerms('yes'), []);
+});
+
+test('similar questions form one topic, labelled by the most asked one', async () => {
+    const store = await storeWith([
+        'How do I get a refund for my order?',
+        'refund for order',
+        'Refund for order',
+        'Can I change my delivery address?',
+        'change delivery address'
+    ]);
+    const { total, topics } = await store.report('acme');
+    assert.equal(total, 5);
+    assert.deepEqual(topics.map(t => t.count), [3, 2]);
+    assert.equal(topics[0].label, 'refund for order');
+    assert.deepEqual(topics[0].terms.slice(0, 2).sort(), ['order', 'refund']);
+    assert.equal(topics[0].conversations, 3);
+    assert.equal(topics[1].examples[0].query, 'change delivery address');
+});
+
+test('lines without content words are not logged and never become topics', async () => {
+    const store = await storeWith(['thanks', 'ok', 'yes', 'Okay great, thank you!', 'Where is my parcel?']);
+    const { total, topics } = await store.report('acme');
+    assert.equal(total, 1);
+    assert.deepEqual(topics.map(t => t.label), ['Where is my parcel?']);
+});
+
+test('gaps logged before small talk was skipped stay out of the report', async () => {
+    const store = await storeWith(['Where is my parcel?']);
+    await store.gaps.put('old', { id: 'old', tenantId: 'acme', query: 'ok', source: 'coaching', results: 0, topScore: 0, createdAt: new Date().toISOString() });
+    assert.equal((await store.report('acme')).total, 1);
+});
+
+test('repeats in a conversation count once, and resolved gaps leave the report', async () => {
+    const store = await storeWith(['Where is my parcel?']);
+    await store.record('acme', { query: 'where is my parcel?', source: 'coaching', results: [], conversation: { kind: 'chat', id: 'c0' }, agent });
+    const { topics } = await store.report('acme');
+    assert.equal(topics[0].count, 1);
+    assert.equal(await store.resolve('other', topics[0].gapIds), 0);
+    assert.equal(await store.resolve('acme', topics[0].gapIds), 1);
+    assert.equal((await store.report('acme')).total, 0);
+});
@@ -1,146 +1,216 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import fs from 'fs';
-import path from 'path';
+import { createHash } from 'crypto';
+import { extractDocument } from './documentExtractor.js';
+import { Bm25Index } from './bm25Index.js';
+import { chunkDocument } from './chunker.js';
+import { modelOf } from './vectorStore.js';
+
+// How many fused candidates the re-ranker grades at least
+const RERANK_DEPTH = 10;
+// How many nearest neighbours and keyword hits each search fuses at least
+const SEARCH_DEPTH = 50;
+
+// Fusion weights and cut-offs for search(); tenants override them in config.retrieval. A query whose best
+// result scores under `gapScore` is logged as a knowledge gap (see KnowledgeGapStore).
+export const DEFAULT_RETRIEVAL = {
+    vectorWeight: 0.6,
+    lexicalWeight: 0.4,
+    minVectorScore: 0.45,
+    minScore: 0.25,
+    rerank: false,
+    feedbackWeight: 0.1,
+    gapScore: 0.4
+};
+
+// Chunks are embedded and keyword-indexed together with the headings they sit under, so "Refund Policy > Exceptions" matches too
+const withHeadings = ({ text, headings }) => headings?.length ? `${headings.join(' > ')}\n\n${text}` : text;
+
+/**
+ * Stable identity of a chunk's content for agent feedback. Chunk ids are positions and shift when a document
+ * is re-chunked; the document id plus a hash of the text keeps a verdict attached to the same passage.
+ */
+export const snippetKey = (chunk) => `${chunk.docId}:${createHash('sha1').update(chunk.text).digest('hex').slice(0, 16)}`;
+
+/**
+ * Whether a document applies at `at` (epoch ms): on or after its `effectiveFrom` date and before its `expiresAt`.
+ * Either date may be missing; a date without a time means midnight UTC.
+ */
+export function isInEffect(doc, at = Date.now()) {
+    if (doc.effectiveFrom && Date.parse(doc.effectiveFrom) > at) return false;
+    if (doc.expiresAt && Date.parse(doc.expiresAt) <= at) return false;
+    return true;
+}
 
-const VECTOR_DB_PATH = path.resolve('server/vector-db.json');
+// Shift a 0–1 score by weighted feedback, staying within 0–1
+const adjust = (score, feedback, weight) => Math.min(Math.max(score + weight * feedback, 0), 1);
 
 class KnowledgeService {
-    constructor(apiKey) {
-        if (!apiKey) {
-            console.error('[Knowledge] No API Key provided! Knowledge features will be disabled.');
-            this.enabled = false;
-        } else {
-            console.log(`[Knowledge] Initializing with key: ${apiKey.substring(0, 6)}...`);
-            this.genAI = new GoogleGenerativeAI(apiKey);
-            this.embeddingModel = this.genAI.getGenerativeModel({ model: "gemini-embedding-001" });
-            this.enabled = true;
-        }
-        this.db = this.loadDb();
+    /**
+     * @param llm    provider from llmProvider.js, or null to disable knowledge features
+     * @param store  the tenant's chunks and embeddings, from createVectorStore()
+     */
+    constructor(llm, store) {
+        this.llm = llm;
+        this.store = store;
+        this.enabled = !!llm;
+        if (!llm) console.error('[Knowledge] No AI provider configured! Knowledge features will be disabled.');
     }
 
-    loadDb() {
-        if (fs.existsSync(VECTOR_DB_PATH)) {
-            try {
-                return JSON.parse(fs.readFileSync(VECTOR_DB_PATH, 'utf-8'));
-            } catch (e) {
-                console.error('[Knowledge] Error loading Vector DB:', e);
-                return { documents: [], chunks: [] };
-            }
-        }
-        return { documents: [], chunks: [] };
+    /**
+     * Extract and chunk an uploaded file with the document's own chunking settings → { format, chunks }.
+     * Throws with a reason admins can act on when the file cannot be read.
+     */
+    async prepareDocument(docMetadata, filePath) {
+        console.log(`[Knowledge] Processing: ${docMetadata.name}`);
+        const { format, text } = await extractDocument(filePath, docMetadata);
+        const chunks = chunkDocument(text, docMetadata.chunking);
+        console.log(`[Knowledge] Generated ${chunks.length} chunks from ${format}`);
+        return { format, chunks };
     }
 
-    saveDb() {
-        try {
-            fs.writeFileSync(VECTOR_DB_PATH, JSON.stringify(this.db, null, 2));
-        } catch (e) {
-            console.error('[Knowledge] Failed to save Vector DB:', e);
+    /** Embed a batch of chunks in one provider call. Unlike getEmbedding, failures throw so the caller can retry them. */
+    async embedChunks(chunks) {
+        const embeddings = await this.llm.embedBatch(chunks.map(withHeadings), { task: 'document' });
+        if (embeddings.length !== chunks.length || embeddings.some(embedding => !embedding?.length)) {
+            throw new Error(`Provider returned ${embeddings.length} embeddings for ${chunks.length} chunks`);
         }
+        return embeddings;
     }
 
-    async processDocument(docMetadata, filePath) {
-        if (!this.enabled) return;
+    /** Replace a document's chunks with freshly embedded ones (see IngestionQueue). */
+    storeDocument(docMetadata, chunks, embeddings) {
+        this.store.putDocument({ ...docMetadata }, chunks.map(({ text, headings }, i) => ({
+            docId: docMetadata.id,
+            docName: docMetadata.name,
+            chunkIndex: i,
+            headings,
+            text,
+            embedding: embeddings[i],
+            embeddingModel: this.llm.embeddingModel
+        })));
+        this.bm25 = null;
+        console.log(`[Knowledge] Successfully indexed ${docMetadata.name}`);
+    }
 
-        try {
-            console.log(`[Knowledge] Processing: ${docMetadata.name}`);
-            const text = fs.readFileSync(filePath, 'utf-8');
-
-            // 1. Chunking
-            const chunkSize = 1500;
-            const overlap = 300;
-            const chunks = this.chunkText(text, chunkSize, overlap);
-
-            console.log(`[Knowledge] Generated ${chunks.length} chunks`);
-
-            // 2. Embedding Generation (Batching recommended for efficiency, but one-by-one for simplicity here)
-            const processedChunks = [];
-            for (let i = 0; i < chunks.length; i++) {
-                const chunkText = chunks[i];
-                const embedding = await this.getEmbedding(chunkText);
-                processedChunks.push({
-                    docId: docMetadata.id,
-                    docName: docMetadata.name,
-                    chunkIndex: i,
-                    text: chunkText,
-                    embedding: embedding
-                });
-            }
+    /** Remove a document and every chunk indexed from it → whether anything was removed. */
+    removeDocument(docId) {
+        const removed = this.store.removeDocument(docId);
+        if (removed) this.bm25 = null;
+        return removed;
+    }
 
-            // 3. Update DB
-            this.db.documents.push(docMetadata);
-            this.db.chunks.push(...processedChunks);
-            this.saveDb();
-            console.log(`[Knowledge] Successfully indexed ${docMetadata.name}`);
+    /** Ids of every document that has an entry or chunks in the vector store. */
+    indexedDocumentIds() {
+        return this.store.documentIds();
+    }
 
-            return true;
-        } catch (error) {
-            console.error(`[Knowledge] Error processing ${docMetadata.name}:`, error.message);
-            return false;
-        }
+    /** The metadata a document was last indexed with, or null. */
+    indexedDocument(docId) {
+        return this.store.getDocument(docId);
     }
 
-    chunkText(text, size, overlap) {
-        const chunks = [];
-        let start = 0;
-        while (start < text.length) {
-            let end = Math.min(start + size, text.length);
-            chunks.push(text.slice(start, end));
-            if (end === text.length) break;
-            start += (size - overlap);
-        }
-        return chunks;
+    hasChunks(docId) {
+        return this.store.hasChunks(docId);
     }
 
     async getEmbedding(text, isQuery = false) {
         try {
-            const result = await this.embeddingModel.embedContent({
-                content: { parts: [{ text }] },
-                taskType: isQuery ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT"
-            });
-            return result.embedding.values;
+            return await this.llm.embed(text, { task: isQuery ? 'query' : 'document' });
         } catch (e) {
             console.error(`[Knowledge] Embedding error (${isQuery ? 'Query' : 'Doc'}):`, e);
             return null; // Return null instead of zeros to flag failure
         }
     }
 
-    async search(query, limit = 3) {
-        if (!this.enabled || this.db.chunks.length === 0) return [];
+    /** Keyword index over every chunk, rebuilt on the first search after the chunks change. */
+    lexicalIndex() {
+        if (!this.bm25) this.bm25 = new Bm25Index(this.store.chunks().map(chunk => ({ id: chunk.id, text: withHeadings(chunk) })));
+        return this.bm25;
+    }
+
+    /**
+     * Hybrid search over the nearest neighbours of the query embedding and the best keyword hits: each
+     * candidate gets a vector score (cosine similarity, zero below `minVectorScore` or outside the nearest
+     * neighbours) and a lexical score (BM25, 0–1), fused by weight. Chunks under `minScore` are dropped; with
+     * `rerank` the provider grades the best candidates and the final score averages that grade with the fused
+     * score. Agent feedback then nudges the final score: `boosts` maps snippetKey() → -1…1 (see FeedbackStore),
+     * added with `feedbackWeight`. Each result carries the breakdown in `scores`. `filter(chunk)` limits which
+     * chunks can match.
+     */
+    async search(query, { limit = 3, filter, boosts, ...settings } = {}) {
+        if (!this.enabled || this.store.size === 0) return [];
+        const { vectorWeight, lexicalWeight, minVectorScore, minScore, rerank, feedbackWeight } = { ...DEFAULT_RETRIEVAL, ...settings };
 
         try {
+            const depth = Math.max(SEARCH_DEPTH, limit * 3);
+            const lexical = [...this.lexicalIndex().search(query)]
+                .filter(([id]) => !filter || filter(this.store.getChunk(id)))
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, depth);
+            // Without a query embedding the keyword scores still rank the chunks
             const queryEmbedding = await this.getEmbedding(query, true);
-            if (!queryEmbedding) return [];
-
-            const scored = this.db.chunks
-                .filter(chunk => chunk.embedding && chunk.embedding.some(v => v !== 0))
-                .map(chunk => ({
-                    text: chunk.text,
-                    docName: chunk.docName,
-                    score: this.cosineSimilarity(queryEmbedding, chunk.embedding)
-                }));
-
-            // Filter for decent similarity and sort
-            return scored
-                .filter(s => s.score > 0.45) // Threshold for relevance
-                .sort((a, b) => b.score - a.score)
-                .slice(0, limit);
+            // Vectors from another embedding model live in a different space, so only this provider's are searched
+            const neighbours = queryEmbedding
+                ? this.store.query(queryEmbedding, { k: depth, embeddingModel: this.llm.embeddingModel, filter })
+                : [];
+
+            // Checked once: counting walks every chunk
+            if (!this.checkedModels) {
+                this.checkedModels = true;
+                const skipped = this.store.chunks().filter(chunk => modelOf(chunk) !== this.llm.embeddingModel).length;
+                if (skipped) {
+                    console.warn(`[Knowledge] ${skipped} chunks were embedded with another model and are matched by keyword only. Re-index those documents to restore vector search.`);
+                }
+            }
+
+            const totalWeight = vectorWeight + lexicalWeight || 1;
+            const similarities = new Map(neighbours.map(({ chunk, similarity }) => [chunk.id, similarity]));
+            const keywords = new Map(lexical);
+            const candidates = [...new Set([...similarities.keys(), ...keywords.keys()])]
+                .map(id => {
+                    const similarity = similarities.get(id) || 0;
+                    const vector = similarity >= minVectorScore ? similarity : 0;
+                    const keyword = keywords.get(id) || 0;
+                    const fused = (vectorWeight * vector + lexicalWeight * keyword) / totalWeight;
+                    return { chunk: this.store.getChunk(id), scores: { vector: similarity, lexical: keyword, fused, feedback: 0, final: fused } };
+                })
+                .filter(c => c.chunk && c.scores.fused > 0 && c.scores.fused >= minScore)
+                .map(c => {
+                    const feedback = boosts?.size ? boosts.get(snippetKey(c.chunk)) || 0 : 0;
+                    return feedback ? { ...c, scores: { ...c.scores, feedback, final: adjust(c.scores.fused, feedback, feedbackWeight) } } : c;
+                })
+                .sort((a, b) => b.scores.final - a.scores.final);
+
+            const ranked = rerank ? await this.rerank(query, candidates.slice(0, Math.max(limit * 3, RERANK_DEPTH)), feedbackWeight) : candidates;
+            return ranked.slice(0, limit).map(({ chunk, scores }) => {
+                const rounded = Object.fromEntries(Object.entries(scores).map(([key, value]) => [key, Math.round(value * 10000) / 10000]));
+                const { final, ...breakdown } = rounded;
+                return { id: chunk.id, docId: chunk.docId, text: chunk.text, docName: chunk.docName, headings: chunk.headings || [], score: final, scores: breakdown };
+            });
         } catch (e) {
             console.error('[Knowledge] Search error:', e.message);
             return [];
         }
     }
 
-    cosineSimilarity(vecA, vecB) {
-        let dotProduct = 0;
-        let normA = 0;
-        let normB = 0;
-        for (let i = 0; i < vecA.length; i++) {
-            dotProduct += vecA[i] * vecB[i];
-            normA += vecA[i] * vecA[i];
-            normB += vecB[i] * vecB[i];
+    // Have the provider grade each candidate 0–10 for the query. Falls back to the fused order when the reply is unusable.
+    async rerank(query, candidates, feedbackWeight = DEFAULT_RETRIEVAL.feedbackWeight) {
+        if (candidates.length === 0) return candidates;
+        const passages = candidates.map((c, i) => `[${i + 1}] ${c.chunk.text.slice(0, 1000)}`).join('\n\n');
+        const prompt = `Rate how relevant each passage is to the query, from 0 (unrelated) to 10 (answers it directly).\nReturn ONLY valid JSON: {"scores": [one number per passage, in order]}\n\nQUERY: ${query}\n\n--- PASSAGES ---\n${passages}\n--- END ---`;
+        try {
+            const raw = await this.llm.generate(prompt, { json: true });
+            const grades = JSON.parse(raw.match(/\{[\s\S]*\}/)?.[0] || raw).scores;
+            if (!Array.isArray(grades) || grades.length !== candidates.length) throw new Error(`expected ${candidates.length} scores`);
+            return candidates
+                .map((c, i) => {
+                    const grade = Math.min(Math.max(Number(grades[i]) / 10 || 0, 0), 1);
+                    return { ...c, scores: { ...c.scores, rerank: grade, final: adjust((c.scores.fused + grade) / 2, c.scores.feedback, feedbackWeight) } };
+                })
+                .sort((a, b) => b.scores.final - a.scores.final);
+        } catch (e) {
+            console.warn('[Knowledge] Re-ranking skipped:', e.message);
+            return candidates;
         }
-        if (normA === 0 || normB === 0) return 0;
-        return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
     }
 }
 
@@ -0,0 +1,275 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import fs from 'fs';
+import path from 'path';
+
+// Language model providers behind coaching, summaries and knowledge embeddings.
+// Every provider answers the same calls:
+//   generate(prompt, { json, schema }) → text
+//   generateStream(prompt, { json, schema, signal }) → async iterable of text pieces; aborting `signal` ends it with an AbortError
+//   embed(text, { task: 'query' | 'document' }) → number[]
+//   embedBatch(texts, { task }) → number[][], one request for many texts
+// `json` asks for a JSON reply; `schema` (a JSON Schema, see jsonSchema() in shared/schema.js) also holds the reply
+// to that shape where the provider supports structured output. Replies must still be validated.
+// Errors from the remote API carry its HTTP `status`, so callers can tell rate limits and outages from bad input.
+// `embeddingModel` names the vector space a provider embeds into; vectors from different spaces are never compared.
+
+export const LLM_PROVIDERS = ['gemini', 'openai', 'mock'];
+
+const DEFAULT_MOCK_FIXTURES = path.resolve('server/fixtures/llm-mock.json');
+// The mock provider streams its reply in pieces of this many characters, one piece per tick
+const MOCK_STREAM_PIECE = 24;
+const MOCK_STREAM_DELAY_MS = 15;
+
+/**
+ * Gemini takes the OpenAPI subset of JSON Schema: enums are strings with format "enum", null is a flag,
+ * and bounds other than item counts are not understood.
+ */
+function geminiSchema(schema) {
+    const [type, nullable] = Array.isArray(schema.type) ? [schema.type.find(t => t !== 'null'), true] : [schema.type, false];
+    const converted = { type, ...(nullable ? { nullable } : {}) };
+    if (schema.enum) Object.assign(converted, { format: 'enum', enum: schema.enum });
+    if (type === 'array') Object.assign(converted, { items: geminiSchema(schema.items), minItems: schema.minItems, maxItems: schema.maxItems });
+    if (type === 'object') {
+        converted.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, geminiSchema(value)]));
+        converted.required = schema.required;
+    }
+    return converted;
+}
+
+const geminiConfig = ({ json, schema }) => json || schema
+    ? { generationConfig: { responseMimeType: 'application/json', ...(schema ? { responseSchema: geminiSchema(schema) } : {}) } }
+    : {};
+
+// OpenAI's strict structured output needs every field required and no extra keys, which jsonSchema() objects
+// declared `strict` satisfy
+const openAIFormat = ({ json, schema }) => schema
+    ? { response_format: { type: 'json_schema', json_schema: { name: 'reply', schema, strict: true } } }
+    : json ? { response_format: { type: 'json_object' } } : {};
+
+class GeminiProvider {
+    constructor({ apiKey, model = 'gemini-2.0-flash', embeddingModel = 'gemini-embedding-001' }) {
+        this.name = 'gemini';
+        const genAI = new GoogleGenerativeAI(apiKey);
+        this.model = genAI.getGenerativeModel({ model });
+        this.embedder = genAI.getGenerativeModel({ model: embeddingModel });
+        this.embeddingModel = `gemini:${embeddingModel}`;
+    }
+
+    async generate(prompt, { json = false, schema } = {}) {
+        const result = await this.model.generateContent({
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            ...geminiConfig({ json, schema })
+        });
+        return result.response.text();
+    }
+
+    async *generateStream(prompt, { json = false, schema, signal } = {}) {
+        const result = await this.model.generateContentStream({
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            ...geminiConfig({ json, schema })
+        }, { signal });
+        for await (const chunk of result.stream) yield chunk.text();
+    }
+
+    async embed(text, { task = 'document' } = {}) {
+        const result = await this.embedder.embedContent({
+            content: { parts: [{ text }] },
+            taskType: task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT'
+        });
+        return result.embedding.values;
+    }
+
+    async embedBatch(texts, { task = 'document' } = {}) {
+        const result = await this.embedder.batchEmbedContents({
+            requests: texts.map(text => ({
+                content: { role: 'user', parts: [{ text }] },
+                taskType: task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT'
+            }))
+        });
+        return result.embeddings.map(embedding => embedding.values);
+    }
+}
+
+/** Any server speaking the OpenAI REST API: OpenAI itself, or a local Ollama, vLLM or llama.cpp server. */
+class OpenAICompatibleProvider {
+    constructor({ baseUrl = 'https://api.openai.com/v1', apiKey, model = 'gpt-4o-mini', embeddingModel = 'text-embedding-3-small', timeoutMs = 60000 }) {
+        this.name = 'openai';
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.apiKey = apiKey;
+        this.model = model;
+        this.embedder = embeddingModel;
+        this.embeddingModel = `openai:${this.baseUrl}:${embeddingModel}`;
+        this.timeoutMs = timeoutMs;
+    }
+
+    async post(route, body, signal) {
+        const timeout = AbortSignal.timeout(this.timeoutMs);
+        const res = await fetch(`${this.baseUrl}${route}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+            },
+            body: JSON.stringify(body),
+            signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+        });
+        if (!res.ok) {
+            const detail = (await res.text()).slice(0, 200);
+            throw Object.assign(new Error(`${route} answered ${res.status}: ${detail}`), { status: res.status });
+        }
+        return res;
+    }
+
+    async request(route, body) {
+        return (await this.post(route, body)).json();
+    }
+
+    async generate(prompt, { json = false, schema } = {}) {
+        const data = await this.request('/chat/completions', {
+            model: this.model,
+            messages: [{ role: 'user', content: prompt }],
+            ...openAIFormat({ json, schema })
+        });
+        return data.choices?.[0]?.message?.content || '';
+    }
+
+    // Server-sent events: one `data: {json}` line per piece, then `data: [DONE]`
+    async *generateStream(prompt, { json = false, schema, signal } = {}) {
+        const res = await this.post('/chat/completions', {
+            model: this.model,
+            messages: [{ role: 'user', content: prompt }],
+            stream: true,
+            ...openAIFormat({ json, schema })
+        }, signal);
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for await (const bytes of res.body) {
+            buffer += decoder.decode(bytes, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop();
+            for (const line of lines) {
+                const data = line.match(/^data:\s*(.*)$/)?.[1];
+                if (!data || data === '[DONE]') continue;
+                const piece = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (piece) yield piece;
+            }
+        }
+    }
+
+    async embed(text) {
+        const data = await this.request('/embeddings', { model: this.embedder, input: text });
+        const embedding = data.data?.[0]?.embedding;
+        if (!Array.isArray(embedding)) throw new Error('/embeddings answered without an embedding');
+        return embedding;
+    }
+
+    async embedBatch(texts) {
+        const data = await this.request('/embeddings', { model: this.embedder, input: texts });
+        // Entries carry the position of their input; servers are not required to keep the order
+        const embeddings = [...(data.data || [])].sort((a, b) => a.index - b.index).map(entry => entry.embedding);
+        if (embeddings.length !== texts.length || !embeddings.every(Array.isArray)) {
+            throw new Error(`/embeddings answered ${embeddings.length} embeddings for ${texts.length} inputs`);
+        }
+        return embeddings;
+    }
+}
+
+/**
+ * Offline provider for development and tests. Replies come from a fixture file: the first entry whose
+ * `match` pattern (a case-insensitive regular expression) is found in the prompt wins. Embeddings are
+ * hashed bags of words, so documents that share words with a query still rank above those that do not.
+ */
+class MockProvider {
+    constructor({ fixturesPath = DEFAULT_MOCK_FIXTURES }) {
+        this.name = 'mock';
+        const fixtures = this.loadFixtures(fixturesPath);
+        this.replies = (fixtures.generate || []).map(({ match, response }) => ({
+            pattern: new RegExp(match, 'i'),
+            text: typeof response === 'string' ? response : JSON.stringify(response)
+        }));
+        this.fallback = fixtures.fallback || 'Mock reply: no fixture matches this prompt.';
+        this.dimensions = fixtures.embeddingDimensions || 256;
+        this.embeddingModel = `mock:hash-${this.dimensions}`;
+    }
+
+    loadFixtures(fixturesPath) {
+        try {
+            return JSON.parse(fs.readFileSync(fixturesPath, 'utf-8'));
+        } catch (e) {
+            console.error(`[LLM] Could not read mock fixtures ${fixturesPath}:`, e.message);
+            return {};
+        }
+    }
+
+    async generate(prompt) {
+        return this.replies.find(reply => reply.pattern.test(prompt))?.text || this.fallback;
+    }
+
+    async *generateStream(prompt, { signal } = {}) {
+        const text = await this.generate(prompt);
+        for (let i = 0; i < text.length; i += MOCK_STREAM_PIECE) {
+            await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+            signal?.throwIfAborted();
+            yield text.slice(i, i + MOCK_STREAM_PIECE);
+        }
+    }
+
+    async embed(text) {
+        const vector = new Array(this.dimensions).fill(0);
+        for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+            // FNV-1a, so a word always lands in the same dimension
+            let hash = 2166136261;
+            for (let i = 0; i < word.length; i++) hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+            vector[(hash >>> 0) % this.dimensions] += 1;
+        }
+        return vector;
+    }
+
+    async embedBatch(texts) {
+        return Promise.all(texts.map(text => this.embed(text)));
+    }
+}
+
+/**
+ * Resolve which provider to use: an explicit setting wins, otherwise Gemini when
+ * GEMINI_API_KEY is set. Returns null when no provider can run, which disables AI features.
+ */
+export function resolveLlmProvider(setting, env = process.env) {
+    const provider = (setting || '').toLowerCase();
+    if (provider && !LLM_PROVIDERS.includes(provider)) {
+        console.warn(`[LLM] Unknown provider "${setting}". Expected one of: ${LLM_PROVIDERS.join(', ')}.`);
+    } else if (provider === 'gemini' && !env.GEMINI_API_KEY) {
+        console.warn('[LLM] Gemini provider requested but GEMINI_API_KEY is not set.');
+        return null;
+    } else if (provider) {
+        return provider;
+    }
+    return env.GEMINI_API_KEY ? 'gemini' : null;
+}
+
+/**
+ * Create the provider picked by resolveLlmProvider, configured from the environment.
+ * @param {'gemini' | 'openai' | 'mock' | null} provider
+ */
+export function createLlmProvider(provider, env = process.env) {
+    switch (provider) {
+        case 'gemini':
+            return new GeminiProvider({
+                apiKey: env.GEMINI_API_KEY,
+                model: env.GEMINI_MODEL || undefined,
+                embeddingModel: env.GEMINI_EMBEDDING_MODEL || undefined
+            });
+        case 'openai':
+            return new OpenAICompatibleProvider({
+                baseUrl: env.OPENAI_BASE_URL || undefined,
+                apiKey: env.OPENAI_API_KEY,
+                model: env.OPENAI_MODEL || undefined,
+                embeddingModel: env.OPENAI_EMBEDDING_MODEL || undefined,
+                timeoutMs: Number(env.LLM_TIMEOUT_MS) || undefined
+            });
+        case 'mock':
+            return new MockProvider({ fixturesPath: env.LLM_MOCK_FIXTURES ? path.resolve(env.LLM_MOCK_FIXTURES) : undefined });
+        default:
+            return null;
+    }
+}
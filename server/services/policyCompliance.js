@@ -0,0 +1,65 @@
+import { POLICY_PRIORITIES } from '../../shared/api.js';
+
+// Policy compliance: every coaching turn also judges the conversation against the tenant's enabled coaching
+// policies. The model answers one verdict per policy with the words it rests on; judgePolicies() holds that
+// answer to the policies that exist and keeps only evidence actually found in the transcript.
+// verdict = { policyId, name, priority, verdict: 'pass' | 'violation' | 'not_applicable', evidence: string | null }
+
+// Case, curly quotes and runs of whitespace do not stop a quote from matching the transcript
+const normalize = (text) => text.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+
+const rank = (priority) => POLICY_PRIORITIES.indexOf(priority);
+
+// A policy about customers asking for a supervisor (e.g. "escalate if the customer asks for a supervisor 3 times")
+// is not left to the model: SUPERVISOR_REQUEST_LIMIT customer lines asking for one are a violation, quoting the last
+export const SUPERVISOR_REQUEST_LIMIT = 3;
+const SUPERVISOR_POLICY = /\b(asks?|asking|requests?|requesting)\s+(for\s+)?(a\s+|the\s+)?(supervisor|manager)/i;
+const SUPERVISOR_REQUEST = /\b(supervisor|manager|someone in charge)\b/i;
+
+/** Customer lines of the transcript that ask for a supervisor or manager. */
+export const supervisorRequests = (transcript) =>
+    transcript.filter(line => (line.role || line.speaker) === 'customer' && SUPERVISOR_REQUEST.test(line.text));
+
+/** The prompt section asking for a verdict on each enabled policy, most important first. */
+export function policyPrompt(policies) {
+    const enabled = policies.filter(p => p.enabled).sort((a, b) => rank(b.priority) - rank(a.priority));
+    if (!enabled.length) return '\n\n--- COMPANY POLICIES ---\nNone are in force. Return an empty "policies" list.\n--- END POLICIES ---';
+    return `\n\n--- COMPANY POLICIES ---
+Judge the conversation so far against each policy below. Add a "policies" list to the JSON with one
+{ "policyId", "verdict", "evidence" } entry per policy:
+- verdict "violation": the conversation calls for what the policy requires and it has not been done, or the agent acted against it
+- verdict "pass": the policy applies and the agent follows it
+- verdict "not_applicable": nothing in the conversation concerns the policy yet
+- evidence: the words from the conversation the verdict rests on, copied exactly; "" when not_applicable
+${enabled.map(p => `[policyId ${p.id}] ${p.name} (${p.priority}): ${p.description || p.name}`).join('\n')}
+--- END POLICIES ---`;
+}
+
+/**
+ * The model's verdicts made whole: one per enabled policy (unanswered ones count as not applicable), named and
+ * prioritised from the policy itself, violations first and then by priority. Evidence that does not appear in
+ * the transcript is dropped, so a paraphrase or an invented quote never reaches the agent as a quote. Supervisor
+ * request policies are judged by counting instead, over the whole `transcript`.
+ */
+export function judgePolicies(policies, verdicts = [], transcript = []) {
+    const answered = new Map(verdicts.map(v => [v.policyId, v]));
+    const said = normalize(transcript.map(line => line.text).join('\n'));
+    const requests = supervisorRequests(transcript);
+    return policies.filter(p => p.enabled).map(policy => {
+        const judged = { policyId: policy.id, name: policy.name, priority: policy.priority };
+        if (requests.length >= SUPERVISOR_REQUEST_LIMIT && SUPERVISOR_POLICY.test(`${policy.name} ${policy.description}`)) {
+            return { ...judged, verdict: 'violation', evidence: requests[requests.length - 1].text.trim() };
+        }
+        const answer = answered.get(policy.id);
+        const quote = answer?.evidence?.trim().replace(/^["“']+|["”']+$/g, '');
+        return {
+            ...judged,
+            verdict: answer?.verdict || 'not_applicable',
+            evidence: quote && said.includes(normalize(quote)) ? quote : null
+        };
+    }).sort((a, b) => (b.verdict === 'violation') - (a.verdict === 'violation') || rank(b.priority) - rank(a.priority));
+}
+
+/** The violation of a critical policy that should act on its own, if any: only one backed by a quote qualifies. */
+export const criticalBreach = (verdicts) =>
+    verdicts.find(v => v.verdict === 'violation' && v.priority === 'critical' && v.evidence) || null;
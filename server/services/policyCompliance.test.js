@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SUPERVISOR_REQUEST_LIMIT, criticalBreach, judgePolicies, policyPrompt, supervisorRequests } from './policyCompliance.js';
+
+const policies = [
+    { id: '1', name: 'Empathy First', description: 'Acknowledge feelings first.', enabled: true, priority: 'medium' },
+    { id: '2', name: 'Refund Policy', description: 'Refunds over $500 need approval.', enabled: true, priority: 'high' },
+    { id: '3', name: 'Escalation Protocol', description: 'Escalate if the customer asks for a supervisor 3 times.', enabled: true, priority: 'critical' },
+    { id: '4', name: 'Positive Closure', description: 'Thank the customer.', enabled: false, priority: 'critical' }
+];
+
+const transcript = [
+    { role: 'customer', text: 'I’ve been charged   TWICE for my order.' },
+    { role: 'agent', text: 'Let me refund the $900 right away.' }
+];
+
+test('the prompt lists enabled policies only, most important first', () => {
+    const prompt = policyPrompt(policies);
+    assert.ok(!prompt.includes('Positive Closure'));
+    assert.ok(prompt.indexOf('[policyId 3]') < prompt.indexOf('[policyId 2]'));
+    assert.ok(prompt.indexOf('[policyId 2]') < prompt.indexOf('[policyId 1]'));
+    assert.match(policyPrompt([{ ...policies[0], enabled: false }]), /None are in force/);
+});
+
+test('verdicts cover every enabled policy, violations first and then by priority', () => {
+    const judged = judgePolicies(policies, [
+        { policyId: '1', verdict: 'violation', evidence: '' },
+        { policyId: '3', verdict: 'pass', evidence: '' },
+        { policyId: '9', verdict: 'violation', evidence: 'made up' }
+    ], transcript);
+    assert.deepEqual(judged.map(v => [v.policyId, v.verdict]), [['1', 'violation'], ['3', 'pass'], ['2', 'not_applicable']]);
+    assert.deepEqual(judged[0], { policyId: '1', name: 'Empathy First', priority: 'medium', verdict: 'violation', evidence: null });
+});
+
+test('evidence is kept only when the transcript says it, whatever the case, quotes or spacing', () => {
+    const evidenceFor = (evidence) => judgePolicies(policies, [{ policyId: '2', verdict: 'violation', evidence }], transcript)[0].evidence;
+    assert.equal(evidenceFor('“refund the $900 right away”'), 'refund the $900 right away');
+    assert.equal(evidenceFor("I've been charged twice"), "I've been charged twice");
+    assert.equal(evidenceFor('I will refund you $900 now'), null);
+});
+
+test('supervisor requests are counted rather than left to the model', () => {
+    const asks = ['Get me a supervisor.', 'I want your manager!', 'Is there someone in charge?']
+        .map(text => ({ speaker: 'customer', text }));
+    const lines = [...transcript, { role: 'agent', text: 'Our supervisor is busy.' }, ...asks];
+    assert.equal(supervisorRequests(lines).length, SUPERVISOR_REQUEST_LIMIT);
+    const verdicts = [{ policyId: '3', verdict: 'pass', evidence: '' }];
+
+    assert.equal(judgePolicies(policies, verdicts, lines.slice(0, -1))[0].verdict, 'pass');
+    const [escalation] = judgePolicies(policies, verdicts, lines);
+    assert.deepEqual(escalation, { policyId: '3', name: 'Escalation Protocol', priority: 'critical', verdict: 'violation', evidence: 'Is there someone in charge?' });
+});
+
+test('only a quoted violation of a critical policy counts as a breach', () => {
+    const critical = { policyId: '3', name: 'Escalation Protocol', priority: 'critical', verdict: 'violation', evidence: 'I will sue' };
+    assert.equal(criticalBreach([{ ...critical, priority: 'high' }, critical]), critical);
+    assert.equal(criticalBreach([{ ...critical, evidence: null }]), null);
+    assert.equal(criticalBreach([{ ...critical, verdict: 'pass' }]), null);
+});
@@ -0,0 +1,180 @@
+import { tenantOf } from './tenantService.js';
+import { CONVERSATION_PRIORITIES as PRIORITIES } from '../../shared/api.js';
+
+// Higher rank is served first; within a rank the longest-waiting customer goes first
+export { PRIORITIES };
+const priorityRank = (conv) => Math.max(PRIORITIES.indexOf(conv.priority || 'normal'), 0);
+
+// How long an agent may be disconnected (e.g. a page reload) before their chats go back to the queue
+export const RECONNECT_GRACE_MS = 30 * 1000;
+
+// Routes waiting chat conversations to signed-in agents.
+// Tracks which agents are online (per user, across tabs) and whether they accept new chats;
+// the conversation records themselves stay in the ConversationStore:
+//   conv.status        'waiting' (in the queue) | 'active' (assigned)
+//   conv.assignedAgent { id, name, email } | null
+//   conv.priority      'normal' | 'high' | 'urgent'
+//   conv.queuedAt      when the customer (re-)entered the queue
+//   conv.releasedBy    agents who handed the conversation back — it is not auto-assigned to them again
+class RoutingService {
+    constructor({ conversationStore }) {
+        this.conversationStore = conversationStore;
+        this.agents = new Map(); // userId → { user, tenantId, sockets: Set, available, lastAssignedAt, releaseTimer }
+    }
+
+    // ── Presence ──
+    agentConnected(tenantId, user, socketId) {
+        let agent = this.agents.get(user.id);
+        if (!agent) {
+            agent = { user, tenantId, sockets: new Set(), available: true, lastAssignedAt: 0, releaseTimer: null };
+            this.agents.set(user.id, agent);
+        }
+        clearTimeout(agent.releaseTimer);
+        agent.releaseTimer = null;
+        agent.sockets.add(socketId);
+        return agent;
+    }
+
+    /** Call when an agent socket closes; `onGone` runs once the agent has been offline for the grace period. */
+    agentDisconnected(userId, socketId, onGone) {
+        const agent = this.agents.get(userId);
+        if (!agent) return;
+        agent.sockets.delete(socketId);
+        if (agent.sockets.size > 0) return;
+        agent.releaseTimer = setTimeout(() => {
+            this.agents.delete(userId);
+            onGone(agent);
+        }, RECONNECT_GRACE_MS);
+    }
+
+    isOnline(userId) {
+        return this.agents.has(userId);
+    }
+
+    /** The signed-in user behind an online agent of the tenant, or null. */
+    onlineAgent(tenantId, userId) {
+        const agent = this.agents.get(userId);
+        return agent && agent.tenantId === tenantId && agent.sockets.size > 0 ? agent.user : null;
+    }
+
+    setAvailability(userId, available) {
+        const agent = this.agents.get(userId);
+        if (agent) agent.available = !!available;
+        return agent;
+    }
+
+    // ── Queue ──
+    /** Waiting conversations for a tenant in service order. */
+    async queue(tenantId) {
+        return (await this.conversationStore.listConversations(tenantId))
+            .filter(c => c.status === 'waiting')
+            .sort((a, b) => priorityRank(b) - priorityRank(a)
+                || new Date(a.queuedAt || a.startTime).getTime() - new Date(b.queuedAt || b.startTime).getTime());
+    }
+
+    async load(tenantId, userId) {
+        return (await this.conversationStore.listConversations(tenantId))
+            .filter(c => c.status === 'active' && c.assignedAgent?.id === userId).length;
+    }
+
+    /** Per-agent status for the console: online agents with their load and capacity. */
+    async agentStatus(tenantId, capacity) {
+        const online = [...this.agents.values()].filter(a => a.tenantId === tenantId && a.sockets.size > 0);
+        return Promise.all(online.map(async a => ({
+            id: a.user.id,
+            name: a.user.name,
+            available: a.available,
+            load: await this.load(tenantId, a.user.id),
+            capacity
+        })));
+    }
+
+    // Least-loaded available agent with spare capacity; ties go to whoever has waited longest for a chat
+    async pickAgent(tenantId, capacity, exclude = []) {
+        const candidates = [];
+        for (const agent of this.agents.values()) {
+            if (agent.tenantId !== tenantId || !agent.available || agent.sockets.size === 0) continue;
+            if (exclude.includes(agent.user.id)) continue;
+            const load = await this.load(tenantId, agent.user.id);
+            if (load < capacity) candidates.push({ agent, load });
+        }
+        candidates.sort((a, b) => a.load - b.load || a.agent.lastAssignedAt - b.agent.lastAssignedAt);
+        return candidates[0]?.agent || null;
+    }
+
+    /**
+     * Assign queued conversations to available agents until either runs out.
+     * Returns the assignments made as [{ conv, agent }].
+     */
+    async dispatch(tenantId, capacity) {
+        const assignments = [];
+        for (const conv of await this.queue(tenantId)) {
+            const agent = await this.pickAgent(tenantId, capacity, conv.releasedBy || []);
+            if (!agent) continue;
+            assignments.push({ conv: await this.assign(conv.id, agent.user), agent });
+        }
+        return assignments;
+    }
+
+    /** Explicit claim by an agent — fails when the conversation is taken or the agent is at capacity. */
+    async claim(tenantId, conversationId, user, capacity) {
+        const conv = await this.conversationStore.getConversation(conversationId);
+        if (!conv || tenantOf(conv) !== tenantId) return { error: 'Conversation not found' };
+        if (conv.status === 'active' && conv.assignedAgent?.id === user.id) return { conv };
+        if (conv.status !== 'waiting') return { error: `Already assigned to ${conv.assignedAgent?.name || 'another agent'}` };
+        if (await this.load(tenantId, user.id) >= capacity) return { error: `You are at capacity (${capacity} chats)` };
+        return { conv: await this.assign(conversationId, user) };
+    }
+
+    async assign(conversationId, user) {
+        const agent = this.agents.get(user.id);
+        if (agent) agent.lastAssignedAt = Date.now();
+        return this.conversationStore.updateConversation(conversationId, {
+            status: 'active',
+            assignedAgent: { id: user.id, name: user.name, email: user.email },
+            assignedAt: new Date().toISOString()
+        });
+    }
+
+    /** Put a conversation back in the queue, keeping its original place in line. */
+    async release(conversationId, userId) {
+        const conv = await this.conversationStore.getConversation(conversationId);
+        if (!conv) return null;
+        return this.conversationStore.updateConversation(conversationId, {
+            status: 'waiting',
+            assignedAgent: null,
+            assignedAt: null,
+            releasedBy: userId ? [...new Set([...(conv.releasedBy || []), userId])] : conv.releasedBy || []
+        });
+    }
+
+    /** Release every conversation held by an agent, e.g. after they went offline. */
+    async releaseAll(tenantId, userId) {
+        const held = (await this.conversationStore.listConversations(tenantId))
+            .filter(c => c.status === 'active' && c.assignedAgent?.id === userId);
+        for (const conv of held) await this.release(conv.id);
+        return held;
+    }
+
+    /** After a restart: hand back conversations whose agent did not reconnect. Returns the affected tenant ids. */
+    async releaseOffline() {
+        const tenants = new Set();
+        for (const conv of await this.conversationStore.listAllConversations()) {
+            // Conversations saved before routing existed are 'active' without an agent
+            if (conv.status === 'active' && (!conv.assignedAgent || !this.isOnline(conv.assignedAgent.id))) {
+                await this.release(conv.id);
+                tenants.add(tenantOf(conv));
+            }
+        }
+        return [...tenants];
+    }
+
+    async setPriority(tenantId, conversationId, priority) {
+        if (!PRIORITIES.includes(priority)) return null;
+        const conv = await this.conversationStore.getConversation(conversationId);
+        if (!conv || tenantOf(conv) !== tenantId) return null;
+        return this.conversationStore.updateConversation(conversationId, { priority });
+    }
+}
+
+export default RoutingService;
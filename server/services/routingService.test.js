@@ -0,0 +1,111 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import ConversationStore from './conversationStore.js';
+import RoutingService, { RECONNECT_GRACE_MS } from './routingService.js';
+
+const ann = { id: 'ann', name: 'Ann', email: 'ann@example.com' };
+const bob = { id: 'bob', name: 'Bob', email: 'bob@example.com' };
+const eve = { id: 'eve', name: 'Eve', email: 'eve@other.com' };
+
+async function setup() {
+    const conversationStore = await new ConversationStore({ driver: 'memory' }).init();
+    return { conversationStore, routing: new RoutingService({ conversationStore }) };
+}
+
+// Customers joining one millisecond apart, so their place in the queue is certain
+async function waiting(conversationStore, ids, tenantId = 'acme') {
+    for (const [i, id] of ids.entries()) {
+        await conversationStore.createConversation(id, { name: id }, tenantId);
+        await conversationStore.updateConversation(id, { queuedAt: new Date(Date.UTC(2026, 0, 1, 9, 0, i)).toISOString() });
+    }
+}
+
+const holders = async (conversationStore, tenantId = 'acme') => Object.fromEntries(
+    (await conversationStore.listConversations(tenantId)).map(c => [c.id, c.assignedAgent?.id || null]));
+
+test('the queue serves higher priorities first, then whoever waited longest', async () => {
+    const { conversationStore, routing } = await setup();
+    await waiting(conversationStore, ['c1', 'c2', 'c3', 'c4']);
+    await routing.setPriority('acme', 'c3', 'urgent');
+    await routing.setPriority('acme', 'c2', 'high');
+    assert.deepEqual((await routing.queue('acme')).map(c => c.id), ['c3', 'c2', 'c1', 'c4']);
+    assert.equal(await routing.setPriority('acme', 'c1', 'whenever'), null);
+    assert.equal(await routing.setPriority('other', 'c1', 'high'), null);
+});
+
+test('dispatch shares chats among available agents of the tenant up to their capacity', async () => {
+    const { conversationStore, routing } = await setup();
+    await waiting(conversationStore, ['c1', 'c2', 'c3', 'c4', 'c5']);
+    routing.agentConnected('acme', ann, 's1');
+    routing.agentConnected('acme', bob, 's2');
+    routing.agentConnected('other', eve, 's3');
+    const assignments = await routing.dispatch('acme', 2);
+    assert.equal(assignments.length, 4);
+    const load = Object.values(await holders(conversationStore)).reduce((counts, id) => ({ ...counts, [id]: (counts[id] || 0) + 1 }), {});
+    assert.deepEqual(load, { ann: 2, bob: 2, null: 1 });
+    assert.deepEqual((await routing.queue('acme')).map(c => c.id), ['c5']);
+});
+
+test('unavailable agents and agents who handed a chat back are passed over', async () => {
+    const { conversationStore, routing } = await setup();
+    await waiting(conversationStore, ['c1']);
+    routing.agentConnected('acme', ann, 's1');
+    routing.agentConnected('acme', bob, 's2');
+    routing.setAvailability('bob', false);
+    await routing.dispatch('acme', 3);
+    assert.equal((await holders(conversationStore)).c1, 'ann');
+
+    await routing.release('c1', 'ann');
+    assert.deepEqual(await routing.dispatch('acme', 3), []);
+    routing.setAvailability('bob', true);
+    await routing.dispatch('acme', 3);
+    assert.equal((await holders(conversationStore)).c1, 'bob');
+});
+
+test('a claim fails for a taken chat, another tenant\'s chat, or an agent at capacity', async () => {
+    const { conversationStore, routing } = await setup();
+    await waiting(conversationStore, ['c1', 'c2']);
+    await waiting(conversationStore, ['x1'], 'other');
+    assert.equal((await routing.claim('acme', 'c1', ann, 1)).conv.assignedAgent.id, 'ann');
+    assert.equal((await routing.claim('acme', 'c1', ann, 1)).conv.id, 'c1');
+    assert.equal((await routing.claim('acme', 'c1', bob, 1)).error, 'Already assigned to Ann');
+    assert.equal((await routing.claim('acme', 'c2', ann, 1)).error, 'You are at capacity (1 chats)');
+    assert.equal((await routing.claim('acme', 'x1', ann, 5)).error, 'Conversation not found');
+});
+
+test('an agent offline past the grace period has their chats put back in the queue', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    try {
+        const { conversationStore, routing } = await setup();
+        await waiting(conversationStore, ['c1']);
+        routing.agentConnected('acme', ann, 's1');
+        await routing.dispatch('acme', 3);
+        const gone = [];
+        routing.agentDisconnected('ann', 's1', agent => gone.push(agent.user.id));
+        routing.agentConnected('acme', ann, 's2');
+        mock.timers.tick(RECONNECT_GRACE_MS);
+        assert.deepEqual(gone, []);
+
+        routing.agentDisconnected('ann', 's2', agent => gone.push(agent.user.id));
+        mock.timers.tick(RECONNECT_GRACE_MS);
+        assert.deepEqual(gone, ['ann']);
+        assert.equal(routing.isOnline('ann'), false);
+        assert.deepEqual((await routing.releaseAll('acme', 'ann')).map(c => c.id), ['c1']);
+        assert.deepEqual((await routing.queue('acme')).map(c => c.id), ['c1']);
+    } finally {
+        mock.timers.reset();
+    }
+});
+
+test('after a restart, chats of agents who did not come back return to the queue', async () => {
+    const { conversationStore, routing } = await setup();
+    await waiting(conversationStore, ['c1', 'c2']);
+    await waiting(conversationStore, ['x1'], 'other');
+    routing.agentConnected('acme', ann, 's1');
+    await routing.claim('acme', 'c1', ann, 3);
+    await routing.assign('c2', bob);
+    await conversationStore.updateConversation('x1', { status: 'active' });
+    assert.deepEqual((await routing.releaseOffline()).sort(), ['acme', 'other']);
+    assert.deepEqual(await holders(conversationStore), { c1: 'ann', c2: null });
+    assert.equal((await conversationStore.getConversation('x1')).status, 'waiting');
+});
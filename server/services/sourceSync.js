@@ -0,0 +1,467 @@
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import { BlockList, isIP, isIPv4 } from 'net';
+import { createHash, randomUUID } from 'crypto';
+import { createRecordStore, resolveDriver } from './storage.js';
+import { detectFormat } from './documentExtractor.js';
+
+const SOURCES_COLLECTION = 'agent_success_knowledge_sources';
+
+// Knowledge sources: a folder on the server, or a list of web pages and sitemaps, whose files become knowledge
+// documents. A sync crawls the source, hashes every item and compares it with the document made from it last
+// time, so only new, changed and vanished items touch the knowledge base. Sources sync on demand, every
+// `intervalMinutes`, and watched folders also shortly after a file in them changes.
+// source = { id, tenantId, name, type: 'folder' | 'web', path, urls, intervalMinutes, watch,
+//            status: 'idle' | 'syncing' | 'error', lastSyncAt, lastError, lastResult, createdAt, updatedAt }
+// Documents made by a source carry `source: { id, key, hash, location }`, where `key` is the file's path within
+// the folder or the page URL and `hash` the SHA-256 of the content they were made from.
+
+// Items one sync reads at most, and the largest item kept (the upload limit)
+const MAX_ITEMS = 500;
+const MAX_ITEM_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+// Sitemap indexes may point at further sitemaps this many levels deep
+const SITEMAP_DEPTH = 2;
+// Quiet time after the last change in a watched folder before it syncs
+const WATCH_DEBOUNCE_MS = 2000;
+const SCHEDULE_CHECK_MS = 60000;
+// Item errors kept in a sync result
+const RESULT_ERRORS = 10;
+
+const contentHash = (content) => createHash('sha256').update(content).digest('hex');
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved addresses: web sources
+// may not reach the server's own network unless `allowPrivateUrls` is set
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]]) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges
+const isPrivateAddress = (address) => PRIVATE_ADDRESSES.check(address, isIPv4(address) ? 'ipv4' : 'ipv6');
+
+const privateHostError = (hostname) => new Error(`${hostname} is on a private network; set KNOWLEDGE_SOURCE_ALLOW_PRIVATE to sync it`);
+
+/**
+ * Throws unless `url` is http(s) and its host resolves to public addresses only (with `allowPrivate`, any host).
+ * `lookup` and `isBlocked` stand in for dns.lookup and the private ranges in tests.
+ */
+async function checkUrl(url, { allowPrivate = false, lookup = dns.lookup, isBlocked = isPrivateAddress } = {}) {
+    const { protocol, hostname } = new URL(url);
+    if (!/^https?:$/.test(protocol)) throw new Error(`Only http and https URLs can be synced: ${url}`);
+    if (allowPrivate) return;
+    const host = hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host) ? [host] : (await new Promise((resolve, reject) => {
+        lookup(host, { all: true }, (error, found) => error ? reject(new Error(`Host not found: ${hostname}`)) : resolve(found));
+    })).map(a => a.address);
+    if (addresses.some(isBlocked)) throw privateHostError(hostname);
+}
+
+// dns.lookup for the connection itself, failing on blocked addresses: a host that resolves to a public address when
+// checked and to a private one when connected to (DNS rebinding) is still refused
+const guardedLookup = (lookup, isBlocked) => (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error);
+        if (!addresses.length || addresses.some(a => isBlocked(a.address))) return callback(privateHostError(hostname));
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+// One GET, redirects not followed. IP literals never reach `lookup`; checkUrl has already vetted them.
+function get(url, { allowPrivate, lookup, isBlocked }) {
+    return new Promise((resolve, reject) => {
+        const client = new URL(url).protocol === 'https:' ? https : http;
+        const request = client.get(url, {
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            ...(allowPrivate ? {} : { lookup: guardedLookup(lookup, isBlocked) })
+        }, resolve);
+        request.on('error', reject);
+    });
+}
+
+async function readBody(response) {
+    if (Number(response.headers['content-length']) > MAX_ITEM_BYTES) {
+        response.destroy();
+        throw new Error('Larger than 10MB');
+    }
+    const chunks = [];
+    let size = 0;
+    for await (const chunk of response) {
+        size += chunk.length;
+        if (size > MAX_ITEM_BYTES) throw new Error('Larger than 10MB');
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+const decodeXml = (text) => text.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+
+/**
+ * Download one page → { content, type }. Redirects are followed one at a time, so each hop is checked like the
+ * URL itself, and every connection goes only to an address that passed the check.
+ */
+export async function fetchItem(url, network = {}) {
+    const options = { allowPrivate: false, lookup: dns.lookup, isBlocked: isPrivateAddress, ...network };
+    for (let hops = 0; ; hops++) {
+        await checkUrl(url, options);
+        const response = await get(url, options);
+        const { statusCode: status, headers } = response;
+        if (status >= 300 && status < 400 && headers.location) {
+            response.resume();
+            if (hops >= MAX_REDIRECTS) throw new Error('Too many redirects');
+            url = new URL(headers.location, url).href;
+            continue;
+        }
+        if (status < 200 || status >= 300) {
+            response.resume();
+            throw new Error(`HTTP ${status}`);
+        }
+        return { content: await readBody(response), type: (headers['content-type'] || '').split(';')[0].trim().toLowerCase() };
+    }
+}
+
+// A page's <title>, else the last segment of its path, else its host
+function pageName(url, { content, type }) {
+    if (type.includes('html')) {
+        const title = content.toString('utf-8', 0, 65536).match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+        if (title?.trim()) return decodeXml(title.replace(/\s+/g, ' ').trim()).slice(0, 200);
+    }
+    const { hostname, pathname } = new URL(url);
+    return decodeURIComponent(pathname.split('/').filter(Boolean).pop() || '') || hostname;
+}
+
+/** Supported files under `root`, hidden files and folders skipped → [{ key, name, location, load }] */
+async function listFolder(root) {
+    const stat = await fs.promises.stat(root).catch(() => null);
+    if (!stat?.isDirectory()) throw new Error(`Folder not found: ${root}`);
+    const items = [];
+    const walk = async (dir) => {
+        const entries = (await fs.promises.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            if (items.length >= MAX_ITEMS || entry.name.startsWith('.')) continue;
+            const location = path.join(dir, entry.name);
+            if (entry.isDirectory()) await walk(location);
+            else if (entry.isFile() && detectFormat({ name: entry.name })) {
+                items.push({
+                    key: path.relative(root, location).split(path.sep).join('/'),
+                    name: entry.name,
+                    location,
+                    load: async () => {
+                        const { size } = await fs.promises.stat(location);
+                        if (size > MAX_ITEM_BYTES) throw new Error('Larger than 10MB');
+                        return { content: await fs.promises.readFile(location), type: '' };
+                    }
+                });
+            }
+        }
+    };
+    await walk(root);
+    return { items, complete: true };
+}
+
+/**
+ * The pages of a web source: every listed URL that is not a sitemap, and every page the sitemaps list.
+ * `complete` is false when a listed URL or sitemap could not be fetched — the pages it would have
+ * listed are unknown, so nothing is removed on that sync.
+ */
+async function listWeb(urls, errors, options) {
+    const pages = new Map();
+    let complete = true;
+    const addPage = (url, fetched) => {
+        if (pages.size >= MAX_ITEMS || pages.has(url)) return;
+        let loaded = fetched;
+        pages.set(url, {
+            key: url,
+            location: url,
+            load: async () => {
+                const item = loaded || await fetchItem(url, options);
+                loaded = null;
+                return item;
+            }
+        });
+    };
+    const visit = async (url, depth) => {
+        let fetched;
+        try {
+            fetched = await fetchItem(url, options);
+        } catch (e) {
+            complete = false;
+            errors.push({ key: url, error: e.message });
+            return;
+        }
+        const head = fetched.content.toString('utf-8', 0, 2048);
+        if (fetched.type.includes('html') || !/<(urlset|sitemapindex)[\s>]/i.test(head)) return addPage(url, fetched);
+        const index = /<sitemapindex[\s>]/i.test(head);
+        const locations = [...fetched.content.toString('utf-8').matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)]
+            .map(([, loc]) => new URL(decodeXml(loc), url).href);
+        for (const location of locations) {
+            if (!index) addPage(location);
+            else if (depth < SITEMAP_DEPTH) await visit(location, depth + 1);
+        }
+    };
+    for (const url of urls) await visit(url, 0);
+    return { items: [...pages.values()], complete };
+}
+
+class SourceSync {
+    /**
+     * @param {{
+     *   library: {
+     *     documents: (tenantId: string) => Promise<object[]>,
+     *     save: (tenantId: string, doc: object | null, item: { name: string, type: string, content: Buffer, source: object }) => Promise<object>,
+     *     remove: (tenantId: string, doc: object) => Promise<void>
+     *   },
+     *   onStatus?: (tenantId: string, source: object) => void,
+     *   driver?: string, firestore?: object, folderRoot?: string, allowPrivateUrls?: boolean
+     * }} options  `library` adds, re-versions and removes the tenant's documents. Folder sources exist only
+     *             when `folderRoot` is set: their paths must lie inside it and are taken relative to it. Web
+     *             sources reach private and loopback addresses only with `allowPrivateUrls`.
+     */
+    constructor({ library, onStatus = () => { }, driver, firestore, folderRoot, allowPrivateUrls = false } = {}) {
+        this.sources = createRecordStore({
+            name: 'knowledge-sources',
+            driver: resolveDriver(driver, firestore),
+            firestore,
+            collection: SOURCES_COLLECTION
+        });
+        this.library = library;
+        this.onStatus = onStatus;
+        this.folderRoot = folderRoot ? path.resolve(folderRoot) : null;
+        this.allowPrivateUrls = allowPrivateUrls;
+        this.running = new Set();
+        this.watchers = new Map();
+        this.timer = null;
+        this.started = false;
+    }
+
+    // Syncs cut short by a restart are picked up again by the schedule
+    async init() {
+        await this.sources.init();
+        for (const source of await this.sources.list()) {
+            if (source.status === 'syncing') await this.sources.put(source.id, { ...source, status: 'idle' });
+        }
+        return this;
+    }
+
+    // Begin scheduled syncs and folder watching
+    async start() {
+        this.started = true;
+        for (const source of await this.sources.list()) this.watch(source);
+        this.timer = setInterval(() => this.syncDue().catch(e => console.error('[Sources] Scheduled sync failed:', e.message)), SCHEDULE_CHECK_MS);
+        this.timer.unref();
+        await this.syncDue();
+    }
+
+    async list(tenantId) {
+        return (await this.sources.list())
+            .filter(s => s.tenantId === tenantId)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async get(tenantId, id) {
+        const source = await this.sources.get(id);
+        return source?.tenantId === tenantId ? source : null;
+    }
+
+    isSyncing(id) {
+        return this.running.has(id);
+    }
+
+    async create(tenantId, { name, type, path: folder, urls, intervalMinutes = 0, watch = false }) {
+        const now = new Date().toISOString();
+        const id = randomUUID();
+        const source = await this.sources.put(id, {
+            id,
+            tenantId,
+            name,
+            type,
+            ...await this.location(type, { path: folder, urls }),
+            intervalMinutes,
+            watch: type === 'folder' && watch,
+            status: 'idle',
+            lastSyncAt: null,
+            lastError: null,
+            lastResult: null,
+            createdAt: now,
+            updatedAt: now
+        });
+        this.watch(source);
+        return source;
+    }
+
+    async update(tenantId, id, changes) {
+        const source = await this.get(tenantId, id);
+        if (!source) return null;
+        const { path: folder = source.path, urls = source.urls, ...settings } = changes;
+        const updated = await this.sources.put(id, {
+            ...source,
+            ...settings,
+            ...await this.location(source.type, { path: folder, urls }),
+            watch: source.type === 'folder' && (settings.watch ?? source.watch),
+            updatedAt: new Date().toISOString()
+        });
+        this.watch(updated);
+        return updated;
+    }
+
+    /** Delete a source together with every document it synced. */
+    async remove(tenantId, id) {
+        const source = await this.get(tenantId, id);
+        if (!source) return false;
+        this.unwatch(id);
+        await this.sources.remove(id);
+        for (const doc of await this.library.documents(tenantId)) {
+            if (doc.source?.id === id) await this.library.remove(tenantId, doc);
+        }
+        return true;
+    }
+
+    /** Stop watching and forget every source of a deleted tenant; its documents go with the tenant. */
+    async deleteTenantSources(tenantId) {
+        for (const source of await this.list(tenantId)) {
+            this.unwatch(source.id);
+            await this.sources.remove(source.id);
+        }
+    }
+
+    /**
+     * Crawl a source and bring its documents in line: new items become documents, items whose content hash
+     * changed become a new version of their document, and documents whose item is gone are removed. Items
+     * that cannot be read keep their current document. Resolves with the source once the sync is over.
+     */
+    async sync(tenantId, id) {
+        let source = await this.get(tenantId, id);
+        if (!source || this.running.has(id)) return source;
+        this.running.add(id);
+        source = await this.setStatus(source, { status: 'syncing', lastError: null });
+        const result = { added: 0, updated: 0, removed: 0, unchanged: 0, failed: 0, errors: [] };
+        const fail = (key, error) => {
+            result.failed++;
+            result.errors.push({ key, error });
+        };
+        try {
+            const listErrors = [];
+            // Checked again on every sync: the root may have changed since the source was added
+            const { path: folder } = source.type === 'folder' ? await this.location('folder', source) : {};
+            const { items, complete } = source.type === 'folder'
+                ? await listFolder(folder)
+                : await listWeb(source.urls, listErrors, { allowPrivate: this.allowPrivateUrls });
+            listErrors.forEach(({ key, error }) => fail(key, error));
+            const existing = new Map((await this.library.documents(tenantId))
+                .filter(doc => doc.source?.id === id)
+                .map(doc => [doc.source.key, doc]));
+
+            for (const item of items) {
+                try {
+                    const loaded = await item.load();
+                    const hash = contentHash(loaded.content);
+                    const doc = existing.get(item.key);
+                    if (doc?.source.hash === hash) {
+                        result.unchanged++;
+                        continue;
+                    }
+                    const name = item.name || pageName(item.location, loaded);
+                    if (!detectFormat({ name, type: loaded.type })) throw new Error(`Unsupported content type "${loaded.type || 'unknown'}"`);
+                    await this.library.save(tenantId, doc || null, {
+                        name,
+                        type: loaded.type,
+                        content: loaded.content,
+                        source: { id, key: item.key, hash, location: item.location }
+                    });
+                    result[doc ? 'updated' : 'added']++;
+                } catch (e) {
+                    fail(item.key, e.message);
+                }
+            }
+
+            if (complete) {
+                const listed = new Set(items.map(item => item.key));
+                for (const [key, doc] of existing) {
+                    if (listed.has(key)) continue;
+                    await this.library.remove(tenantId, doc);
+                    result.removed++;
+                }
+            }
+            result.errors = result.errors.slice(0, RESULT_ERRORS);
+            source = await this.setStatus(await this.get(tenantId, id) || source, { status: 'idle', lastSyncAt: new Date().toISOString(), lastResult: result });
+            console.log(`[Sources] Synced "${source.name}" (tenant: ${tenantId}): ${result.added} added, ${result.updated} updated, ${result.removed} removed, ${result.failed} failed`);
+        } catch (e) {
+            console.error(`[Sources] Sync of "${source.name}" failed (tenant: ${tenantId}):`, e.message);
+            source = await this.setStatus(await this.get(tenantId, id) || source, { status: 'error', lastSyncAt: new Date().toISOString(), lastError: e.message });
+        } finally {
+            this.running.delete(id);
+        }
+        return source;
+    }
+
+    // Sync every scheduled source whose interval has passed since its last sync
+    async syncDue() {
+        const now = Date.now();
+        for (const source of await this.sources.list()) {
+            if (!source.intervalMinutes || this.running.has(source.id)) continue;
+            if (source.lastSyncAt && now - Date.parse(source.lastSyncAt) < source.intervalMinutes * 60000) continue;
+            await this.sync(source.tenantId, source.id);
+        }
+    }
+
+    /** Where a source reads from, checked → { path, urls }. Throws with a message for the admin. */
+    async location(type, { path: folder, urls }) {
+        if (type === 'web') {
+            if (!urls?.length) throw new Error('A web source needs at least one URL');
+            for (const url of urls) await checkUrl(url, { allowPrivate: this.allowPrivateUrls });
+            return { path: null, urls: [...new Set(urls)] };
+        }
+        if (!this.folderRoot) throw new Error('Folder sources are disabled on this server (KNOWLEDGE_SOURCE_ROOT is not set)');
+        if (!folder) throw new Error('A folder source needs a path');
+        const resolved = path.resolve(this.folderRoot, folder);
+        if (resolved !== this.folderRoot && !resolved.startsWith(this.folderRoot + path.sep)) {
+            throw new Error(`Folder must be inside ${this.folderRoot}`);
+        }
+        return { path: resolved, urls: [] };
+    }
+
+    async setStatus(source, changes) {
+        const updated = await this.sources.put(source.id, { ...source, ...changes });
+        this.onStatus(updated.tenantId, updated);
+        return updated;
+    }
+
+    // Watched folders sync once their files have been quiet for WATCH_DEBOUNCE_MS
+    watch(source) {
+        this.unwatch(source.id);
+        if (!this.started || !this.folderRoot || source.type !== 'folder' || !source.watch) return;
+        let pending = null;
+        try {
+            const watcher = fs.watch(source.path, { recursive: true }, () => {
+                clearTimeout(pending);
+                pending = setTimeout(() => this.sync(source.tenantId, source.id), WATCH_DEBOUNCE_MS);
+            });
+            watcher.on('error', e => {
+                console.error(`[Sources] Stopped watching "${source.name}":`, e.message);
+                this.unwatch(source.id);
+            });
+            this.watchers.set(source.id, { watcher, cancel: () => clearTimeout(pending) });
+        } catch (e) {
+            console.error(`[Sources] Cannot watch "${source.name}" (${source.path}):`, e.message);
+        }
+    }
+
+    unwatch(id) {
+        const watching = this.watchers.get(id);
+        if (!watching) return;
+        watching.cancel();
+        watching.watcher.close();
+        this.watchers.delete(id);
+    }
+}
+
+export default SourceSync;
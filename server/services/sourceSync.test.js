@@ -0,0 +1,79 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import SourceSync, { fetchItem } from './sourceSync.js';
+
+// A local site: /page is a document, /hop redirects to the path in ?to=, /private redirects to another loopback address
+let server;
+let base;
+const hits = [];
+
+before(async () => {
+    server = http.createServer((req, res) => {
+        const { pathname, searchParams } = new URL(req.url, base);
+        hits.push(pathname);
+        if (pathname === '/page') return res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' }).end('<html><title>Returns policy</title><body>30 days</body></html>');
+        if (pathname === '/hop') return res.writeHead(302, { location: searchParams.get('to') }).end();
+        if (pathname === '/private') return res.writeHead(301, { location: `http://127.0.0.2:${server.address().port}/page` }).end();
+        res.writeHead(404).end();
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise(resolve => server.close(resolve)));
+
+// Treats this test's server as the public internet; every other address stays private
+const network = (lookup) => ({ isBlocked: (address) => address !== '127.0.0.1', ...(lookup ? { lookup } : {}) });
+
+// A DNS answering each lookup with the next address
+function resolvesTo(...answers) {
+    const lookup = (hostname, options, callback) => {
+        lookup.calls++;
+        callback(null, [{ address: answers.shift(), family: 4 }]);
+    };
+    lookup.calls = 0;
+    return lookup;
+}
+
+test('private and loopback hosts are refused unless allowed', async () => {
+    const library = { documents: async () => [], save: async () => ({}), remove: async () => { } };
+    const sources = await new SourceSync({ library, driver: 'memory' }).init();
+    await assert.rejects(sources.create('acme', { name: 'Local', type: 'web', urls: [`${base}/page`] }), /private network/);
+    await assert.rejects(sources.create('acme', { name: 'Local', type: 'web', urls: [`http://localhost:${server.address().port}/page`] }), /private network/);
+    await assert.rejects(sources.create('acme', { name: 'Files', type: 'web', urls: ['file:///etc/passwd'] }), /Only http and https/);
+    hits.length = 0;
+    await assert.rejects(fetchItem(`${base}/page`), /private network/);
+    assert.deepEqual(hits, []);
+});
+
+test('redirects are followed and each hop is checked', async () => {
+    const page = await fetchItem(`${base}/hop?to=/page`, network());
+    assert.equal(page.type, 'text/html');
+    assert.match(page.content.toString(), /30 days/);
+    hits.length = 0;
+    await assert.rejects(fetchItem(`${base}/private`, network()), /127\.0\.0\.2 is on a private network/);
+    assert.deepEqual(hits, ['/private']);
+});
+
+test('a host resolving to a private address once checked is refused on connect', async () => {
+    hits.length = 0;
+    const rebinding = resolvesTo('127.0.0.1', '10.0.0.1');
+    await assert.rejects(fetchItem(`http://docs.example:${server.address().port}/page`, network(rebinding)), /docs\.example is on a private network/);
+    // Passed the check, then refused by the connection's own lookup
+    assert.equal(rebinding.calls, 2);
+    assert.deepEqual(hits, []);
+    const stable = resolvesTo('127.0.0.1', '127.0.0.1');
+    assert.match((await fetchItem(`http://docs.example:${server.address().port}/page`, network(stable))).content.toString(), /30 days/);
+});
+
+test('a source allowed on private networks syncs its pages', async () => {
+    const saved = [];
+    const library = { documents: async () => [], save: async (tenantId, doc, item) => saved.push(item), remove: async () => { } };
+    const sources = await new SourceSync({ library, driver: 'memory', allowPrivateUrls: true }).init();
+    const source = await sources.create('acme', { name: 'Local', type: 'web', urls: [`${base}/hop?to=/page`, `${base}/missing`] });
+    const synced = await sources.sync('acme', source.id);
+    assert.deepEqual(saved.map(item => item.name), ['Returns policy']);
+    assert.equal(synced.lastResult.added, 1);
+    assert.deepEqual(synced.lastResult.errors, [{ key: `${base}/missing`, error: 'HTTP 404' }]);
+});
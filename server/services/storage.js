@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+
+// Keyed JSON record stores used for live server state.
+// Every driver keeps a full in-memory copy; the persistent drivers write through
+// on each mutation and rehydrate the copy in init().
+
+// Firestore rejects `undefined` values, and the file driver should not keep them either
+const toPlain = (record) => JSON.parse(JSON.stringify(record));
+
+class MemoryRecordStore {
+    constructor(name) {
+        this.name = name;
+        this.records = new Map();
+    }
+
+    async init() {
+        return this;
+    }
+
+    async list() {
+        return [...this.records.values()];
+    }
+
+    async get(id) {
+        return this.records.get(id) || null;
+    }
+
+    async put(id, record) {
+        const plain = toPlain(record);
+        this.records.set(id, plain);
+        await this.persistRecord(id, plain);
+        return plain;
+    }
+
+    async remove(id) {
+        if (!this.records.has(id)) return false;
+        this.records.delete(id);
+        await this.removeRecord(id);
+        return true;
+    }
+
+    async clear() {
+        const ids = [...this.records.keys()];
+        this.records.clear();
+        await this.clearRecords(ids);
+    }
+
+    // Driver hooks — no-ops for the memory driver
+    async persistRecord() { }
+    async removeRecord() { }
+    async clearRecords() { }
+}
+
+class FileRecordStore extends MemoryRecordStore {
+    constructor(name, filePath) {
+        super(name);
+        this.filePath = filePath;
+    }
+
+    async init() {
+        if (fs.existsSync(this.filePath)) {
+            try {
+                const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+                for (const [id, record] of Object.entries(data)) this.records.set(id, record);
+            } catch (e) {
+                console.error(`[Storage] Could not read ${this.filePath}:`, e.message);
+            }
+        }
+        return this;
+    }
+
+    writeFile() {
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            // Write to a temp file first so a crash mid-write never truncates the store
+            const tmpPath = `${this.filePath}.tmp`;
+            fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.records)));
+            fs.renameSync(tmpPath, this.filePath);
+        } catch (e) {
+            console.error(`[Storage] Could not write ${this.filePath}:`, e.message);
+        }
+    }
+
+    async persistRecord() { this.writeFile(); }
+    async removeRecord() { this.writeFile(); }
+    async clearRecords() { this.writeFile(); }
+}
+
+class FirestoreRecordStore extends MemoryRecordStore {
+    constructor(name, firestore, collection) {
+        super(name);
+        this.collection = firestore.collection(collection);
+        this.firestore = firestore;
+    }
+
+    async init() {
+        try {
+            const snap = await this.collection.get();
+            snap.forEach(doc => this.records.set(doc.id, doc.data()));
+        } catch (e) {
+            console.warn(`[Firebase] Could not load ${this.name}:`, e.message);
+        }
+        return this;
+    }
+
+    async persistRecord(id, record) {
+        try {
+            await this.collection.doc(id).set(record);
+        } catch (e) {
+            console.warn(`[Firebase] Could not save ${this.name}/${id}:`, e.message);
+        }
+    }
+
+    async removeRecord(id) {
+        try {
+            await this.collection.doc(id).delete();
+        } catch (e) {
+            console.warn(`[Firebase] Could not delete ${this.name}/${id}:`, e.message);
+        }
+    }
+
+    async clearRecords(ids) {
+        try {
+            // Firestore batches are capped at 500 writes
+            for (let i = 0; i < ids.length; i += 500) {
+                const batch = this.firestore.batch();
+                ids.slice(i, i + 500).forEach(id => batch.delete(this.collection.doc(id)));
+                await batch.commit();
+            }
+        } catch (e) {
+            console.warn(`[Firebase] Could not clear ${this.name}:`, e.message);
+        }
+    }
+}
+
+export const DATA_DIR = path.resolve('server/data');
+
+/**
+ * Resolve which driver to use: an explicit setting wins, otherwise Firestore
+ * when the Admin SDK is configured and a local JSON file when it is not.
+ */
+export function resolveDriver(setting, firestore) {
+    const driver = (setting || '').toLowerCase();
+    if (driver === 'memory' || driver === 'file') return driver;
+    if (driver === 'firestore') {
+        if (firestore) return 'firestore';
+        console.warn('[Storage] Firestore driver requested but Firebase is not configured. Falling back to file.');
+        return 'file';
+    }
+    return firestore ? 'firestore' : 'file';
+}
+
+/**
+ * Create a record store.
+ * @param {{ name: string, driver: 'memory' | 'file' | 'firestore', firestore?: any, collection?: string, filePath?: string }} options
+ */
+export function createRecordStore({ name, driver, firestore, collection, filePath }) {
+    switch (driver) {
+        case 'firestore':
+            return new FirestoreRecordStore(name, firestore, collection);
+        case 'file':
+            return new FileRecordStore(name, filePath || path.join(DATA_DIR, `${name}.json`));
+        default:
+            return new MemoryRecordStore(name);
+    }
+}
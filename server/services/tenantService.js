@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { createRecordStore, resolveDriver } from './storage.js';
+
+const TENANTS_COLLECTION = 'agent_success_tenants';
+
+// Data created before multi-tenancy (and single-tenant installs) belongs to this tenant
+export const DEFAULT_TENANT_ID = 'default';
+
+export const tenantOf = (record) => record?.tenantId || DEFAULT_TENANT_ID;
+
+const generateApiKey = () => `tk_${crypto.randomBytes(18).toString('base64url')}`;
+
+const slugify = (value) => (value || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+
+// Tenants own their config, knowledge base, users and live conversations.
+// tenant = { id, name, hostnames: [], apiKeys: [], createdAt }
+// A request is matched to a tenant by API key first, then by hostname, else the default tenant.
+class TenantService {
+    constructor({ firestore, driver } = {}) {
+        this.tenants = createRecordStore({
+            name: 'tenants',
+            driver: resolveDriver(driver, firestore),
+            firestore,
+            collection: TENANTS_COLLECTION
+        });
+    }
+
+    async init() {
+        await this.tenants.init();
+        if (!await this.tenants.get(DEFAULT_TENANT_ID)) {
+            await this.tenants.put(DEFAULT_TENANT_ID, {
+                id: DEFAULT_TENANT_ID,
+                name: 'Default',
+                hostnames: [],
+                apiKeys: [],
+                createdAt: new Date().toISOString()
+            });
+        }
+        return this;
+    }
+
+    async listTenants() {
+        return this.tenants.list();
+    }
+
+    async getTenant(id) {
+        return this.tenants.get(id);
+    }
+
+    async createTenant({ id, name, hostnames = [] }) {
+        if (!name) throw new Error('Tenant name is required');
+        const tenantId = slugify(id || name);
+        if (!tenantId) throw new Error('Tenant id must contain letters or digits');
+        if (await this.tenants.get(tenantId)) throw new Error(`Tenant "${tenantId}" already exists`);
+
+        const normalized = hostnames.map(h => h.trim().toLowerCase()).filter(Boolean);
+        for (const tenant of await this.tenants.list()) {
+            const taken = normalized.find(h => tenant.hostnames.includes(h));
+            if (taken) throw new Error(`Hostname "${taken}" is already used by tenant "${tenant.id}"`);
+        }
+
+        const tenant = await this.tenants.put(tenantId, {
+            id: tenantId,
+            name,
+            hostnames: normalized,
+            apiKeys: [generateApiKey()],
+            createdAt: new Date().toISOString()
+        });
+        console.log(`[Tenants] Tenant created: ${tenantId}`);
+        return tenant;
+    }
+
+    async deleteTenant(id) {
+        if (id === DEFAULT_TENANT_ID) throw new Error('The default tenant cannot be deleted');
+        return this.tenants.remove(id);
+    }
+
+    /** Match an API key or hostname to a tenant; unknown callers fall back to the default tenant. */
+    async resolve({ apiKey, hostname } = {}) {
+        const tenants = await this.tenants.list();
+        const host = (hostname || '').split(':')[0].toLowerCase();
+        const tenant = (apiKey && tenants.find(t => t.apiKeys.includes(apiKey)))
+            || (host && tenants.find(t => t.hostnames.includes(host)));
+        return tenant || this.tenants.get(DEFAULT_TENANT_ID);
+    }
+}
+
+export default TenantService;
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import TenantService, { DEFAULT_TENANT_ID, tenantOf } from './tenantService.js';
+import AuthService from './authService.js';
+import ConfigService from './configService.js';
+import ConversationStore from './conversationStore.js';
+import { resolveTenant, socketTenant } from '../middleware/tenant.js';
+
+async function setup() {
+    const tenantService = await new TenantService({ driver: 'memory' }).init();
+    const authService = new AuthService({ driver: 'memory', secret: 'test-secret' });
+    const acme = await tenantService.createTenant({ name: 'Acme Corp', hostnames: ['Support.Acme.com'] });
+    const globex = await tenantService.createTenant({ id: 'globex', name: 'Globex', hostnames: ['help.globex.com'] });
+    return { tenantService, authService, acme, globex };
+}
+
+// The tenant an HTTP request is served for
+async function tenantFor({ tenantService, authService }, { token, apiKey, hostname = 'localhost' } = {}) {
+    const req = {
+        headers: token ? { authorization: `Bearer ${token}` } : {},
+        hostname,
+        get: (header) => (header === 'x-api-key' ? apiKey : undefined)
+    };
+    await new Promise((resolve, reject) => resolveTenant({ tenantService, authService })(req, {}, (e) => (e ? reject(e) : resolve())));
+    return req.tenantId;
+}
+
+test('records without a tenant belong to the default tenant', () => {
+    assert.equal(tenantOf({}), DEFAULT_TENANT_ID);
+    assert.equal(tenantOf(null), DEFAULT_TENANT_ID);
+    assert.equal(tenantOf({ tenantId: 'acme' }), 'acme');
+});
+
+test('tenants get a slug id and an API key, and never share a hostname', async () => {
+    const { tenantService, acme } = await setup();
+    assert.equal(acme.id, 'acme-corp');
+    assert.deepEqual(acme.hostnames, ['support.acme.com']);
+    assert.match(acme.apiKeys[0], /^tk_/);
+    await assert.rejects(tenantService.createTenant({ name: 'Acme Corp' }), /already exists/);
+    await assert.rejects(tenantService.createTenant({ name: 'Copycat', hostnames: ['HELP.globex.com'] }), /already used by tenant "globex"/);
+    await assert.rejects(tenantService.createTenant({ name: '!!!' }), /letters or digits/);
+    await assert.rejects(tenantService.deleteTenant(DEFAULT_TENANT_ID), /cannot be deleted/);
+});
+
+test('anonymous callers are matched by API key, then hostname, else the default tenant', async () => {
+    const services = await setup();
+    const { acme, globex } = services;
+    assert.equal(await tenantFor(services, { apiKey: acme.apiKeys[0], hostname: 'help.globex.com' }), acme.id);
+    assert.equal(await tenantFor(services, { hostname: 'help.globex.com' }), globex.id);
+    assert.equal(await tenantFor(services, { apiKey: 'tk_unknown' }), DEFAULT_TENANT_ID);
+
+    const socket = { user: null, handshake: { auth: {}, headers: { host: 'support.acme.com:443' } } };
+    await new Promise(resolve => socketTenant(services.tenantService)(socket, resolve));
+    assert.equal(socket.tenantId, acme.id);
+});
+
+test('a signed-in user works in their own tenant whatever key or host they send', async () => {
+    const services = await setup();
+    const { authService, acme, globex } = services;
+    await authService.createUser({ email: 'ann@globex.com', password: 'secret123', tenantId: globex.id });
+    const { token } = await authService.login('ann@globex.com', 'secret123');
+    assert.equal(await tenantFor(services, { token, apiKey: acme.apiKeys[0], hostname: 'support.acme.com' }), globex.id);
+
+    const socket = { user: await authService.verifyToken(token), handshake: { auth: { apiKey: acme.apiKeys[0] }, headers: {} } };
+    await new Promise(resolve => socketTenant(services.tenantService)(socket, resolve));
+    assert.equal(socket.tenantId, globex.id);
+});
+
+test('users, conversations and settings of one tenant are invisible to another', async () => {
+    const { authService } = await setup();
+    await authService.createUser({ email: 'ann@acme.com', password: 'pw', tenantId: 'acme' });
+    await authService.createUser({ email: 'bob@globex.com', password: 'pw', tenantId: 'globex' });
+    assert.deepEqual((await authService.listUsers('acme')).map(u => u.email), ['ann@acme.com']);
+    await authService.deleteTenantUsers('acme');
+    assert.deepEqual((await authService.listUsers('acme')), []);
+    assert.equal((await authService.listUsers('globex')).length, 1);
+
+    const conversations = await new ConversationStore({ driver: 'memory' }).init();
+    await conversations.createConversation('c1', null, 'acme');
+    await conversations.startVoiceSession('v1', 'Vic', 'globex');
+    assert.deepEqual((await conversations.listConversations('globex')), []);
+    assert.deepEqual((await conversations.listVoiceSessions('acme')), []);
+    await conversations.clearConversations('globex');
+    assert.equal((await conversations.listConversations('acme')).length, 1);
+
+    const configs = await new ConfigService({ driver: 'memory' }).init();
+    const acmeConfig = await configs.get('acme');
+    acmeConfig.companyName = 'Acme';
+    acmeConfig.coachingPolicies.pop();
+    await configs.save('acme', { action: 'update' });
+    const globexConfig = await configs.get('globex');
+    assert.equal(globexConfig.companyName, 'AgentOS');
+    assert.equal(globexConfig.coachingPolicies.length, acmeConfig.coachingPolicies.length + 1);
+    assert.deepEqual((await configs.listRevisions('acme')).map(r => r.id), ['acme-r2', 'acme-r1']);
+    assert.equal(await configs.getRevision('globex', 'acme-r2'), null);
+    assert.deepEqual(await configs.listRevisions('globex'), []);
+});
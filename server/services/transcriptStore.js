@@ -0,0 +1,200 @@
+import { createRecordStore, resolveDriver } from './storage.js';
+import { tenantOf } from './tenantService.js';
+import { SENTIMENTS } from '../../shared/api.js';
+
+const TRANSCRIPTS_COLLECTION = 'agent_success_transcripts';
+
+// Finished chat and voice transcripts with their AI summaries.
+// transcript = { id, tenantId, type: 'chat' | 'voice', customerInfo, messages? | entries?, transcript?,
+//                summary, sentiment, startTime, endTime, lastUpdated }
+
+export { SENTIMENTS };
+
+// Summaries describe the ending sentiment in free words; fold them into the coaching sentiment scale
+const SENTIMENT_ALIASES = {
+    positive: ['positive', 'satisfied', 'relieved', 'happy', 'accepting', 'grateful', 'pleased'],
+    neutral: ['neutral', 'calm'],
+    negative: ['negative', 'dissatisfied', 'disappointed', 'upset', 'unhappy', 'confused'],
+    frustrated: ['frustrated', 'angry', 'annoyed', 'irate', 'furious']
+};
+
+/** Pull the ending sentiment out of a generated summary ("Ending Sentiment: Satisfied" → "positive"). */
+export function extractSentiment(summary) {
+    const match = (summary || '').match(/Ending Sentiment:\**\s*\[?([A-Za-z]+)/i);
+    if (!match) return null;
+    const word = match[1].toLowerCase();
+    return SENTIMENTS.find(s => SENTIMENT_ALIASES[s].includes(word)) || null;
+}
+
+// Older voice records only carry `timestamp`
+const endedAt = (t) => t.endTime || t.timestamp || t.lastUpdated;
+
+// Firestore deletes and backfills go out in batches of at most this many writes
+const BATCH_SIZE = 500;
+// Marks the Firestore collection as backfilled: every record carries `tenantId` and `endTime`, which list() queries
+const SCHEMA_DOC = '_schema';
+const SCHEMA_VERSION = 2;
+
+const listItem = (t) => ({
+    id: t.id,
+    type: t.type,
+    customerInfo: t.customerInfo || null,
+    sentiment: t.sentiment || extractSentiment(t.summary),
+    hasSummary: !!t.summary,
+    messageCount: (t.messages || t.entries || []).length,
+    startTime: t.startTime || null,
+    endTime: endedAt(t)
+});
+
+const matchesCustomer = (t, customerQuery) => !customerQuery || [t.customerInfo?.name, t.customerInfo?.email]
+    .some(v => (v || '').toLowerCase().includes(customerQuery));
+
+/**
+ * The transcript history only grows, so with Firestore it is never loaded whole: each call reads the records it
+ * needs, and list() runs as a query on tenant, type, sentiment and end time (see firestore.indexes.json). The
+ * file and memory drivers, for development, keep every record in memory and filter there.
+ */
+class TranscriptStore {
+    constructor({ driver, firestore } = {}) {
+        if (resolveDriver(driver, firestore) === 'firestore') {
+            this.firestore = firestore;
+            this.collection = firestore.collection(TRANSCRIPTS_COLLECTION);
+        } else {
+            this.transcripts = createRecordStore({ name: 'transcripts', driver: resolveDriver(driver, firestore) });
+        }
+    }
+
+    async init() {
+        if (this.collection) await this.backfill();
+        else await this.transcripts.init();
+        return this;
+    }
+
+    // Records written before transcripts were queried lack `tenantId` (default tenant) or `endTime`; fill them in once
+    async backfill() {
+        try {
+            const schema = await this.collection.doc(SCHEMA_DOC).get();
+            if (schema.exists && schema.data().version >= SCHEMA_VERSION) return;
+            const snap = await this.collection.select('tenantId', 'endTime', 'timestamp', 'lastUpdated').get();
+            const stale = snap.docs.filter(doc => doc.id !== SCHEMA_DOC && (!doc.get('tenantId') || !doc.get('endTime')));
+            for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+                const batch = this.firestore.batch();
+                stale.slice(i, i + BATCH_SIZE).forEach(doc => batch.update(doc.ref, {
+                    tenantId: tenantOf(doc.data()),
+                    endTime: endedAt(doc.data()) || null
+                }));
+                await batch.commit();
+            }
+            await this.collection.doc(SCHEMA_DOC).set({ version: SCHEMA_VERSION });
+            if (stale.length) console.log(`[Transcripts] Backfilled ${stale.length} transcript(s) for querying`);
+        } catch (e) {
+            console.warn('[Firebase] Could not backfill transcripts:', e.message);
+        }
+    }
+
+    async read(id) {
+        if (!this.collection) return this.transcripts.get(id);
+        const snap = await this.collection.doc(id).get();
+        return snap.exists ? snap.data() : null;
+    }
+
+    /** Create or merge into a transcript — ending a conversation after a summary was generated updates the same record. */
+    async save(id, type, tenantId, data) {
+        const existing = await this.read(id);
+        if (existing && tenantOf(existing) !== tenantId) throw new Error(`Transcript ${id} belongs to another tenant`);
+        const record = { ...(existing || {}), ...data, id, type, tenantId, lastUpdated: new Date().toISOString() };
+        record.sentiment = data.sentiment || extractSentiment(record.summary) || existing?.sentiment || null;
+        record.endTime = endedAt(record);
+        let saved;
+        if (this.collection) {
+            saved = JSON.parse(JSON.stringify(record));
+            await this.collection.doc(id).set(saved);
+        } else {
+            saved = await this.transcripts.put(id, record);
+        }
+        console.log(`[Transcripts] ${type} transcript ${id} saved`);
+        return saved;
+    }
+
+    async get(tenantId, id) {
+        const transcript = await this.read(id);
+        return transcript && tenantOf(transcript) === tenantId ? transcript : null;
+    }
+
+    async deleteTenantTranscripts(tenantId) {
+        if (!this.collection) {
+            for (const transcript of await this.transcripts.list()) {
+                if (tenantOf(transcript) === tenantId) await this.transcripts.remove(transcript.id);
+            }
+            return;
+        }
+        const query = this.collection.where('tenantId', '==', tenantId).select().limit(BATCH_SIZE);
+        for (let snap = await query.get(); !snap.empty; snap = await query.get()) {
+            const batch = this.firestore.batch();
+            snap.docs.forEach(doc => batch.delete(doc.ref));
+            await batch.commit();
+        }
+    }
+
+    /** Whether `id` is taken by another tenant's transcript, so `tenantId` must not save under it. */
+    async belongsToOtherTenant(tenantId, id) {
+        const transcript = await this.read(id);
+        return !!transcript && tenantOf(transcript) !== tenantId;
+    }
+
+    /**
+     * Newest first, filtered by type, date range (ISO dates, inclusive), customer name/email
+     * substring and sentiment. Returns list items without the message bodies.
+     */
+    async list(tenantId, { type, from, to, customer, sentiment, limit = 50, offset = 0 } = {}) {
+        // A bare date for `to` means "through the end of that day"
+        const fromIso = from ? new Date(from).toISOString() : null;
+        const toIso = to ? new Date(to.length === 10 ? `${to}T23:59:59.999Z` : to).toISOString() : null;
+        const customerQuery = (customer || '').trim().toLowerCase();
+        if (this.collection) return this.query(tenantId, { type, fromIso, toIso, customerQuery, sentiment, limit, offset });
+
+        const matches = (await this.transcripts.list())
+            .filter(t => tenantOf(t) === tenantId)
+            .filter(t => !type || t.type === type)
+            .filter(t => {
+                const time = new Date(endedAt(t)).toISOString();
+                return (fromIso === null || time >= fromIso) && (toIso === null || time <= toIso);
+            })
+            .filter(t => matchesCustomer(t, customerQuery))
+            .filter(t => !sentiment || (t.sentiment || extractSentiment(t.summary)) === sentiment.toLowerCase())
+            .sort((a, b) => new Date(endedAt(b)).getTime() - new Date(endedAt(a)).getTime());
+
+        return { total: matches.length, transcripts: matches.slice(offset, offset + limit).map(listItem) };
+    }
+
+    // Firestore side of list(). A page is read with offset and limit and the total is a count aggregation. Firestore
+    // cannot match substrings, so a customer filter pages through the tenant's other matches in batches instead.
+    async query(tenantId, { type, fromIso, toIso, customerQuery, sentiment, limit, offset }) {
+        let query = this.collection.where('tenantId', '==', tenantId);
+        if (type) query = query.where('type', '==', type);
+        if (sentiment) query = query.where('sentiment', '==', sentiment.toLowerCase());
+        if (fromIso) query = query.where('endTime', '>=', fromIso);
+        if (toIso) query = query.where('endTime', '<=', toIso);
+        query = query.orderBy('endTime', 'desc');
+
+        if (!customerQuery) {
+            const [count, page] = await Promise.all([query.count().get(), query.offset(offset).limit(limit).get()]);
+            return { total: count.data().count, transcripts: page.docs.map(doc => listItem(doc.data())) };
+        }
+        const matches = [];
+        let total = 0;
+        for (let last = null; ;) {
+            const snap = await (last ? query.startAfter(last) : query).limit(BATCH_SIZE).get();
+            for (const doc of snap.docs) {
+                if (!matchesCustomer(doc.data(), customerQuery)) continue;
+                if (total >= offset && matches.length < limit) matches.push(listItem(doc.data()));
+                total++;
+            }
+            if (snap.size < BATCH_SIZE) break;
+            last = snap.docs[snap.docs.length - 1];
+        }
+        return { total, transcripts: matches };
+    }
+}
+
+export default TranscriptStore;
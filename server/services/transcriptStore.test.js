@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import TranscriptStore from './transcriptStore.js';
+
+// Just enough of the Firestore Admin SDK for the queries the store runs; every query records what it read
+function fakeFirestore(records = {}) {
+    const data = new Map(Object.entries(records));
+    const reads = [];
+    const snapshot = (id) => ({
+        id,
+        exists: data.has(id),
+        ref: doc(id),
+        data: () => data.get(id),
+        get: (field) => data.get(id)?.[field]
+    });
+    const doc = (id) => ({
+        get: async () => snapshot(id),
+        set: async (value) => { data.set(id, value); },
+        update: async (value) => { data.set(id, { ...data.get(id), ...value }); },
+        delete: async () => { data.delete(id); }
+    });
+    const ops = { '==': (a, b) => a === b, '>=': (a, b) => a >= b, '<=': (a, b) => a <= b };
+    const query = ({ filters = [], order = null, skip = 0, take = Infinity, after = null } = {}) => {
+        const next = (changes) => query({ filters, order, skip, take, after, ...changes });
+        const run = () => {
+            let ids = [...data.keys()].filter(id => filters.every(([field, op, value]) => ops[op](data.get(id)[field], value)));
+            if (order) ids.sort((a, b) => (order[1] === 'desc' ? -1 : 1) * String(data.get(a)[order[0]]).localeCompare(String(data.get(b)[order[0]])));
+            if (after) ids = ids.slice(ids.indexOf(after.id) + 1);
+            return ids;
+        };
+        return {
+            where: (field, op, value) => next({ filters: [...filters, [field, op, value]] }),
+            orderBy: (field, dir = 'asc') => next({ order: [field, dir] }),
+            offset: (n) => next({ skip: n }),
+            limit: (n) => next({ take: n }),
+            startAfter: (last) => next({ after: last }),
+            select: () => next({}),
+            count: () => ({ get: async () => ({ data: () => ({ count: run().length }) }) }),
+            get: async () => {
+                const docs = run().slice(skip, skip + take).map(snapshot);
+                reads.push(docs.length);
+                return { docs, empty: docs.length === 0, size: docs.length };
+            }
+        };
+    };
+    const collection = { ...query(), doc };
+    return {
+        data,
+        reads,
+        collection: () => collection,
+        batch: () => {
+            const writes = [];
+            return {
+                update: (ref, value) => writes.push(() => ref.update(value)),
+                delete: (ref) => writes.push(() => ref.delete()),
+                commit: async () => { for (const write of writes) await write(); }
+            };
+        }
+    };
+}
+
+const seed = async (store) => {
+    await store.save('a', 'chat', 'acme', { messages: [{}, {}], customerInfo: { name: 'Ann' }, endTime: '2026-01-02T10:00:00.000Z', summary: 'Ending Sentiment: Satisfied' });
+    await store.save('b', 'voice', 'acme', { entries: [{}], customerInfo: { name: 'Bob' }, timestamp: '2026-01-05T10:00:00.000Z' });
+    await store.save('c', 'chat', 'acme', { customerInfo: { name: 'Bobby', email: 'bobby@example.com' }, endTime: '2026-01-07T10:00:00.000Z' });
+    await store.save('d', 'chat', 'other', { customerInfo: { name: 'Bob' }, endTime: '2026-01-03T10:00:00.000Z' });
+};
+
+for (const driver of ['memory', 'firestore']) {
+    const create = () => new TranscriptStore(driver === 'firestore' ? { driver, firestore: fakeFirestore() } : { driver }).init();
+
+    test(`${driver}: lists a tenant's transcripts newest first with filters and paging`, async () => {
+        const store = await create();
+        await seed(store);
+        assert.deepEqual((await store.list('acme')).transcripts.map(t => t.id), ['c', 'b', 'a']);
+        assert.deepEqual((await store.list('acme', { type: 'chat' })).transcripts.map(t => t.id), ['c', 'a']);
+        assert.deepEqual((await store.list('acme', { from: '2026-01-03', to: '2026-01-05' })).transcripts.map(t => t.id), ['b']);
+        assert.deepEqual((await store.list('acme', { sentiment: 'positive' })).transcripts.map(t => t.id), ['a']);
+        const page = await store.list('acme', { limit: 1, offset: 1 });
+        assert.equal(page.total, 3);
+        assert.deepEqual(page.transcripts.map(t => t.id), ['b']);
+        const customers = await store.list('acme', { customer: 'BOB', limit: 1 });
+        assert.equal(customers.total, 2);
+        assert.deepEqual(customers.transcripts.map(t => t.id), ['c']);
+    });
+
+    test(`${driver}: keeps tenants apart`, async () => {
+        const store = await create();
+        await seed(store);
+        assert.equal(await store.get('acme', 'd'), null);
+        assert.equal(await store.belongsToOtherTenant('acme', 'd'), true);
+        await assert.rejects(store.save('d', 'chat', 'acme', {}), /another tenant/);
+        await store.deleteTenantTranscripts('acme');
+        assert.equal((await store.list('acme')).total, 0);
+        assert.equal((await store.list('other')).total, 1);
+    });
+}
+
+test('firestore: backfills records written before tenants and end times were stored, once', async () => {
+    const firestore = fakeFirestore({
+        old: { id: 'old', type: 'voice', timestamp: '2025-12-01T10:00:00.000Z' },
+        mine: { id: 'mine', type: 'chat', tenantId: 'acme', endTime: '2025-12-02T10:00:00.000Z' }
+    });
+    const store = await new TranscriptStore({ driver: 'firestore', firestore }).init();
+    assert.deepEqual((await store.list('default')).transcripts.map(t => t.id), ['old']);
+    firestore.data.set('late', { id: 'late', type: 'chat' });
+    await new TranscriptStore({ driver: 'firestore', firestore }).init();
+    assert.equal(firestore.data.get('late').tenantId, undefined);
+});
+
+test('firestore: a page reads only its own records', async () => {
+    const firestore = fakeFirestore();
+    const store = await new TranscriptStore({ driver: 'firestore', firestore }).init();
+    for (let i = 0; i < 30; i++) await store.save(`t${i}`, 'chat', 'acme', { endTime: `2026-01-${String(i + 1).padStart(2, '0')}T00:00:00.000Z` });
+    firestore.reads.length = 0;
+    const { total, transcripts } = await store.list('acme', { limit: 5, offset: 10 });
+    assert.equal(total, 30);
+    assert.equal(transcripts[0].id, 't19');
+    assert.deepEqual(firestore.reads, [5]);
+});
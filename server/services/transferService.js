@@ -0,0 +1,157 @@
+import { tenantOf } from './tenantService.js';
+import { TRANSFER_MODES } from '../../shared/protocol.js';
+
+// Conversation kinds and transfer modes are part of the shared socket protocol.
+// warm: the receiving agent accepts (or declines) first; cold: ownership moves immediately
+export { CONVERSATION_KINDS, TRANSFER_MODES } from '../../shared/protocol.js';
+
+// A warm transfer nobody answers lapses and the conversation stays with the sending agent
+export const TRANSFER_TIMEOUT_MS = 2 * 60 * 1000;
+
+const staff = (user) => ({ id: user.id, name: user.name, email: user.email });
+const clockTime = () => new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// Hands live chats and calls from one staff member to another, and carries supervisor whispers.
+// Both kinds of conversation are addressed as { kind: 'chat' | 'voice', id }:
+//   chat  → conversation record, owned by conv.assignedAgent while it is 'active'
+//   voice → voice session record, owned by session.agent
+// Completed handoffs are appended to record.handoffs = [{ id, mode: 'warm' | 'cold' | 'takeover', from, to, note, createdAt }]
+// and whispers to record.whispers = [{ id, from, text, time }]; neither is ever shown to the customer.
+// Pending warm transfers only live in memory — a restart simply drops them.
+class TransferService {
+    constructor({ conversationStore, routing }) {
+        this.conversationStore = conversationStore;
+        this.routing = routing;
+        this.pending = new Map(); // transferId → { id, tenantId, kind, targetId, mode, from, to, note, createdAt, timer }
+    }
+
+    async find(tenantId, kind, id) {
+        const record = kind === 'chat' ? await this.conversationStore.getConversation(id)
+            : kind === 'voice' ? await this.conversationStore.getVoiceSession(id)
+                : null;
+        return record && tenantOf(record) === tenantId ? record : null;
+    }
+
+    owner(kind, record) {
+        if (kind === 'voice') return record.agent || null;
+        return record.status === 'active' ? record.assignedAgent : null;
+    }
+
+    pendingFor(kind, targetId) {
+        return [...this.pending.values()].find(t => t.kind === kind && t.targetId === targetId) || null;
+    }
+
+    /**
+     * Start a transfer from the current owner to another staff member.
+     * Cold transfers complete at once and return the updated record; warm ones wait for
+     * accept()/settle() and call `onExpired(transfer)` if neither happens in time.
+     */
+    async request(tenantId, { kind, id, from, to, mode, note }, onExpired) {
+        if (!TRANSFER_MODES.includes(mode)) return { error: `Transfer mode must be one of: ${TRANSFER_MODES.join(', ')}` };
+        const record = await this.find(tenantId, kind, id);
+        if (!record) return { error: 'Conversation not found' };
+        if (this.owner(kind, record)?.id !== from.id) return { error: 'Only the agent handling this conversation can transfer it' };
+        if (!to || to.id === from.id) return { error: 'Choose another agent to transfer to' };
+        if (this.pendingFor(kind, id)) return { error: 'A transfer is already waiting for an answer' };
+
+        const transfer = {
+            id: `tr-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            tenantId,
+            kind,
+            targetId: id,
+            mode,
+            from: staff(from),
+            to: staff(to),
+            note: String(note || '').trim(),
+            createdAt: new Date().toISOString()
+        };
+        if (mode === 'cold') return { transfer, record: await this.complete(transfer) };
+
+        transfer.timer = setTimeout(() => {
+            this.pending.delete(transfer.id);
+            onExpired(transfer);
+        }, TRANSFER_TIMEOUT_MS);
+        this.pending.set(transfer.id, transfer);
+        return { transfer };
+    }
+
+    /** Receiving agent takes a warm transfer. Fails if the sender no longer holds the conversation. */
+    async accept(transferId, user) {
+        const transfer = this.pending.get(transferId);
+        if (!transfer || transfer.to.id !== user.id) return { error: 'This transfer is no longer available' };
+        this.clear(transfer);
+        const record = await this.find(transfer.tenantId, transfer.kind, transfer.targetId);
+        if (!record || this.owner(transfer.kind, record)?.id !== transfer.from.id) {
+            return { transfer, error: 'The conversation has ended or moved to someone else' };
+        }
+        return { transfer, record: await this.complete(transfer) };
+    }
+
+    /** Receiving agent turns a warm transfer down, or the sender withdraws it. */
+    settle(transferId, user) {
+        const transfer = this.pending.get(transferId);
+        if (!transfer || (transfer.to.id !== user.id && transfer.from.id !== user.id)) return null;
+        this.clear(transfer);
+        return transfer;
+    }
+
+    /** Drop any warm transfer for a conversation that just ended or changed hands. */
+    cancelFor(kind, targetId) {
+        const transfer = this.pendingFor(kind, targetId);
+        if (transfer) this.clear(transfer);
+        return transfer;
+    }
+
+    clear(transfer) {
+        clearTimeout(transfer.timer);
+        this.pending.delete(transfer.id);
+    }
+
+    /** Supervisor barge-in: they become the owner straight away, whoever held the conversation before. */
+    async takeOver(tenantId, kind, id, supervisor) {
+        const record = await this.find(tenantId, kind, id);
+        if (!record) return { error: 'Conversation not found' };
+        const from = this.owner(kind, record);
+        if (from?.id === supervisor.id) return { error: 'You are already handling this conversation' };
+        const transfer = {
+            id: `tr-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            tenantId,
+            kind,
+            targetId: id,
+            mode: 'takeover',
+            from: from ? staff(from) : null,
+            to: staff(supervisor),
+            note: '',
+            createdAt: new Date().toISOString()
+        };
+        return { transfer, record: await this.complete(transfer) };
+    }
+
+    // Move ownership and keep the handoff (with its note) on the record for the new owner
+    async complete(transfer) {
+        const { kind, targetId, id, mode, from, to, note, createdAt } = transfer;
+        const handoff = { id, mode, from, to, note, createdAt };
+        if (kind === 'chat') {
+            const conv = await this.routing.assign(targetId, to);
+            return this.conversationStore.updateConversation(targetId, { handoffs: [...(conv.handoffs || []), handoff] });
+        }
+        const session = await this.conversationStore.getVoiceSession(targetId);
+        return this.conversationStore.updateVoiceSession(targetId, { agent: to, handoffs: [...(session.handoffs || []), handoff] });
+    }
+
+    /**
+     * Supervisor note to whoever is handling the conversation; the customer never receives it.
+     * Returns { whisper, owner } so the caller can deliver it, or null.
+     */
+    async whisper(tenantId, kind, id, from, text) {
+        const record = await this.find(tenantId, kind, id);
+        if (!record || typeof text !== 'string' || !text.trim()) return null;
+        const whisper = { id: Date.now().toString(), from: staff(from), text: text.trim(), time: clockTime() };
+        const whispers = [...(record.whispers || []), whisper];
+        if (kind === 'chat') await this.conversationStore.updateConversation(id, { whispers });
+        else await this.conversationStore.updateVoiceSession(id, { whispers });
+        return { whisper, owner: this.owner(kind, record) };
+    }
+}
+
+export default TransferService;
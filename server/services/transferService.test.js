@@ -0,0 +1,94 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import ConversationStore from './conversationStore.js';
+import RoutingService from './routingService.js';
+import TransferService, { TRANSFER_TIMEOUT_MS } from './transferService.js';
+
+const ann = { id: 'ann', name: 'Ann', email: 'ann@example.com' };
+const bob = { id: 'bob', name: 'Bob', email: 'bob@example.com' };
+const sue = { id: 'sue', name: 'Sue', email: 'sue@example.com' };
+
+// A chat handled by Ann and a call handled by Ann, both of tenant acme
+async function setup() {
+    const conversationStore = await new ConversationStore({ driver: 'memory' }).init();
+    const routing = new RoutingService({ conversationStore });
+    await conversationStore.createConversation('c1', { name: 'Carl' }, 'acme');
+    await routing.assign('c1', ann);
+    await conversationStore.startVoiceSession('v1', 'Vic', 'acme', ann);
+    return { conversationStore, transfers: new TransferService({ conversationStore, routing }) };
+}
+
+test('a cold transfer moves the chat at once and keeps the note for the new agent', async () => {
+    const { transfers } = await setup();
+    const { transfer, record } = await transfers.request('acme', { kind: 'chat', id: 'c1', from: ann, to: bob, mode: 'cold', note: ' Wants a refund ' });
+    assert.equal(record.assignedAgent.id, 'bob');
+    assert.equal(record.status, 'active');
+    assert.deepEqual(record.handoffs.map(h => [h.mode, h.from.id, h.to.id, h.note]), [['cold', 'ann', 'bob', 'Wants a refund']]);
+    assert.equal(transfer.id, record.handoffs[0].id);
+    assert.equal(transfers.pendingFor('chat', 'c1'), null);
+});
+
+test('a warm transfer waits for the receiving agent, who may accept it', async () => {
+    const { transfers, conversationStore } = await setup();
+    const { transfer } = await transfers.request('acme', { kind: 'voice', id: 'v1', from: ann, to: bob, mode: 'warm' }, () => { });
+    assert.equal((await conversationStore.getVoiceSession('v1')).agent.id, 'ann');
+    assert.equal((await transfers.request('acme', { kind: 'voice', id: 'v1', from: ann, to: sue, mode: 'warm' })).error,
+        'A transfer is already waiting for an answer');
+    assert.equal((await transfers.accept(transfer.id, sue)).error, 'This transfer is no longer available');
+    const { record } = await transfers.accept(transfer.id, bob);
+    assert.equal(record.agent.id, 'bob');
+    assert.equal(record.handoffs[0].mode, 'warm');
+    assert.equal(transfers.pendingFor('voice', 'v1'), null);
+});
+
+test('a warm transfer can be declined or withdrawn, and lapses when nobody answers', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    try {
+        const { transfers, conversationStore } = await setup();
+        const first = (await transfers.request('acme', { kind: 'chat', id: 'c1', from: ann, to: bob, mode: 'warm' }, () => { })).transfer;
+        assert.equal(transfers.settle(first.id, sue), null);
+        assert.equal(transfers.settle(first.id, bob).id, first.id);
+
+        const second = (await transfers.request('acme', { kind: 'chat', id: 'c1', from: ann, to: bob, mode: 'warm' }, () => { })).transfer;
+        assert.equal(transfers.settle(second.id, ann).id, second.id);
+
+        const expired = [];
+        await transfers.request('acme', { kind: 'chat', id: 'c1', from: ann, to: bob, mode: 'warm' }, transfer => expired.push(transfer.to.id));
+        mock.timers.tick(TRANSFER_TIMEOUT_MS);
+        assert.deepEqual(expired, ['bob']);
+        assert.equal(transfers.pendingFor('chat', 'c1'), null);
+        assert.equal((await conversationStore.getConversation('c1')).assignedAgent.id, 'ann');
+    } finally {
+        mock.timers.reset();
+    }
+});
+
+test('accepting fails once the sender no longer holds the conversation', async () => {
+    const { transfers, conversationStore } = await setup();
+    const { transfer } = await transfers.request('acme', { kind: 'chat', id: 'c1', from: ann, to: bob, mode: 'warm' }, () => { });
+    await conversationStore.updateConversation('c1', { assignedAgent: { id: 'sue', name: 'Sue' } });
+    assert.equal((await transfers.accept(transfer.id, bob)).error, 'The conversation has ended or moved to someone else');
+});
+
+test('only the handling agent transfers, to someone else, within the tenant', async () => {
+    const { transfers } = await setup();
+    const request = (changes) => transfers.request('acme', { kind: 'chat', id: 'c1', from: ann, to: bob, mode: 'cold', ...changes });
+    assert.equal((await request({ from: bob, to: sue })).error, 'Only the agent handling this conversation can transfer it');
+    assert.equal((await request({ to: ann })).error, 'Choose another agent to transfer to');
+    assert.equal((await request({ mode: 'hot' })).error, 'Transfer mode must be one of: warm, cold');
+    assert.equal((await transfers.request('other', { kind: 'chat', id: 'c1', from: ann, to: bob, mode: 'cold' })).error, 'Conversation not found');
+});
+
+test('a supervisor takes over from whoever holds it and whispers reach only the record', async () => {
+    const { transfers } = await setup();
+    const { record } = await transfers.takeOver('acme', 'chat', 'c1', sue);
+    assert.equal(record.assignedAgent.id, 'sue');
+    assert.deepEqual(record.handoffs.map(h => [h.mode, h.from.id]), [['takeover', 'ann']]);
+    assert.equal((await transfers.takeOver('acme', 'chat', 'c1', sue)).error, 'You are already handling this conversation');
+
+    const { whisper, owner } = await transfers.whisper('acme', 'voice', 'v1', sue, ' Offer the discount ');
+    assert.equal(whisper.text, 'Offer the discount');
+    assert.equal(owner.id, 'ann');
+    assert.equal(await transfers.whisper('acme', 'voice', 'v1', sue, '   '), null);
+    assert.equal(await transfers.whisper('other', 'voice', 'v1', sue, 'Hi'), null);
+});
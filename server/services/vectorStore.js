@@ -0,0 +1,323 @@
+import fs from 'fs';
+import path from 'path';
+import { HnswIndex } from './hnswIndex.js';
+
+// Knowledge chunks and their embeddings, behind one interface with two drivers:
+//   json — everything in one pretty-printed file, rewritten on each change and scanned on each query. For development.
+//   hnsw — an append-only log on disk plus an in-memory HNSW graph per embedding model; the default.
+// chunk = { id, docId, docName, chunkIndex, headings, text, embedding, embeddingModel }
+
+export const VECTOR_DRIVERS = ['hnsw', 'json'];
+export const VECTOR_DB_PATH = path.resolve('server/vector-db.json');
+// Chunks indexed before providers were pluggable carry no embeddingModel; they were all embedded by Gemini
+export const LEGACY_EMBEDDING_MODEL = 'gemini:gemini-embedding-001';
+
+export const modelOf = (chunk) => chunk.embeddingModel || LEGACY_EMBEDDING_MODEL;
+const chunkId = (chunk) => chunk.id || `${chunk.docId}:${chunk.chunkIndex}`;
+
+// Below this many matching chunks a filtered query compares them all instead of walking the graph
+const EXACT_SCAN_LIMIT = 2000;
+// Chunks added to a graph between two yields to the event loop while it is built
+const GRAPH_BUILD_BATCH = 200;
+
+function similarity(a, b) {
+    let dotProduct = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dotProduct += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Every driver keeps documents and chunks in memory; drivers differ in how they persist and search them
+class VectorStore {
+    constructor() {
+        this.documents = new Map();
+        this.chunksById = new Map();
+        this.chunksByDoc = new Map();
+    }
+
+    get size() {
+        return this.chunksById.size;
+    }
+
+    listDocuments() {
+        return [...this.documents.values()];
+    }
+
+    getDocument(docId) {
+        return this.documents.get(docId) || null;
+    }
+
+    /** Ids of every document that has an entry or chunks in the store. */
+    documentIds() {
+        return new Set([...this.documents.keys(), ...this.chunksByDoc.keys()]);
+    }
+
+    hasChunks(docId) {
+        return this.chunksByDoc.has(docId);
+    }
+
+    chunks() {
+        return [...this.chunksById.values()];
+    }
+
+    getChunk(id) {
+        return this.chunksById.get(id) || null;
+    }
+
+    /** Replace a document and all of its chunks. */
+    putDocument(doc, chunks) {
+        this.apply({ op: 'put', doc, chunks: chunks.map(chunk => ({ ...chunk, id: chunkId(chunk) })) });
+        this.persist({ op: 'put', doc, chunks: this.chunksByDoc.get(doc.id) || [] });
+    }
+
+    /** Remove a document and every chunk indexed from it → whether anything was removed. */
+    removeDocument(docId) {
+        if (!this.documents.has(docId) && !this.chunksByDoc.has(docId)) return false;
+        this.apply({ op: 'remove', docId });
+        this.persist({ op: 'remove', docId });
+        return true;
+    }
+
+    // Change the in-memory copy; the same entries replay the hnsw log on load
+    apply(entry) {
+        const docId = entry.op === 'put' ? entry.doc.id : entry.docId;
+        for (const chunk of this.chunksByDoc.get(docId) || []) {
+            this.chunksById.delete(chunk.id);
+            this.unindex(chunk);
+        }
+        this.chunksByDoc.delete(docId);
+        this.documents.delete(docId);
+        if (entry.op !== 'put') return;
+        this.documents.set(docId, entry.doc);
+        if (entry.chunks.length) this.chunksByDoc.set(docId, entry.chunks);
+        for (const chunk of entry.chunks) {
+            this.chunksById.set(chunk.id, chunk);
+            this.index(chunk);
+        }
+    }
+
+    /**
+     * The `k` chunks embedded with `embeddingModel` most similar to `vector` → [{ chunk, similarity }], best first.
+     * `filter(chunk)` limits the candidates to some documents: it must give every chunk of a document the same answer.
+     */
+    query(vector, { k = 10, embeddingModel, filter } = {}) {
+        return this.scan(vector, k, chunk => modelOf(chunk) === embeddingModel && (!filter || filter(chunk)));
+    }
+
+    // Exact search: compare the query with every accepted chunk of `chunks`
+    scan(vector, k, accept, chunks = this.chunksById.values()) {
+        const results = [];
+        for (const chunk of chunks) {
+            if (!accept(chunk) || !chunk.embedding?.length) continue;
+            const score = similarity(vector, chunk.embedding);
+            if (score > 0) results.push({ chunk, similarity: score });
+        }
+        return results.sort((a, b) => b.similarity - a.similarity).slice(0, k);
+    }
+
+    // Driver hooks
+    index() { }
+    unindex() { }
+    persist() { }
+}
+
+/** The original store: one JSON file ({ documents, chunks }) rewritten on every change. */
+class JsonVectorStore extends VectorStore {
+    constructor(filePath) {
+        super();
+        this.filePath = filePath;
+        this.load();
+    }
+
+    load() {
+        if (!fs.existsSync(this.filePath)) return;
+        try {
+            const { documents = [], chunks = [] } = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+            const byDoc = new Map();
+            for (const chunk of chunks) byDoc.set(chunk.docId, [...(byDoc.get(chunk.docId) || []), { ...chunk, id: chunkId(chunk) }]);
+            for (const doc of documents) this.apply({ op: 'put', doc, chunks: byDoc.get(doc.id) || [] });
+            // Chunks whose document entry is missing stay visible, so a reconcile can purge them
+            for (const [docId, docChunks] of byDoc) {
+                if (this.documents.has(docId)) continue;
+                this.chunksByDoc.set(docId, docChunks);
+                for (const chunk of docChunks) this.chunksById.set(chunk.id, chunk);
+            }
+        } catch (e) {
+            console.error('[Knowledge] Error loading Vector DB:', e);
+        }
+    }
+
+    persist() {
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            const data = { documents: this.listDocuments(), chunks: this.chunks() };
+            fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+        } catch (e) {
+            console.error('[Knowledge] Failed to save Vector DB:', e);
+        }
+    }
+}
+
+/**
+ * Chunks are persisted as an append-only log (`chunks.jsonl`, one put or remove per line), so a change
+ * writes only that document. The log is compacted once removed entries outweigh live ones. Each embedding
+ * model gets its own HNSW graph, built from the log in the background after startup; until a model's graph
+ * is ready its queries compare every chunk.
+ */
+class HnswVectorStore extends VectorStore {
+    constructor(dir, { importFrom, exactScanLimit = EXACT_SCAN_LIMIT } = {}) {
+        super();
+        this.logPath = path.join(dir, 'chunks.jsonl');
+        this.exactScanLimit = exactScanLimit;
+        this.graphs = new Map();
+        this.building = new Set();
+        this.liveEntries = 0;
+        this.logEntries = 0;
+        this.loading = true;
+        this.load(importFrom);
+        this.loading = false;
+        for (const model of new Set(this.chunks().map(modelOf))) this.buildGraph(model);
+    }
+
+    load(importFrom) {
+        if (!fs.existsSync(this.logPath)) {
+            if (importFrom && fs.existsSync(importFrom)) this.importJson(importFrom);
+            return;
+        }
+        const lines = fs.readFileSync(this.logPath, 'utf-8').split('\n');
+        let torn = false;
+        for (const [i, line] of lines.entries()) {
+            if (!line.trim()) continue;
+            try {
+                this.apply(JSON.parse(line));
+                this.logEntries++;
+            } catch {
+                // A crash mid-append leaves a torn last line; the entries before it are intact
+                console.warn(`[Knowledge] Skipping unreadable line ${i + 1} of ${this.logPath}`);
+                torn = true;
+            }
+        }
+        this.liveEntries = this.documents.size;
+        // Rewrite the log so the next append does not land on the end of the torn line
+        if (torn) this.compact();
+        console.log(`[Knowledge] Loaded ${this.documents.size} documents (${this.size} chunks) from ${this.logPath}`);
+    }
+
+    // One-time move from the json driver's file; documents without an entry there are left out
+    importJson(filePath) {
+        const legacy = new JsonVectorStore(filePath);
+        for (const doc of legacy.listDocuments()) {
+            const chunks = legacy.chunksByDoc.get(doc.id) || [];
+            this.apply({ op: 'put', doc, chunks });
+        }
+        this.compact();
+        console.log(`[Knowledge] Imported ${this.documents.size} documents (${this.size} chunks) from ${filePath}`);
+    }
+
+    index(chunk) {
+        if (this.loading || !chunk.embedding?.length) return;
+        const model = modelOf(chunk);
+        if (this.graphs.has(model)) this.graphs.get(model).add(chunk.id, chunk.embedding);
+        else this.buildGraph(model);
+    }
+
+    unindex(chunk) {
+        const graph = this.graphs.get(modelOf(chunk));
+        if (graph?.remove(chunk.id) && graph.needsRebuild) this.buildGraph(modelOf(chunk));
+    }
+
+    /**
+     * Build a fresh graph of a model's chunks and swap it in, yielding to the event loop between batches so
+     * a large store does not hold up requests. Chunks put or removed meanwhile are caught up before the swap;
+     * the previous graph, if any, keeps serving queries until then.
+     */
+    async buildGraph(model) {
+        if (this.building.has(model)) return;
+        this.building.add(model);
+        try {
+            const graph = new HnswIndex();
+            const added = new Map();
+            const behind = () => this.chunks().filter(chunk => modelOf(chunk) === model && chunk.embedding?.length && added.get(chunk.id) !== chunk);
+            for (let batch = behind(); batch.length; batch = behind()) {
+                for (const chunk of batch.slice(0, GRAPH_BUILD_BATCH)) {
+                    graph.add(chunk.id, chunk.embedding);
+                    added.set(chunk.id, chunk);
+                }
+                await new Promise(resolve => setImmediate(resolve));
+            }
+            for (const id of added.keys()) if (!this.chunksById.has(id)) graph.remove(id);
+            this.graphs.set(model, graph);
+        } catch (e) {
+            console.error(`[Knowledge] Could not build the vector index for ${model}:`, e.message);
+        } finally {
+            this.building.delete(model);
+        }
+    }
+
+    query(vector, { k = 10, embeddingModel, filter } = {}) {
+        const graph = this.graphs.get(embeddingModel);
+        if (!graph) return super.query(vector, { k, embeddingModel, filter });
+        if (!filter) return this.resolve(graph.search(vector, k));
+        // A narrow filter leaves few chunks to compare, and graph walks cut through mostly rejected nodes. Filters
+        // decide per document, so sizing one tests a chunk per document instead of every chunk.
+        const matching = [...this.chunksByDoc.values()].filter(chunks => modelOf(chunks[0]) === embeddingModel && filter(chunks[0]));
+        if (matching.reduce((count, chunks) => count + chunks.length, 0) <= this.exactScanLimit) {
+            return this.scan(vector, k, chunk => modelOf(chunk) === embeddingModel, matching.flat());
+        }
+        return this.resolve(graph.search(vector, k, { accept: id => filter(this.chunksById.get(id)) }));
+    }
+
+    resolve(hits) {
+        return hits.map(({ id, similarity }) => ({ chunk: this.chunksById.get(id), similarity })).filter(hit => hit.chunk);
+    }
+
+    persist(entry) {
+        try {
+            fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+            fs.appendFileSync(this.logPath, `${JSON.stringify(entry)}\n`);
+            this.logEntries++;
+            this.liveEntries = this.documents.size;
+            if (this.logEntries > 50 && this.logEntries > this.liveEntries * 2) this.compact();
+        } catch (e) {
+            console.error(`[Knowledge] Could not write ${this.logPath}:`, e.message);
+        }
+    }
+
+    // Rewrite the log with one put per live document
+    compact() {
+        try {
+            fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+            const tmpPath = `${this.logPath}.tmp`;
+            const lines = this.listDocuments().map(doc => JSON.stringify({ op: 'put', doc, chunks: this.chunksByDoc.get(doc.id) || [] }));
+            fs.writeFileSync(tmpPath, lines.map(line => `${line}\n`).join(''));
+            fs.renameSync(tmpPath, this.logPath);
+            this.logEntries = this.liveEntries = lines.length;
+        } catch (e) {
+            console.error(`[Knowledge] Could not compact ${this.logPath}:`, e.message);
+        }
+    }
+}
+
+/** Resolve which driver to use: an explicit setting wins, otherwise hnsw. */
+export function resolveVectorDriver(setting) {
+    const driver = (setting || '').toLowerCase();
+    if (VECTOR_DRIVERS.includes(driver)) return driver;
+    if (driver) console.warn(`[Knowledge] Unknown vector store "${setting}". Expected one of: ${VECTOR_DRIVERS.join(', ')}.`);
+    return 'hnsw';
+}
+
+/**
+ * Create a tenant's vector store.
+ * @param {{ driver: 'hnsw' | 'json', jsonPath: string, indexDir: string, exactScanLimit?: number }} options  the json
+ *        driver keeps `jsonPath`; the hnsw driver keeps `indexDir`, imports `jsonPath` the first time it starts, and
+ *        compares every chunk of a filtered query matching at most `exactScanLimit` chunks instead of walking its graph
+ */
+export function createVectorStore({ driver, jsonPath, indexDir, exactScanLimit }) {
+    return driver === 'json'
+        ? new JsonVectorStore(jsonPath)
+        : new HnswVectorStore(indexDir, { importFrom: jsonPath, exactScanLimit });
+}
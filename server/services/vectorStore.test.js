@@ -0,0 +1,143 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createVectorStore } from './vectorStore.js';
+
+const MODEL = 'mock:embedding';
+
+// Documents of `size` chunks whose embeddings point in seeded, spread-out directions
+function corpus(docs, size, dimensions = 8) {
+    let seed = 42;
+    const next = () => {
+        seed = (seed * 1664525 + 1013904223) % 4294967296;
+        return seed / 4294967296 * 2 - 1;
+    };
+    return Array.from({ length: docs }, (_, d) => ({
+        doc: { id: `doc${d}`, name: `Doc ${d}` },
+        chunks: Array.from({ length: size }, (_, c) => ({
+            docId: `doc${d}`, docName: `Doc ${d}`, chunkIndex: c, text: `chunk ${c} of doc ${d}`,
+            embedding: Array.from({ length: dimensions }, next), embeddingModel: MODEL
+        }))
+    }));
+}
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-'));
+
+// The hnsw driver builds its graphs in the background after startup
+async function ready(store) {
+    while (!store.graphs.has(MODEL)) await new Promise(resolve => setImmediate(resolve));
+    return store;
+}
+
+const exact = (docs, vector, k, accept = () => true) => {
+    const cosine = (a, b) => {
+        let dot = 0, na = 0, nb = 0;
+        for (let i = 0; i < a.length; i++) { dot += a[i] * b[i]; na += a[i] * a[i]; nb += b[i] * b[i]; }
+        return dot / Math.sqrt(na * nb);
+    };
+    return docs.flatMap(({ chunks }) => chunks)
+        .filter(accept)
+        .map(chunk => ({ id: `${chunk.docId}:${chunk.chunkIndex}`, similarity: cosine(vector, chunk.embedding) }))
+        .filter(hit => hit.similarity > 0)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, k)
+        .map(hit => hit.id);
+};
+
+test('hnsw: chunks survive a restart and are searchable again', async () => {
+    const dir = tempDir();
+    const docs = corpus(20, 10);
+    const store = createVectorStore({ driver: 'hnsw', indexDir: dir });
+    for (const { doc, chunks } of docs) store.putDocument(doc, chunks);
+    store.removeDocument('doc3');
+
+    const reopened = await ready(createVectorStore({ driver: 'hnsw', indexDir: dir }));
+    assert.equal(reopened.size, 190);
+    assert.equal(reopened.getDocument('doc3'), null);
+    assert.deepEqual(reopened.getChunk('doc5:2').embedding, docs[5].chunks[2].embedding);
+    const query = docs[7].chunks[4].embedding;
+    assert.equal(reopened.query(query, { k: 1, embeddingModel: MODEL })[0].chunk.id, 'doc7:4');
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('hnsw: a torn last line of the log loses only that entry', async () => {
+    const dir = tempDir();
+    const store = createVectorStore({ driver: 'hnsw', indexDir: dir });
+    for (const { doc, chunks } of corpus(3, 2)) store.putDocument(doc, chunks);
+    fs.appendFileSync(path.join(dir, 'chunks.jsonl'), '{"op":"put","doc":{"id":"half');
+    const reopened = createVectorStore({ driver: 'hnsw', indexDir: dir });
+    assert.equal(reopened.listDocuments().length, 3);
+    reopened.putDocument({ id: 'doc9' }, []);
+    assert.equal(createVectorStore({ driver: 'hnsw', indexDir: dir }).listDocuments().length, 4);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('hnsw: a narrow filter compares only the chunks of matching documents', async () => {
+    const dir = tempDir();
+    const docs = corpus(50, 10);
+    const store = createVectorStore({ driver: 'hnsw', indexDir: dir });
+    for (const { doc, chunks } of docs) store.putDocument(doc, chunks);
+    await ready(store);
+    const wanted = (chunk) => chunk.docId === 'doc1' || chunk.docId === 'doc2';
+    let calls = 0;
+    const filter = (chunk) => { calls++; return wanted(chunk); };
+    const query = docs[30].chunks[0].embedding;
+    const hits = store.query(query, { k: 5, embeddingModel: MODEL, filter });
+    assert.deepEqual(hits.map(hit => hit.chunk.id), exact(docs, query, 5, wanted));
+    // One test per document, never one per chunk
+    assert.equal(calls, docs.length);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('hnsw: a broad filter is applied during the graph walk', async () => {
+    const dir = tempDir();
+    const docs = corpus(100, 10);
+    const store = createVectorStore({ driver: 'hnsw', indexDir: dir, exactScanLimit: 50 });
+    for (const { doc, chunks } of docs) store.putDocument(doc, chunks);
+    await ready(store);
+    const filter = (chunk) => Number(chunk.docId.slice(3)) % 2 === 0;
+    let found = 0;
+    for (const { chunks } of docs.slice(0, 10)) {
+        const query = chunks[0].embedding;
+        const hits = store.query(query, { k: 10, embeddingModel: MODEL, filter });
+        assert.ok(hits.every(hit => filter(hit.chunk)));
+        const expected = new Set(exact(docs, query, 10, filter));
+        found += hits.filter(hit => expected.has(hit.chunk.id)).length;
+    }
+    assert.ok(found / 100 >= 0.9);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('hnsw: removed and replaced chunks never show up in results', async () => {
+    const dir = tempDir();
+    const docs = corpus(30, 10);
+    const store = createVectorStore({ driver: 'hnsw', indexDir: dir });
+    for (const { doc, chunks } of docs) store.putDocument(doc, chunks);
+    await ready(store);
+    for (let d = 0; d < 20; d++) store.removeDocument(`doc${d}`);
+    store.putDocument(docs[25].doc, docs[25].chunks.slice(0, 1));
+    for (const { chunks } of docs) {
+        const hits = store.query(chunks[1].embedding, { k: 10, embeddingModel: MODEL });
+        assert.ok(hits.every(hit => Number(hit.chunk.docId.slice(3)) >= 20));
+        assert.ok(hits.every(hit => hit.chunk.docId !== 'doc25' || hit.chunk.chunkIndex === 0));
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('json: documents round-trip through the file and queries compare every chunk', () => {
+    const dir = tempDir();
+    const jsonPath = path.join(dir, 'vector-db.json');
+    const docs = corpus(5, 4);
+    const store = createVectorStore({ driver: 'json', jsonPath });
+    for (const { doc, chunks } of docs) store.putDocument(doc, chunks);
+    store.removeDocument('doc0');
+    const reopened = createVectorStore({ driver: 'json', jsonPath });
+    assert.equal(reopened.size, 16);
+    const query = docs[2].chunks[1].embedding;
+    assert.deepEqual(reopened.query(query, { k: 3, embeddingModel: MODEL }).map(hit => hit.chunk.id),
+        exact(docs.slice(1), query, 3));
+    assert.deepEqual(reopened.query(query, { k: 3, embeddingModel: 'other:model' }), []);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,306 @@
+// ─── REST API types ───
+// Request and response bodies of the /api routes. Requests are validated at runtime against the
+// schemas in api.js — keep both in step. Every failure answers with ApiError.
+
+import type { Conversation, CustomerInfo, Handoff, TranscriptEntry } from './protocol'
+
+export type Role = 'agent' | 'supervisor' | 'admin'
+export type ConversationPriority = 'normal' | 'high' | 'urgent'
+export type PolicyPriority = 'low' | 'medium' | 'high' | 'critical'
+export type Tone = 'professional' | 'friendly' | 'formal' | 'casual' | 'empathetic'
+export type Sentiment = 'positive' | 'neutral' | 'negative' | 'frustrated'
+
+/** Body of every non-2xx response. `fields` maps a field path such as "agentCapacity" to what is wrong with it. */
+export type ApiError = { success: false; error: string; code: string; fields?: Record<string, string> }
+
+export type StaffUser = { id: string; email: string; name: string; role: Role; tenantId?: string; createdAt?: string }
+export type Tenant = { id: string; name: string; hostnames: string[]; apiKeys: string[]; createdAt?: string }
+
+export type Policy = { id: string; name: string; description: string; enabled: boolean; priority: PolicyPriority }
+export type PolicyInput = Omit<Policy, 'id'>
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'csv' | 'text'
+export type ChunkingStrategy = 'structured' | 'fixed'
+/** `structured` splits at headings, paragraphs, list items and sentences; `fixed` cuts plain character windows. Sizes are in characters. */
+export type ChunkingSettings = { strategy: ChunkingStrategy; size: number; overlap: number }
+/**
+ * `format` is set once the document is indexed; `error` says why indexing failed. Search skips the document
+ * before `effectiveFrom` and from `expiresAt` on (ISO dates; a bare date is midnight UTC). `versions` lists the
+ * versions it superseded, oldest first; documents uploaded before versioning have none and count as version 1.
+ */
+export type KnowledgeDocument = {
+    id: string
+    name: string
+    filename: string
+    size: number
+    type: string
+    uploadedAt: string
+    status: 'processing' | 'ready' | 'error'
+    chunking?: ChunkingSettings
+    format?: DocumentFormat
+    error?: string
+    version?: number
+    effectiveFrom?: string | null
+    expiresAt?: string | null
+    versions?: DocumentVersion[]
+    /** A version uploaded to take effect later; it replaces the current one once `effectiveFrom` has come */
+    scheduledVersion?: ScheduledVersion
+    /** Set on documents a knowledge source made; the source replaces and removes them on sync */
+    source?: DocumentSource
+}
+export type DocumentValidity = { effectiveFrom?: string | null; expiresAt?: string | null }
+/** Superseded versions keep their file (`filename`; missing on entries recorded before files were kept). */
+export type DocumentVersion = Pick<KnowledgeDocument, 'name' | 'size' | 'type' | 'format' | 'uploadedAt' | 'effectiveFrom' | 'expiresAt'> & {
+    version: number
+    filename?: string
+    supersededAt: string
+}
+export type ScheduledVersion = Pick<KnowledgeDocument, 'name' | 'filename' | 'size' | 'type' | 'uploadedAt' | 'expiresAt'> & { version: number; effectiveFrom: string }
+
+/** `key` is the file's path within the folder or the page URL; `hash` the SHA-256 of the content last synced. */
+export type DocumentSource = { id: string; key: string; hash: string; location: string }
+
+export type SourceType = 'folder' | 'web'
+export type SourceSyncResult = {
+    added: number
+    updated: number
+    removed: number
+    unchanged: number
+    failed: number
+    /** The first few items that could not be read; they keep their current document */
+    errors: { key: string; error: string }[]
+}
+/**
+ * A folder on the server (`path`) or a list of pages and sitemaps (`urls`) synced into the knowledge base.
+ * Syncs run on demand, every `intervalMinutes` (0: on demand only) and, for folders with `watch`, when a file changes.
+ */
+export type KnowledgeSource = {
+    id: string
+    name: string
+    type: SourceType
+    path: string | null
+    urls: string[]
+    intervalMinutes: number
+    watch: boolean
+    status: 'idle' | 'syncing' | 'error'
+    lastSyncAt: string | null
+    lastError: string | null
+    lastResult: SourceSyncResult | null
+    createdAt: string
+    updatedAt: string
+}
+export type SourceSettings = { name: string; path?: string; urls?: string[]; intervalMinutes?: number; watch?: boolean }
+
+/** Knowledge search tuning. Scores are 0–1; the weights need not add up to 1. */
+export type RetrievalSettings = { vectorWeight: number; lexicalWeight: number; minVectorScore: number; minScore: number; rerank: boolean; feedbackWeight?: number; gapScore?: number }
+
+export type AgentSettings = {
+    systemPrompt: string
+    companyName: string
+    agentName: string
+    welcomeMessage: string
+    maxResponseTime: number
+    autoGreeting: boolean
+    enableTTS: boolean
+    enableTypingIndicator: boolean
+    language: string
+    tone: Tone
+    summaryPrompt: string
+    coachingPrompt: string
+    agentCapacity: number
+    autoAssign: boolean
+    retrieval: RetrievalSettings
+}
+
+export type AdminConfig = AgentSettings & { coachingPolicies: Policy[]; documents: KnowledgeDocument[] }
+/** `aiCoaching` is false when the server has no AI provider, so the agent consoles coach offline. */
+export type PublicConfig = Pick<AgentSettings, 'companyName' | 'agentName' | 'language' | 'enableTypingIndicator'> & { aiCoaching: boolean }
+
+export type Revision = {
+    id: string
+    number: number
+    author: { id: string; email: string | null; name: string }
+    action: string
+    restoredFrom?: string
+    changedFields: string[]
+    createdAt: string
+}
+export type RevisionDiff = { from: string | null; to: string; changes: { field: string; before: unknown; after: unknown }[] }
+
+export type TranscriptLine = { id?: string; role?: string; speaker?: string; text: string; time: string }
+export type TranscriptItem = {
+    id: string
+    type: 'chat' | 'voice'
+    customerInfo: CustomerInfo | null
+    sentiment: Sentiment | null
+    hasSummary: boolean
+    messageCount: number
+    startTime: string | null
+    endTime: string
+}
+export type Transcript = TranscriptItem & {
+    summary?: string | null
+    messages?: TranscriptLine[]
+    entries?: TranscriptLine[]
+    transcript?: string
+    handoffs?: Handoff[]
+}
+
+/**
+ * `score` is the final ranking score; `rerank` is present when re-ranking graded the snippet and `feedback`
+ * is the snippet's usefulness to agents (-1…1, 0 without feedback). `id` identifies the chunk for feedback.
+ */
+export type KnowledgeSnippet = {
+    id: string
+    docId: string
+    text: string
+    docName: string
+    /** Section headings the snippet sits under, outermost first */
+    headings: string[]
+    score: number
+    scores: { vector: number; lexical: number; fused: number; feedback: number; rerank?: number }
+}
+export type FeedbackSignal = 'up' | 'down' | 'used'
+export type FeedbackTally = { up: number; down: number; used: number }
+/** The chat or call an agent was handling when they asked. */
+export type ConversationRef = { kind: 'chat' | 'voice'; id: string }
+/** A question the knowledge base answered with nothing, or nothing above `retrieval.gapScore`. */
+export type KnowledgeGap = {
+    id: string
+    query: string
+    source: 'coaching' | 'search'
+    topScore: number
+    conversation: ConversationRef | null
+    /** The transcript lines before the question (coaching only) */
+    context: { role: string; text: string }[]
+    createdAt: string
+}
+/** Recurring questions grouped by shared terms; `label` is the most common wording and `gapIds` every member. */
+export type KnowledgeGapTopic = {
+    id: string
+    label: string
+    terms: string[]
+    count: number
+    conversations: number
+    sources: { coaching: number; search: number }
+    bestScore: number
+    firstSeen: string
+    lastSeen: string
+    gapIds: string[]
+    examples: KnowledgeGap[]
+}
+/** Most and least useful snippets and documents; `score` is the usefulness, -1…1. */
+export type KnowledgeFeedbackReport = {
+    totals: FeedbackTally
+    snippets: Record<'mostUseful' | 'leastUseful', (FeedbackTally & {
+        key: string
+        chunkId: string
+        docId: string
+        docName: string
+        headings: string[]
+        text: string
+        query: string | null
+        score: number
+    })[]>
+    documents: Record<'mostUseful' | 'leastUseful', (FeedbackTally & { docId: string; docName: string; score: number })[]>
+}
+export type InsightColor = 'green' | 'blue' | 'amber' | 'rose'
+export type PolicyVerdictKind = 'pass' | 'violation' | 'not_applicable'
+/**
+ * An enabled coaching policy judged against the conversation so far. `evidence` quotes the transcript words the
+ * verdict rests on; it is null when there are none, or the model's quote was not found in the transcript.
+ */
+export type PolicyVerdict = { policyId: string; name: string; priority: PolicyPriority; verdict: PolicyVerdictKind; evidence: string | null }
+/**
+ * Checked by the server before it is sent: 1–4 smart replies, at most 6 insights, escalationRisk an integer 0–100.
+ * `policies` has a verdict for every enabled policy, violations first, then by priority.
+ */
+export type Coaching = {
+    nextAction: string
+    smartReplies: string[]
+    sentiment: Sentiment
+    insights: { label: string; tip: string; color: InsightColor }[]
+    escalationRisk: number
+    policies: PolicyVerdict[]
+}
+/**
+ * Why no coaching came back: the AI provider failed, its reply was not JSON, or it did not match Coaching even
+ * after repair and a retry. `POST /api/coaching` then answers 502 with ApiError & `{ reason, knowledgeContext }`.
+ */
+export type CoachingFailure = 'provider_error' | 'unparseable' | 'invalid_schema'
+
+type Ok<T = {}> = { success: true } & T
+
+/** Route → request and response bodies. Path parameters are written as `:id`. */
+export interface ApiRoutes {
+    'POST /api/auth/login': { body: { email: string; password: string }; response: Ok<{ token: string; user: StaffUser }> }
+    'GET /api/auth/me': { response: { user: StaffUser } }
+    'GET /api/config/public': { response: PublicConfig }
+    'POST /api/conversations': { body: { customerId?: string }; response: { conversationName: string } }
+    'POST /api/tts': { body: { text: string; speaker?: 'agent' | 'customer' }; response: { audioContent: string | null; message?: string } }
+    'POST /api/coaching': { body: { transcript: { role?: string; speaker?: string; text: string }[]; conversation?: ConversationRef }; response: Ok<{ coaching: Coaching | null; knowledgeContext: KnowledgeSnippet[] }> }
+    'POST /api/knowledge/search': { body: { query: string; limit?: number; conversation?: ConversationRef }; response: Ok<{ results: KnowledgeSnippet[] }> }
+    'POST /api/knowledge/feedback': {
+        body: { chunkId: string; signal: FeedbackSignal; query?: string; conversation?: ConversationRef }
+        response: Ok
+    }
+    'POST /api/voice/summary': {
+        body: { transcript: string; sessionId?: string; callerName?: string; entries?: TranscriptEntry[]; sentiment?: Sentiment }
+        response: Ok<{ summary: string }>
+    }
+
+    'GET /api/admin/tenant': { response: Tenant }
+    'GET /api/admin/config': { response: AdminConfig }
+    'PUT /api/admin/config': { body: AgentSettings; response: Ok<{ config: AdminConfig }> }
+    'PATCH /api/admin/config': { body: Partial<AgentSettings>; response: Ok<{ config: AdminConfig }> }
+    'GET /api/admin/policies': { response: Policy[] }
+    'POST /api/admin/policies': { body: Pick<PolicyInput, 'name'> & Partial<PolicyInput>; response: Ok<{ policy: Policy }> }
+    'PUT /api/admin/policies/:id': { body: PolicyInput; response: Ok<{ policy: Policy }> }
+    'PATCH /api/admin/policies/:id': { body: Partial<PolicyInput>; response: Ok<{ policy: Policy }> }
+    'DELETE /api/admin/policies/:id': { response: Ok }
+    'GET /api/admin/config/revisions': { response: Revision[] }
+    'GET /api/admin/config/revisions/:id': { response: Revision & { config: AdminConfig } }
+    'GET /api/admin/config/revisions/:id/diff': { query: { against?: string }; response: RevisionDiff }
+    'POST /api/admin/config/revisions/:id/restore': { response: Ok<{ config: AdminConfig }> }
+    'POST /api/admin/documents': { body: FormData; response: Ok<{ document: KnowledgeDocument }> }
+    'GET /api/admin/documents': { response: KnowledgeDocument[] }
+    'PATCH /api/admin/documents/:id': { body: DocumentValidity & { chunking?: Partial<ChunkingSettings> }; response: Ok<{ document: KnowledgeDocument }> }
+    'POST /api/admin/documents/:id/versions': { body: FormData; response: Ok<{ document: KnowledgeDocument }> }
+    'DELETE /api/admin/documents/:id': { response: Ok }
+    'POST /api/admin/documents/reindex': { response: Ok<{ documents: KnowledgeDocument[] }> }
+    'POST /api/admin/documents/:id/reindex': { response: Ok<{ document: KnowledgeDocument }> }
+    'GET /api/admin/sources': { response: KnowledgeSource[] }
+    'POST /api/admin/sources': { body: SourceSettings & { type: SourceType }; response: Ok<{ source: KnowledgeSource }> }
+    'PATCH /api/admin/sources/:id': { body: Partial<SourceSettings>; response: Ok<{ source: KnowledgeSource }> }
+    'DELETE /api/admin/sources/:id': { response: Ok }
+    'POST /api/admin/sources/:id/sync': { response: Ok<{ source: KnowledgeSource }> }
+    'GET /api/admin/knowledge/feedback': { query: { limit?: number }; response: KnowledgeFeedbackReport }
+    'GET /api/admin/knowledge/gaps': { query: { days?: number; limit?: number }; response: { total: number; since: string; topics: KnowledgeGapTopic[] } }
+    'POST /api/admin/knowledge/gaps/resolve': { body: { ids: string[] }; response: Ok<{ resolved: number }> }
+    'GET /api/admin/users': { response: StaffUser[] }
+    'POST /api/admin/users': { body: { email: string; name?: string; password: string; role?: Role }; response: Ok<{ user: StaffUser }> }
+    'DELETE /api/admin/users/:id': { response: Ok }
+    'GET /api/admin/tenants': { response: Tenant[] }
+    'POST /api/admin/tenants': {
+        body: { id?: string; name: string; hostnames?: string[]; adminEmail: string; adminPassword: string }
+        response: Ok<{ tenant: Tenant; admin: StaffUser }>
+    }
+    'DELETE /api/admin/tenants/:id': { response: Ok }
+    'PUT /api/admin/conversations/:id/priority': { body: { priority: ConversationPriority }; response: Ok<{ conversation: Conversation }> }
+    'GET /api/admin/transcripts': {
+        query: { type?: 'chat' | 'voice'; from?: string; to?: string; customer?: string; sentiment?: Sentiment; limit?: number; offset?: number }
+        response: { transcripts: TranscriptItem[]; total: number }
+    }
+    'GET /api/admin/transcripts/:id': { response: Transcript }
+    'DELETE /api/admin/chat-history': { body?: { conversationId?: string }; response: Ok }
+    'POST /api/admin/generate-summary': { body: { conversationId: string }; response: Ok<{ summary: string }> }
+    'POST /api/admin/end-conversation': { body: { conversationId: string }; response: Ok<{ summary: string | null }> }
+}
+
+export declare const ROLES: Role[]
+export declare const CONVERSATION_PRIORITIES: ConversationPriority[]
+export declare const POLICY_PRIORITIES: PolicyPriority[]
+export declare const TONES: Tone[]
+export declare const SENTIMENTS: Sentiment[]
+export declare const CHUNKING_STRATEGIES: ChunkingStrategy[]
+export declare const FEEDBACK_SIGNALS: FeedbackSignal[]
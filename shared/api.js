@@ -0,0 +1,177 @@
+// ─── REST API request schemas ───
+// Body and query schemas for the /api routes in server/index.js, applied by server/middleware/validate.js.
+// api.d.ts has the matching request and response types for the pages.
+
+import { array, boolean, date, integer, nullable, number, object, oneOf, optional, partial, string } from './schema.js';
+
+// Both lists are ordered: roles from least to most privileged, priorities from last to first served
+export const ROLES = ['agent', 'supervisor', 'admin'];
+export const CONVERSATION_PRIORITIES = ['normal', 'high', 'urgent'];
+export const POLICY_PRIORITIES = ['low', 'medium', 'high', 'critical'];
+export const POLICY_VERDICTS = ['pass', 'violation', 'not_applicable'];
+export const TONES = ['professional', 'friendly', 'formal', 'casual', 'empathetic'];
+export const SENTIMENTS = ['positive', 'neutral', 'negative', 'frustrated'];
+// Coaching insights: green is good, blue informational, amber needs attention, rose urgent
+export const INSIGHT_COLORS = ['green', 'blue', 'amber', 'rose'];
+export const CHUNKING_STRATEGIES = ['structured', 'fixed'];
+export const FEEDBACK_SIGNALS = ['up', 'down', 'used'];
+export const SOURCE_TYPES = ['folder', 'web'];
+
+const id = () => string({ min: 1, max: 200 });
+// The chat or call an agent was handling when they made a request
+const conversationRef = () => object({ kind: oneOf('chat', 'voice'), id: id() }, { strict: true });
+const name = () => string({ min: 1, max: 100 });
+const email = () => string({ min: 3, max: 320 });
+const prompt = () => string({ max: 20000 });
+
+// Settings an admin edits on the General and Prompts tabs. Policies, documents and revisions have their own routes.
+const configFields = {
+    systemPrompt: prompt(),
+    companyName: name(),
+    agentName: name(),
+    welcomeMessage: string({ max: 2000 }),
+    maxResponseTime: integer({ min: 1, max: 3600 }),
+    autoGreeting: boolean(),
+    enableTTS: boolean(),
+    enableTypingIndicator: boolean(),
+    language: string({ min: 2, max: 20 }),
+    tone: oneOf(...TONES),
+    summaryPrompt: prompt(),
+    coachingPrompt: prompt(),
+    agentCapacity: integer({ min: 1, max: 50 }),
+    autoAssign: boolean(),
+    // Knowledge search: fusion weights of the vector and keyword scores, the cut-offs, LLM re-ranking, how far
+    // agent feedback moves a snippet and the best score that still counts as a knowledge gap (the last two are
+    // optional, as settings saved before they existed lack them)
+    retrieval: object({
+        vectorWeight: number({ min: 0, max: 1 }),
+        lexicalWeight: number({ min: 0, max: 1 }),
+        minVectorScore: number({ min: 0, max: 1 }),
+        minScore: number({ min: 0, max: 1 }),
+        rerank: boolean(),
+        feedbackWeight: optional(number({ min: 0, max: 1 })),
+        gapScore: optional(number({ min: 0, max: 1 }))
+    }, { strict: true })
+};
+
+const policy = object({
+    name: name(),
+    description: string({ max: 2000 }),
+    enabled: boolean(),
+    priority: oneOf(...POLICY_PRIORITIES)
+}, { strict: true });
+
+// When a document applies: retrieval skips it before `effectiveFrom` and from `expiresAt` on; null clears a date
+const documentValidity = { effectiveFrom: nullable(date()), expiresAt: nullable(date()) };
+
+// Where a knowledge source reads from and how often it syncs; `intervalMinutes: 0` syncs only on demand
+const sourceSettings = {
+    name: name(),
+    path: optional(string({ min: 1, max: 1000 })),
+    urls: optional(array(string({ min: 1, max: 2000 }), { max: 100 })),
+    intervalMinutes: optional(integer({ min: 0, max: 10080 })),
+    watch: optional(boolean())
+};
+
+const transcriptLine = object({ role: optional(string({ max: 20 })), speaker: optional(string({ max: 20 })), text: string() });
+
+export const schemas = {
+    tts: { body: object({ text: string({ min: 1, max: 5000 }), speaker: optional(oneOf('agent', 'customer')) }) },
+    createDialogflowConversation: { body: object({ customerId: optional(string({ max: 200 })) }) },
+    login: { body: object({ email: email(), password: string({ min: 1, max: 200 }) }) },
+
+    // PUT replaces every setting; PATCH changes only the fields it sends
+    replaceConfig: { body: object(configFields, { strict: true }) },
+    updateConfig: { body: partial(object(configFields, { strict: true })) },
+
+    createPolicy: {
+        body: object({
+            ...policy.fields,
+            description: optional(policy.fields.description),
+            enabled: optional(policy.fields.enabled),
+            priority: optional(policy.fields.priority)
+        }, { strict: true })
+    },
+    replacePolicy: { body: policy },
+    updatePolicy: { body: partial(policy) },
+
+    revisionDiff: { query: object({ against: optional(id()) }) },
+
+    // Changing how a document is chunked re-indexes it; changing when it is in effect does not
+    updateDocument: {
+        body: object({
+            chunking: optional(partial(object({
+                strategy: oneOf(...CHUNKING_STRATEGIES),
+                size: integer({ min: 200, max: 8000 }),
+                overlap: integer({ min: 0, max: 2000 })
+            }, { strict: true }))),
+            ...documentValidity
+        }, { strict: true })
+    },
+    // Form fields sent with the file of a new document or a new version of one
+    uploadDocument: { body: object(documentValidity) },
+
+    // A folder source needs `path`, a web source `urls` (pages or sitemaps); the type cannot change later
+    createSource: { body: object({ type: oneOf(...SOURCE_TYPES), ...sourceSettings }, { strict: true }) },
+    updateSource: { body: partial(object(sourceSettings, { strict: true })) },
+
+    createUser: {
+        body: object({
+            email: email(),
+            name: optional(string({ max: 100 })),
+            password: string({ min: 1, max: 200 }),
+            role: optional(oneOf(...ROLES))
+        }, { strict: true })
+    },
+    createTenant: {
+        body: object({
+            id: optional(string({ max: 50 })),
+            name: name(),
+            hostnames: optional(array(string({ min: 1, max: 253 }), { max: 20 })),
+            adminEmail: email(),
+            adminPassword: string({ min: 1, max: 200 })
+        }, { strict: true })
+    },
+
+    setConversationPriority: { body: object({ priority: oneOf(...CONVERSATION_PRIORITIES) }) },
+    listTranscripts: {
+        query: object({
+            type: optional(oneOf('chat', 'voice')),
+            from: optional(date()),
+            to: optional(date()),
+            customer: optional(string({ max: 200 })),
+            sentiment: optional(oneOf(...SENTIMENTS)),
+            limit: optional(integer({ min: 1, max: 200 })),
+            offset: optional(integer({ min: 0 }))
+        })
+    },
+    clearChatHistory: { body: optional(object({ conversationId: optional(id()) })) },
+    generateSummary: { body: object({ conversationId: id() }) },
+    endConversation: { body: object({ conversationId: id() }) },
+
+    coaching: { body: object({ transcript: array(transcriptLine, { max: 500 }), conversation: optional(conversationRef()) }) },
+    knowledgeSearch: {
+        body: object({ query: string({ min: 1, max: 1000 }), limit: optional(integer({ min: 1, max: 20 })), conversation: optional(conversationRef()) })
+    },
+    // An agent's verdict on a snippet from a search result, with the query that found it and the conversation it was for
+    knowledgeFeedback: {
+        body: object({
+            chunkId: id(),
+            signal: oneOf(...FEEDBACK_SIGNALS),
+            query: optional(string({ max: 1000 })),
+            conversation: optional(conversationRef())
+        }, { strict: true })
+    },
+    knowledgeFeedbackReport: { query: object({ limit: optional(integer({ min: 1, max: 100 })) }) },
+    knowledgeGapReport: { query: object({ days: optional(integer({ min: 1, max: 365 })), limit: optional(integer({ min: 1, max: 100 })) }) },
+    resolveKnowledgeGaps: { body: object({ ids: array(id(), { max: 1000 }) }, { strict: true }) },
+    voiceSummary: {
+        body: object({
+            transcript: string({ min: 1, max: 200000 }),
+            sessionId: optional(id()),
+            callerName: optional(string({ max: 200 })),
+            entries: optional(array(object({ id: string({ max: 200 }), speaker: oneOf('agent', 'customer'), text: string(), time: string({ max: 50 }) }), { max: 5000 })),
+            sentiment: optional(oneOf(...SENTIMENTS))
+        })
+    }
+};
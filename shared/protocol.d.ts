@@ -0,0 +1,180 @@
+// ─── Socket.IO event protocol (types) ───
+// Payload shapes for every event exchanged between the pages and server/index.js.
+// Client → server payloads are also checked at runtime against CLIENT_EVENTS in protocol.js — keep both in step.
+
+import type { Coaching, CoachingFailure, KnowledgeSnippet, KnowledgeSource } from './api'
+
+export type ConversationKind = 'chat' | 'voice'
+export type TransferMode = 'warm' | 'cold'
+export type ChatRole = 'agent' | 'customer'
+
+export type StaffRef = { id: string; name: string; email?: string }
+export type CustomerInfo = { name?: string; email?: string; phone?: string }
+
+export type ChatMessage = { id: string; role: ChatRole; text: string; time: string; conversationId: string }
+export type TranscriptEntry = { id: string; speaker: ChatRole; text: string; time: string }
+
+export type Handoff = {
+    id: string
+    mode: TransferMode | 'takeover'
+    from: StaffRef | null
+    to: StaffRef
+    note: string
+    createdAt: string
+}
+
+export type Transfer = Omit<Handoff, 'mode' | 'from'> & {
+    kind: ConversationKind
+    targetId: string
+    mode: TransferMode
+    from: StaffRef
+}
+
+export type TransferStatus = 'pending' | 'declined' | 'cancelled' | 'expired'
+
+export type Whisper = { id: string; from: StaffRef; text: string; time: string }
+
+/** A chat as listed in the agent console. Whispers are never part of the team-wide list. */
+export type Conversation = {
+    id: string
+    tenantId: string
+    messages: ChatMessage[]
+    customerInfo: CustomerInfo | null
+    status: 'waiting' | 'active' | 'ended'
+    priority: string
+    queuedAt?: string
+    queuePosition?: number
+    assignedAgent: StaffRef | null
+    handoffs?: Handoff[]
+    escalation?: Escalation
+    startTime: string
+}
+
+/** Set once on a chat or call when the coaching finds a critical policy violated, quoting the transcript. */
+export type Escalation = { policyId: string; policyName: string; evidence: string; flaggedAt: string }
+
+export type AgentStatus = { id: string; name: string; available: boolean; load: number; capacity: number }
+export type LiveCall = { id: string; callerName: string; agent: StaffRef | null; startTime: string }
+export type VoiceColleague = { id: string; name: string; busy: boolean }
+
+/** Tenant settings as pushed on every config change; pages read only what they display. */
+export type ConfigUpdate = { companyName?: string; agentName?: string; welcomeMessage?: string; [field: string]: unknown }
+
+/**
+ * Progress of a knowledge document through the ingestion queue, sent to the tenant's admins.
+ * `processed` of `total` chunks are embedded; `retry` and `retryInMs` are set while a failed batch waits for another try.
+ */
+export type DocumentProgress = {
+    documentId: string
+    stage: 'queued' | 'extracting' | 'embedding'
+    processed: number
+    total: number
+    retry?: number
+    retryInMs?: number
+}
+
+type ConversationRef = { kind: ConversationKind; id: string }
+
+/**
+ * Live coaching for the agent of a chat or call, streamed while the model writes it. `turn` rises with every
+ * coached line; an update for a newer turn replaces the coaching of an older one. `coaching` holds
+ * the fields finished so far, nextAction first; the first and the final (`done`) update also carry the knowledge
+ * found for the last line (`query`).
+ */
+export type CoachingUpdate = ConversationRef & {
+    turn: number
+    coaching: Partial<Coaching>
+    knowledgeContext?: KnowledgeSnippet[]
+    query?: string
+    done: boolean
+}
+type VoiceRef = { sessionId: string }
+
+export interface ClientToServerEvents {
+    // Chat
+    register: (payload: { role: ChatRole; conversationId?: string | null; customerInfo?: CustomerInfo | null }) => void
+    join_conversation: (conversationId: string) => void
+    claim_conversation: (conversationId: string) => void
+    release_conversation: (conversationId: string) => void
+    set_availability: (payload: { available: boolean }) => void
+    send_message: (payload: { conversationId: string | null; text: string }) => void
+    typing: (payload: { conversationId: string | null }) => void
+    stop_typing: (payload: { conversationId: string | null }) => void
+
+    // Voice
+    voice_console: () => void
+    voice_start: (payload: VoiceRef & { callerName?: string | null }) => void
+    voice_join: (payload: VoiceRef) => void
+    voice_transcript: (payload: VoiceRef & { entry: TranscriptEntry }) => void
+    voice_end: (payload: VoiceRef) => void
+    voice_webrtc_offer: (payload: VoiceRef & { offer: RTCSessionDescriptionInit }) => void
+    voice_webrtc_answer: (payload: VoiceRef & { answer: RTCSessionDescriptionInit }) => void
+    voice_webrtc_ice_candidate: (payload: VoiceRef & { candidate: RTCIceCandidateInit }) => void
+    voice_request_offer: (payload: VoiceRef) => void
+
+    // Transfers & supervision
+    transfer_request: (payload: ConversationRef & { toAgentId: string; mode: TransferMode; note?: string }) => void
+    transfer_accept: (payload: { transferId: string }) => void
+    transfer_decline: (payload: { transferId: string }) => void
+    monitor_start: (payload: ConversationRef) => void
+    monitor_stop: (payload: ConversationRef) => void
+    whisper: (payload: ConversationRef & { text: string }) => void
+    take_over: (payload: ConversationRef) => void
+}
+
+export interface ServerToClientEvents {
+    // Sent instead of handling an event whose payload did not match the protocol
+    protocol_error: (payload: { event: string; error: string }) => void
+    auth_error: (payload: { error: string }) => void
+    config_updated: (config: ConfigUpdate) => void
+
+    // Chat
+    session_started: (payload: { conversationId: string }) => void
+    chat_history: (messages: ChatMessage[]) => void
+    new_message: (message: ChatMessage) => void
+    user_typing: (payload: { role: ChatRole; conversationId: string }) => void
+    user_stop_typing: (payload: { role: ChatRole; conversationId: string }) => void
+    conversation_ended: (payload: { conversationId: string; summary: string | null }) => void
+
+    // Routing
+    update_conversations: (conversations: Conversation[]) => void
+    routing_status: (payload: { agents: AgentStatus[]; capacity: number }) => void
+    queue_position: (payload: { conversationId: string; position: number; queueLength: number }) => void
+    agent_assigned: (payload: { conversationId: string; agentName: string }) => void
+    conversation_assigned: (payload: { conversationId: string; handoff?: Handoff }) => void
+    assignment_error: (payload: { conversationId: string; error: string }) => void
+
+    // Voice
+    voice_status: (payload: { calls: LiveCall[]; agents: VoiceColleague[] }) => void
+    voice_history: (entries: TranscriptEntry[]) => void
+    voice_new_entry: (payload: VoiceRef & { entry: TranscriptEntry }) => void
+    voice_session_ended: (payload: VoiceRef) => void
+    voice_webrtc_offer: (payload: VoiceRef & { offer: RTCSessionDescriptionInit }) => void
+    voice_webrtc_answer: (payload: VoiceRef & { answer: RTCSessionDescriptionInit }) => void
+    voice_webrtc_ice_candidate: (payload: VoiceRef & { candidate: RTCIceCandidateInit }) => void
+    voice_request_offer: (payload: VoiceRef) => void
+    voice_handoff: (payload: VoiceRef & { callerName: string; handoff: Handoff }) => void
+    voice_agent_changed: (payload: VoiceRef & { agentName: string }) => void
+
+    // Transfers & supervision
+    transfer_offered: (transfer: Transfer) => void
+    transfer_updated: (payload: { transfer: Transfer; status: TransferStatus }) => void
+    transfer_error: (payload: { kind?: ConversationKind; id?: string; error: string }) => void
+    handed_off: (payload: ConversationRef & { handoff: Handoff }) => void
+    whisper_history: (payload: ConversationRef & { whispers: Whisper[] }) => void
+    whisper: (payload: ConversationRef & { whisper: Whisper }) => void
+
+    // Coaching (the conversation's agent only)
+    coaching_update: (update: CoachingUpdate) => void
+    coaching_error: (payload: ConversationRef & { turn: number; error: string; reason: CoachingFailure }) => void
+    // Its agent and the tenant's supervisors
+    escalation_flagged: (payload: ConversationRef & { escalation: Escalation }) => void
+
+    // Knowledge (admins only)
+    document_progress: (progress: DocumentProgress) => void
+    source_status: (source: KnowledgeSource) => void
+}
+
+export declare const CONVERSATION_KINDS: ConversationKind[]
+export declare const TRANSFER_MODES: TransferMode[]
+export declare function validateEvent(event: string, payload: unknown): { value: unknown; error: string | null }
@@ -0,0 +1,83 @@
+// ─── Socket.IO event protocol ───
+// Every event a browser may send, with the shape of its payload. The server checks each incoming
+// event against this table and drops anything that does not match (server/middleware/protocol.js).
+// protocol.d.ts describes the same events — in both directions — for the TypeScript pages.
+
+import { boolean, describeErrors, integer, nullable, object, oneOf, parse, string } from './schema.js';
+
+const MAX_ID = 200;
+
+const id = () => string({ max: MAX_ID });
+
+export const CONVERSATION_KINDS = ['chat', 'voice'];
+export const TRANSFER_MODES = ['warm', 'cold'];
+
+const conversationRef = { kind: oneOf(...CONVERSATION_KINDS), id: id() };
+
+// WebRTC descriptions and candidates are relayed as they are; only their outline is checked
+const sessionDescription = object({ type: oneOf('offer', 'answer', 'pranswer', 'rollback'), sdp: nullable(string({ max: 100000 })) });
+const iceCandidate = object({
+    candidate: nullable(string({ max: 2000 })),
+    sdpMid: nullable(string({ max: MAX_ID })),
+    sdpMLineIndex: nullable(integer({ min: 0, max: 65535 })),
+    usernameFragment: nullable(string({ max: MAX_ID }))
+});
+
+const transcriptEntry = object({
+    id: id(),
+    speaker: oneOf('agent', 'customer'),
+    text: string(),
+    time: string({ max: 50 })
+});
+
+/**
+ * Client → server events. The value is the schema of the event's single argument;
+ * `null` means the event carries no payload.
+ */
+export const CLIENT_EVENTS = {
+    // Chat
+    register: object({
+        role: oneOf('agent', 'customer'),
+        conversationId: nullable(id()),
+        customerInfo: nullable(object({ name: nullable(string({ max: 200 })), email: nullable(string({ max: 320 })), phone: nullable(string({ max: 50 })) }))
+    }),
+    join_conversation: id(),
+    claim_conversation: id(),
+    release_conversation: id(),
+    set_availability: object({ available: boolean() }),
+    send_message: object({ conversationId: nullable(id()), text: string() }),
+    typing: object({ conversationId: nullable(id()) }),
+    stop_typing: object({ conversationId: nullable(id()) }),
+
+    // Voice
+    voice_console: null,
+    voice_start: object({ sessionId: id(), callerName: nullable(string({ max: 200 })) }),
+    voice_join: object({ sessionId: id() }),
+    voice_transcript: object({ sessionId: id(), entry: transcriptEntry }),
+    voice_end: object({ sessionId: id() }),
+    voice_webrtc_offer: object({ sessionId: id(), offer: sessionDescription }),
+    voice_webrtc_answer: object({ sessionId: id(), answer: sessionDescription }),
+    voice_webrtc_ice_candidate: object({ sessionId: id(), candidate: iceCandidate }),
+    voice_request_offer: object({ sessionId: id() }),
+
+    // Transfers & supervision
+    transfer_request: object({ ...conversationRef, toAgentId: id(), mode: oneOf(...TRANSFER_MODES), note: nullable(string({ max: 2000 })) }),
+    transfer_accept: object({ transferId: id() }),
+    transfer_decline: object({ transferId: id() }),
+    monitor_start: object(conversationRef),
+    monitor_stop: object(conversationRef),
+    whisper: object({ ...conversationRef, text: string({ max: 2000 }) }),
+    take_over: object(conversationRef)
+};
+
+/**
+ * Validate an incoming event by name → { value, error }. `error` is null when the event is well-formed;
+ * `value` is then the payload holding only the declared fields.
+ */
+export function validateEvent(event, payload) {
+    if (!Object.prototype.hasOwnProperty.call(CLIENT_EVENTS, event)) return { value: undefined, error: `Unknown event "${event}"` };
+    const schema = CLIENT_EVENTS[event];
+    if (!schema) return { value: payload, error: null };
+    const { value, errors } = parse(schema, payload, { path: event });
+    return { value, error: errors && describeErrors(errors) };
+}
@@ -0,0 +1,140 @@
+// ─── Payload schemas ───
+// A deliberately small schema language shared by the Socket.IO protocol (protocol.js) and the REST API (api.js).
+// parse() reports every problem as { 'field.path': 'message' } and returns a copy holding only the declared fields;
+// jsonSchema() describes a schema to language models that can be held to one.
+
+const MAX_TEXT = 10000;
+
+export const string = ({ min = 0, max = MAX_TEXT } = {}) => ({ type: 'string', min, max });
+export const integer = ({ min = -Infinity, max = Infinity } = {}) => ({ type: 'integer', min, max });
+export const number = ({ min = -Infinity, max = Infinity } = {}) => ({ type: 'number', min, max });
+export const boolean = () => ({ type: 'boolean' });
+// ISO 8601 date or date-time, e.g. 2024-05-01 or 2024-05-01T09:30:00Z
+export const date = () => ({ type: 'date' });
+export const oneOf = (...values) => ({ type: 'enum', values });
+export const array = (items, { min = 0, max = 1000 } = {}) => ({ type: 'array', items, min, max });
+// `strict` objects reject keys they do not declare; others ignore them
+export const object = (fields, { strict = false } = {}) => ({ type: 'object', fields, strict });
+
+// May be left out. `nullable` fields may also be null.
+export const optional = (schema) => ({ ...schema, optional: true });
+export const nullable = (schema) => ({ ...schema, optional: true, nullable: true });
+// Every field of an object schema becomes optional — the body of a PATCH
+export const partial = (schema) => ({
+    ...schema,
+    fields: Object.fromEntries(Object.entries(schema.fields).map(([key, field]) => [key, optional(field)]))
+});
+
+const fieldPath = (path, key) => path ? `${path}.${key}` : key;
+
+// Query strings only carry text; `coerce` turns "20" and "true" into the number or boolean a schema expects
+const coerced = (schema, value) => {
+    if (typeof value !== 'string') return value;
+    if (schema.type === 'integer' && /^-?\d+$/.test(value)) return Number(value);
+    if (schema.type === 'number' && /^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    if (schema.type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+    return value;
+};
+
+function check(schema, input, path, errors, options) {
+    const fail = (message) => { errors[path || options.root] = message; };
+    if (input === undefined || input === null) {
+        if (input === null && schema.nullable) return null;
+        if (input === undefined && schema.optional) return undefined;
+        return fail(input === null && schema.optional ? 'must not be null' : 'is required');
+    }
+    const value = options.coerce ? coerced(schema, input) : input;
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return fail('must be a string');
+            if (schema.min > 0 && !value.trim()) return fail('must not be empty');
+            if (value.length < schema.min) return fail(`must be at least ${schema.min} characters`);
+            if (value.length > schema.max) return fail(`must be at most ${schema.max} characters`);
+            return value;
+        case 'integer':
+            if (!Number.isInteger(value)) return fail('must be a whole number');
+            if (value < schema.min) return fail(`must be at least ${schema.min}`);
+            if (value > schema.max) return fail(`must be at most ${schema.max}`);
+            return value;
+        case 'number':
+            if (typeof value !== 'number' || !Number.isFinite(value)) return fail('must be a number');
+            if (value < schema.min) return fail(`must be at least ${schema.min}`);
+            if (value > schema.max) return fail(`must be at most ${schema.max}`);
+            return value;
+        case 'boolean':
+            return typeof value === 'boolean' ? value : fail('must be true or false');
+        case 'date':
+            return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : fail('must be a date (YYYY-MM-DD)');
+        case 'enum':
+            return schema.values.includes(value) ? value : fail(`must be one of: ${schema.values.join(', ')}`);
+        case 'array':
+            if (!Array.isArray(value)) return fail('must be a list');
+            if (value.length < schema.min) return fail(`must have at least ${schema.min} item${schema.min === 1 ? '' : 's'}`);
+            if (value.length > schema.max) return fail(`must have at most ${schema.max} items`);
+            return value.map((item, i) => check(schema.items, item, `${path}[${i}]`, errors, options));
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) return fail('must be an object');
+            const result = {};
+            for (const [key, field] of Object.entries(schema.fields)) {
+                const parsed = check(field, value[key], fieldPath(path, key), errors, options);
+                if (parsed !== undefined) result[key] = parsed;
+            }
+            if (schema.strict) {
+                for (const key of Object.keys(value)) {
+                    if (!(key in schema.fields)) errors[fieldPath(path, key)] = 'is not a known field';
+                }
+            }
+            return result;
+        }
+        default:
+            return fail('has an unknown schema');
+    }
+}
+
+/**
+ * Check `input` against `schema` → { value, errors }. `errors` maps each failing field path
+ * (e.g. "agentCapacity", "hostnames[1]") to a message and is null when the input is valid.
+ * `value` keeps only declared fields, so unknown keys never reach storage.
+ */
+export function parse(schema, input, { path = '', root = 'body', coerce = false } = {}) {
+    const errors = {};
+    const value = check(schema, input, path, errors, { root, coerce });
+    return { value, errors: Object.keys(errors).length ? errors : null };
+}
+
+/** First problem as one sentence, e.g. "agentCapacity must be at least 1". */
+export const describeErrors = (errors) => {
+    const [field] = Object.keys(errors);
+    return `${field} ${errors[field]}`;
+};
+
+const bounds = (schema, low, high) => ({
+    ...(Number.isFinite(schema.min) ? { [low]: schema.min } : {}),
+    ...(Number.isFinite(schema.max) ? { [high]: schema.max } : {})
+});
+
+/**
+ * The JSON Schema for `schema`, as taken by the structured output of model providers. String lengths are left
+ * out, since providers reject or ignore them; parse() still checks them on the reply.
+ */
+export function jsonSchema(schema) {
+    const described = (() => {
+        switch (schema.type) {
+            case 'string': return { type: 'string' };
+            case 'date': return { type: 'string', format: 'date' };
+            case 'integer': return { type: 'integer', ...bounds(schema, 'minimum', 'maximum') };
+            case 'number': return { type: 'number', ...bounds(schema, 'minimum', 'maximum') };
+            case 'boolean': return { type: 'boolean' };
+            case 'enum': return { type: 'string', enum: schema.values };
+            case 'array': return { type: 'array', items: jsonSchema(schema.items), ...(schema.min > 0 ? { minItems: schema.min } : {}), maxItems: schema.max };
+            case 'object': return {
+                type: 'object',
+                properties: Object.fromEntries(Object.entries(schema.fields).map(([key, field]) => [key, jsonSchema(field)])),
+                required: Object.entries(schema.fields).filter(([, field]) => !field.optional).map(([key]) => key),
+                additionalProperties: !schema.strict
+            };
+            default: throw new Error(`Unknown schema type: ${schema.type}`);
+        }
+    })();
+    return schema.nullable ? { ...described, type: [described.type, 'null'] } : described;
+}
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { array, boolean, date, integer, jsonSchema, nullable, number, object, oneOf, optional, parse, partial, string } from './schema.js';
+
+const contact = object({
+    name: string({ min: 1, max: 10 }),
+    age: optional(integer({ min: 0, max: 150 })),
+    email: nullable(string()),
+    tags: optional(array(oneOf('vip', 'new'), { max: 2 }))
+});
+
+test('a valid input comes back with only the declared fields', () => {
+    const { value, errors } = parse(contact, { name: 'Ann', email: null, tags: ['vip'], admin: true });
+    assert.equal(errors, null);
+    assert.deepEqual(value, { name: 'Ann', email: null, tags: ['vip'] });
+});
+
+test('every failing field is reported by its path', () => {
+    const { errors } = parse(contact, { name: '  ', age: 1.5, tags: ['vip', 'gold', 'new'] });
+    assert.deepEqual(errors, {
+        name: 'must not be empty',
+        age: 'must be a whole number',
+        tags: 'must have at most 2 items'
+    });
+    assert.deepEqual(parse(contact, { name: 'Ann', tags: ['gold'] }).errors, { 'tags[0]': 'must be one of: vip, new' });
+    assert.deepEqual(parse(contact, { email: null, age: null }).errors, { name: 'is required', age: 'must not be null' });
+    assert.deepEqual(parse(contact, 'Ann').errors, { body: 'must be an object' });
+});
+
+test('strings, numbers, booleans and dates are held to their bounds and types', () => {
+    const check = (schema, input) => parse(schema, input, { path: 'field' }).errors?.field ?? null;
+    assert.equal(check(string({ max: 3 }), 'four'), 'must be at most 3 characters');
+    assert.equal(check(string({ min: 3 }), 'ab'), 'must be at least 3 characters');
+    assert.equal(check(number({ min: 0, max: 1 }), 1.5), 'must be at most 1');
+    assert.equal(check(number(), Infinity), 'must be a number');
+    assert.equal(check(integer({ min: 1 }), 0), 'must be at least 1');
+    assert.equal(check(boolean(), 'true'), 'must be true or false');
+    assert.equal(check(date(), '2026-02-30x'), 'must be a date (YYYY-MM-DD)');
+    assert.equal(check(date(), '2026-05-01T09:30:00Z'), null);
+});
+
+test('strict objects reject unknown keys, other objects drop them', () => {
+    const strict = object({ a: integer() }, { strict: true });
+    assert.deepEqual(parse(strict, { a: 1, b: 2 }).errors, { b: 'is not a known field' });
+    assert.deepEqual(parse(object({ a: integer() }), { a: 1, b: 2 }).value, { a: 1 });
+    assert.deepEqual(parse(partial(strict), {}).errors, null);
+});
+
+test('query strings are coerced to the numbers and booleans their schema expects', () => {
+    const query = object({ limit: optional(integer()), rerank: optional(boolean()), q: optional(string()) });
+    assert.deepEqual(parse(query, { limit: '20', rerank: 'false', q: '20' }, { coerce: true }).value, { limit: 20, rerank: false, q: '20' });
+    assert.deepEqual(parse(query, { limit: '2.5' }, { coerce: true, root: 'query' }).errors, { limit: 'must be a whole number' });
+    assert.deepEqual(parse(query, { limit: '20' }).errors, { limit: 'must be a whole number' });
+});
+
+test('schemas describe themselves as JSON Schema for model providers', () => {
+    assert.deepEqual(jsonSchema(object({ name: string({ max: 5 }), score: nullable(integer({ min: 0, max: 100 })), kind: oneOf('a', 'b'), items: array(string(), { min: 1, max: 3 }) }, { strict: true })), {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            score: { type: ['integer', 'null'], minimum: 0, maximum: 100 },
+            kind: { type: 'string', enum: ['a', 'b'] },
+            items: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3 }
+        },
+        required: ['name', 'kind', 'items'],
+        additionalProperties: false
+    });
+});
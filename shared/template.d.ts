@@ -0,0 +1,22 @@
+// ─── Prompt templates (types) ───
+// The {{variables}} of the welcome message and the prompts, as implemented in template.js — keep both in step.
+
+import type { Policy } from './api'
+import type { CustomerInfo, StaffRef } from './protocol'
+
+export type TemplateVariable =
+    | 'agentName' | 'companyName' | 'language' | 'tone'
+    | 'customer.name' | 'customer.email' | 'customer.phone'
+    | 'enabledPolicies'
+export type TemplateField = 'systemPrompt' | 'welcomeMessage' | 'coachingPrompt' | 'summaryPrompt'
+/** A missing or empty value renders as the variable's fallback, or as nothing. */
+export type TemplateValues = Partial<Record<TemplateVariable, string | null>>
+
+export declare const TEMPLATE_VARIABLES: Record<TemplateVariable, string>
+export declare const TEMPLATE_FIELDS: TemplateField[]
+export declare function templateError(text: string): string | null
+export declare function renderTemplate(text: string, values: TemplateValues): string
+export declare function templateValues(
+    config: { agentName: string; companyName: string; language: string; tone: string; coachingPolicies?: Policy[] },
+    context?: { agent?: Pick<StaffRef, 'name'> | null; customer?: CustomerInfo | null }
+): TemplateValues
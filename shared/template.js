@@ -0,0 +1,61 @@
+// ─── Prompt templates ───
+// The welcome message and the prompts may use {{variables}} filled in from the tenant's settings and the
+// conversation at hand, e.g. "My name is {{agentName}}". A variable may name a fallback for when its value is
+// unknown: {{customer.name | there}}. The server renders with templateValues(); the admin panel previews the same
+// way with sample data and checks templateError() before saving, as the server does.
+
+// Every variable a template may use, with the description the admin panel lists
+export const TEMPLATE_VARIABLES = {
+    agentName: 'Name of the agent handling the conversation, or the configured agent name',
+    companyName: 'Company name',
+    language: 'Language code, e.g. en-US',
+    tone: 'Configured tone, e.g. professional',
+    'customer.name': "Customer's name, when known",
+    'customer.email': "Customer's email, when known",
+    'customer.phone': "Customer's phone, when known",
+    enabledPolicies: 'Enabled coaching policies, one per line'
+};
+
+// Settings rendered as templates
+export const TEMPLATE_FIELDS = ['systemPrompt', 'welcomeMessage', 'coachingPrompt', 'summaryPrompt'];
+
+// {{ name }} or {{ name | fallback }}
+const TAG = /\{\{\s*([^{}|]*?)\s*(?:\|\s*([^{}]*?)\s*)?\}\}/g;
+
+/** What is wrong with a template as one message (e.g. "uses an unknown variable {{agent}}"), or null. */
+export function templateError(text) {
+    for (const [, name] of text.matchAll(TAG)) {
+        if (!name) return 'has an empty {{ }}';
+        if (!(name in TEMPLATE_VARIABLES)) return `uses an unknown variable {{${name}}}`;
+    }
+    return text.replace(TAG, '').includes('{{') ? 'has a {{ without a closing }}' : null;
+}
+
+/**
+ * `text` with every variable replaced by its value, or its fallback when the value is empty. Unknown variables
+ * are left as written, so a template saved before a variable was renamed still reads sensibly.
+ */
+export function renderTemplate(text, values) {
+    return text.replace(TAG, (tag, name, fallback = '') => {
+        if (!(name in TEMPLATE_VARIABLES)) return tag;
+        const value = values[name];
+        return value === undefined || value === null || value === '' ? fallback : String(value);
+    });
+}
+
+/** Values for the variables from a tenant's config, the agent handling the conversation and its customer. */
+export function templateValues(config, { agent = null, customer = null } = {}) {
+    return {
+        agentName: agent?.name || config.agentName,
+        companyName: config.companyName,
+        language: config.language,
+        tone: config.tone,
+        'customer.name': customer?.name,
+        'customer.email': customer?.email,
+        'customer.phone': customer?.phone,
+        enabledPolicies: (config.coachingPolicies || [])
+            .filter(p => p.enabled)
+            .map(p => `- ${p.name} (${p.priority}): ${p.description || p.name}`)
+            .join('\n')
+    };
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderTemplate, templateError, templateValues } from './template.js';
+
+const config = {
+    agentName: 'Alex',
+    companyName: 'Acme',
+    language: 'en-US',
+    tone: 'friendly',
+    coachingPolicies: [
+        { name: 'Empathy First', description: 'Acknowledge feelings first.', enabled: true, priority: 'high' },
+        { name: 'Positive Closure', description: '', enabled: true, priority: 'medium' },
+        { name: 'Upsell', description: 'Offer the annual plan.', enabled: false, priority: 'low' }
+    ]
+};
+
+test('variables are filled in, with the fallback when the value is unknown', () => {
+    const values = templateValues(config, { customer: { name: 'Sam', email: '' } });
+    assert.equal(renderTemplate('Hi {{customer.name|there}}, I am {{ agentName }} from {{companyName}}.', values), 'Hi Sam, I am Alex from Acme.');
+    assert.equal(renderTemplate('Reply to {{ customer.email | the customer }}{{customer.phone}}.', values), 'Reply to the customer.');
+});
+
+test('values come from the agent handling the conversation, then the tenant settings', () => {
+    assert.equal(templateValues(config, { agent: { name: 'Ann' } }).agentName, 'Ann');
+    assert.equal(templateValues(config, { agent: { id: 'bob' } }).agentName, 'Alex');
+    assert.equal(templateValues(config).enabledPolicies, '- Empathy First (high): Acknowledge feelings first.\n- Positive Closure (medium): Positive Closure');
+    assert.equal(templateValues({ ...config, coachingPolicies: undefined }).enabledPolicies, '');
+});
+
+test('unknown variables are left as written when rendering', () => {
+    assert.equal(renderTemplate('{{agent}} / {{ agentName }}', { agentName: 'Alex' }), '{{agent}} / Alex');
+    assert.equal(renderTemplate('No variables here.', {}), 'No variables here.');
+});
+
+test('templates with unknown variables, empty tags or unclosed braces are rejected', () => {
+    assert.equal(templateError('Hello {{customer.name | there}}, this is {{agentName}}.'), null);
+    assert.equal(templateError('Hello {{agent}}'), 'uses an unknown variable {{agent}}');
+    assert.equal(templateError('Hello {{ }}'), 'has an empty {{ }}');
+    assert.equal(templateError('Hello {{ | friend}}'), 'has an empty {{ }}');
+    assert.equal(templateError('Hello {{agentName'), 'has a {{ without a closing }}');
+});
@@ -1,12 +1,20 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react'
-import { io } from 'socket.io-client'
+import KnowledgeSidebar from './components/KnowledgeSidebar'
+import PolicyAlerts from './components/PolicyAlerts'
+import type { Coaching, CoachingFailure, ConversationRef, KnowledgeSnippet } from './lib/api'
+import { API_URL, authFetch, getCurrentUser, hasRole, logout } from './lib/auth'
+import { coachingFailures, useLiveCoaching } from './lib/coaching'
+import { customerLink, fetchCurrentTenant, Tenant } from './lib/tenant'
+import { describeHandoff, describeTransferStatus, Handoff, Transfer, TransferMode, Whisper } from './lib/transfer'
+import { AgentStatus, Conversation, Escalation, staffSocket } from './lib/socket'
 
-const API_URL = import.meta.env.VITE_API_URL || ''
-const socket = io(API_URL || window.location.origin)
+const socket = staffSocket()
 
 
-// --- Coaching Analysis Engine ---
-type CoachingInsight = { label: string; color: 'green' | 'blue' | 'amber' | 'rose'; tip: string }
+// --- Offline Coaching Engine ---
+// Keyword heuristics and built-in articles. Chats are coached by the server's AI and knowledge base; the agent
+// can switch to this engine, and it takes over on its own when the server has no AI provider.
+type CoachingInsight = Coaching['insights'][number]
 type KBArticle = { title: string; summary: string; doc: string; relevance: number }
 
 const TOPIC_KB: Record<string, KBArticle> = {
@@ -221,29 +229,268 @@ function analyzeConversation(messages: { role: string; text: string }[]) {
     return { kbArticles, insights, nextAction, sentiment, empathyScore, scriptScore, escalationProb, smartReplies: uniqueReplies }
 }
 
+type CoachingMode = 'ai' | 'offline'
+// What the coaching panel shows, from the server's AI or the offline engine; metrics and articles are offline only
+type CoachingView = Partial<Coaching> & { metrics?: { empathy: number; script: number }; articles?: KBArticle[] }
+
+const sentimentStyles: Record<Coaching['sentiment'], { className: string; emoji: string }> = {
+    positive: { className: 'bg-green-50 border-green-100 text-green-600', emoji: '😊' },
+    neutral: { className: 'bg-white border-slate-200 text-slate-600', emoji: '😐' },
+    negative: { className: 'bg-rose-50 border-rose-100 text-rose-600', emoji: '😤' },
+    frustrated: { className: 'bg-orange-50 border-orange-100 text-orange-600', emoji: '😠' },
+}
+
+const insightColors: Record<CoachingInsight['color'], string> = {
+    green: 'bg-emerald-50 border-emerald-100 text-emerald-700',
+    blue: 'bg-blue-50 border-blue-100 text-blue-700',
+    amber: 'bg-amber-50 border-amber-100 text-amber-700',
+    rose: 'bg-rose-50 border-rose-100 text-rose-700',
+}
+
+// Marks a chat a critical policy violation flagged for escalation
+const EscalationBadge: React.FC<{ escalation: Escalation }> = ({ escalation }) => (
+    <span title={`${escalation.policyName}: “${escalation.evidence}”`} className="shrink-0 px-1.5 py-0.5 rounded-full bg-rose-100 text-rose-600 text-[9px] font-bold">Escalated</span>
+);
+
+// The coaching sidebar, shared by the desktop column and the mobile drawer
+const CoachingPanel: React.FC<{
+    coaching: CoachingView
+    offline: boolean
+    aiAvailable: boolean
+    onModeChange: (mode: CoachingMode) => void
+    loading: boolean
+    error: CoachingFailure | null
+    snippets: KnowledgeSnippet[]
+    query: string
+    conversation: ConversationRef | null
+    monitoring: boolean
+    onPickReply: (reply: string) => void
+}> = ({ coaching, offline, aiAvailable, onModeChange, loading, error, snippets, query, conversation, monitoring, onPickReply }) => {
+    const replies = coaching.smartReplies || [];
+    const risk = coaching.escalationRisk;
+    const sentiment = sentimentStyles[coaching.sentiment || 'neutral'];
+    return (
+        <>
+            <section>
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Coaching</h3>
+                    <span
+                        title={!offline && error ? coachingFailures[error] : undefined}
+                        className={`px-2 py-0.5 rounded-full text-[9px] font-bold ${offline ? 'bg-slate-100 text-slate-500' : loading ? 'bg-amber-50 text-amber-600' : error ? 'bg-rose-50 text-rose-500' : coaching.nextAction ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}
+                    >
+                        {offline ? 'Offline' : loading ? 'Thinking...' : error ? 'Error' : coaching.nextAction ? 'AI ✨' : 'Waiting'}
+                    </span>
+                </div>
+                <div className="flex bg-slate-200/60 rounded-lg p-0.5 text-[10px] font-bold">
+                    {(['ai', 'offline'] as const).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => onModeChange(mode)}
+                            disabled={mode === 'ai' && !aiAvailable}
+                            className={`flex-1 py-1 rounded-md transition-colors disabled:cursor-not-allowed ${(mode === 'offline') === offline ? 'bg-white text-slate-700 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                            {mode === 'ai' ? 'AI' : 'Offline'}
+                        </button>
+                    ))}
+                </div>
+                {!aiAvailable && <p className="mt-2 text-[10px] text-slate-400 italic">No AI provider is configured, so coaching runs offline.</p>}
+                {!offline && monitoring && <p className="mt-2 text-[10px] text-slate-400 italic">AI coaching goes to the agent handling this chat.</p>}
+            </section>
+            {conversation && coaching.nextAction && (
+                <section>
+                    <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Next Action</h3>
+                    <div className="bg-gradient-to-br from-indigo-50 to-purple-50 border border-indigo-100 rounded-xl p-4">
+                        <p className="text-[12px] text-indigo-800 font-semibold leading-relaxed">{coaching.nextAction}</p>
+                    </div>
+                </section>
+            )}
+            {conversation && <PolicyAlerts verdicts={coaching.policies} />}
+            <section>
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Smart Replies</h3>
+                <div className="space-y-2">
+                    {replies.map((reply, idx) => (
+                        <button key={idx} onClick={() => onPickReply(reply)} className="w-full text-left bg-white hover:bg-blue-50 p-3 rounded-xl border border-slate-200 text-[11px] text-slate-600 font-medium transition-all shadow-sm">{reply}</button>
+                    ))}
+                    {conversation && replies.length === 0 && <p className="text-[10px] text-slate-400 italic">{offline ? 'Listening for topics...' : loading ? 'Thinking...' : 'Waiting for the conversation...'}</p>}
+                    {!conversation && <p className="text-[10px] text-slate-400 italic">Select a chat to see suggestions</p>}
+                </div>
+            </section>
+            <section>
+                <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Sentiment</h3>
+                <div className={`p-4 rounded-xl border flex items-center gap-3 ${sentiment.className}`}>
+                    <span className="text-xl">{sentiment.emoji}</span>
+                    <span className="text-xs font-bold uppercase">{coaching.sentiment || 'neutral'}</span>
+                </div>
+            </section>
+            {conversation && risk !== undefined && (
+                <section>
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className={`text-[10px] font-bold uppercase tracking-widest ${risk > 70 ? 'text-rose-600' : 'text-slate-400'}`}>Escalation Risk</h3>
+                        <span className={`text-xs font-black ${risk > 70 ? 'text-rose-600' : 'text-slate-600'}`}>{risk}%</span>
+                    </div>
+                    <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden">
+                        <div className={`h-full transition-all duration-500 ${risk > 70 ? 'bg-rose-500' : risk > 40 ? 'bg-amber-400' : 'bg-emerald-400'}`} style={{ width: `${risk}%` }}></div>
+                    </div>
+                    {risk > 70 && <p className="mt-2 text-[10px] font-medium text-rose-600/80 leading-tight">Risk is critically high. Keep your tone calm and offer a concrete solution to de-escalate.</p>}
+                </section>
+            )}
+            {conversation && (coaching.insights?.length || 0) > 0 && (
+                <section>
+                    <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Insights</h3>
+                    <div className="space-y-2">
+                        {coaching.insights!.map((insight, idx) => (
+                            <div key={idx} className={`p-3 rounded-xl border text-[11px] ${insightColors[insight.color]}`}>
+                                <p className="font-bold mb-0.5">{insight.label}</p>
+                                <p className="opacity-80">{insight.tip}</p>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+            {!offline && conversation && <KnowledgeSidebar autoSnippets={snippets} autoQuery={query} conversation={conversation} apiUrl={API_URL} />}
+            {coaching.metrics && (
+                <section>
+                    <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Metrics</h3>
+                    <div className="space-y-4">
+                        <div>
+                            <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1"><span>Empathy</span><span>{coaching.metrics.empathy}%</span></div>
+                            <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden"><div className="h-full bg-green-500" style={{ width: `${coaching.metrics.empathy}%` }}></div></div>
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1"><span>Script</span><span>{coaching.metrics.script}%</span></div>
+                            <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden"><div className="h-full bg-blue-500" style={{ width: `${coaching.metrics.script}%` }}></div></div>
+                        </div>
+                    </div>
+                </section>
+            )}
+            {conversation && (coaching.articles?.length || 0) > 0 && (
+                <section>
+                    <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Articles</h3>
+                    <div className="space-y-2">
+                        {coaching.articles!.map(article => (
+                            <div key={article.doc} className="p-3 bg-white rounded-xl border border-slate-200 text-[11px]">
+                                <p className="font-bold text-slate-700 mb-0.5">{article.title}</p>
+                                <p className="text-slate-500">{article.summary}</p>
+                                <p className="mt-1 text-[9px] font-bold uppercase text-slate-400">{article.doc}</p>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+        </>
+    );
+}
+
 const App: React.FC = () => {
-    const [conversations, setConversations] = useState<any[]>([]);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
     const [activeConvId, setActiveConvId] = useState<string | null>(null);
     const [messages, setMessages] = useState<{ id?: string, role: string, text: string, time: string }[]>([]);
     const [timer, setTimer] = useState("00:00");
     const [agentInput, setAgentInput] = useState('');
     const [customerTyping, setCustomerTyping] = useState(false);
     const [companyName, setCompanyName] = useState('AgentOS');
+    const [tenant, setTenant] = useState<Tenant | null>(null);
     const [summaryText, setSummaryText] = useState<string | null>(null);
     const [showSummary, setShowSummary] = useState(false);
     const [summaryLoading, setSummaryLoading] = useState(false);
     const [showMobileSidebar, setShowMobileSidebar] = useState(false);
     const [showMobileCoaching, setShowMobileCoaching] = useState(false);
+    const [available, setAvailable] = useState(true);
+    const [capacity, setCapacity] = useState(3);
+    const [assignmentError, setAssignmentError] = useState<string | null>(null);
+    const [agents, setAgents] = useState<AgentStatus[]>([]);
+    const [transferOffers, setTransferOffers] = useState<Transfer[]>([]);
+    const [pendingTransfer, setPendingTransfer] = useState<Transfer | null>(null);
+    const [showTransfer, setShowTransfer] = useState(false);
+    const [transferForm, setTransferForm] = useState<{ toAgentId: string; mode: TransferMode; note: string }>({ toAgentId: '', mode: 'warm', note: '' });
+    const [monitoring, setMonitoring] = useState(false);
+    const [whispers, setWhispers] = useState<Whisper[]>([]);
+    const [whisperInput, setWhisperInput] = useState('');
+    const [coachingMode, setCoachingMode] = useState<CoachingMode>('ai');
+    const [aiAvailable, setAiAvailable] = useState(true);
     const chatEndRef = useRef<HTMLDivElement>(null);
     const timerRef = useRef(0);
+    const currentUser = getCurrentUser();
+    const isSupervisor = hasRole(currentUser, 'supervisor');
+
+    // Sidebar notices share the assignment error slot
+    const showNotice = (text: string) => {
+        setAssignmentError(text);
+        setTimeout(() => setAssignmentError(null), 4000);
+    };
 
     useEffect(() => {
         socket.emit('register', { role: 'agent' });
 
-        socket.on('update_conversations', (updatedConvs: any[]) => {
+        socket.on('update_conversations', (updatedConvs) => {
             setConversations(updatedConvs);
         });
 
+        socket.on('routing_status', ({ agents, capacity }) => {
+            setCapacity(capacity);
+            setAgents(agents);
+            const me = agents.find(a => a.id === currentUser?.id);
+            if (me) setAvailable(me.available);
+        });
+
+        // Auto-assigned chats open straight away when the agent is not already in one;
+        // accepted transfers and take-overs open because the agent just asked for them
+        socket.on('conversation_assigned', ({ conversationId, handoff }) => {
+            if (!activeConvId || (handoff && handoff.mode !== 'cold')) {
+                setActiveConvId(conversationId);
+                setMonitoring(false);
+                setMessages([]);
+                setWhispers([]);
+                socket.emit('join_conversation', conversationId);
+            } else if (handoff) {
+                showNotice(describeHandoff(handoff));
+            }
+        });
+
+        // A chat this agent held now belongs to someone else
+        socket.on('handed_off', ({ kind, id, handoff }) => {
+            if (kind !== 'chat') return;
+            setPendingTransfer(prev => prev?.targetId === id ? null : prev);
+            if (id === activeConvId && !monitoring) { setActiveConvId(null); setMessages([]); setWhispers([]); }
+            showNotice(handoff.mode === 'takeover' ? `${handoff.to.name} took over a chat` : `Chat transferred to ${handoff.to.name}`);
+        });
+
+        socket.on('transfer_offered', (transfer) => {
+            if (transfer.kind === 'chat') setTransferOffers(prev => [...prev.filter(t => t.id !== transfer.id), transfer]);
+        });
+
+        socket.on('transfer_updated', ({ transfer, status }) => {
+            if (transfer.kind !== 'chat') return;
+            if (transfer.from.id === currentUser?.id) {
+                setPendingTransfer(status === 'pending' ? transfer : null);
+                if (status !== 'pending') showNotice(describeTransferStatus(transfer, status));
+            }
+            if (status !== 'pending') setTransferOffers(prev => prev.filter(t => t.id !== transfer.id));
+        });
+
+        socket.on('transfer_error', ({ kind, error }) => {
+            if (!kind || kind === 'chat') showNotice(error);
+        });
+
+        socket.on('whisper_history', ({ kind, id, whispers }) => {
+            if (kind === 'chat' && id === activeConvId) setWhispers(whispers);
+        });
+
+        socket.on('whisper', ({ kind, id, whisper }) => {
+            if (kind === 'chat' && id === activeConvId) setWhispers(prev => [...prev, whisper]);
+        });
+
+        // Sent to the chat's agent and to supervisors; the flag itself arrives with the conversation lists
+        socket.on('escalation_flagged', ({ kind, id, escalation }) => {
+            if (kind === 'chat') showNotice(`${id === activeConvId ? 'This chat' : 'A chat'} was flagged for escalation: ${escalation.policyName}`);
+        });
+
+        socket.on('assignment_error', ({ conversationId, error }) => {
+            setAssignmentError(error);
+            if (conversationId === activeConvId) { setActiveConvId(null); setMessages([]); }
+            setTimeout(() => setAssignmentError(null), 4000);
+        });
+
         socket.on('chat_history', (history) => {
             setMessages(history);
         });
@@ -274,12 +521,17 @@ const App: React.FC = () => {
             }
         });
 
-        fetch(`${API_URL}/api/admin/config`)
+        fetchCurrentTenant().then(setTenant);
+
+        authFetch(`${API_URL}/api/config/public`)
             .then(r => r.json())
-            .then(c => { if (c.companyName) setCompanyName(c.companyName); })
+            .then(c => {
+                if (c.companyName) setCompanyName(c.companyName);
+                setAiAvailable(c.aiCoaching !== false);
+            })
             .catch(() => { });
 
-        socket.on('config_updated', (config: any) => {
+        socket.on('config_updated', (config) => {
             if (config.companyName) setCompanyName(config.companyName);
         });
 
@@ -293,6 +545,16 @@ const App: React.FC = () => {
         return () => {
             clearInterval(interval);
             socket.off('update_conversations');
+            socket.off('routing_status');
+            socket.off('conversation_assigned');
+            socket.off('handed_off');
+            socket.off('transfer_offered');
+            socket.off('transfer_updated');
+            socket.off('transfer_error');
+            socket.off('whisper_history');
+            socket.off('whisper');
+            socket.off('escalation_flagged');
+            socket.off('assignment_error');
             socket.off('chat_history');
             socket.off('new_message');
             socket.off('user_typing');
@@ -300,28 +562,99 @@ const App: React.FC = () => {
             socket.off('config_updated');
             socket.off('conversation_ended');
         };
-    }, [activeConvId]);
+    }, [activeConvId, monitoring]);
 
     useEffect(() => {
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages, customerTyping]);
+    }, [messages, customerTyping, whispers]);
+
+    const stopMonitoring = () => {
+        if (monitoring && activeConvId) socket.emit('monitor_stop', { kind: 'chat', id: activeConvId });
+        setMonitoring(false);
+    };
 
     const handleSelectConversation = (id: string) => {
+        stopMonitoring();
         setActiveConvId(id);
         setMessages([]);
+        setWhispers([]);
         socket.emit('join_conversation', id);
         setShowMobileSidebar(false);
     };
 
+    // Supervisors follow a colleague's chat without the customer noticing
+    const handleMonitorConversation = (id: string) => {
+        stopMonitoring();
+        setActiveConvId(id);
+        setMonitoring(true);
+        setMessages([]);
+        setWhispers([]);
+        socket.emit('monitor_start', { kind: 'chat', id });
+        setShowMobileSidebar(false);
+    };
+
+    const handleStopMonitoring = () => {
+        stopMonitoring();
+        setActiveConvId(null);
+        setMessages([]);
+        setWhispers([]);
+    };
+
+    const handleTakeOver = (id: string) => {
+        if (!confirm('Take over this chat? The current agent will be removed from it.')) return;
+        socket.emit('take_over', { kind: 'chat', id });
+    };
+
+    const handleSendWhisper = () => {
+        if (!whisperInput.trim() || !activeConvId) return;
+        socket.emit('whisper', { kind: 'chat', id: activeConvId, text: whisperInput });
+        setWhisperInput('');
+    };
+
+    const handleRequestTransfer = () => {
+        if (!activeConvId || !transferForm.toAgentId) return;
+        socket.emit('transfer_request', { kind: 'chat', id: activeConvId, ...transferForm });
+        setShowTransfer(false);
+        setTransferForm({ toAgentId: '', mode: 'warm', note: '' });
+    };
+
+    const handleAnswerTransfer = (transfer: Transfer, accept: boolean) => {
+        socket.emit(accept ? 'transfer_accept' : 'transfer_decline', { transferId: transfer.id });
+        setTransferOffers(prev => prev.filter(t => t.id !== transfer.id));
+    };
+
+    const handleReleaseConversation = () => {
+        if (!activeConvId) return;
+        socket.emit('release_conversation', activeConvId);
+        setActiveConvId(null);
+        setMessages([]);
+    };
+
+    const toggleAvailability = () => {
+        socket.emit('set_availability', { available: !available });
+        setAvailable(!available);
+    };
+
+    const myConversations = conversations.filter(c => c.status === 'active' && c.assignedAgent?.id === currentUser?.id);
+    const queuedConversations = conversations.filter(c => c.status === 'waiting').sort((a, b) => (a.queuePosition ?? 0) - (b.queuePosition ?? 0));
+    const teamConversations = conversations.filter(c => c.status === 'active' && c.assignedAgent?.id !== currentUser?.id);
+    const activeConv = conversations.find(c => c.id === activeConvId);
+    const lastHandoff: Handoff | undefined = activeConv?.handoffs?.[activeConv.handoffs.length - 1];
+    const transferCandidates = agents.filter(a => a.id !== currentUser?.id);
+    const waitTime = (since: string) => {
+        const mins = Math.floor((Date.now() - new Date(since).getTime()) / 60000);
+        return mins < 1 ? '<1m' : `${mins}m`;
+    };
+
     const handleSendAgentMessage = () => {
         if (!agentInput.trim() || !activeConvId) return;
-        socket.emit('send_message', { conversationId: activeConvId, text: agentInput, role: 'agent' });
+        socket.emit('send_message', { conversationId: activeConvId, text: agentInput });
         setAgentInput('');
     };
 
     const handlePlayTTS = async (text: string, index: number) => {
         try {
-            const response = await fetch('/api/tts', {
+            const response = await authFetch(`${API_URL}/api/tts`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ text })
@@ -334,17 +667,47 @@ const App: React.FC = () => {
         } catch (error) { console.error('Error playing TTS:', error); }
     };
 
-    const coaching = useMemo(() => analyzeConversation(messages), [messages]);
+    // Coaching streams to the agent handling the chat, so a monitoring supervisor gets none
+    const live = useLiveCoaching(socket, activeConvId && !monitoring ? { kind: 'chat', id: activeConvId } : null);
+    const offline = coachingMode === 'offline' || !aiAvailable;
+    const offlineCoaching = useMemo(() => offline ? analyzeConversation(messages) : null, [offline, messages]);
+    const coaching: CoachingView = offlineCoaching
+        ? {
+            nextAction: offlineCoaching.nextAction,
+            smartReplies: offlineCoaching.smartReplies,
+            sentiment: offlineCoaching.sentiment,
+            insights: offlineCoaching.insights,
+            escalationRisk: offlineCoaching.escalationProb,
+            metrics: { empathy: offlineCoaching.empathyScore, script: offlineCoaching.scriptScore },
+            articles: offlineCoaching.kbArticles
+        }
+        : live.coaching || {};
+    const coachingPanel = (onPickReply: (reply: string) => void) => (
+        <CoachingPanel
+            coaching={coaching}
+            offline={offline}
+            aiAvailable={aiAvailable}
+            onModeChange={setCoachingMode}
+            loading={live.loading}
+            error={live.error}
+            snippets={live.snippets}
+            query={live.query}
+            conversation={activeConvId ? { kind: 'chat', id: activeConvId } : null}
+            monitoring={monitoring}
+            onPickReply={onPickReply}
+        />
+    );
 
     const handleClearChat = async () => {
         if (!activeConvId || !confirm('Clear all chat messages for this conversation?')) return;
         try {
-            await fetch(`${API_URL}/api/admin/chat-history`, {
+            const res = await authFetch(`${API_URL}/api/admin/chat-history`, {
                 method: 'DELETE',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ conversationId: activeConvId })
             });
-            setMessages([]);
+            if (res.ok) setMessages([]);
+            else alert((await res.json()).error || 'Failed to clear chat');
         } catch (e) { console.error('Failed to clear chat:', e); }
     };
 
@@ -352,7 +715,7 @@ const App: React.FC = () => {
         if (!activeConvId) return;
         setSummaryLoading(true);
         try {
-            const res = await fetch(`${API_URL}/api/admin/generate-summary`, {
+            const res = await authFetch(`${API_URL}/api/admin/generate-summary`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ conversationId: activeConvId })
@@ -370,7 +733,7 @@ const App: React.FC = () => {
         if (!activeConvId || !confirm('End this conversation? A summary will be generated and chat will be closed.')) return;
         setSummaryLoading(true);
         try {
-            const res = await fetch(`${API_URL}/api/admin/end-conversation`, {
+            const res = await authFetch(`${API_URL}/api/admin/end-conversation`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ conversationId: activeConvId })
@@ -406,8 +769,13 @@ const App: React.FC = () => {
                     </div>
                     <div className="bg-blue-50 text-blue-600 px-2 md:px-3 py-0.5 md:py-1 rounded-full text-[9px] md:text-[10px] font-bold ring-1 ring-blue-100 flex items-center gap-1.5 transition-all">
                         <span className="w-1.5 h-1.5 bg-blue-500 rounded-full animate-pulse"></span>
-                        {conversations.length} <span className="hidden sm:inline">Active</span> {conversations.length === 1 ? 'Session' : 'Sessions'}
+                        {myConversations.length}/{capacity} <span className="hidden sm:inline">Chats</span> · {queuedConversations.length} <span className="hidden sm:inline">Waiting</span>
                     </div>
+                    <button onClick={toggleAvailability} title={available ? 'Stop receiving new chats' : 'Start receiving new chats'}
+                        className={`px-2 md:px-3 py-0.5 md:py-1 rounded-full text-[9px] md:text-[10px] font-bold ring-1 flex items-center gap-1.5 transition-all ${available ? 'bg-emerald-50 text-emerald-600 ring-emerald-100' : 'bg-slate-100 text-slate-500 ring-slate-200'}`}>
+                        <span className={`w-1.5 h-1.5 rounded-full ${available ? 'bg-emerald-500' : 'bg-slate-400'}`}></span>
+                        {available ? 'Available' : 'Away'}
+                    </button>
                 </div>
                 <div className="flex items-center gap-3 md:gap-8">
                     <div className="hidden sm:flex items-center gap-4 text-slate-500 font-medium text-xs">
@@ -421,11 +789,12 @@ const App: React.FC = () => {
                             <svg xmlns="http://www.w3.org/2000/svg" className="w-3.5 h-3.5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 006 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" clipRule="evenodd" /></svg>
                             <span className="hidden xs:inline">Voice</span>
                         </a>
-                        <a href="/customer" target="_blank" className="hidden sm:inline text-[10px] md:text-xs font-bold text-indigo-600 hover:text-indigo-700 transition-colors">Customer View</a>
+                        <a href={customerLink('/customer', tenant)} target="_blank" className="hidden sm:inline text-[10px] md:text-xs font-bold text-indigo-600 hover:text-indigo-700 transition-colors">Customer View</a>
                         <button onClick={() => setShowMobileCoaching(!showMobileCoaching)} className="md:hidden p-1.5 rounded-lg bg-emerald-50 text-emerald-600 hover:bg-emerald-100 transition-colors">
                             <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
                         </button>
-                        <a href="/admin" target="_blank" className="hidden sm:inline text-[10px] md:text-xs font-bold text-slate-500 hover:text-slate-700 transition-colors">Admin</a>
+                        {currentUser?.role === 'admin' && <a href="/admin" target="_blank" className="hidden sm:inline text-[10px] md:text-xs font-bold text-slate-500 hover:text-slate-700 transition-colors">Admin</a>}
+                        <button onClick={logout} title={currentUser ? `Signed in as ${currentUser.email}` : undefined} className="text-[10px] md:text-xs font-bold text-slate-400 hover:text-rose-500 transition-colors">Sign out</button>
                     </div>
                 </div>
             </header>
@@ -433,25 +802,77 @@ const App: React.FC = () => {
             <main className="flex-1 flex overflow-hidden relative">
                 <aside className={`fixed inset-y-0 left-0 z-40 w-64 bg-slate-50 border-r border-slate-200 flex flex-col transition-transform duration-300 transform md:relative md:translate-x-0 ${showMobileSidebar ? 'translate-x-0 shadow-2xl' : '-translate-x-full'}`}>
                     <div className="p-4 border-b border-slate-200 bg-white flex items-center justify-between">
-                        <h2 className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">Active Chats</h2>
+                        <h2 className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">Chats</h2>
                         <button onClick={() => setShowMobileSidebar(false)} className="md:hidden text-slate-400 p-1"><svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l18 18" /></svg></button>
                     </div>
+                    {assignmentError && <div className="mx-2 mt-2 px-3 py-2 rounded-lg bg-rose-50 text-rose-600 text-[10px] font-bold">{assignmentError}</div>}
+                    {transferOffers.map(transfer => (
+                        <div key={transfer.id} className="mx-2 mt-2 p-3 rounded-xl bg-indigo-50 border border-indigo-100">
+                            <p className="text-[10px] font-bold text-indigo-700 uppercase tracking-wider">Transfer from {transfer.from.name}</p>
+                            {transfer.note && <p className="text-[11px] text-slate-600 mt-1 whitespace-pre-wrap">{transfer.note}</p>}
+                            <div className="flex gap-2 mt-2">
+                                <button onClick={() => handleAnswerTransfer(transfer, true)} className="flex-1 px-2 py-1 rounded-lg bg-indigo-600 text-white text-[10px] font-bold hover:bg-indigo-700 transition-colors">Accept</button>
+                                <button onClick={() => handleAnswerTransfer(transfer, false)} className="flex-1 px-2 py-1 rounded-lg bg-white text-slate-500 text-[10px] font-bold border border-slate-200 hover:bg-slate-100 transition-colors">Decline</button>
+                            </div>
+                        </div>
+                    ))}
                     <div className="flex-1 overflow-y-auto py-2">
-                        {conversations.length === 0 ? (
-                            <div className="p-8 text-center text-slate-400 text-[10px] font-bold uppercase tracking-wider">No active chats</div>
+                        <h3 className="px-4 pt-2 pb-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest">My Chats</h3>
+                        {myConversations.length === 0 ? (
+                            <div className="p-4 text-center text-slate-400 text-[10px] font-bold uppercase tracking-wider">No active chats</div>
                         ) : (
-                            conversations.map(conv => (
+                            myConversations.map(conv => (
                                 <div key={conv.id} onClick={() => handleSelectConversation(conv.id)} className={`mx-2 mb-1 p-3 rounded-xl cursor-pointer transition-all border ${activeConvId === conv.id ? 'bg-white border-blue-200 shadow-md ring-1 ring-blue-50' : 'bg-transparent border-transparent hover:bg-slate-200/50'}`}>
                                     <div className="flex items-center gap-3">
                                         <div className={`shrink-0 w-8 h-8 rounded-lg flex items-center justify-center font-bold text-xs shadow-sm ${activeConvId === conv.id ? 'bg-blue-600 text-white' : 'bg-white text-slate-400 border border-slate-200'}`}>{conv.customerInfo?.name?.charAt(0) || 'C'}</div>
                                         <div className="flex-1 min-w-0">
-                                            <p className={`text-[12px] font-bold truncate ${activeConvId === conv.id ? 'text-slate-800' : 'text-slate-500'}`}>{conv.customerInfo?.name || 'Customer'}</p>
+                                            <div className="flex items-center gap-1.5">
+                                                <p className={`text-[12px] font-bold truncate ${activeConvId === conv.id ? 'text-slate-800' : 'text-slate-500'}`}>{conv.customerInfo?.name || 'Customer'}</p>
+                                                {conv.escalation && <EscalationBadge escalation={conv.escalation} />}
+                                            </div>
                                             <p className="text-[10px] text-slate-400 truncate mt-0.5">{conv.messages.length > 0 ? conv.messages[conv.messages.length - 1].text : 'New chat'}</p>
                                         </div>
                                     </div>
                                 </div>
                             ))
                         )}
+
+                        <h3 className="px-4 pt-4 pb-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest">Queue</h3>
+                        {queuedConversations.length === 0 ? (
+                            <div className="p-4 text-center text-slate-400 text-[10px] font-bold uppercase tracking-wider">Nobody waiting</div>
+                        ) : (
+                            queuedConversations.map(conv => (
+                                <div key={conv.id} className="mx-2 mb-1 p-3 rounded-xl border border-transparent hover:bg-slate-200/50 transition-all flex items-center gap-3">
+                                    <div className="shrink-0 w-8 h-8 rounded-lg flex items-center justify-center font-bold text-[10px] bg-amber-50 text-amber-600 border border-amber-100">#{conv.queuePosition}</div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-[12px] font-bold truncate text-slate-500">{conv.customerInfo?.name || 'Customer'}</p>
+                                        <p className="text-[10px] text-slate-400 truncate mt-0.5">
+                                            Waiting {waitTime(conv.queuedAt || conv.startTime)}{conv.priority && conv.priority !== 'normal' && <span className="ml-1 font-bold uppercase text-rose-500">{conv.priority}</span>}
+                                        </p>
+                                    </div>
+                                    <button onClick={() => handleSelectConversation(conv.id)} className="shrink-0 px-2.5 py-1 rounded-lg bg-blue-600 text-white text-[10px] font-bold hover:bg-blue-700 transition-colors">Claim</button>
+                                </div>
+                            ))
+                        )}
+
+                        {teamConversations.length > 0 && <>
+                            <h3 className="px-4 pt-4 pb-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest">Team</h3>
+                            {teamConversations.map(conv => (
+                                <div key={conv.id} className={`mx-2 mb-1 p-3 rounded-xl flex items-center gap-3 border ${monitoring && activeConvId === conv.id ? 'bg-white border-amber-200 shadow-md' : 'border-transparent opacity-70'}`}>
+                                    <div className="shrink-0 w-8 h-8 rounded-lg flex items-center justify-center font-bold text-xs bg-white text-slate-400 border border-slate-200">{conv.customerInfo?.name?.charAt(0) || 'C'}</div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-1.5">
+                                            <p className="text-[12px] font-bold truncate text-slate-500">{conv.customerInfo?.name || 'Customer'}</p>
+                                            {conv.escalation && <EscalationBadge escalation={conv.escalation} />}
+                                        </div>
+                                        <p className="text-[10px] text-slate-400 truncate mt-0.5">with {conv.assignedAgent?.name || 'an agent'}</p>
+                                    </div>
+                                    {isSupervisor && (
+                                        <button onClick={() => handleMonitorConversation(conv.id)} title="Listen in without the customer noticing" className="shrink-0 px-2.5 py-1 rounded-lg bg-amber-500 text-white text-[10px] font-bold hover:bg-amber-600 transition-colors">Monitor</button>
+                                    )}
+                                </div>
+                            ))}
+                        </>}
                     </div>
                 </aside>
 
@@ -462,6 +883,17 @@ const App: React.FC = () => {
                         <div className="flex-1 flex flex-col bg-white overflow-hidden relative">
                             <div className="flex-1 overflow-y-auto px-4 md:px-8 py-4 md:py-6 space-y-4 md:space-y-6 flex flex-col items-center custom-scrollbar">
                                 <div className="w-full max-w-2xl space-y-4 md:space-y-6">
+                                    {monitoring && (
+                                        <div className="px-4 py-2.5 rounded-xl bg-amber-50 border border-amber-100 text-[11px] text-amber-700 font-bold">
+                                            Monitoring {activeConv?.customerInfo?.name || 'this chat'} with {activeConv?.assignedAgent?.name || 'an agent'} — the customer cannot see you.
+                                        </div>
+                                    )}
+                                    {!monitoring && lastHandoff && lastHandoff.to.id === currentUser?.id && (
+                                        <div className="px-4 py-2.5 rounded-xl bg-indigo-50 border border-indigo-100">
+                                            <p className="text-[10px] font-bold text-indigo-700 uppercase tracking-wider">{describeHandoff(lastHandoff)}</p>
+                                            {lastHandoff.note && <p className="text-[12px] text-slate-600 mt-1 whitespace-pre-wrap">{lastHandoff.note}</p>}
+                                        </div>
+                                    )}
                                     {messages.map((m, i) => (
                                         <div key={i} className="flex gap-4 group/msg">
                                             <span className="shrink-0 w-8 text-[10px] font-bold text-slate-300 mt-1">{m.time}</span>
@@ -474,6 +906,15 @@ const App: React.FC = () => {
                                             </div>
                                         </div>
                                     ))}
+                                    {whispers.map(w => (
+                                        <div key={w.id} className="flex gap-4">
+                                            <span className="shrink-0 w-8 text-[10px] font-bold text-slate-300 mt-1">{w.time}</span>
+                                            <div className="flex-1">
+                                                <span className="block mb-1.5 px-1 text-[10px] font-bold uppercase tracking-wider text-amber-600">Whisper · {w.from.name}</span>
+                                                <div className="p-3 md:p-4 rounded-2xl text-[12px] md:text-[13px] leading-relaxed bg-amber-50 text-amber-900 border border-dashed border-amber-200">{w.text}</div>
+                                            </div>
+                                        </div>
+                                    ))}
                                     {customerTyping && (
                                         <div className="flex gap-4">
                                             <span className="shrink-0 w-8"></span>
@@ -489,17 +930,38 @@ const App: React.FC = () => {
                             </div>
 
                             <div className="p-4 md:p-6 border-t border-slate-200 bg-white z-10">
+                                {monitoring ? (
+                                    <div className="w-full max-w-2xl mx-auto space-y-3 md:space-y-4">
+                                        <div className="flex items-center gap-2 md:gap-3">
+                                            <input className="flex-1 bg-amber-50 border border-amber-200 rounded-xl py-2.5 md:py-3 px-3 md:px-4 text-[13px] md:text-sm focus:outline-none focus:ring-2 focus:ring-amber-200 transition-all font-medium" placeholder={`Whisper to ${activeConv?.assignedAgent?.name || 'the agent'}...`} value={whisperInput} onChange={e => setWhisperInput(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSendWhisper()} />
+                                            <button onClick={handleSendWhisper} className="px-4 md:px-6 py-2.5 md:py-3 bg-amber-500 rounded-xl text-white text-[13px] md:text-sm font-bold hover:bg-amber-600 transition-all shadow-md shrink-0">Whisper</button>
+                                        </div>
+                                        <div className="flex flex-wrap gap-2 md:gap-3 pt-2 md:pt-3 border-t border-slate-100">
+                                            <button onClick={() => activeConvId && handleTakeOver(activeConvId)} className="text-[9px] md:text-[10px] font-bold text-rose-600 hover:text-rose-700 transition-colors uppercase tracking-wider">Take Over</button>
+                                            <button onClick={handleStopMonitoring} className="text-[9px] md:text-[10px] font-bold text-slate-500 hover:text-slate-700 ml-auto transition-colors uppercase tracking-wider">Stop Monitoring</button>
+                                        </div>
+                                    </div>
+                                ) : (
                                 <div className="w-full max-w-2xl mx-auto space-y-3 md:space-y-4">
+                                    {pendingTransfer?.targetId === activeConvId && (
+                                        <div className="flex items-center justify-between px-3 py-2 rounded-xl bg-indigo-50 text-indigo-700 text-[11px] font-bold">
+                                            <span>{describeTransferStatus(pendingTransfer, 'pending')}</span>
+                                            <button onClick={() => socket.emit('transfer_decline', { transferId: pendingTransfer.id })} className="text-[10px] uppercase tracking-wider text-indigo-500 hover:text-indigo-700">Cancel</button>
+                                        </div>
+                                    )}
                                     <div className="flex items-center gap-2 md:gap-3">
                                         <input className="flex-1 bg-slate-50 border border-slate-200 rounded-xl py-2.5 md:py-3 px-3 md:px-4 text-[13px] md:text-sm focus:outline-none focus:ring-2 focus:ring-blue-200 transition-all font-medium" placeholder="Type your reply..." value={agentInput} onChange={e => setAgentInput(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSendAgentMessage()} />
                                         <button onClick={handleSendAgentMessage} className="px-4 md:px-6 py-2.5 md:py-3 bg-blue-600 rounded-xl text-white text-[13px] md:text-sm font-bold hover:bg-blue-700 transition-all shadow-md shrink-0">Send</button>
                                     </div>
                                     <div className="flex flex-wrap gap-2 md:gap-3 pt-2 md:pt-3 border-t border-slate-100">
                                         <button onClick={handleClearChat} className="text-[9px] md:text-[10px] font-bold text-slate-500 hover:text-red-500 transition-colors uppercase tracking-wider">Clear</button>
+                                        <button onClick={handleReleaseConversation} title="Return this customer to the queue" className="text-[9px] md:text-[10px] font-bold text-amber-600 hover:text-amber-700 transition-colors uppercase tracking-wider">Release</button>
+                                        <button onClick={() => setShowTransfer(true)} disabled={!!pendingTransfer} title="Hand this customer to another agent" className="text-[9px] md:text-[10px] font-bold text-indigo-600 hover:text-indigo-700 disabled:opacity-40 transition-colors uppercase tracking-wider">Transfer</button>
                                         <button onClick={handleGenerateSummary} disabled={summaryLoading} className="text-[9px] md:text-[10px] font-bold text-emerald-600 hover:text-emerald-700 transition-colors uppercase tracking-wider">Summary</button>
                                         <button onClick={handleEndConversation} disabled={summaryLoading} className="text-[9px] md:text-[10px] font-bold text-rose-600 hover:text-rose-700 ml-auto transition-colors uppercase tracking-wider">End Session</button>
                                     </div>
                                 </div>
+                                )}
                             </div>
                         </div>
                     ) : (
@@ -508,7 +970,7 @@ const App: React.FC = () => {
                                 <svg xmlns="http://www.w3.org/2000/svg" className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
                             </div>
                             <h2 className="text-xl font-bold text-slate-800">Select a conversation</h2>
-                            <p className="text-slate-400 mt-2 text-sm max-w-xs">Pick a customer from the left sidebar to start chatting and view real-time coaching insights.</p>
+                            <p className="text-slate-400 mt-2 text-sm max-w-xs">New customers are assigned to you automatically while you are available, or claim one from the queue in the left sidebar.</p>
                         </div>
                     )}
 
@@ -520,74 +982,58 @@ const App: React.FC = () => {
                             </div>
                             <div className="flex-1 overflow-y-auto space-y-8 pr-1 custom-scrollbar">
                                 <aside className="w-full space-y-8">
-                                    <section>
-                                        <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Smart Replies</h3>
-                                        <div className="space-y-2">
-                                            {coaching.smartReplies.map((reply: string, idx: number) => (
-                                                <button key={idx} onClick={() => { setAgentInput(reply); setShowMobileCoaching(false); }} className="w-full text-left bg-white hover:bg-blue-50 p-3 rounded-xl border border-slate-200 text-[11px] text-slate-600 font-medium transition-all shadow-sm">{reply}</button>
-                                            ))}
-                                            {activeConvId && coaching.smartReplies.length === 0 && <p className="text-[10px] text-slate-400 italic">Listening for topics...</p>}
-                                        </div>
-                                    </section>
-                                    <section>
-                                        <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Sentiment</h3>
-                                        <div className={`p-4 rounded-xl border flex items-center gap-3 ${coaching.sentiment === 'negative' ? 'bg-rose-50 border-rose-100 text-rose-600' : coaching.sentiment === 'positive' ? 'bg-green-50 border-green-100 text-green-600' : 'bg-white border-slate-200 text-slate-600'}`}>
-                                            <span className="text-xl">{coaching.sentiment === 'positive' ? '😊' : coaching.sentiment === 'negative' ? '😤' : '😐'}</span>
-                                            <span className="text-xs font-bold uppercase">{coaching.sentiment}</span>
-                                        </div>
-                                    </section>
-                                    <section>
-                                        <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Metrics</h3>
-                                        <div className="space-y-4">
-                                            <div>
-                                                <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1"><span>Empathy</span><span>{coaching.empathyScore}%</span></div>
-                                                <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden"><div className="h-full bg-green-500" style={{ width: `${coaching.empathyScore}%` }}></div></div>
-                                            </div>
-                                            <div>
-                                                <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1"><span>Script</span><span>{coaching.scriptScore}%</span></div>
-                                                <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden"><div className="h-full bg-blue-500" style={{ width: `${coaching.scriptScore}%` }}></div></div>
-                                            </div>
-                                        </div>
-                                    </section>
+                                    {coachingPanel(reply => { setAgentInput(reply); setShowMobileCoaching(false); })}
                                 </aside>
                             </div>
                         </aside>
                     </div>
 
                     <aside className="w-72 xl:w-[340px] bg-slate-50 border-l border-slate-200 overflow-y-auto px-5 py-6 shrink-0 space-y-6 hidden md:block">
-                        <section>
-                            <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Smart Replies</h3>
-                            <div className="space-y-2">
-                                {coaching.smartReplies.map((reply: string, idx: number) => (
-                                    <button key={idx} onClick={() => setAgentInput(reply)} className="w-full text-left bg-white hover:bg-blue-50 p-3 rounded-xl border border-slate-200 text-[11px] text-slate-600 font-medium transition-all shadow-sm">{reply}</button>
-                                ))}
-                                {activeConvId && coaching.smartReplies.length === 0 && <p className="text-[10px] text-slate-400 italic">Listening for topics...</p>}
-                                {!activeConvId && <p className="text-[10px] text-slate-400 italic">Select a chat to see suggestions</p>}
+                        {coachingPanel(setAgentInput)}
+                    </aside>
+                </div>
+            </main>
+
+            {showTransfer && (
+                <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                    <div className="bg-white rounded-2xl shadow-xl max-w-md w-full flex flex-col overflow-hidden">
+                        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+                            <h3 className="font-bold text-slate-800">Transfer Chat</h3>
+                            <button onClick={() => setShowTransfer(false)} className="text-slate-400 hover:text-slate-600">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Agent</label>
+                                {transferCandidates.length === 0 ? (
+                                    <p className="text-xs text-slate-400">No other agents are online.</p>
+                                ) : (
+                                    <select value={transferForm.toAgentId} onChange={e => setTransferForm({ ...transferForm, toAgentId: e.target.value })} className="w-full bg-slate-50 border border-slate-200 rounded-xl py-2.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-200">
+                                        <option value="">Choose an agent…</option>
+                                        {transferCandidates.map(a => (
+                                            <option key={a.id} value={a.id} disabled={a.load >= a.capacity}>{a.name} — {a.load}/{a.capacity}{a.available ? '' : ' · away'}</option>
+                                        ))}
+                                    </select>
+                                )}
                             </div>
-                        </section>
-                        <section>
-                            <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Sentiment</h3>
-                            <div className={`p-4 rounded-xl border flex items-center gap-3 ${coaching.sentiment === 'negative' ? 'bg-rose-50 border-rose-100 text-rose-600' : coaching.sentiment === 'positive' ? 'bg-green-50 border-green-100 text-green-600' : 'bg-white border-slate-200 text-slate-600'}`}>
-                                <span className="text-xl">{coaching.sentiment === 'positive' ? '😊' : coaching.sentiment === 'negative' ? '😤' : '😐'}</span>
-                                <span className="text-xs font-bold uppercase">{coaching.sentiment}</span>
+                            <div className="flex gap-2">
+                                {(['warm', 'cold'] as TransferMode[]).map(mode => (
+                                    <button key={mode} onClick={() => setTransferForm({ ...transferForm, mode })} className={`flex-1 px-3 py-2 rounded-xl text-xs font-bold border transition-colors ${transferForm.mode === mode ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}>
+                                        {mode === 'warm' ? 'Warm — they accept first' : 'Cold — hand over now'}
+                                    </button>
+                                ))}
                             </div>
-                        </section>
-                        <section>
-                            <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-4">Metrics</h3>
-                            <div className="space-y-4">
-                                <div>
-                                    <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1"><span>Empathy</span><span>{coaching.empathyScore}%</span></div>
-                                    <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden"><div className="h-full bg-green-500" style={{ width: `${coaching.empathyScore}%` }}></div></div>
-                                </div>
-                                <div>
-                                    <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1"><span>Script</span><span>{coaching.scriptScore}%</span></div>
-                                    <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden"><div className="h-full bg-blue-500" style={{ width: `${coaching.scriptScore}%` }}></div></div>
-                                </div>
+                            <div>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Handoff note</label>
+                                <textarea rows={3} value={transferForm.note} onChange={e => setTransferForm({ ...transferForm, note: e.target.value })} placeholder="What has been done so far and what the customer still needs" className="w-full bg-slate-50 border border-slate-200 rounded-xl py-2.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-200 resize-none" />
                             </div>
-                        </section>
-                    </aside>
+                        </div>
+                        <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+                            <button onClick={() => setShowTransfer(false)} className="px-4 py-2 bg-slate-50 text-slate-500 rounded-lg text-xs font-bold">Cancel</button>
+                            <button onClick={handleRequestTransfer} disabled={!transferForm.toAgentId} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-xs font-bold disabled:opacity-50">Transfer</button>
+                        </div>
+                    </div>
                 </div>
-            </main>
+            )}
 
             {showSummary && summaryText && (
                 <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -1,21 +1,71 @@
-import React, { useState, useEffect } from 'react';
-
-type KnowledgeSnippet = {
-    text: string;
-    docName: string;
-    score: number;
-};
+import React, { useState, useEffect, useRef } from 'react';
+import { authFetch } from '../lib/auth';
+import type { ConversationRef, FeedbackSignal, KnowledgeSnippet } from '../lib/api';
 
 interface KnowledgeSidebarProps {
     autoSnippets: KnowledgeSnippet[];
+    /** What the auto-suggested snippets were found for, sent with feedback on them */
+    autoQuery?: string;
+    /** The call or chat the agent is handling; feedback is recorded against it */
+    conversation?: ConversationRef;
     apiUrl: string;
 }
 
-const KnowledgeSidebar: React.FC<KnowledgeSidebarProps> = ({ autoSnippets, apiUrl }) => {
+const THUMB_UP = 'M14 9V5a3 3 0 0 0-3-3l-4 9v11h11.28a2 2 0 0 0 2-1.7l1.38-9a2 2 0 0 0-2-2.3zM7 22H4a2 2 0 0 1-2-2v-7a2 2 0 0 1 2-2h3';
+const THUMB_DOWN = 'M10 15v4a3 3 0 0 0 3 3l4-9V2H5.72a2 2 0 0 0-2 1.7l-1.38 9a2 2 0 0 0 2 2.3zm7-13h2.67A2.31 2.31 0 0 1 22 4v7a2.31 2.31 0 0 1-2.33 2H17';
+
+const FeedbackButtons: React.FC<{ vote?: FeedbackSignal; onVote: (signal: 'up' | 'down') => void; tone: 'indigo' | 'emerald' }> = ({ vote, onVote, tone }) => (
+    <div className="flex items-center gap-1 relative z-10">
+        {([['up', THUMB_UP, 'Helpful'], ['down', THUMB_DOWN, 'Not helpful']] as const).map(([signal, path, label]) => (
+            <button
+                key={signal}
+                onClick={() => onVote(signal)}
+                title={label}
+                aria-label={label}
+                aria-pressed={vote === signal}
+                className={`p-1 rounded-md transition-colors ${vote === signal
+                    ? signal === 'up' ? 'text-emerald-600 bg-emerald-100' : 'text-rose-600 bg-rose-100'
+                    : tone === 'indigo' ? 'text-slate-300 hover:text-indigo-600' : 'text-emerald-300 hover:text-emerald-700'}`}
+            >
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={path} /></svg>
+            </button>
+        ))}
+    </div>
+);
+
+const KnowledgeSidebar: React.FC<KnowledgeSidebarProps> = ({ autoSnippets, autoQuery, conversation, apiUrl }) => {
     const [searchQuery, setSearchQuery] = useState('');
     const [searchResults, setSearchResults] = useState<KnowledgeSnippet[]>([]);
+    // The query the manual results answer; the input may have changed since
+    const [searchedQuery, setSearchedQuery] = useState('');
     const [isSearching, setIsSearching] = useState(false);
     const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+    // Thumbs given in this conversation by snippet id, and the snippets already reported as used
+    const [votes, setVotes] = useState<Record<string, 'up' | 'down'>>({});
+    const usedRef = useRef(new Set<string>());
+
+    useEffect(() => {
+        setVotes({});
+        usedRef.current = new Set();
+    }, [conversation?.kind, conversation?.id]);
+
+    const sendFeedback = async (snippet: KnowledgeSnippet, signal: FeedbackSignal, query?: string) => {
+        try {
+            await authFetch(`${apiUrl}/api/knowledge/feedback`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ chunkId: snippet.id, signal, query: query || undefined, conversation })
+            });
+        } catch (error) {
+            console.error('[KnowledgeSidebar] Feedback error:', error);
+        }
+    };
+
+    const vote = (snippet: KnowledgeSnippet, signal: 'up' | 'down', query?: string) => {
+        if (votes[snippet.id] === signal) return;
+        setVotes(prev => ({ ...prev, [snippet.id]: signal }));
+        sendFeedback(snippet, signal, query);
+    };
 
     const handleSearch = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -23,14 +73,15 @@ const KnowledgeSidebar: React.FC<KnowledgeSidebarProps> = ({ autoSnippets, apiUr
 
         setIsSearching(true);
         try {
-            const res = await fetch(`${apiUrl}/api/knowledge/search`, {
+            const res = await authFetch(`${apiUrl}/api/knowledge/search`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ query: searchQuery, limit: 3 })
+                body: JSON.stringify({ query: searchQuery, limit: 3, conversation })
             });
             const data = await res.json();
             if (data.results) {
                 setSearchResults(data.results);
+                setSearchedQuery(searchQuery);
             }
         } catch (error) {
             console.error('[KnowledgeSidebar] Search error:', error);
@@ -39,10 +90,15 @@ const KnowledgeSidebar: React.FC<KnowledgeSidebarProps> = ({ autoSnippets, apiUr
         }
     };
 
-    const copyToClipboard = (text: string, index: number) => {
-        navigator.clipboard.writeText(text);
+    // Copying a snippet means it is going into a reply, which counts as it being used
+    const copySnippet = (snippet: KnowledgeSnippet, index: number, query?: string) => {
+        navigator.clipboard.writeText(snippet.text);
         setCopiedIndex(index);
         setTimeout(() => setCopiedIndex(null), 2000);
+        if (!usedRef.current.has(snippet.id)) {
+            usedRef.current.add(snippet.id);
+            sendFeedback(snippet, 'used', query);
+        }
     };
 
     return (
@@ -93,22 +149,26 @@ const KnowledgeSidebar: React.FC<KnowledgeSidebarProps> = ({ autoSnippets, apiUr
                     </div>
                     <div className="space-y-3">
                         {searchResults.map((snippet, i) => (
-                            <div key={`search-${i}`} className="bg-white border border-indigo-50 rounded-xl p-3 text-[11px] leading-relaxed shadow-sm hover:shadow-md transition-shadow relative group">
+                            <div key={`search-${snippet.id}`} className="bg-white border border-indigo-50 rounded-xl p-3 text-[11px] leading-relaxed shadow-sm hover:shadow-md transition-shadow relative group">
                                 <div className="flex items-center justify-between mb-1.5">
                                     <span className="text-[8px] md:text-[9px] font-black uppercase text-indigo-400 px-1.5 py-0.5 bg-indigo-50 rounded truncate max-w-[120px]">
                                         {snippet.docName}
                                     </span>
-                                    <button
-                                        onClick={() => copyToClipboard(snippet.text, i + 100)}
-                                        className="text-[10px] font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 shrink-0"
-                                    >
-                                        {copiedIndex === i + 100 ? (
-                                            <><span className="text-emerald-500">✓</span> Copied</>
-                                        ) : (
-                                            <><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg> Copy</>
-                                        )}
-                                    </button>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <FeedbackButtons vote={votes[snippet.id]} onVote={signal => vote(snippet, signal, searchedQuery)} tone="indigo" />
+                                        <button
+                                            onClick={() => copySnippet(snippet, i + 100, searchedQuery)}
+                                            className="text-[10px] font-bold text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1 shrink-0"
+                                        >
+                                            {copiedIndex === i + 100 ? (
+                                                <><span className="text-emerald-500">✓</span> Copied</>
+                                            ) : (
+                                                <><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg> Copy</>
+                                            )}
+                                        </button>
+                                    </div>
                                 </div>
+                                {snippet.headings?.length > 0 && <p className="text-[9px] font-semibold text-slate-400 mb-1 truncate">{snippet.headings.join(' › ')}</p>}
                                 <p className="text-slate-700 italic">"{snippet.text}"</p>
                             </div>
                         ))}
@@ -138,7 +198,7 @@ const KnowledgeSidebar: React.FC<KnowledgeSidebarProps> = ({ autoSnippets, apiUr
                 ) : (
                     <div className="space-y-3 pb-4">
                         {autoSnippets.map((snippet, i) => (
-                            <div key={`auto-${i}`} className="bg-gradient-to-br from-emerald-50/50 to-white border border-emerald-100 rounded-2xl p-4 text-[11px] leading-relaxed shadow-sm hover:shadow-md hover:border-emerald-200 transition-all group relative overflow-hidden">
+                            <div key={`auto-${snippet.id}`} className="bg-gradient-to-br from-emerald-50/50 to-white border border-emerald-100 rounded-2xl p-4 text-[11px] leading-relaxed shadow-sm hover:shadow-md hover:border-emerald-200 transition-all group relative overflow-hidden">
                                 <div className="absolute top-0 right-0 w-24 h-24 bg-emerald-100/20 rounded-full -mr-12 -mt-12 transition-transform group-hover:scale-110" />
 
                                 <div className="flex items-center justify-between mb-2 relative z-10">
@@ -146,20 +206,24 @@ const KnowledgeSidebar: React.FC<KnowledgeSidebarProps> = ({ autoSnippets, apiUr
                                         <svg className="w-2.5 h-2.5 shrink-0" fill="currentColor" viewBox="0 0 20 20"><path d="M9 4.804A7.968 7.968 0 005.5 4c-1.255 0-2.434.29-3.48.804v10a7.969 7.969 0 013.48-.804c1.336 0 2.59.322 3.696.895 1.106-.573 2.36-.895 3.696-.895a7.969 7.969 0 013.48.804v-10A7.968 7.968 0 0014.5 4c-1.255 0-2.434.29-3.48.804V4.804z" /></svg>
                                         {snippet.docName}
                                     </span>
-                                    <button
-                                        onClick={() => copyToClipboard(snippet.text, i)}
-                                        className="opacity-0 group-hover:opacity-100 md:opacity-0 md:group-hover:opacity-100 text-[10px] font-black text-emerald-700 underline decoration-emerald-300 underline-offset-2 transition-opacity shrink-0 ml-2"
-                                    >
-                                        {copiedIndex === i ? 'COPIED!' : 'COPY'}
-                                    </button>
-                                    {/* Mobile-only visible button indicator */}
-                                    <button
-                                        onClick={() => copyToClipboard(snippet.text, i)}
-                                        className="md:hidden text-[9px] font-black text-emerald-600 bg-emerald-100/50 px-2 py-1 rounded truncate ml-2"
-                                    >
-                                        {copiedIndex === i ? 'COPIED!' : 'COPY'}
-                                    </button>
+                                    <div className="flex items-center shrink-0 relative z-10">
+                                        <FeedbackButtons vote={votes[snippet.id]} onVote={signal => vote(snippet, signal, autoQuery)} tone="emerald" />
+                                        <button
+                                            onClick={() => copySnippet(snippet, i, autoQuery)}
+                                            className="opacity-0 group-hover:opacity-100 md:opacity-0 md:group-hover:opacity-100 text-[10px] font-black text-emerald-700 underline decoration-emerald-300 underline-offset-2 transition-opacity shrink-0 ml-2"
+                                        >
+                                            {copiedIndex === i ? 'COPIED!' : 'COPY'}
+                                        </button>
+                                        {/* Mobile-only visible button indicator */}
+                                        <button
+                                            onClick={() => copySnippet(snippet, i, autoQuery)}
+                                            className="md:hidden text-[9px] font-black text-emerald-600 bg-emerald-100/50 px-2 py-1 rounded truncate ml-2"
+                                        >
+                                            {copiedIndex === i ? 'COPIED!' : 'COPY'}
+                                        </button>
+                                    </div>
                                 </div>
+                                {snippet.headings?.length > 0 && <p className="text-[9px] font-semibold text-emerald-600/70 mb-1 truncate relative z-10">{snippet.headings.join(' › ')}</p>}
                                 <p className="text-emerald-900 font-medium relative z-10">"{snippet.text}"</p>
                             </div>
                         ))}
@@ -0,0 +1,45 @@
+import React from 'react';
+import type { PolicyPriority, PolicyVerdict } from '../lib/api';
+
+const priorityStyles: Record<PolicyPriority, string> = {
+    critical: 'bg-rose-50 border-rose-200 text-rose-700',
+    high: 'bg-orange-50 border-orange-200 text-orange-700',
+    medium: 'bg-amber-50 border-amber-100 text-amber-700',
+    low: 'bg-slate-50 border-slate-200 text-slate-600',
+};
+
+/**
+ * Policy verdicts of the live coaching: each violation as an alert quoting the conversation, in the order the
+ * server sends them (most important first), and a tally of the policies followed or not yet relevant.
+ */
+const PolicyAlerts: React.FC<{ verdicts?: PolicyVerdict[] }> = ({ verdicts }) => {
+    if (!verdicts?.length) return null;
+    const violations = verdicts.filter(v => v.verdict === 'violation');
+    const followed = verdicts.filter(v => v.verdict === 'pass');
+    const pending = verdicts.filter(v => v.verdict === 'not_applicable');
+
+    return (
+        <section>
+            <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-2">Policy Compliance</h3>
+            <div className="space-y-2">
+                {violations.map(v => (
+                    <div key={v.policyId} className={`p-3 rounded-xl border text-[11px] ${priorityStyles[v.priority]}`}>
+                        <div className="flex items-center justify-between gap-2 mb-0.5">
+                            <p className="font-bold">⚠️ {v.name}</p>
+                            <span className="text-[9px] font-black uppercase tracking-wider opacity-70">{v.priority}</span>
+                        </div>
+                        {v.evidence && <p className="opacity-80 italic">“{v.evidence}”</p>}
+                    </div>
+                ))}
+                <p className="text-[10px] text-slate-400">
+                    {violations.length === 0 && <span className="font-bold text-emerald-600">No violations · </span>}
+                    <span title={followed.map(v => v.name).join(', ')}>{followed.length} followed</span>
+                    {' · '}
+                    <span title={pending.map(v => v.name).join(', ')}>{pending.length} not applicable yet</span>
+                </p>
+            </div>
+        </section>
+    );
+};
+
+export default PolicyAlerts;
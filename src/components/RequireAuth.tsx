@@ -0,0 +1,32 @@
+import React from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { getCurrentUser, getToken, hasRole, Role } from '../lib/auth'
+
+interface RequireAuthProps {
+    role?: Role
+    children: React.ReactElement
+}
+
+// Route guard for staff pages — redirects to /login when there is no session or the role is too low
+const RequireAuth: React.FC<RequireAuthProps> = ({ role = 'agent', children }) => {
+    const location = useLocation()
+    const user = getCurrentUser()
+
+    if (!getToken() || !user) {
+        return <Navigate to={`/login?next=${encodeURIComponent(location.pathname)}`} replace />
+    }
+
+    if (!hasRole(user, role)) {
+        return (
+            <div className="flex flex-col items-center justify-center h-screen bg-slate-50 text-center p-8">
+                <h2 className="text-lg font-bold text-slate-800">Access denied</h2>
+                <p className="text-sm text-slate-400 mt-2">This page requires the <strong>{role}</strong> role. You are signed in as {user.email} ({user.role}).</p>
+                <a href="/" className="mt-4 text-xs font-bold text-blue-600 hover:text-blue-700">Back to Agent Console</a>
+            </div>
+        )
+    }
+
+    return children
+}
+
+export default RequireAuth
@@ -0,0 +1,16 @@
+import type { ApiError } from '../../shared/api'
+
+// ─── REST API ───
+// Request and response types of every /api route live in shared/api.d.ts; failures share one body (ApiError).
+
+export type {
+    AdminConfig, AgentSettings, ApiError, ApiRoutes, ChunkingSettings, ChunkingStrategy, Coaching, CoachingFailure, ConversationRef, FeedbackSignal, KnowledgeDocument, KnowledgeFeedbackReport, KnowledgeGapTopic,
+    KnowledgeSnippet, KnowledgeSource, SourceSettings, SourceType, Policy, PolicyPriority, PolicyVerdict, RetrievalSettings, Revision, RevisionDiff, Transcript, TranscriptItem, TranscriptLine
+} from '../../shared/api'
+
+/** Message for a failed request, naming every field the server rejected, e.g. "agentCapacity must be at least 1". */
+export function describeApiError(body: Partial<ApiError> | null, fallback: string): string {
+    if (!body?.error) return fallback
+    if (!body.fields) return body.error
+    return Object.entries(body.fields).map(([field, message]) => `${field} ${message}`).join(' · ')
+}
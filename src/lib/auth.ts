@@ -0,0 +1,62 @@
+// ─── Staff session (agents, supervisors, admins) ───
+// The server issues a signed session token on login; it is kept in localStorage
+// and sent as a Bearer header on REST calls and in the Socket.IO handshake.
+
+export type Role = 'agent' | 'supervisor' | 'admin'
+export type AuthUser = { id: string; email: string; name: string; role: Role; tenantId?: string; createdAt?: string }
+
+const TOKEN_KEY = 'agentos_token'
+const USER_KEY = 'agentos_user'
+const ROLES: Role[] = ['agent', 'supervisor', 'admin']
+
+export const API_URL = import.meta.env.VITE_API_URL || ''
+
+export function getToken(): string | null {
+    return localStorage.getItem(TOKEN_KEY)
+}
+
+export function getCurrentUser(): AuthUser | null {
+    try {
+        const raw = localStorage.getItem(USER_KEY)
+        return raw ? JSON.parse(raw) as AuthUser : null
+    } catch {
+        return null
+    }
+}
+
+export function hasRole(user: AuthUser | null, minimumRole: Role): boolean {
+    return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(minimumRole)
+}
+
+export async function login(email: string, password: string): Promise<AuthUser> {
+    const res = await fetch(`${API_URL}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+    })
+    const data = await res.json()
+    if (!res.ok || !data.token) throw new Error(data.error || 'Sign-in failed')
+    localStorage.setItem(TOKEN_KEY, data.token)
+    localStorage.setItem(USER_KEY, JSON.stringify(data.user))
+    return data.user
+}
+
+export function logout() {
+    localStorage.removeItem(TOKEN_KEY)
+    localStorage.removeItem(USER_KEY)
+    window.location.href = '/login'
+}
+
+/** fetch() with the session token attached. An expired session sends the user back to /login. */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers)
+    const token = getToken()
+    if (token) headers.set('Authorization', `Bearer ${token}`)
+    const res = await fetch(input, { ...init, headers })
+    if (res.status === 401) {
+        localStorage.removeItem(TOKEN_KEY)
+        localStorage.removeItem(USER_KEY)
+        window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`
+    }
+    return res
+}
@@ -0,0 +1,75 @@
+// ─── Live coaching ───
+// The server coaches chats and calls itself after every new line and streams the result to the agent handling
+// them (coaching_update, coaching_error). See server/services/coachingService.js.
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Coaching, CoachingFailure, ConversationRef, KnowledgeSnippet } from './api'
+import type { AppSocket, CoachingUpdate } from './socket'
+
+/** Shown on the coaching badge when no coaching came back. */
+export const coachingFailures: Record<CoachingFailure, string> = {
+    provider_error: 'The AI provider did not answer',
+    unparseable: 'The AI reply could not be read',
+    invalid_schema: 'The AI reply was incomplete, even after a retry',
+}
+
+/**
+ * Coaching the server streams for `conversation`, merged field by field as it arrives. Updates for an older
+ * turn are dropped, and the previous advice stays on screen until its replacement streams in. `snippets` are
+ * the knowledge found for `query`, the line the coaching answers.
+ */
+export function useLiveCoaching(socket: AppSocket, conversation: ConversationRef | null) {
+    const [coaching, setCoaching] = useState<Partial<Coaching> | null>(null)
+    const [snippets, setSnippets] = useState<KnowledgeSnippet[]>([])
+    const [query, setQuery] = useState('')
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<CoachingFailure | null>(null)
+    // Latest turn of the conversation seen so far
+    const turnRef = useRef(0)
+    const kind = conversation?.kind
+    const id = conversation?.id
+
+    useEffect(() => {
+        turnRef.current = 0
+        setCoaching(null)
+        setSnippets([])
+        setQuery('')
+        setLoading(false)
+        setError(null)
+        if (!kind || !id) return
+
+        const handleUpdate = (update: CoachingUpdate) => {
+            if (update.kind !== kind || update.id !== id || update.turn < turnRef.current) return
+            if (update.turn > turnRef.current) {
+                turnRef.current = update.turn
+                setError(null)
+            }
+            if (update.knowledgeContext) setSnippets(update.knowledgeContext)
+            if (update.query !== undefined) setQuery(update.query)
+            setCoaching(prev => update.done ? update.coaching : { ...prev, ...update.coaching })
+            setLoading(!update.done)
+        }
+        const handleError = (failure: ConversationRef & { turn: number; reason: CoachingFailure }) => {
+            if (failure.kind !== kind || failure.id !== id || failure.turn < turnRef.current) return
+            setError(failure.reason)
+            setLoading(false)
+        }
+
+        socket.on('coaching_update', handleUpdate)
+        socket.on('coaching_error', handleError)
+        return () => {
+            socket.off('coaching_update', handleUpdate)
+            socket.off('coaching_error', handleError)
+        }
+    }, [socket, kind, id])
+
+    /** Forget the coaching on screen, e.g. when the transcript is cleared. */
+    const clear = useCallback(() => {
+        setCoaching(null)
+        setError(null)
+    }, [])
+    /** Stop waiting for coaching in progress; ending a conversation cancels it on the server. */
+    const stop = useCallback(() => setLoading(false), [])
+
+    return { coaching, snippets, query, loading, error, clear, stop }
+}
@@ -0,0 +1,24 @@
+import { io, Socket } from 'socket.io-client'
+import type { ClientToServerEvents, ServerToClientEvents } from '../../shared/protocol'
+import { API_URL, getToken } from './auth'
+import { getTenantApiKey } from './tenant'
+
+// ─── Socket.IO ───
+// Every page talks to the server over one socket typed by the shared protocol (shared/protocol.d.ts),
+// so event names and payloads are checked at compile time here and validated again on the server.
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>
+
+export type {
+    AgentStatus, ChatMessage, ChatRole, CoachingUpdate, ConfigUpdate, Conversation, CustomerInfo, DocumentProgress, Escalation, LiveCall, TranscriptEntry, VoiceColleague
+} from '../../shared/protocol'
+
+/** Socket for staff pages; the current session token is sent on every (re)connect. */
+export function staffSocket(): AppSocket {
+    return io(API_URL || window.location.origin, { auth: cb => cb({ token: getToken() }) })
+}
+
+/** Socket for anonymous customer pages, tied to a tenant by its embed API key. */
+export function customerSocket(): AppSocket {
+    return io(API_URL || window.location.origin, { auth: { apiKey: getTenantApiKey() } })
+}
@@ -0,0 +1,16 @@
+// ─── Prompt templates ───
+// The server fills the {{variables}} of the welcome message and the prompts (shared/template.js); the admin
+// panel checks them and previews them with a sample customer.
+
+import { templateValues } from '../../shared/template'
+import type { Policy } from './api'
+
+export { renderTemplate, TEMPLATE_FIELDS, TEMPLATE_VARIABLES, templateError } from '../../shared/template'
+export type { TemplateField, TemplateVariable } from '../../shared/template'
+
+/** The customer previews are rendered for. */
+export const SAMPLE_CUSTOMER = { name: 'Jane Cooper', email: 'jane.cooper@example.com', phone: '+1 555 0142' }
+
+/** Variable values for a preview of unsaved settings; `agentName` is the configured name, as before a chat is assigned. */
+export const previewValues = (settings: { agentName: string; companyName: string; language: string; tone: string; policies: Policy[] }) =>
+    templateValues({ ...settings, coachingPolicies: settings.policies }, { customer: SAMPLE_CUSTOMER })
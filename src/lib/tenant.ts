@@ -0,0 +1,43 @@
+import { API_URL, authFetch } from './auth'
+
+// ─── Tenants ───
+// Staff are pinned to the tenant of their account. Anonymous customer pages are
+// matched by hostname, or by an embed API key passed as `?key=` on the page URL.
+
+export type Tenant = { id: string; name: string; hostnames: string[]; apiKeys: string[]; createdAt?: string }
+
+export const DEFAULT_TENANT_ID = 'default'
+
+const API_KEY_STORAGE = 'agentos_tenant_key'
+
+/** API key from `?key=`, remembered for the rest of the browser session. */
+export function getTenantApiKey(): string | null {
+    const fromUrl = new URLSearchParams(window.location.search).get('key')
+    if (fromUrl) sessionStorage.setItem(API_KEY_STORAGE, fromUrl)
+    return fromUrl || sessionStorage.getItem(API_KEY_STORAGE)
+}
+
+/** Headers identifying the tenant on anonymous REST calls. */
+export function tenantHeaders(): Record<string, string> {
+    const apiKey = getTenantApiKey()
+    return apiKey ? { 'X-API-Key': apiKey } : {}
+}
+
+export async function fetchCurrentTenant(): Promise<Tenant | null> {
+    try {
+        const res = await authFetch(`${API_URL}/api/admin/tenant`)
+        return res.ok ? await res.json() as Tenant : null
+    } catch {
+        return null
+    }
+}
+
+/** Link to a customer page that lands in `tenant`, adding its API key unless the hostname already maps to it. */
+export function customerLink(pathname: string, tenant: Tenant | null, params: Record<string, string> = {}): string {
+    const url = new URL(pathname, window.location.origin)
+    Object.entries(params).forEach(([k, v]) => url.searchParams.set(k, v))
+    if (tenant && tenant.id !== DEFAULT_TENANT_ID && tenant.apiKeys[0] && !tenant.hostnames.includes(window.location.hostname)) {
+        url.searchParams.set('key', tenant.apiKeys[0])
+    }
+    return url.toString()
+}
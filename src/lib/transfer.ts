@@ -0,0 +1,21 @@
+// ─── Transfers & supervision ───
+// Chats and calls move between staff members with a handoff record the next agent can read,
+// and supervisors can whisper to whoever is handling a conversation. See server/services/transferService.js.
+
+import type { Handoff, Transfer, TransferStatus } from '../../shared/protocol'
+
+export type { ConversationKind, Handoff, StaffRef, Transfer, TransferMode, TransferStatus, Whisper } from '../../shared/protocol'
+
+/** One line for the agent who just received a conversation, e.g. "Transferred by Sam (warm)". */
+export function describeHandoff(handoff: Handoff): string {
+    if (handoff.mode === 'takeover') return `${handoff.to.name} took over${handoff.from ? ` from ${handoff.from.name}` : ''}`
+    return `Transferred by ${handoff.from?.name || 'a colleague'} (${handoff.mode})`
+}
+
+/** What the sending agent sees when a warm transfer does not go through. */
+export function describeTransferStatus(transfer: Transfer, status: TransferStatus): string {
+    if (status === 'declined') return `${transfer.to.name} declined the transfer`
+    if (status === 'expired') return `${transfer.to.name} did not answer the transfer`
+    if (status === 'cancelled') return 'Transfer cancelled'
+    return `Waiting for ${transfer.to.name} to accept…`
+}
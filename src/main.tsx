@@ -6,16 +6,19 @@ import CustomerChat from './pages/CustomerChat'
 import AdminPanel from './pages/AdminPanel'
 import VoiceAgent from './pages/VoiceAgent'
 import VoiceCustomer from './pages/VoiceCustomer'
+import Login from './pages/Login'
+import RequireAuth from './components/RequireAuth'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
     <React.StrictMode>
         <BrowserRouter>
             <Routes>
-                <Route path="/" element={<App />} />
+                <Route path="/" element={<RequireAuth><App /></RequireAuth>} />
+                <Route path="/login" element={<Login />} />
                 <Route path="/customer" element={<CustomerChat />} />
-                <Route path="/admin" element={<AdminPanel />} />
-                <Route path="/voice" element={<VoiceAgent />} />
+                <Route path="/admin" element={<RequireAuth role="admin"><AdminPanel /></RequireAuth>} />
+                <Route path="/voice" element={<RequireAuth><VoiceAgent /></RequireAuth>} />
                 <Route path="/voice/customer" element={<VoiceCustomer />} />
             </Routes>
         </BrowserRouter>
@@ -1,11 +1,31 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { getAdminTheme, setAdminTheme } from '../lib/firebase'
+import { authFetch, AuthUser, getCurrentUser, logout, Role } from '../lib/auth'
+import { customerLink, DEFAULT_TENANT_ID, fetchCurrentTenant, Tenant } from '../lib/tenant'
+import { staffSocket, DocumentProgress } from '../lib/socket'
+import { previewValues, renderTemplate, SAMPLE_CUSTOMER, TEMPLATE_FIELDS, TEMPLATE_VARIABLES, templateError, TemplateField, TemplateVariable } from '../lib/template'
+import { AdminConfig, ChunkingSettings, describeApiError, KnowledgeDocument, KnowledgeFeedbackReport, KnowledgeGapTopic, KnowledgeSource, Policy, PolicyPriority, RetrievalSettings, Revision, RevisionDiff, SourceType, Transcript, TranscriptItem } from '../lib/api'
 
-type Policy = { id: string; name: string; description: string; enabled: boolean; priority: string }
-type Document = { id: string; name: string; filename: string; size: number; type: string; uploadedAt: string; status: string }
+const REVISION_ACTIONS: Record<string, string> = {
+    baseline: 'Initial configuration',
+    'config.update': 'Settings saved',
+    'policy.create': 'Policy added',
+    'policy.update': 'Policy updated',
+    'policy.delete': 'Policy deleted',
+    restore: 'Restored',
+}
+
+const formatValue = (value: unknown) => value === undefined ? '(not set)' : typeof value === 'string' ? value : JSON.stringify(value, null, 2)
 
 const API = `${import.meta.env.VITE_API_URL || ''}/api/admin`
 
+const SYNC_SCHEDULES = [
+    { minutes: 0, label: 'On demand' },
+    { minutes: 60, label: 'Hourly' },
+    { minutes: 360, label: 'Every 6 hours' },
+    { minutes: 1440, label: 'Daily' },
+]
+
 
 /* ──────────────── Inline SVG Icon Component ──────────────── */
 const Icon = ({ name, className = 'w-4 h-4' }: { name: string; className?: string }) => {
@@ -23,6 +43,13 @@ const Icon = ({ name, className = 'w-4 h-4' }: { name: string; className?: strin
         save: <path strokeLinecap="round" strokeLinejoin="round" d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />,
         sun: <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />,
         moon: <path strokeLinecap="round" strokeLinejoin="round" d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />,
+        users: <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />,
+        archive: <path strokeLinecap="round" strokeLinejoin="round" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />,
+        history: <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />,
+        globe: <path strokeLinecap="round" strokeLinejoin="round" d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />,
+        refresh: <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />,
+        question: <path strokeLinecap="round" strokeLinejoin="round" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />,
+        logout: <path strokeLinecap="round" strokeLinejoin="round" d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />,
     }
     return (
         <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -32,9 +59,10 @@ const Icon = ({ name, className = 'w-4 h-4' }: { name: string; className?: strin
 }
 
 const AdminPanel: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'general' | 'prompt' | 'coaching' | 'documents'>('general')
+    const [activeTab, setActiveTab] = useState<'general' | 'prompt' | 'coaching' | 'documents' | 'gaps' | 'transcripts' | 'history' | 'team' | 'tenants'>('general')
     const [saving, setSaving] = useState(false)
     const [saved, setSaved] = useState(false)
+    const [configError, setConfigError] = useState<string | null>(null)
     const [loading, setLoading] = useState(true)
 
     // Theme — persisted to Firebase Firestore
@@ -61,90 +89,415 @@ const AdminPanel: React.FC = () => {
     const [enableTypingIndicator, setEnableTypingIndicator] = useState(true)
     const [language, setLanguage] = useState('en-US')
     const [tone, setTone] = useState('professional')
+    const [agentCapacity, setAgentCapacity] = useState(3)
+    const [autoAssign, setAutoAssign] = useState(true)
 
     // System prompt
     const [systemPrompt, setSystemPrompt] = useState('')
     const [summaryPrompt, setSummaryPrompt] = useState('')
     const [coachingPrompt, setCoachingPrompt] = useState('')
+    const [previewField, setPreviewField] = useState<TemplateField>('welcomeMessage')
 
     // Coaching policies
     const [policies, setPolicies] = useState<Policy[]>([])
     const [newPolicyName, setNewPolicyName] = useState('')
     const [newPolicyDesc, setNewPolicyDesc] = useState('')
-    const [newPolicyPriority, setNewPolicyPriority] = useState('medium')
+    const [newPolicyPriority, setNewPolicyPriority] = useState<PolicyPriority>('medium')
     const [showAddPolicy, setShowAddPolicy] = useState(false)
+    const [policyError, setPolicyError] = useState<string | null>(null)
 
     // Documents
-    const [documents, setDocuments] = useState<Document[]>([])
+    const [documents, setDocuments] = useState<KnowledgeDocument[]>([])
     const [uploading, setUploading] = useState(false)
+    const [documentError, setDocumentError] = useState<string | null>(null)
+    const [progress, setProgress] = useState<Record<string, DocumentProgress>>({})
+    const [chunkingEdit, setChunkingEdit] = useState<{ id: string; chunking: ChunkingSettings } | null>(null)
+    const [validityEdit, setValidityEdit] = useState({ effectiveFrom: '', expiresAt: '' })
+    const [historyOpen, setHistoryOpen] = useState<string | null>(null)
+    const versionInputRef = useRef<HTMLInputElement>(null)
+    const [versionTarget, setVersionTarget] = useState<string | null>(null)
+    const [versionDates, setVersionDates] = useState({ effectiveFrom: '', expiresAt: '' })
+    const [retrieval, setRetrieval] = useState<RetrievalSettings>({ vectorWeight: 0.6, lexicalWeight: 0.4, minVectorScore: 0.45, minScore: 0.25, rerank: false, feedbackWeight: 0.1, gapScore: 0.4 })
+    const [feedbackReport, setFeedbackReport] = useState<KnowledgeFeedbackReport | null>(null)
+    const [sources, setSources] = useState<KnowledgeSource[]>([])
+    const [showAddSource, setShowAddSource] = useState(false)
+    const [newSource, setNewSource] = useState<{ type: SourceType; name: string; location: string; intervalMinutes: number; watch: boolean }>({ type: 'web', name: '', location: '', intervalMinutes: 1440, watch: true })
+    const [sourceError, setSourceError] = useState<string | null>(null)
     const [dragOver, setDragOver] = useState(false)
     const fileInputRef = useRef<HTMLInputElement>(null)
 
+    // Team
+    const currentUser = getCurrentUser()
+    const [users, setUsers] = useState<AuthUser[]>([])
+    const [showAddUser, setShowAddUser] = useState(false)
+    const [newUserEmail, setNewUserEmail] = useState('')
+    const [newUserName, setNewUserName] = useState('')
+    const [newUserPassword, setNewUserPassword] = useState('')
+    const [newUserRole, setNewUserRole] = useState<Role>('agent')
+    const [userError, setUserError] = useState<string | null>(null)
+
+    // Tenants — the signed-in tenant, plus management of all tenants for platform admins
+    const [tenant, setTenant] = useState<Tenant | null>(null)
+    const isPlatformAdmin = (currentUser?.tenantId || DEFAULT_TENANT_ID) === DEFAULT_TENANT_ID
+    const [tenants, setTenants] = useState<Tenant[]>([])
+    const [showAddTenant, setShowAddTenant] = useState(false)
+    const [newTenantName, setNewTenantName] = useState('')
+    const [newTenantHostnames, setNewTenantHostnames] = useState('')
+    const [newTenantAdminEmail, setNewTenantAdminEmail] = useState('')
+    const [newTenantAdminPassword, setNewTenantAdminPassword] = useState('')
+    const [tenantError, setTenantError] = useState<string | null>(null)
+
+    // Knowledge gaps
+    const [gapDays, setGapDays] = useState(30)
+    const [gapTopics, setGapTopics] = useState<KnowledgeGapTopic[]>([])
+    const [gapTotal, setGapTotal] = useState(0)
+    const [openTopic, setOpenTopic] = useState<string | null>(null)
+
+    // Transcripts
+    const [transcripts, setTranscripts] = useState<TranscriptItem[]>([])
+    const [transcriptTotal, setTranscriptTotal] = useState(0)
+    const [transcriptFilters, setTranscriptFilters] = useState({ type: '', from: '', to: '', customer: '', sentiment: '' })
+    const [openTranscript, setOpenTranscript] = useState<Transcript | null>(null)
+
+    // Config history
+    const [revisions, setRevisions] = useState<Revision[]>([])
+    const [selectedRevision, setSelectedRevision] = useState<string | null>(null)
+    const [revisionDiff, setRevisionDiff] = useState<RevisionDiff | null>(null)
+    const [restoring, setRestoring] = useState(false)
+
+    const applyConfig = (c: AdminConfig) => {
+        setCompanyName(c.companyName || 'AgentOS')
+        setAgentName(c.agentName || 'Support Agent')
+        setWelcomeMessage(c.welcomeMessage || '')
+        setMaxResponseTime(c.maxResponseTime || 120)
+        setAutoGreeting(c.autoGreeting !== false)
+        setEnableTTS(c.enableTTS !== false)
+        setEnableTypingIndicator(c.enableTypingIndicator !== false)
+        setLanguage(c.language || 'en-US')
+        setTone(c.tone || 'professional')
+        setAgentCapacity(c.agentCapacity || 3)
+        setAutoAssign(c.autoAssign !== false)
+        setSystemPrompt(c.systemPrompt || '')
+        setSummaryPrompt(c.summaryPrompt || '')
+        setCoachingPrompt(c.coachingPrompt || '')
+        setPolicies(c.coachingPolicies || [])
+        setDocuments(c.documents || [])
+        // Settings saved before a field existed lack it; keep the default for those
+        if (c.retrieval) setRetrieval(prev => ({ ...prev, ...c.retrieval }))
+    }
+
     useEffect(() => {
-        fetch(`${API}/config`)
+        authFetch(`${API}/config`)
             .then(r => r.json())
             .then(c => {
-                setCompanyName(c.companyName || 'AgentOS')
-                setAgentName(c.agentName || 'Support Agent')
-                setWelcomeMessage(c.welcomeMessage || '')
-                setMaxResponseTime(c.maxResponseTime || 120)
-                setAutoGreeting(c.autoGreeting !== false)
-                setEnableTTS(c.enableTTS !== false)
-                setEnableTypingIndicator(c.enableTypingIndicator !== false)
-                setLanguage(c.language || 'en-US')
-                setTone(c.tone || 'professional')
-                setSystemPrompt(c.systemPrompt || '')
-                setSummaryPrompt(c.summaryPrompt || '')
-                setCoachingPrompt(c.coachingPrompt || '')
-                setPolicies(c.coachingPolicies || [])
-                setDocuments(c.documents || [])
+                applyConfig(c)
                 setLoading(false)
             })
             .catch(() => setLoading(false))
+        authFetch(`${API}/users`)
+            .then(r => r.json())
+            .then(u => { if (Array.isArray(u)) setUsers(u) })
+            .catch(() => { })
+        fetchCurrentTenant().then(setTenant)
+        if (isPlatformAdmin) {
+            authFetch(`${API}/tenants`)
+                .then(r => r.json())
+                .then(list => { if (Array.isArray(list)) setTenants(list) })
+                .catch(() => { })
+        }
     }, [])
 
+    // The welcome message and prompts as edited, checked and rendered like the server does (lib/template.ts)
+    const templates: Record<TemplateField, string> = { systemPrompt, welcomeMessage, coachingPrompt, summaryPrompt }
+    const templateErrors = Object.fromEntries(TEMPLATE_FIELDS.map(field => [field, templateError(templates[field])]))
+    const preview = (field: TemplateField) => renderTemplate(templates[field], previewValues({ agentName, companyName, language, tone, policies }))
+
     const saveConfig = async () => {
+        const invalid = TEMPLATE_FIELDS.find(field => templateErrors[field])
+        if (invalid) { setConfigError(`${invalid} ${templateErrors[invalid]}`); return }
         setSaving(true)
-        await fetch(`${API}/config`, {
+        const res = await authFetch(`${API}/config`, {
             method: 'PUT', headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ systemPrompt, companyName, agentName, welcomeMessage, maxResponseTime, autoGreeting, enableTTS, enableTypingIndicator, language, tone, summaryPrompt, coachingPrompt })
+            body: JSON.stringify({ systemPrompt, companyName, agentName, welcomeMessage, maxResponseTime, autoGreeting, enableTTS, enableTypingIndicator, language, tone, summaryPrompt, coachingPrompt, agentCapacity, autoAssign, retrieval })
         })
-        setSaving(false); setSaved(true)
+        setSaving(false)
+        if (!res.ok) { setConfigError(describeApiError(await res.json().catch(() => null), 'Could not save settings')); return }
+        setConfigError(null); setSaved(true)
         setTimeout(() => setSaved(false), 2000)
     }
 
     const addPolicy = async () => {
         if (!newPolicyName.trim()) return
-        const res = await fetch(`${API}/policies`, {
+        setPolicyError(null)
+        const res = await authFetch(`${API}/policies`, {
             method: 'POST', headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ name: newPolicyName, description: newPolicyDesc, enabled: true, priority: newPolicyPriority })
         })
         const data = await res.json()
-        if (data.success) { setPolicies(prev => [...prev, data.policy]); setNewPolicyName(''); setNewPolicyDesc(''); setNewPolicyPriority('medium'); setShowAddPolicy(false) }
+        if (!data.success) { setPolicyError(describeApiError(data, 'Failed to add policy')); return }
+        setPolicies(prev => [...prev, data.policy]); setNewPolicyName(''); setNewPolicyDesc(''); setNewPolicyPriority('medium'); setShowAddPolicy(false)
     }
 
     const togglePolicy = async (id: string) => {
         const p = policies.find(p => p.id === id); if (!p) return
-        await fetch(`${API}/policies/${id}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ enabled: !p.enabled }) })
-        setPolicies(prev => prev.map(p => p.id === id ? { ...p, enabled: !p.enabled } : p))
+        const res = await authFetch(`${API}/policies/${id}`, { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ enabled: !p.enabled }) })
+        if (res.ok) setPolicies(prev => prev.map(p => p.id === id ? { ...p, enabled: !p.enabled } : p))
     }
 
-    const deletePolicy = async (id: string) => { await fetch(`${API}/policies/${id}`, { method: 'DELETE' }); setPolicies(prev => prev.filter(p => p.id !== id)) }
+    const deletePolicy = async (id: string) => { await authFetch(`${API}/policies/${id}`, { method: 'DELETE' }); setPolicies(prev => prev.filter(p => p.id !== id)) }
 
     const uploadFile = async (file: File) => {
         setUploading(true)
         const fd = new FormData(); fd.append('file', file)
-        const res = await fetch(`${API}/documents`, { method: 'POST', body: fd })
+        const res = await authFetch(`${API}/documents`, { method: 'POST', body: fd })
         const data = await res.json()
         if (data.success) setDocuments(prev => [...prev, data.document])
         setUploading(false)
     }
 
-    const deleteDocument = async (id: string) => { await fetch(`${API}/documents/${id}`, { method: 'DELETE' }); setDocuments(prev => prev.filter(d => d.id !== id)) }
+    // Indexing runs in the background: the server pushes each job's progress and the final status of every document
+    const indexing = documents.some(d => d.status === 'processing')
+    useEffect(() => {
+        const socket = staffSocket()
+        socket.on('document_progress', p => setProgress(prev => ({ ...prev, [p.documentId]: p })))
+        socket.on('config_updated', c => { if (Array.isArray(c.documents)) setDocuments(c.documents as KnowledgeDocument[]) })
+        socket.on('source_status', source => setSources(prev => prev.some(s => s.id === source.id) ? prev.map(s => s.id === source.id ? source : s) : prev))
+        return () => { socket.disconnect() }
+    }, [])
+
+    const deleteDocument = async (id: string) => { await authFetch(`${API}/documents/${id}`, { method: 'DELETE' }); setDocuments(prev => prev.filter(d => d.id !== id)) }
+
+    const reindexDocument = async (id: string) => {
+        setDocumentError(null)
+        const res = await authFetch(`${API}/documents/${id}/reindex`, { method: 'POST' })
+        const data = await res.json()
+        if (data.success) setDocuments(prev => prev.map(d => d.id === id ? data.document : d))
+        else setDocumentError(describeApiError(data, 'Could not re-index document'))
+    }
+
+    const saveChunking = async () => {
+        if (!chunkingEdit) return
+        setDocumentError(null)
+        const res = await authFetch(`${API}/documents/${chunkingEdit.id}`, {
+            method: 'PATCH', headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ chunking: chunkingEdit.chunking })
+        })
+        const data = await res.json()
+        if (!data.success) { setDocumentError(describeApiError(data, 'Could not update chunking')); return }
+        setDocuments(prev => prev.map(d => d.id === data.document.id ? data.document : d))
+        setChunkingEdit(null)
+    }
+
+    // Dates are edited as YYYY-MM-DD; an empty field clears the date
+    const editDocument = (doc: KnowledgeDocument) => {
+        if (chunkingEdit?.id === doc.id) { setChunkingEdit(null); return }
+        setChunkingEdit({ id: doc.id, chunking: { strategy: 'structured', size: 1500, overlap: 200, ...doc.chunking } })
+        setValidityEdit({ effectiveFrom: doc.effectiveFrom?.slice(0, 10) || '', expiresAt: doc.expiresAt?.slice(0, 10) || '' })
+    }
+
+    const saveValidity = async () => {
+        if (!chunkingEdit) return
+        setDocumentError(null)
+        const res = await authFetch(`${API}/documents/${chunkingEdit.id}`, {
+            method: 'PATCH', headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ effectiveFrom: validityEdit.effectiveFrom || null, expiresAt: validityEdit.expiresAt || null })
+        })
+        const data = await res.json()
+        if (!data.success) { setDocumentError(describeApiError(data, 'Could not update dates')); return }
+        setDocuments(prev => prev.map(d => d.id === data.document.id ? data.document : d))
+        setChunkingEdit(null)
+    }
+
+    // A new version starts with the current version's dates; a later effective date schedules it
+    const openVersionUpload = (doc: KnowledgeDocument) => {
+        if (versionTarget === doc.id) { setVersionTarget(null); return }
+        setVersionTarget(doc.id)
+        setVersionDates({ effectiveFrom: doc.effectiveFrom?.slice(0, 10) || '', expiresAt: doc.expiresAt?.slice(0, 10) || '' })
+    }
+
+    const uploadVersion = async (id: string, file: File) => {
+        setDocumentError(null)
+        const fd = new FormData(); fd.append('file', file)
+        // An empty date clears it on the server
+        fd.append('effectiveFrom', versionDates.effectiveFrom); fd.append('expiresAt', versionDates.expiresAt)
+        const res = await authFetch(`${API}/documents/${id}/versions`, { method: 'POST', body: fd })
+        const data = await res.json()
+        if (data.success) { setDocuments(prev => prev.map(d => d.id === id ? data.document : d)); setVersionTarget(null) }
+        else setDocumentError(describeApiError(data, 'Could not upload new version'))
+    }
+
+    const reindexAll = async () => {
+        if (!confirm('Re-index every document? Search keeps using the current chunks until each document is rebuilt.')) return
+        setDocumentError(null)
+        const res = await authFetch(`${API}/documents/reindex`, { method: 'POST' })
+        const data = await res.json()
+        if (data.success) setDocuments(data.documents)
+        else setDocumentError(describeApiError(data, 'Could not re-index documents'))
+    }
+
+    // A web source lists one page or sitemap URL per line; a folder source takes a single path
+    const addSource = async () => {
+        setSourceError(null)
+        const { type, name, location, intervalMinutes, watch } = newSource
+        const lines = location.split('\n').map(l => l.trim()).filter(Boolean)
+        const res = await authFetch(`${API}/sources`, {
+            method: 'POST', headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(type === 'web' ? { type, name, urls: lines, intervalMinutes } : { type, name, path: lines[0] || '', intervalMinutes, watch })
+        })
+        const data = await res.json()
+        if (!data.success) { setSourceError(describeApiError(data, 'Could not add source')); return }
+        setSources(prev => [...prev, data.source]); setNewSource(prev => ({ ...prev, name: '', location: '' })); setShowAddSource(false)
+    }
+
+    const syncSource = async (id: string) => {
+        setDocumentError(null)
+        const res = await authFetch(`${API}/sources/${id}/sync`, { method: 'POST' })
+        const data = await res.json()
+        if (data.success) setSources(prev => prev.map(s => s.id === id ? data.source : s))
+        else setDocumentError(describeApiError(data, 'Could not start sync'))
+    }
+
+    const scheduleSource = async (id: string, intervalMinutes: number) => {
+        const res = await authFetch(`${API}/sources/${id}`, {
+            method: 'PATCH', headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ intervalMinutes })
+        })
+        const data = await res.json()
+        if (data.success) setSources(prev => prev.map(s => s.id === id ? data.source : s))
+        else setDocumentError(describeApiError(data, 'Could not change schedule'))
+    }
+
+    const deleteSource = async (source: KnowledgeSource) => {
+        const synced = documents.filter(d => d.source?.id === source.id).length
+        if (!confirm(`Delete source "${source.name}" and the ${synced} document(s) it synced?`)) return
+        setDocumentError(null)
+        const res = await authFetch(`${API}/sources/${source.id}`, { method: 'DELETE' })
+        if (res.ok) setSources(prev => prev.filter(s => s.id !== source.id))
+        else setDocumentError(describeApiError(await res.json(), 'Could not delete source'))
+    }
 
     const handleDrop = (e: React.DragEvent) => { e.preventDefault(); setDragOver(false); if (e.dataTransfer.files.length > 0) uploadFile(e.dataTransfer.files[0]) }
 
-    const clearChatHistory = async () => { if (confirm('Clear all chat history?')) await fetch(`${API}/chat-history`, { method: 'DELETE' }) }
+    const addUser = async () => {
+        setUserError(null)
+        const res = await authFetch(`${API}/users`, {
+            method: 'POST', headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: newUserEmail, name: newUserName, password: newUserPassword, role: newUserRole })
+        })
+        const data = await res.json()
+        if (!data.success) { setUserError(describeApiError(data, 'Failed to add user')); return }
+        setUsers(prev => [...prev, data.user]); setNewUserEmail(''); setNewUserName(''); setNewUserPassword(''); setNewUserRole('agent'); setShowAddUser(false)
+    }
+
+    const deleteUser = async (id: string) => {
+        const res = await authFetch(`${API}/users/${id}`, { method: 'DELETE' })
+        if (res.ok) setUsers(prev => prev.filter(u => u.id !== id))
+    }
+
+    // Revisions change with every save, so reload them whenever the history tab is opened
+    useEffect(() => {
+        if (activeTab !== 'history') return
+        authFetch(`${API}/config/revisions`)
+            .then(r => r.json())
+            .then(list => { if (Array.isArray(list)) setRevisions(list) })
+            .catch(() => { })
+    }, [activeTab])
+
+    // Agents keep rating snippets, so the feedback report is fetched fresh whenever the knowledge tab is opened
+    useEffect(() => {
+        if (activeTab !== 'documents') return
+        authFetch(`${API}/knowledge/feedback?limit=5`)
+            .then(r => r.ok ? r.json() : null)
+            .then(report => { if (report) setFeedbackReport(report) })
+            .catch(() => { })
+        authFetch(`${API}/sources`)
+            .then(r => r.ok ? r.json() : null)
+            .then(list => { if (Array.isArray(list)) setSources(list) })
+            .catch(() => { })
+    }, [activeTab])
+
+    const loadGaps = async () => {
+        const res = await authFetch(`${API}/knowledge/gaps?days=${gapDays}`)
+        if (!res.ok) return
+        const data = await res.json()
+        setGapTotal(data.total)
+        setGapTopics(data.topics)
+    }
+
+    useEffect(() => {
+        if (activeTab === 'gaps') loadGaps()
+    }, [activeTab, gapDays])
+
+    const resolveTopic = async (topic: KnowledgeGapTopic) => {
+        const res = await authFetch(`${API}/knowledge/gaps/resolve`, {
+            method: 'POST', headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids: topic.gapIds })
+        })
+        if (res.ok) loadGaps()
+    }
+
+    const loadTranscripts = async (offset = 0) => {
+        const params = new URLSearchParams({ offset: String(offset) })
+        Object.entries(transcriptFilters).forEach(([k, v]) => { if (v) params.set(k, v) })
+        const res = await authFetch(`${API}/transcripts?${params}`)
+        if (!res.ok) return
+        const data = await res.json()
+        setTranscriptTotal(data.total)
+        setTranscripts(prev => offset === 0 ? data.transcripts : [...prev, ...data.transcripts])
+    }
+
+    useEffect(() => {
+        if (activeTab === 'transcripts') loadTranscripts()
+    }, [activeTab, transcriptFilters])
+
+    const viewTranscript = async (id: string) => {
+        const res = await authFetch(`${API}/transcripts/${encodeURIComponent(id)}`)
+        if (res.ok) setOpenTranscript(await res.json())
+    }
+
+    const selectRevision = async (id: string) => {
+        setSelectedRevision(id)
+        setRevisionDiff(null)
+        const res = await authFetch(`${API}/config/revisions/${id}/diff`)
+        if (res.ok) setRevisionDiff(await res.json())
+    }
+
+    const restoreRevision = async (revision: Revision) => {
+        if (!confirm(`Restore configuration to revision #${revision.number}? Documents are not affected.`)) return
+        setRestoring(true)
+        const res = await authFetch(`${API}/config/revisions/${revision.id}/restore`, { method: 'POST' })
+        const data = await res.json()
+        if (data.success) {
+            applyConfig(data.config)
+            const list = await (await authFetch(`${API}/config/revisions`)).json()
+            if (Array.isArray(list)) { setRevisions(list); selectRevision(list[0].id) }
+        }
+        setRestoring(false)
+    }
+
+    const addTenant = async () => {
+        setTenantError(null)
+        const res = await authFetch(`${API}/tenants`, {
+            method: 'POST', headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                name: newTenantName,
+                hostnames: newTenantHostnames.split(',').map(h => h.trim()).filter(Boolean),
+                adminEmail: newTenantAdminEmail,
+                adminPassword: newTenantAdminPassword
+            })
+        })
+        const data = await res.json()
+        if (!data.success) { setTenantError(describeApiError(data, 'Failed to add tenant')); return }
+        setTenants(prev => [...prev, data.tenant]); setNewTenantName(''); setNewTenantHostnames(''); setNewTenantAdminEmail(''); setNewTenantAdminPassword(''); setShowAddTenant(false)
+    }
+
+    const deleteTenant = async (id: string) => {
+        if (!confirm(`Delete tenant "${id}" and all of its users?`)) return
+        const res = await authFetch(`${API}/tenants/${id}`, { method: 'DELETE' })
+        if (res.ok) setTenants(prev => prev.filter(t => t.id !== id))
+    }
+
+    const clearChatHistory = async () => { if (confirm('Clear all chat history?')) await authFetch(`${API}/chat-history`, { method: 'DELETE' }) }
 
     const formatSize = (b: number) => b < 1024 ? `${b} B` : b < 1048576 ? `${(b / 1024).toFixed(1)} KB` : `${(b / 1048576).toFixed(1)} MB`
 
@@ -153,6 +506,11 @@ const AdminPanel: React.FC = () => {
         { id: 'prompt' as const, label: 'System Prompt', icon: 'code' },
         { id: 'coaching' as const, label: 'Coaching Policies', icon: 'shield' },
         { id: 'documents' as const, label: 'Knowledge Base', icon: 'document' },
+        { id: 'gaps' as const, label: 'Knowledge Gaps', icon: 'question' },
+        { id: 'transcripts' as const, label: 'Transcripts', icon: 'archive' },
+        { id: 'history' as const, label: 'History', icon: 'history' },
+        { id: 'team' as const, label: 'Team', icon: 'users' },
+        ...(isPlatformAdmin ? [{ id: 'tenants' as const, label: 'Tenants', icon: 'globe' }] : []),
     ]
 
     // ─── Theme tokens ───
@@ -195,7 +553,7 @@ const AdminPanel: React.FC = () => {
                     </div>
                     <div>
                         <p className={`text-[13px] font-bold ${textHeading} tracking-tight`}>Admin</p>
-                        <p className={`text-[8px] ${textMuted} font-bold uppercase tracking-widest`}>AgentOS Config</p>
+                        <p className={`text-[8px] ${textMuted} font-bold uppercase tracking-widest truncate max-w-[140px]`} title={tenant?.id}>{tenant ? tenant.name : 'AgentOS Config'}</p>
                     </div>
                 </div>
 
@@ -219,12 +577,15 @@ const AdminPanel: React.FC = () => {
                     <a href="/" className={`flex items-center gap-2 px-3 py-2 text-[11px] font-medium ${footerLink} rounded-lg transition-colors`}>
                         <Icon name="back" className="w-3.5 h-3.5" /> Agent Console
                     </a>
-                    <a href="/customer" className={`flex items-center gap-2 px-3 py-2 text-[11px] font-medium ${footerLink} rounded-lg transition-colors`}>
+                    <a href={customerLink('/customer', tenant)} className={`flex items-center gap-2 px-3 py-2 text-[11px] font-medium ${footerLink} rounded-lg transition-colors`}>
                         <Icon name="chat" className="w-3.5 h-3.5" /> Customer Chat
                     </a>
                     <button onClick={clearChatHistory} className={`w-full text-left flex items-center gap-2 px-3 py-2 text-[11px] font-medium ${t('text-red-400/70 hover:bg-red-500/10 hover:text-red-400', 'text-red-500/70 hover:bg-red-50 hover:text-red-600')} rounded-lg transition-colors`}>
                         <Icon name="trash" className="w-3.5 h-3.5" /> Clear Chat History
                     </button>
+                    <button onClick={logout} title={currentUser?.email} className={`w-full text-left flex items-center gap-2 px-3 py-2 text-[11px] font-medium ${footerLink} rounded-lg transition-colors`}>
+                        <Icon name="logout" className="w-3.5 h-3.5" /> Sign Out
+                    </button>
                 </div>
             </aside>
 
@@ -239,6 +600,11 @@ const AdminPanel: React.FC = () => {
                             {activeTab === 'prompt' && 'AI system prompt for coaching and smart replies'}
                             {activeTab === 'coaching' && 'Real-time coaching rules and guidelines'}
                             {activeTab === 'documents' && 'Upload training documents and knowledge articles'}
+                            {activeTab === 'gaps' && 'Questions the knowledge base could not answer, grouped by topic'}
+                            {activeTab === 'transcripts' && 'Finished chats and calls with their AI summaries'}
+                            {activeTab === 'history' && 'Every saved change to settings, prompts and policies'}
+                            {activeTab === 'team' && 'Agents, supervisors and admins who can sign in'}
+                            {activeTab === 'tenants' && 'Isolated organizations with their own config, knowledge and team'}
                         </p>
                     </div>
                     <div className="flex items-center gap-3">
@@ -252,7 +618,7 @@ const AdminPanel: React.FC = () => {
                         </button>
 
                         {/* Save Button */}
-                        {(activeTab === 'general' || activeTab === 'prompt') && (
+                        {(activeTab === 'general' || activeTab === 'prompt' || activeTab === 'documents') && (
                             <button onClick={saveConfig} disabled={saving}
                                 className={`px-4 py-2 rounded-lg text-[11px] font-bold transition-all flex items-center gap-1.5 ${saved ? 'bg-emerald-500/20 text-emerald-400 ring-1 ring-emerald-500/30' :
                                     'bg-indigo-500 text-white hover:bg-indigo-600 active:scale-95 shadow-lg shadow-indigo-500/25'
@@ -270,6 +636,9 @@ const AdminPanel: React.FC = () => {
                 {/* Content */}
                 <div className="flex-1 overflow-y-auto p-7">
                     <div className="max-w-3xl mx-auto space-y-6">
+                        {configError && (activeTab === 'general' || activeTab === 'prompt' || activeTab === 'documents') && (
+                            <p className="text-[11px] font-semibold text-red-500">{configError}</p>
+                        )}
 
                         {/* ═══════════ GENERAL ═══════════ */}
                         {activeTab === 'general' && <>
@@ -289,7 +658,10 @@ const AdminPanel: React.FC = () => {
                                 <div className="mt-4">
                                     <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Welcome Message</label>
                                     <textarea value={welcomeMessage} onChange={e => setWelcomeMessage(e.target.value)} rows={2}
-                                        className={`${inputCls} resize-none`} placeholder="Default greeting when a customer connects..." />
+                                        className={`${inputCls} resize-none`} placeholder="Default greeting when a customer connects, e.g. My name is {{agentName}}..." />
+                                    {templateErrors.welcomeMessage
+                                        ? <p className="mt-1.5 text-[10px] font-semibold text-red-500">Welcome message {templateErrors.welcomeMessage}</p>
+                                        : welcomeMessage.includes('{{') && <p className={`mt-1.5 text-[10px] ${textDim}`}>Preview: {preview('welcomeMessage')}</p>}
                                 </div>
                             </div>
 
@@ -323,6 +695,10 @@ const AdminPanel: React.FC = () => {
                                         <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Max Response (sec)</label>
                                         <input type="number" value={maxResponseTime} onChange={e => setMaxResponseTime(Number(e.target.value))} className={inputCls} />
                                     </div>
+                                    <div>
+                                        <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Chats per Agent</label>
+                                        <input type="number" min={1} value={agentCapacity} onChange={e => setAgentCapacity(Math.max(1, Number(e.target.value)))} className={inputCls} />
+                                    </div>
                                 </div>
 
                                 <div className="space-y-2">
@@ -330,6 +706,7 @@ const AdminPanel: React.FC = () => {
                                         { label: 'Auto-Greeting', desc: 'Send welcome message automatically', val: autoGreeting, set: setAutoGreeting },
                                         { label: 'Text-to-Speech', desc: 'Enable TTS playback for messages', val: enableTTS, set: setEnableTTS },
                                         { label: 'Typing Indicator', desc: 'Show when other party is typing', val: enableTypingIndicator, set: setEnableTypingIndicator },
+                                        { label: 'Auto-Assign', desc: 'Route queued customers to available agents automatically', val: autoAssign, set: setAutoAssign },
                                     ].map(tgl => (
                                         <div key={tgl.label} className={toggleRow}>
                                             <div>
@@ -358,6 +735,7 @@ const AdminPanel: React.FC = () => {
                                 <textarea value={systemPrompt} onChange={e => setSystemPrompt(e.target.value)} rows={10}
                                     className={`${inputCls} font-mono resize-none leading-relaxed`}
                                     placeholder="Enter the system prompt..." />
+                                {templateErrors.systemPrompt && <p className="mt-1.5 text-[10px] font-semibold text-red-500">System prompt {templateErrors.systemPrompt}</p>}
                             </div>
 
                             {/* Quick Templates */}
@@ -387,10 +765,11 @@ const AdminPanel: React.FC = () => {
                                     </div>
                                     <span className={`text-[9px] font-bold ${textDim} ${bgInput} px-2 py-0.5 rounded-full border ${borderCard}`}>{coachingPrompt.length} chars</span>
                                 </div>
-                                <p className={`text-[11px] ${textMuted} mb-4 leading-relaxed`}>This prompt tells Gemini how to analyze the live conversation and generate coaching tags (e.g. <em>"Emotional Acknowledgement"</em>, <em>"Fairness Framing"</em>), smart reply phrases, and sentiment. Must return valid JSON.</p>
+                                <p className={`text-[11px] ${textMuted} mb-4 leading-relaxed`}>This prompt tells the AI model how to analyze the live conversation and generate coaching tags (e.g. <em>"Emotional Acknowledgement"</em>, <em>"Fairness Framing"</em>), smart reply phrases, and sentiment. Must return valid JSON.</p>
                                 <textarea value={coachingPrompt} onChange={e => setCoachingPrompt(e.target.value)} rows={14}
                                     className={`${inputCls} font-mono resize-none leading-relaxed text-[11px]`}
                                     placeholder="Enter the real-time coaching prompt..." />
+                                {templateErrors.coachingPrompt && <p className="mt-1.5 text-[10px] font-semibold text-red-500">Coaching prompt {templateErrors.coachingPrompt}</p>}
                             </div>
 
                             {/* Summary Prompt */}
@@ -403,6 +782,33 @@ const AdminPanel: React.FC = () => {
                                 <textarea value={summaryPrompt} onChange={e => setSummaryPrompt(e.target.value)} rows={6}
                                     className={`${inputCls} font-mono resize-none leading-relaxed`}
                                     placeholder="Enter the summary generation prompt..." />
+                                {templateErrors.summaryPrompt && <p className="mt-1.5 text-[10px] font-semibold text-red-500">Summary prompt {templateErrors.summaryPrompt}</p>}
+                            </div>
+
+                            {/* Template variables and preview */}
+                            <div className={`${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary} mb-3`}>Variables & Preview</h3>
+                                <p className={`text-[11px] ${textMuted} mb-3 leading-relaxed`}>The welcome message and the prompts may use these variables. Add a fallback for values that may be unknown, e.g. <code>{'{{customer.name | there}}'}</code>. Live chats use the name of the agent handling them.</p>
+                                <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 mb-5">
+                                    {(Object.entries(TEMPLATE_VARIABLES) as [TemplateVariable, string][]).map(([name, description]) => (
+                                        <div key={name} className="flex items-baseline gap-2 min-w-0">
+                                            <code className="text-[10px] font-bold text-indigo-500 shrink-0">{`{{${name}}}`}</code>
+                                            <span className={`text-[10px] ${textDim} truncate`} title={description}>{description}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className={`flex ${bgInput} rounded-lg p-0.5 mb-3 border ${borderCard}`}>
+                                    {([['welcomeMessage', 'Welcome'], ['systemPrompt', 'System'], ['coachingPrompt', 'Coaching'], ['summaryPrompt', 'Summary']] as [TemplateField, string][]).map(([field, label]) => (
+                                        <button key={field} onClick={() => setPreviewField(field)}
+                                            className={`flex-1 py-1.5 rounded-md text-[11px] font-bold transition-colors ${previewField === field ? 'bg-indigo-500 text-white' : `${textMuted} hover:text-indigo-500`} ${templateErrors[field] ? 'underline decoration-red-500' : ''}`}>
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {templateErrors[previewField]
+                                    ? <p className="text-[11px] font-semibold text-red-500">This template {templateErrors[previewField]}</p>
+                                    : <pre className={`${bgInput} border ${borderCard} rounded-lg p-3.5 text-[11px] ${textSecondary} whitespace-pre-wrap font-mono leading-relaxed max-h-72 overflow-y-auto`}>{preview(previewField) || '(empty)'}</pre>}
+                                <p className={`text-[10px] ${textDim} mt-2`}>Rendered for a sample customer, {SAMPLE_CUSTOMER.name}. Coaching and summaries add the conversation after the prompt.</p>
                             </div>
                         </>}
 
@@ -466,13 +872,14 @@ const AdminPanel: React.FC = () => {
                                             </div>
                                             <div>
                                                 <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Priority</label>
-                                                <select value={newPolicyPriority} onChange={e => setNewPolicyPriority(e.target.value)} className={selectCls}>
+                                                <select value={newPolicyPriority} onChange={e => setNewPolicyPriority(e.target.value as PolicyPriority)} className={selectCls}>
                                                     <option value="low">Low</option>
                                                     <option value="medium">Medium</option>
                                                     <option value="high">High</option>
                                                     <option value="critical">Critical</option>
                                                 </select>
                                             </div>
+                                            {policyError && <p className="text-[11px] font-semibold text-red-500">{policyError}</p>}
                                         </div>
                                         <div className="flex gap-3 mt-6">
                                             <button onClick={() => setShowAddPolicy(false)} className={`flex-1 py-2.5 rounded-lg text-[12px] font-bold ${t('text-slate-400 bg-white/5 hover:bg-white/10', 'text-gray-500 bg-gray-100 hover:bg-gray-200')} transition-all`}>Cancel</button>
@@ -496,7 +903,7 @@ const AdminPanel: React.FC = () => {
                                 onDrop={handleDrop}
                                 onClick={() => fileInputRef.current?.click()}
                             >
-                                <input ref={fileInputRef} type="file" className="hidden" accept=".pdf,.doc,.docx,.txt,.csv,.json,.md" onChange={e => e.target.files?.[0] && uploadFile(e.target.files[0])} />
+                                <input ref={fileInputRef} type="file" className="hidden" accept=".pdf,.docx,.html,.htm,.md,.csv,.txt,.json" onChange={e => e.target.files?.[0] && uploadFile(e.target.files[0])} />
                                 <div className="w-12 h-12 mx-auto mb-3 rounded-xl bg-indigo-500/10 flex items-center justify-center">
                                     {uploading
                                         ? <div className={`w-5 h-5 border-2 ${t('border-indigo-900 border-t-indigo-400', 'border-indigo-200 border-t-indigo-600')} rounded-full animate-spin`} />
@@ -504,9 +911,148 @@ const AdminPanel: React.FC = () => {
                                     }
                                 </div>
                                 <p className={`text-[13px] font-bold ${t('text-slate-300', 'text-gray-700')}`}>{uploading ? 'Uploading...' : 'Drop files here or click to upload'}</p>
-                                <p className={`text-[10px] ${textDim} mt-1`}>PDF, DOC, TXT, CSV, JSON, MD — Max 10MB</p>
+                                <p className={`text-[10px] ${textDim} mt-1`}>PDF, DOCX, HTML, MD, CSV, TXT, JSON — Max 10MB</p>
                             </div>
 
+                            {/* New versions of listed documents are picked here */}
+                            <input ref={versionInputRef} type="file" className="hidden" accept=".pdf,.docx,.html,.htm,.md,.csv,.txt,.json"
+                                onChange={e => { const file = e.target.files?.[0]; if (file && versionTarget) uploadVersion(versionTarget, file); e.target.value = '' }} />
+
+                            {/* Retrieval */}
+                            <div className={`${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary} mb-1`}>Retrieval</h3>
+                                <p className={`text-[11px] ${textMuted} mb-4 leading-relaxed`}>Knowledge search blends meaning (vector) with exact keywords such as policy codes and SKUs. Scores run from 0 to 1. Feedback weight is how far agents' ratings move a snippet up or down. Questions whose best match scores below Gap Below are listed under Knowledge Gaps.</p>
+                                <div className="grid grid-cols-3 gap-4 mb-4">
+                                    {([
+                                        { key: 'vectorWeight', label: 'Vector Weight' },
+                                        { key: 'lexicalWeight', label: 'Keyword Weight' },
+                                        { key: 'minVectorScore', label: 'Min Similarity' },
+                                        { key: 'minScore', label: 'Min Score' },
+                                        { key: 'feedbackWeight', label: 'Feedback Weight' },
+                                        { key: 'gapScore', label: 'Gap Below' },
+                                    ] as const).map(field => (
+                                        <div key={field.key}>
+                                            <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>{field.label}</label>
+                                            <input type="number" min={0} max={1} step={0.05} value={retrieval[field.key]}
+                                                onChange={e => setRetrieval(prev => ({ ...prev, [field.key]: Math.min(1, Math.max(0, Number(e.target.value))) }))} className={inputCls} />
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className={toggleRow}>
+                                    <div>
+                                        <p className={`text-[12px] font-semibold ${t('text-slate-300', 'text-gray-700')}`}>AI Re-ranking</p>
+                                        <p className={`text-[10px] ${textDim}`}>Let the AI model grade the best matches before they reach the agent (slower)</p>
+                                    </div>
+                                    <button onClick={() => setRetrieval(prev => ({ ...prev, rerank: !prev.rerank }))}
+                                        className={`relative rounded-full transition-colors duration-200 ${retrieval.rerank ? 'bg-indigo-500' : t('bg-slate-700', 'bg-gray-300')}`}
+                                        style={{ width: 40, height: 22 }}>
+                                        <div className={`absolute top-[2px] left-[2px] w-[18px] h-[18px] bg-white rounded-full shadow transition-transform duration-200 ${retrieval.rerank ? 'translate-x-[18px]' : 'translate-x-0'}`} />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Sync Sources */}
+                            <div className={`${bgCard} rounded-xl border ${borderCard} overflow-hidden transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                <div className={`px-5 py-3.5 border-b ${borderCard} flex items-center justify-between`}>
+                                    <div>
+                                        <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary}`}>Sync Sources</h3>
+                                        <p className={`text-[10px] ${textDim} mt-0.5`}>Folders and web pages kept in step with the knowledge base — only changed files are re-indexed</p>
+                                    </div>
+                                    <button onClick={() => setShowAddSource(true)}
+                                        className="px-3.5 py-1.5 bg-indigo-500 text-white text-[11px] font-bold rounded-lg hover:bg-indigo-600 active:scale-95 transition-all flex items-center gap-1.5 shadow-lg shadow-indigo-500/25">
+                                        <Icon name="plus" className="w-3 h-3" /> Add Source
+                                    </button>
+                                </div>
+                                {sources.length === 0 ? (
+                                    <p className={`px-5 py-6 text-center text-[11px] ${textDim}`}>No sources yet — add a folder on the server, or pages and sitemaps to crawl</p>
+                                ) : (
+                                    <div className={`divide-y ${t('divide-white/5', 'divide-gray-100')}`}>
+                                        {sources.map(source => {
+                                            const result = source.lastResult
+                                            const statusStyle = { idle: 'bg-emerald-500/10 text-emerald-500', syncing: 'bg-amber-500/10 text-amber-500', error: 'bg-red-500/10 text-red-500' }[source.status]
+                                            return (
+                                                <div key={source.id} className={`flex items-center gap-3.5 px-5 py-3.5 ${t('hover:bg-white/[0.02]', 'hover:bg-gray-50')} transition-colors`}>
+                                                    <Icon name={source.type === 'web' ? 'globe' : 'archive'} className={`w-4 h-4 ${textDim} shrink-0`} />
+                                                    <div className="flex-1 min-w-0">
+                                                        <p className={`text-[12px] font-semibold ${t('text-slate-300', 'text-gray-700')} truncate`}>{source.name}</p>
+                                                        <p className={`text-[10px] ${textDim} truncate`} title={source.type === 'web' ? source.urls.join('\n') : source.path || ''}>
+                                                            {source.type === 'web' ? source.urls.join(', ') : source.path}{source.watch && ' • watched'}
+                                                        </p>
+                                                        <p className={`text-[10px] ${textDim}`}>
+                                                            {source.status === 'syncing' ? 'Syncing…'
+                                                                : source.lastSyncAt ? `Last synced ${new Date(source.lastSyncAt).toLocaleString()}` : 'Never synced'}
+                                                            {source.status !== 'syncing' && result && ` • ${result.added} added • ${result.updated} updated • ${result.removed} removed • ${result.unchanged} unchanged`}
+                                                            {source.status !== 'syncing' && !!result?.failed && <span className="text-amber-500" title={result.errors.map(e => `${e.key}: ${e.error}`).join('\n')}> • {result.failed} failed</span>}
+                                                        </p>
+                                                        {source.lastError && <p className="text-[10px] text-red-500 truncate" title={source.lastError}>{source.lastError}</p>}
+                                                    </div>
+                                                    <span className={`text-[8px] font-bold px-1.5 py-0.5 rounded ${statusStyle} shrink-0`}>{source.status}</span>
+                                                    <div className="w-32 shrink-0">
+                                                        <select value={source.intervalMinutes} onChange={e => scheduleSource(source.id, Number(e.target.value))} className={selectCls} title="Sync schedule">
+                                                            {!SYNC_SCHEDULES.some(s => s.minutes === source.intervalMinutes) && <option value={source.intervalMinutes}>Every {source.intervalMinutes} min</option>}
+                                                            {SYNC_SCHEDULES.map(s => <option key={s.minutes} value={s.minutes}>{s.label}</option>)}
+                                                        </select>
+                                                    </div>
+                                                    <button onClick={() => syncSource(source.id)} disabled={source.status === 'syncing'} title="Sync now" className={`${textDim} hover:text-indigo-400 disabled:opacity-40 transition-colors p-1 shrink-0`}>
+                                                        <Icon name="refresh" className={`w-3.5 h-3.5 ${source.status === 'syncing' ? 'animate-spin' : ''}`} />
+                                                    </button>
+                                                    <button onClick={() => deleteSource(source)} disabled={source.status === 'syncing'} title="Delete source and its documents" className={`${textDim} hover:text-red-500 disabled:opacity-40 transition-colors p-1 shrink-0`}>
+                                                        <Icon name="trash" className="w-3.5 h-3.5" />
+                                                    </button>
+                                                </div>
+                                            )
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Add Source Modal */}
+                            {showAddSource && (
+                                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setShowAddSource(false)}>
+                                    <div className={`${bgCard} rounded-xl shadow-2xl w-full max-w-md p-6 border ${t('border-white/10', 'border-gray-300')}`} onClick={e => e.stopPropagation()}>
+                                        <h3 className={`text-sm font-bold ${textHeading} mb-5`}>Add Sync Source</h3>
+                                        <div className="space-y-4">
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div>
+                                                    <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Type</label>
+                                                    <select value={newSource.type} onChange={e => setNewSource(prev => ({ ...prev, type: e.target.value as SourceType }))} className={selectCls}>
+                                                        <option value="web">Web pages &amp; sitemaps</option>
+                                                        <option value="folder">Server folder</option>
+                                                    </select>
+                                                </div>
+                                                <div>
+                                                    <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Sync</label>
+                                                    <select value={newSource.intervalMinutes} onChange={e => setNewSource(prev => ({ ...prev, intervalMinutes: Number(e.target.value) }))} className={selectCls}>
+                                                        {SYNC_SCHEDULES.map(s => <option key={s.minutes} value={s.minutes}>{s.label}</option>)}
+                                                    </select>
+                                                </div>
+                                            </div>
+                                            <div>
+                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Name</label>
+                                                <input value={newSource.name} onChange={e => setNewSource(prev => ({ ...prev, name: e.target.value }))} className={inputCls} placeholder={newSource.type === 'web' ? 'e.g., Help Center' : 'e.g., Policy Drive'} />
+                                            </div>
+                                            <div>
+                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>{newSource.type === 'web' ? 'URLs (one per line)' : 'Folder Path'}</label>
+                                                {newSource.type === 'web'
+                                                    ? <textarea value={newSource.location} onChange={e => setNewSource(prev => ({ ...prev, location: e.target.value }))} rows={3} className={`${inputCls} resize-none font-mono text-[11px]`} placeholder={'https://help.example.com/sitemap.xml\nhttps://example.com/returns'} />
+                                                    : <input value={newSource.location} onChange={e => setNewSource(prev => ({ ...prev, location: e.target.value }))} className={`${inputCls} font-mono text-[11px]`} placeholder="policies (relative to the server's knowledge folder)" />}
+                                            </div>
+                                            {newSource.type === 'folder' && (
+                                                <label className={`flex items-center gap-2 text-[11px] ${textSecondary}`}>
+                                                    <input type="checkbox" checked={newSource.watch} onChange={e => setNewSource(prev => ({ ...prev, watch: e.target.checked }))} />
+                                                    Sync as soon as files in the folder change
+                                                </label>
+                                            )}
+                                            {sourceError && <p className="text-[11px] font-semibold text-red-500">{sourceError}</p>}
+                                        </div>
+                                        <div className="flex gap-3 mt-6">
+                                            <button onClick={() => setShowAddSource(false)} className={`flex-1 py-2.5 rounded-lg text-[12px] font-bold ${t('text-slate-400 bg-white/5 hover:bg-white/10', 'text-gray-500 bg-gray-100 hover:bg-gray-200')} transition-all`}>Cancel</button>
+                                            <button onClick={addSource} className="flex-1 py-2.5 rounded-lg text-[12px] font-bold text-white bg-indigo-500 hover:bg-indigo-600 active:scale-95 transition-all shadow-lg shadow-indigo-500/25">Add &amp; Sync</button>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Documents List */}
                             <div className={`${bgCard} rounded-xl border ${borderCard} overflow-hidden transition-colors duration-300 ${t('', 'shadow-sm')}`}>
                                 <div className={`px-5 py-3.5 border-b ${borderCard} flex items-center justify-between`}>
@@ -514,7 +1060,13 @@ const AdminPanel: React.FC = () => {
                                         <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary}`}>Uploaded Documents</h3>
                                         <span className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded-full">{documents.length}</span>
                                     </div>
+                                    {documents.length > 0 && (
+                                        <button onClick={reindexAll} disabled={indexing} className={`flex items-center gap-1.5 text-[10px] font-bold ${textDim} hover:text-indigo-400 disabled:opacity-40 transition-colors`}>
+                                            <Icon name="refresh" className="w-3.5 h-3.5" /> Re-index all
+                                        </button>
+                                    )}
                                 </div>
+                                {documentError && <p className={`px-5 py-2 border-b ${borderCard} text-[11px] font-semibold text-red-500`}>{documentError}</p>}
                                 {documents.length === 0 ? (
                                     <div className="px-5 py-10 text-center">
                                         <Icon name="document" className={`w-8 h-8 ${t('text-slate-700', 'text-gray-300')} mx-auto mb-2`} />
@@ -524,24 +1076,565 @@ const AdminPanel: React.FC = () => {
                                 ) : (
                                     <div className={`divide-y ${t('divide-white/5', 'divide-gray-100')}`}>
                                         {documents.map(doc => {
-                                            const iconMap: Record<string, string> = { 'application/pdf': '📕', 'text/plain': '📝', 'text/csv': '📊', 'application/json': '📋', 'text/markdown': '📓' }
+                                            const iconMap: Record<string, string> = { 'application/pdf': '📕', 'text/plain': '📝', 'text/csv': '📊', 'application/json': '📋', 'text/markdown': '📓', 'text/html': '🌐', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '📘' }
+                                            const statusStyle = { ready: 'bg-emerald-500/10 text-emerald-500', processing: 'bg-amber-500/10 text-amber-500', error: 'bg-red-500/10 text-red-500' }[doc.status] || 'bg-slate-500/10 text-slate-500'
+                                            const job = doc.status === 'processing' ? progress[doc.id] : undefined
+                                            const lifecycle = doc.effectiveFrom && Date.parse(doc.effectiveFrom) > Date.now() ? 'scheduled'
+                                                : doc.expiresAt && Date.parse(doc.expiresAt) <= Date.now() ? 'expired' : null
                                             return (
-                                                <div key={doc.id} className={`flex items-center gap-3.5 px-5 py-3.5 ${t('hover:bg-white/[0.02]', 'hover:bg-gray-50')} transition-colors`}>
-                                                    <span className="text-base">{iconMap[doc.type] || '📄'}</span>
-                                                    <div className="flex-1 min-w-0">
-                                                        <p className={`text-[12px] font-semibold ${t('text-slate-300', 'text-gray-700')} truncate`}>{doc.name}</p>
-                                                        <p className={`text-[10px] ${textDim}`}>{formatSize(doc.size)} • {new Date(doc.uploadedAt).toLocaleDateString()}</p>
+                                                <div key={doc.id}>
+                                                    <div className={`flex items-center gap-3.5 px-5 py-3.5 ${t('hover:bg-white/[0.02]', 'hover:bg-gray-50')} transition-colors`}>
+                                                        <span className="text-base">{iconMap[doc.type] || '📄'}</span>
+                                                        <div className="flex-1 min-w-0">
+                                                            <p className={`text-[12px] font-semibold ${t('text-slate-300', 'text-gray-700')} truncate`}>{doc.name} <span className={`text-[10px] font-bold ${textDim}`}>v{doc.version || 1}</span></p>
+                                                            <p className={`text-[10px] ${textDim}`}>
+                                                                {formatSize(doc.size)} • {new Date(doc.uploadedAt).toLocaleDateString()}{doc.format && ` • ${doc.format.toUpperCase()}`}
+                                                                {doc.effectiveFrom && ` • from ${doc.effectiveFrom.slice(0, 10)}`}{doc.expiresAt && ` • expires ${doc.expiresAt.slice(0, 10)}`}
+                                                                {doc.source && ` • synced from ${sources.find(s => s.id === doc.source?.id)?.name || 'a source'}`}
+                                                            </p>
+                                                            {doc.scheduledVersion && (
+                                                                <p className="text-[10px] text-sky-500 truncate">v{doc.scheduledVersion.version} ({doc.scheduledVersion.name}) takes over on {doc.scheduledVersion.effectiveFrom.slice(0, 10)}</p>
+                                                            )}
+                                                            {doc.error && <p className="text-[10px] text-red-500 truncate" title={doc.error}>{doc.error}</p>}
+                                                            {job && (
+                                                                <div className="mt-1">
+                                                                    <p className={`text-[10px] ${job.retry ? 'text-amber-500' : textDim}`}>
+                                                                        {job.stage === 'embedding' ? `Embedding ${job.processed}/${job.total} chunks` : job.stage === 'extracting' ? 'Extracting text' : 'Queued'}
+                                                                        {job.retry && ` • retry ${job.retry} in ${Math.ceil((job.retryInMs || 0) / 1000)}s`}
+                                                                    </p>
+                                                                    {job.stage === 'embedding' && job.total > 0 && (
+                                                                        <div className={`h-1 mt-1 rounded-full ${t('bg-white/5', 'bg-gray-100')} overflow-hidden`}>
+                                                                            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(job.processed / job.total * 100)}%` }} />
+                                                                        </div>
+                                                                    )}
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                        {lifecycle && <span className={`text-[8px] font-bold px-1.5 py-0.5 rounded shrink-0 ${lifecycle === 'scheduled' ? 'bg-sky-500/10 text-sky-500' : 'bg-slate-500/10 text-slate-500'}`} title="Not returned by knowledge search">{lifecycle}</span>}
+                                                        <span className={`text-[8px] font-bold px-1.5 py-0.5 rounded ${statusStyle} shrink-0`}>{doc.status}</span>
+                                                        <button onClick={() => openVersionUpload(doc)} disabled={doc.status === 'processing' || !!doc.source} title={doc.source ? 'Updated by its sync source' : 'Upload new version'} className={`${versionTarget === doc.id ? 'text-indigo-400' : textDim} hover:text-indigo-400 disabled:opacity-40 transition-colors p-1 shrink-0`}>
+                                                            <Icon name="upload" className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button onClick={() => setHistoryOpen(historyOpen === doc.id ? null : doc.id)} disabled={!doc.versions?.length} title="Version history" className={`${historyOpen === doc.id ? 'text-indigo-400' : textDim} hover:text-indigo-400 disabled:opacity-40 transition-colors p-1 shrink-0`}>
+                                                            <Icon name="history" className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button onClick={() => reindexDocument(doc.id)} disabled={doc.status === 'processing'} title="Re-index" className={`${textDim} hover:text-indigo-400 disabled:opacity-40 transition-colors p-1 shrink-0`}>
+                                                            <Icon name="refresh" className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button onClick={() => editDocument(doc)}
+                                                            title="Chunking and dates" className={`${chunkingEdit?.id === doc.id ? 'text-indigo-400' : textDim} hover:text-indigo-400 transition-colors p-1 shrink-0`}>
+                                                            <Icon name="settings" className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button onClick={() => deleteDocument(doc.id)} className={`${textDim} hover:text-red-500 transition-colors p-1 shrink-0`}>
+                                                            <Icon name="trash" className="w-3.5 h-3.5" />
+                                                        </button>
                                                     </div>
-                                                    <span className="text-[8px] font-bold px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-500 shrink-0">{doc.status}</span>
-                                                    <button onClick={() => deleteDocument(doc.id)} className={`${textDim} hover:text-red-500 transition-colors p-1 shrink-0`}>
-                                                        <Icon name="trash" className="w-3.5 h-3.5" />
-                                                    </button>
+                                                    {chunkingEdit?.id === doc.id && (
+                                                        <div className={`px-5 pb-4 grid grid-cols-4 gap-3 items-end`}>
+                                                            <div>
+                                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Chunking</label>
+                                                                <select value={chunkingEdit.chunking.strategy} onChange={e => setChunkingEdit({ ...chunkingEdit, chunking: { ...chunkingEdit.chunking, strategy: e.target.value as ChunkingSettings['strategy'] } })} className={selectCls}>
+                                                                    <option value="structured">Headings &amp; sentences</option>
+                                                                    <option value="fixed">Fixed windows</option>
+                                                                </select>
+                                                            </div>
+                                                            <div>
+                                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Chunk Size (chars)</label>
+                                                                <input type="number" min={200} max={8000} step={100} value={chunkingEdit.chunking.size} onChange={e => setChunkingEdit({ ...chunkingEdit, chunking: { ...chunkingEdit.chunking, size: Number(e.target.value) } })} className={inputCls} />
+                                                            </div>
+                                                            <div>
+                                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Overlap (chars)</label>
+                                                                <input type="number" min={0} max={2000} step={50} value={chunkingEdit.chunking.overlap} onChange={e => setChunkingEdit({ ...chunkingEdit, chunking: { ...chunkingEdit.chunking, overlap: Number(e.target.value) } })} className={inputCls} />
+                                                            </div>
+                                                            <button onClick={saveChunking} disabled={doc.status === 'processing'}
+                                                                className="px-3 py-2.5 rounded-lg text-[11px] font-bold bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-40 transition-all">
+                                                                Save &amp; Re-index
+                                                            </button>
+                                                            <div>
+                                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Effective From</label>
+                                                                <input type="date" value={validityEdit.effectiveFrom} onChange={e => setValidityEdit(v => ({ ...v, effectiveFrom: e.target.value }))} className={inputCls} />
+                                                            </div>
+                                                            <div>
+                                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Expires On</label>
+                                                                <input type="date" value={validityEdit.expiresAt} onChange={e => setValidityEdit(v => ({ ...v, expiresAt: e.target.value }))} className={inputCls} />
+                                                            </div>
+                                                            <p className={`text-[10px] ${textDim} leading-relaxed`}>Knowledge search skips the document outside these dates. Leave empty for no limit.</p>
+                                                            <button onClick={saveValidity}
+                                                                className={`px-3 py-2.5 rounded-lg text-[11px] font-bold ${t('bg-white/5 text-slate-300 hover:bg-white/10', 'bg-gray-100 text-gray-700 hover:bg-gray-200')} transition-all`}>
+                                                                Save Dates
+                                                            </button>
+                                                        </div>
+                                                    )}
+                                                    {versionTarget === doc.id && (
+                                                        <div className={`px-5 pb-4 grid grid-cols-4 gap-3 items-end`}>
+                                                            <div>
+                                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>New Version From</label>
+                                                                <input type="date" value={versionDates.effectiveFrom} onChange={e => setVersionDates(v => ({ ...v, effectiveFrom: e.target.value }))} className={inputCls} />
+                                                            </div>
+                                                            <div>
+                                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Expires On</label>
+                                                                <input type="date" value={versionDates.expiresAt} onChange={e => setVersionDates(v => ({ ...v, expiresAt: e.target.value }))} className={inputCls} />
+                                                            </div>
+                                                            <p className={`text-[10px] ${textDim} leading-relaxed`}>A later date schedules the new version: the current one stays in search until then.</p>
+                                                            <button onClick={() => versionInputRef.current?.click()}
+                                                                className="px-3 py-2.5 rounded-lg text-[11px] font-bold bg-indigo-500 text-white hover:bg-indigo-600 transition-all">
+                                                                Choose File
+                                                            </button>
+                                                        </div>
+                                                    )}
+                                                    {historyOpen === doc.id && !!doc.versions?.length && (
+                                                        <div className="px-5 pb-4">
+                                                            <div className={`rounded-lg border ${borderCard} divide-y ${t('divide-white/5', 'divide-gray-100')}`}>
+                                                                {[...doc.versions].reverse().map(v => (
+                                                                    <div key={v.version} className="flex items-center gap-3 px-3 py-2">
+                                                                        <span className={`text-[10px] font-bold ${textDim} w-6`}>v{v.version}</span>
+                                                                        <p className={`flex-1 text-[11px] ${t('text-slate-400', 'text-gray-600')} truncate`}>{v.name}</p>
+                                                                        <span className={`text-[10px] ${textDim} shrink-0`}>
+                                                                            {formatSize(v.size)} • uploaded {new Date(v.uploadedAt).toLocaleDateString()} • replaced {new Date(v.supersededAt).toLocaleDateString()}
+                                                                        </span>
+                                                                    </div>
+                                                                ))}
+                                                            </div>
+                                                        </div>
+                                                    )}
                                                 </div>
                                             )
                                         })}
                                     </div>
                                 )}
                             </div>
+
+                            {/* Snippet Feedback */}
+                            {feedbackReport && (
+                                <div className={`${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                    <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary} mb-1`}>Snippet Feedback</h3>
+                                    <p className={`text-[11px] ${textMuted} mb-4 leading-relaxed`}>
+                                        {feedbackReport.totals.up} helpful • {feedbackReport.totals.down} not helpful • {feedbackReport.totals.used} used in replies
+                                    </p>
+                                    <div className="grid grid-cols-2 gap-5">
+                                        {([
+                                            { key: 'mostUseful', label: 'Most Useful', color: 'text-emerald-500' },
+                                            { key: 'leastUseful', label: 'Least Useful', color: 'text-red-500' },
+                                        ] as const).map(column => (
+                                            <div key={column.key}>
+                                                <p className={`text-[10px] font-bold uppercase tracking-wider ${column.color} mb-2`}>{column.label}</p>
+                                                {feedbackReport.documents[column.key].length === 0 && <p className={`text-[11px] ${textDim}`}>No ratings yet</p>}
+                                                {feedbackReport.documents[column.key].map(doc => (
+                                                    <div key={doc.docId} className="flex items-center justify-between gap-3 py-1">
+                                                        <p className={`text-[12px] font-semibold ${t('text-slate-300', 'text-gray-700')} truncate`}>{doc.docName}</p>
+                                                        <span className={`text-[10px] ${textDim} shrink-0`}>▲{doc.up} ▼{doc.down} • used {doc.used} • {doc.score.toFixed(2)}</span>
+                                                    </div>
+                                                ))}
+                                                <div className={`mt-3 space-y-2`}>
+                                                    {feedbackReport.snippets[column.key].map(snippet => (
+                                                        <div key={snippet.key} className={`rounded-lg border ${borderCard} px-3 py-2`}>
+                                                            <div className="flex items-center justify-between gap-3 mb-1">
+                                                                <p className={`text-[10px] font-semibold ${textMuted} truncate`}>{[snippet.docName, ...snippet.headings].join(' › ')}</p>
+                                                                <span className={`text-[10px] ${textDim} shrink-0`}>▲{snippet.up} ▼{snippet.down} • used {snippet.used}</span>
+                                                            </div>
+                                                            <p className={`text-[11px] ${t('text-slate-400', 'text-gray-600')} line-clamp-2`}>{snippet.text}</p>
+                                                            {snippet.query && <p className={`text-[10px] ${textDim} mt-1 truncate`}>Asked: “{snippet.query}”</p>}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </>}
+
+                        {/* ═══════════ KNOWLEDGE GAPS ═══════════ */}
+                        {activeTab === 'gaps' && (
+                            <div className={`${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                <div className="flex items-center gap-2 mb-1">
+                                    <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary}`}>Recurring Topics</h3>
+                                    <span className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded-full">{gapTotal} questions</span>
+                                    <div className="ml-auto w-36">
+                                        <select value={gapDays} onChange={e => setGapDays(Number(e.target.value))} className={selectCls}>
+                                            <option value={7}>Last 7 days</option>
+                                            <option value={30}>Last 30 days</option>
+                                            <option value={90}>Last 90 days</option>
+                                        </select>
+                                    </div>
+                                </div>
+                                <p className={`text-[11px] ${textMuted} mb-4 leading-relaxed`}>Customer questions during coaching and agent searches that found no knowledge, or only weak matches. Write an article for a topic, then mark it answered.</p>
+                                {gapTopics.length === 0 ? (
+                                    <p className={`text-[12px] ${textDim} py-8 text-center`}>No unanswered questions in this period</p>
+                                ) : (
+                                    <div className={`divide-y ${t('divide-white/5', 'divide-gray-100')}`}>
+                                        {gapTopics.map(topic => (
+                                            <div key={topic.id} className="py-3">
+                                                <div className="flex items-center gap-3">
+                                                    <button onClick={() => setOpenTopic(openTopic === topic.id ? null : topic.id)} className="flex-1 min-w-0 text-left">
+                                                        <p className={`text-[12px] font-semibold ${t('text-slate-300', 'text-gray-700')} truncate`}>{topic.label}</p>
+                                                        <p className={`text-[10px] ${textDim}`}>
+                                                            {topic.count}× • {topic.conversations} conversations • {topic.sources.coaching} coaching, {topic.sources.search} searches • last {new Date(topic.lastSeen).toLocaleDateString()}
+                                                            {topic.bestScore > 0 && ` • best match ${topic.bestScore.toFixed(2)}`}
+                                                        </p>
+                                                    </button>
+                                                    <div className="flex gap-1 shrink-0">
+                                                        {topic.terms.slice(0, 4).map(term => (
+                                                            <span key={term} className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-1.5 py-0.5 rounded">{term}</span>
+                                                        ))}
+                                                    </div>
+                                                    <button onClick={() => resolveTopic(topic)} title="Mark answered" className={`${textDim} hover:text-emerald-500 transition-colors p-1 shrink-0`}>
+                                                        <Icon name="check" className="w-3.5 h-3.5" />
+                                                    </button>
+                                                </div>
+                                                {openTopic === topic.id && (
+                                                    <div className="mt-2 space-y-2">
+                                                        {topic.examples.map(example => (
+                                                            <div key={example.id} className={`rounded-lg border ${borderCard} px-3 py-2`}>
+                                                                <p className={`text-[10px] ${textDim} mb-1`}>
+                                                                    {example.source === 'coaching' ? 'Coaching' : 'Search'}
+                                                                    {example.conversation && ` • ${example.conversation.kind} ${example.conversation.id}`}
+                                                                    {` • ${new Date(example.createdAt).toLocaleString()}`}
+                                                                </p>
+                                                                {example.context.slice(0, -1).map((line, i) => (
+                                                                    <p key={i} className={`text-[11px] ${textMuted} truncate`}><span className="font-bold uppercase text-[9px]">{line.role}</span> {line.text}</p>
+                                                                ))}
+                                                                <p className={`text-[12px] ${textPrimary}`}>“{example.query}”</p>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* ═══════════ TRANSCRIPTS ═══════════ */}
+                        {activeTab === 'transcripts' && <>
+                            <div className={`${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                <div className="grid grid-cols-5 gap-3 mb-5">
+                                    <select value={transcriptFilters.type} onChange={e => setTranscriptFilters(f => ({ ...f, type: e.target.value }))} className={selectCls}>
+                                        <option value="">All types</option>
+                                        <option value="chat">Chat</option>
+                                        <option value="voice">Voice</option>
+                                    </select>
+                                    <input type="date" value={transcriptFilters.from} onChange={e => setTranscriptFilters(f => ({ ...f, from: e.target.value }))} className={inputCls} title="From" />
+                                    <input type="date" value={transcriptFilters.to} onChange={e => setTranscriptFilters(f => ({ ...f, to: e.target.value }))} className={inputCls} title="To" />
+                                    <input value={transcriptFilters.customer} onChange={e => setTranscriptFilters(f => ({ ...f, customer: e.target.value }))} className={inputCls} placeholder="Customer" />
+                                    <select value={transcriptFilters.sentiment} onChange={e => setTranscriptFilters(f => ({ ...f, sentiment: e.target.value }))} className={selectCls}>
+                                        <option value="">Any sentiment</option>
+                                        <option value="positive">Positive</option>
+                                        <option value="neutral">Neutral</option>
+                                        <option value="negative">Negative</option>
+                                        <option value="frustrated">Frustrated</option>
+                                    </select>
+                                </div>
+
+                                <div className="flex items-center gap-2 mb-3">
+                                    <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary}`}>Transcripts</h3>
+                                    <span className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded-full">{transcriptTotal}</span>
+                                </div>
+
+                                {transcripts.length === 0 ? (
+                                    <p className={`text-[12px] ${textDim} text-center py-8`}>No transcripts match these filters</p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {transcripts.map(tr => (
+                                            <button key={tr.id} onClick={() => viewTranscript(tr.id)}
+                                                className={`w-full text-left flex items-center gap-3 p-4 rounded-lg border ${bgInput} ${t('border-white/5 hover:border-white/10', 'border-gray-200 hover:border-gray-300')} transition-all`}>
+                                                <div className="w-8 h-8 rounded-lg bg-indigo-500/10 text-indigo-400 flex items-center justify-center text-[10px] font-black uppercase shrink-0">{tr.type === 'voice' ? '📞' : '💬'}</div>
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="flex items-center gap-2 mb-0.5">
+                                                        <h4 className={`text-[12px] font-bold ${t('text-slate-300', 'text-gray-700')} truncate`}>{tr.customerInfo?.name || 'Unknown customer'}</h4>
+                                                        {tr.sentiment && (
+                                                            <span className={`text-[8px] font-black uppercase tracking-wider px-1.5 py-0.5 rounded ${tr.sentiment === 'positive' ? 'bg-emerald-500/10 text-emerald-500' :
+                                                                tr.sentiment === 'frustrated' ? 'bg-red-500/10 text-red-500' :
+                                                                    tr.sentiment === 'negative' ? 'bg-amber-500/10 text-amber-500' :
+                                                                        t('bg-slate-500/10 text-slate-500', 'bg-gray-200 text-gray-500')
+                                                                }`}>{tr.sentiment}</span>
+                                                        )}
+                                                    </div>
+                                                    <p className={`text-[11px] ${textMuted} truncate`}>
+                                                        {tr.type === 'voice' ? 'Voice call' : 'Chat'} · {tr.messageCount} messages · {new Date(tr.endTime).toLocaleString()}{!tr.hasSummary && ' · no summary'}
+                                                    </p>
+                                                </div>
+                                            </button>
+                                        ))}
+                                        {transcripts.length < transcriptTotal && (
+                                            <button onClick={() => loadTranscripts(transcripts.length)} className={`w-full py-2 text-[11px] font-bold ${textMuted} hover:text-indigo-400 transition-colors`}>Load more</button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Read-only Transcript Modal */}
+                            {openTranscript && (
+                                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setOpenTranscript(null)}>
+                                    <div className={`${bgCard} rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border ${t('border-white/10', 'border-gray-300')}`} onClick={e => e.stopPropagation()}>
+                                        <div className={`px-6 py-4 border-b ${borderSide} flex items-center justify-between`}>
+                                            <div>
+                                                <h3 className={`text-sm font-bold ${textHeading}`}>{openTranscript.customerInfo?.name || 'Unknown customer'}</h3>
+                                                <p className={`text-[10px] ${textMuted} mt-0.5`}>
+                                                    {openTranscript.type === 'voice' ? 'Voice call' : 'Chat'}
+                                                    {openTranscript.startTime && ` · ${new Date(openTranscript.startTime).toLocaleString()}`}
+                                                    {` → ${new Date(openTranscript.endTime).toLocaleString()}`}
+                                                    {openTranscript.sentiment && ` · ${openTranscript.sentiment}`}
+                                                </p>
+                                            </div>
+                                            <button onClick={() => setOpenTranscript(null)} className={`${textDim} hover:text-indigo-400 text-[11px] font-bold`}>Close</button>
+                                        </div>
+                                        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+                                            {openTranscript.summary && (
+                                                <div>
+                                                    <h4 className={`text-[10px] font-bold uppercase tracking-wider ${textSecondary} mb-2`}>Summary</h4>
+                                                    <p className={`text-[12px] leading-relaxed whitespace-pre-wrap ${textPrimary} ${bgInput} rounded-lg p-4 border ${t('border-white/5', 'border-gray-200')}`}>{openTranscript.summary}</p>
+                                                </div>
+                                            )}
+                                            <div>
+                                                <h4 className={`text-[10px] font-bold uppercase tracking-wider ${textSecondary} mb-2`}>Conversation</h4>
+                                                {(() => {
+                                                    const lines = openTranscript.messages || openTranscript.entries || []
+                                                    if (lines.length === 0) return <p className={`text-[12px] whitespace-pre-wrap ${textMuted}`}>{openTranscript.transcript || 'No messages recorded'}</p>
+                                                    return (
+                                                        <div className="space-y-2">
+                                                            {lines.map((line, i) => {
+                                                                const who = line.role || line.speaker || 'unknown'
+                                                                return (
+                                                                    <div key={line.id || i} className={`flex ${who === 'agent' ? 'justify-end' : 'justify-start'}`}>
+                                                                        <div className={`max-w-[80%] rounded-lg px-3.5 py-2 ${who === 'agent' ? 'bg-indigo-500/10' : bgInput} border ${t('border-white/5', 'border-gray-200')}`}>
+                                                                            <p className={`text-[9px] font-bold uppercase tracking-wider ${textDim} mb-0.5`}>{who} · {line.time}</p>
+                                                                            <p className={`text-[12px] ${textPrimary} whitespace-pre-wrap`}>{line.text}</p>
+                                                                        </div>
+                                                                    </div>
+                                                                )
+                                                            })}
+                                                        </div>
+                                                    )
+                                                })()}
+                                            </div>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                        </>}
+
+                        {/* ═══════════ HISTORY ═══════════ */}
+                        {activeTab === 'history' && (() => {
+                            const selected = revisions.find(r => r.id === selectedRevision) || null
+                            return (
+                                <div className="grid grid-cols-5 gap-5">
+                                    <div className={`col-span-2 ${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                        <div className="flex items-center gap-2 mb-5">
+                                            <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary}`}>Revisions</h3>
+                                            <span className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded-full">{revisions.length}</span>
+                                        </div>
+                                        {revisions.length === 0 ? (
+                                            <p className={`text-[12px] ${textDim} text-center py-8`}>No changes saved yet</p>
+                                        ) : (
+                                            <div className="space-y-2">
+                                                {revisions.map((r, i) => (
+                                                    <button key={r.id} onClick={() => selectRevision(r.id)}
+                                                        className={`w-full text-left p-3 rounded-lg border transition-all ${selectedRevision === r.id ? t('border-indigo-500/40 bg-indigo-500/10', 'border-indigo-300 bg-indigo-50') : `${bgInput} ${t('border-white/5 hover:border-white/10', 'border-gray-200 hover:border-gray-300')}`}`}>
+                                                        <div className="flex items-center gap-2 mb-0.5">
+                                                            <span className={`text-[10px] font-black ${textMuted}`}>#{r.number}</span>
+                                                            <h4 className={`text-[12px] font-bold ${t('text-slate-300', 'text-gray-700')} truncate`}>{REVISION_ACTIONS[r.action] || r.action}</h4>
+                                                            {i === 0 && <span className="text-[8px] font-black uppercase tracking-wider px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-500">Current</span>}
+                                                        </div>
+                                                        <p className={`text-[10px] ${textMuted} truncate`}>{r.author.name} · {new Date(r.createdAt).toLocaleString()}</p>
+                                                        {r.changedFields.length > 0 && (
+                                                            <p className={`text-[10px] ${textDim} truncate mt-1`}>{r.changedFields.join(', ')}</p>
+                                                        )}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    <div className={`col-span-3 ${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                        {!selected ? (
+                                            <p className={`text-[12px] ${textDim} text-center py-8`}>Select a revision to see what changed</p>
+                                        ) : <>
+                                            <div className="flex items-center justify-between mb-5">
+                                                <div>
+                                                    <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary}`}>Revision #{selected.number}</h3>
+                                                    <p className={`text-[10px] ${textMuted} mt-0.5`}>
+                                                        {selected.author.name}{selected.author.email ? ` (${selected.author.email})` : ''}
+                                                        {selected.restoredFrom && ` · restored from ${selected.restoredFrom}`}
+                                                    </p>
+                                                </div>
+                                                {revisions[0]?.id !== selected.id && (
+                                                    <button onClick={() => restoreRevision(selected)} disabled={restoring}
+                                                        className="px-3.5 py-1.5 bg-indigo-500 text-white text-[11px] font-bold rounded-lg hover:bg-indigo-600 active:scale-95 disabled:opacity-50 transition-all flex items-center gap-1.5 shadow-lg shadow-indigo-500/25">
+                                                        <Icon name="history" className="w-3 h-3" /> {restoring ? 'Restoring...' : 'Restore'}
+                                                    </button>
+                                                )}
+                                            </div>
+                                            {!revisionDiff ? (
+                                                <p className={`text-[12px] ${textDim} text-center py-8`}>Loading changes...</p>
+                                            ) : revisionDiff.changes.length === 0 ? (
+                                                <p className={`text-[12px] ${textDim} text-center py-8`}>{revisionDiff.from ? 'No changes from the previous revision' : 'Initial configuration'}</p>
+                                            ) : (
+                                                <div className="space-y-4">
+                                                    {revisionDiff.changes.map(c => (
+                                                        <div key={c.field}>
+                                                            <p className={`text-[10px] font-bold ${textSecondary} mb-1.5`}>{c.field}</p>
+                                                            <div className="grid grid-cols-2 gap-2">
+                                                                <pre className={`text-[10px] leading-relaxed whitespace-pre-wrap break-words max-h-48 overflow-y-auto rounded-lg p-2.5 ${t('bg-red-500/5 text-red-300', 'bg-red-50 text-red-700')}`}>{formatValue(c.before)}</pre>
+                                                                <pre className={`text-[10px] leading-relaxed whitespace-pre-wrap break-words max-h-48 overflow-y-auto rounded-lg p-2.5 ${t('bg-emerald-500/5 text-emerald-300', 'bg-emerald-50 text-emerald-700')}`}>{formatValue(c.after)}</pre>
+                                                            </div>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </>}
+                                    </div>
+                                </div>
+                            )
+                        })()}
+
+                        {/* ═══════════ TEAM ═══════════ */}
+                        {activeTab === 'team' && <>
+                            <div className={`${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                <div className="flex items-center justify-between mb-5">
+                                    <div className="flex items-center gap-2">
+                                        <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary}`}>Users</h3>
+                                        <span className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded-full">{users.length}</span>
+                                    </div>
+                                    <button onClick={() => setShowAddUser(true)}
+                                        className="px-3.5 py-1.5 bg-indigo-500 text-white text-[11px] font-bold rounded-lg hover:bg-indigo-600 active:scale-95 transition-all flex items-center gap-1.5 shadow-lg shadow-indigo-500/25">
+                                        <Icon name="plus" className="w-3 h-3" /> Add User
+                                    </button>
+                                </div>
+
+                                <div className="space-y-2">
+                                    {users.map(u => (
+                                        <div key={u.id} className={`flex items-center gap-3 p-4 rounded-lg border ${bgInput} ${t('border-white/5', 'border-gray-200')}`}>
+                                            <div className="w-8 h-8 rounded-lg bg-indigo-500/10 text-indigo-400 flex items-center justify-center text-[12px] font-bold shrink-0">{u.name.charAt(0).toUpperCase()}</div>
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-center gap-2 mb-0.5">
+                                                    <h4 className={`text-[12px] font-bold ${t('text-slate-300', 'text-gray-700')} truncate`}>{u.name}</h4>
+                                                    <span className={`text-[8px] font-black uppercase tracking-wider px-1.5 py-0.5 rounded ${u.role === 'admin' ? 'bg-red-500/10 text-red-500' :
+                                                        u.role === 'supervisor' ? 'bg-amber-500/10 text-amber-500' :
+                                                            t('bg-slate-500/10 text-slate-500', 'bg-gray-200 text-gray-500')
+                                                        }`}>{u.role}</span>
+                                                </div>
+                                                <p className={`text-[11px] ${textMuted} truncate`}>{u.email}</p>
+                                            </div>
+                                            {u.id !== currentUser?.id && (
+                                                <button onClick={() => deleteUser(u.id)} className={`${textDim} hover:text-red-500 transition-colors p-1 shrink-0`}>
+                                                    <Icon name="trash" className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Add User Modal */}
+                            {showAddUser && (
+                                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setShowAddUser(false)}>
+                                    <div className={`${bgCard} rounded-xl shadow-2xl w-full max-w-md p-6 border ${t('border-white/10', 'border-gray-300')}`} onClick={e => e.stopPropagation()}>
+                                        <h3 className={`text-sm font-bold ${textHeading} mb-5`}>Add User</h3>
+                                        <div className="space-y-4">
+                                            <div className="grid grid-cols-2 gap-4">
+                                                <div>
+                                                    <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Name</label>
+                                                    <input value={newUserName} onChange={e => setNewUserName(e.target.value)} className={inputCls} placeholder="e.g., Priya Shah" />
+                                                </div>
+                                                <div>
+                                                    <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Role</label>
+                                                    <select value={newUserRole} onChange={e => setNewUserRole(e.target.value as Role)} className={selectCls}>
+                                                        <option value="agent">Agent</option>
+                                                        <option value="supervisor">Supervisor</option>
+                                                        <option value="admin">Admin</option>
+                                                    </select>
+                                                </div>
+                                            </div>
+                                            <div>
+                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Email</label>
+                                                <input type="email" value={newUserEmail} onChange={e => setNewUserEmail(e.target.value)} className={inputCls} />
+                                            </div>
+                                            <div>
+                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Initial Password</label>
+                                                <input type="password" value={newUserPassword} onChange={e => setNewUserPassword(e.target.value)} className={inputCls} />
+                                            </div>
+                                            {userError && <p className="text-[11px] font-semibold text-red-500">{userError}</p>}
+                                        </div>
+                                        <div className="flex gap-3 mt-6">
+                                            <button onClick={() => setShowAddUser(false)} className={`flex-1 py-2.5 rounded-lg text-[12px] font-bold ${t('text-slate-400 bg-white/5 hover:bg-white/10', 'text-gray-500 bg-gray-100 hover:bg-gray-200')} transition-all`}>Cancel</button>
+                                            <button onClick={addUser} className="flex-1 py-2.5 rounded-lg text-[12px] font-bold text-white bg-indigo-500 hover:bg-indigo-600 active:scale-95 transition-all shadow-lg shadow-indigo-500/25">Add User</button>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                        </>}
+
+                        {/* ═══════════ TENANTS ═══════════ */}
+                        {activeTab === 'tenants' && <>
+                            <div className={`${bgCard} rounded-xl border ${borderCard} p-5 transition-colors duration-300 ${t('', 'shadow-sm')}`}>
+                                <div className="flex items-center justify-between mb-5">
+                                    <div className="flex items-center gap-2">
+                                        <h3 className={`text-[11px] font-bold uppercase tracking-wider ${textSecondary}`}>Tenants</h3>
+                                        <span className="text-[9px] font-bold bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded-full">{tenants.length}</span>
+                                    </div>
+                                    <button onClick={() => setShowAddTenant(true)}
+                                        className="px-3.5 py-1.5 bg-indigo-500 text-white text-[11px] font-bold rounded-lg hover:bg-indigo-600 active:scale-95 transition-all flex items-center gap-1.5 shadow-lg shadow-indigo-500/25">
+                                        <Icon name="plus" className="w-3 h-3" /> Add Tenant
+                                    </button>
+                                </div>
+
+                                <div className="space-y-2">
+                                    {tenants.map(tn => (
+                                        <div key={tn.id} className={`flex items-start gap-3 p-4 rounded-lg border ${bgInput} ${t('border-white/5', 'border-gray-200')}`}>
+                                            <div className="w-8 h-8 rounded-lg bg-indigo-500/10 text-indigo-400 flex items-center justify-center shrink-0"><Icon name="globe" className="w-4 h-4" /></div>
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-center gap-2 mb-0.5">
+                                                    <h4 className={`text-[12px] font-bold ${t('text-slate-300', 'text-gray-700')} truncate`}>{tn.name}</h4>
+                                                    <span className={`text-[8px] font-black uppercase tracking-wider px-1.5 py-0.5 rounded ${t('bg-slate-500/10 text-slate-500', 'bg-gray-200 text-gray-500')}`}>{tn.id}</span>
+                                                </div>
+                                                <p className={`text-[11px] ${textMuted} truncate`}>{tn.hostnames.length > 0 ? tn.hostnames.join(', ') : 'No hostnames'}</p>
+                                                {tn.apiKeys.map(key => (
+                                                    <p key={key} className={`text-[10px] font-mono ${textDim} truncate mt-1`}>API key: {key}</p>
+                                                ))}
+                                            </div>
+                                            {tn.id !== DEFAULT_TENANT_ID && (
+                                                <button onClick={() => deleteTenant(tn.id)} className={`${textDim} hover:text-red-500 transition-colors p-1 shrink-0`}>
+                                                    <Icon name="trash" className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Add Tenant Modal */}
+                            {showAddTenant && (
+                                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setShowAddTenant(false)}>
+                                    <div className={`${bgCard} rounded-xl shadow-2xl w-full max-w-md p-6 border ${t('border-white/10', 'border-gray-300')}`} onClick={e => e.stopPropagation()}>
+                                        <h3 className={`text-sm font-bold ${textHeading} mb-5`}>Add Tenant</h3>
+                                        <div className="space-y-4">
+                                            <div>
+                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Name</label>
+                                                <input value={newTenantName} onChange={e => setNewTenantName(e.target.value)} className={inputCls} placeholder="e.g., Acme Corp" />
+                                            </div>
+                                            <div>
+                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Hostnames (comma separated, optional)</label>
+                                                <input value={newTenantHostnames} onChange={e => setNewTenantHostnames(e.target.value)} className={inputCls} placeholder="support.acme.com" />
+                                            </div>
+                                            <div>
+                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Admin Email</label>
+                                                <input type="email" value={newTenantAdminEmail} onChange={e => setNewTenantAdminEmail(e.target.value)} className={inputCls} />
+                                            </div>
+                                            <div>
+                                                <label className={`block text-[10px] font-semibold ${textMuted} mb-1.5`}>Admin Initial Password</label>
+                                                <input type="password" value={newTenantAdminPassword} onChange={e => setNewTenantAdminPassword(e.target.value)} className={inputCls} />
+                                            </div>
+                                            {tenantError && <p className="text-[11px] font-semibold text-red-500">{tenantError}</p>}
+                                        </div>
+                                        <div className="flex gap-3 mt-6">
+                                            <button onClick={() => setShowAddTenant(false)} className={`flex-1 py-2.5 rounded-lg text-[12px] font-bold ${t('text-slate-400 bg-white/5 hover:bg-white/10', 'text-gray-500 bg-gray-100 hover:bg-gray-200')} transition-all`}>Cancel</button>
+                                            <button onClick={addTenant} className="flex-1 py-2.5 rounded-lg text-[12px] font-bold text-white bg-indigo-500 hover:bg-indigo-600 active:scale-95 transition-all shadow-lg shadow-indigo-500/25">Add Tenant</button>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
                         </>}
 
                     </div>
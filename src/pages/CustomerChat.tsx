@@ -1,8 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { io } from 'socket.io-client'
+import { tenantHeaders } from '../lib/tenant'
+import { customerSocket } from '../lib/socket'
 
 const API_URL = import.meta.env.VITE_API_URL || ''
-const socket = io(API_URL || window.location.origin)
+const socket = customerSocket()
 
 
 const CustomerChat: React.FC = () => {
@@ -10,6 +11,8 @@ const CustomerChat: React.FC = () => {
     const [input, setInput] = useState('')
     const [agentTyping, setAgentTyping] = useState(false)
     const [agentOnline, setAgentOnline] = useState(false)
+    const [assignedAgentName, setAssignedAgentName] = useState<string | null>(null)
+    const [queuePosition, setQueuePosition] = useState<{ position: number; queueLength: number } | null>(null)
     const [companyName, setCompanyName] = useState('AgentOS')
     const chatEndRef = useRef<HTMLDivElement>(null)
     const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
@@ -44,23 +47,34 @@ const CustomerChat: React.FC = () => {
             if (data.role === 'agent') setAgentTyping(false)
         })
 
-        socket.on('user_status', (data) => {
-            if (data.role === 'agent') setAgentOnline(data.status === 'online')
+        // Routing: place in line while waiting, then the agent who picked the chat up
+        socket.on('queue_position', ({ position, queueLength }) => {
+            setQueuePosition({ position, queueLength })
+            setAssignedAgentName(null)
+            setAgentOnline(false)
         })
 
-        socket.on('conversation_ended', ({ summary }) => {
+        socket.on('agent_assigned', ({ agentName }) => {
+            setQueuePosition(null)
+            setAssignedAgentName(agentName)
+            setAgentOnline(true)
+        })
+
+        socket.on('conversation_ended', () => {
             setMessages(prev => [...prev, { role: 'system', text: 'This conversation has ended.', time: new Date().toLocaleTimeString() }]);
             sessionStorage.removeItem('chat_conversation_id');
+            setQueuePosition(null);
+            setAgentOnline(false);
         });
 
         // Fetch admin config for company name
-        fetch(`${API_URL}/api/admin/config`)
+        fetch(`${API_URL}/api/config/public`, { headers: tenantHeaders() })
             .then(r => r.json())
             .then(c => { if (c.companyName) setCompanyName(c.companyName) })
             .catch(() => { })
 
         // Listen for live config updates
-        socket.on('config_updated', (config: any) => {
+        socket.on('config_updated', (config) => {
             if (config.companyName) setCompanyName(config.companyName)
         })
 
@@ -69,10 +83,11 @@ const CustomerChat: React.FC = () => {
             socket.off('new_message')
             socket.off('user_typing')
             socket.off('user_stop_typing')
-            socket.off('user_status')
             socket.off('config_updated')
             socket.off('session_started')
             socket.off('conversation_ended')
+            socket.off('queue_position')
+            socket.off('agent_assigned')
         }
     }, [])
 
@@ -83,19 +98,19 @@ const CustomerChat: React.FC = () => {
     const handleInputChange = (val: string) => {
         setInput(val)
         const conversationId = sessionStorage.getItem('chat_conversation_id');
-        socket.emit('typing', { role: 'customer', conversationId })
+        socket.emit('typing', { conversationId })
         if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
         typingTimeoutRef.current = setTimeout(() => {
-            socket.emit('stop_typing', { role: 'customer', conversationId })
+            socket.emit('stop_typing', { conversationId })
         }, 1000)
     }
 
     const handleSend = () => {
         if (!input.trim()) return
         const conversationId = sessionStorage.getItem('chat_conversation_id');
-        socket.emit('send_message', { role: 'customer', text: input, conversationId })
+        socket.emit('send_message', { text: input, conversationId })
         setInput('')
-        socket.emit('stop_typing', { role: 'customer', conversationId })
+        socket.emit('stop_typing', { conversationId })
     }
 
     return (
@@ -116,7 +131,7 @@ const CustomerChat: React.FC = () => {
                                 <h1 className="font-bold text-xs md:text-sm tracking-tight truncate">Support Chat</h1>
                                 <div className="flex items-center gap-1.5 mt-0.5">
                                     <span className={`w-1.5 h-1.5 rounded-full ${agentOnline ? 'bg-emerald-400 animate-pulse' : 'bg-slate-400'}`}></span>
-                                    <span className="text-[9px] md:text-[10px] text-blue-100 font-medium truncate">{agentOnline ? 'Agent is online' : 'Connecting...'}</span>
+                                    <span className="text-[9px] md:text-[10px] text-blue-100 font-medium truncate">{assignedAgentName ? `${assignedAgentName} is helping you` : agentOnline ? 'Agent is online' : queuePosition ? `You are #${queuePosition.position} in line` : 'Connecting...'}</span>
                                 </div>
                             </div>
                         </div>
@@ -126,6 +141,14 @@ const CustomerChat: React.FC = () => {
                     </div>
                 </header>
 
+                {queuePosition && (
+                    <div className="px-4 md:px-5 py-2.5 bg-amber-50 border-b border-amber-100 text-[11px] md:text-xs text-amber-700 font-medium text-center shrink-0">
+                        {queuePosition.position === 1
+                            ? "You're next in line — an agent will be with you shortly."
+                            : `You're number ${queuePosition.position} in line. An agent will be with you shortly.`}
+                    </div>
+                )}
+
                 {/* Messages */}
                 <div className="flex-1 overflow-y-auto px-4 md:px-5 py-4 md:py-6 space-y-4 md:space-y-5 bg-gradient-to-b from-white to-slate-50/50 custom-scrollbar">
                     {/* Empty state */}
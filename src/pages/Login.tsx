@@ -0,0 +1,62 @@
+import React, { useState } from 'react'
+import { login } from '../lib/auth'
+
+const Login: React.FC = () => {
+    const [email, setEmail] = useState('')
+    const [password, setPassword] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [submitting, setSubmitting] = useState(false)
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSubmitting(true)
+        setError(null)
+        try {
+            await login(email, password)
+            // Full reload so every page's socket reconnects with the new session token
+            const next = new URLSearchParams(window.location.search).get('next') || '/'
+            window.location.href = next.startsWith('/') ? next : '/'
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Sign-in failed')
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <div className="flex items-center justify-center h-screen h-[100dvh] bg-[#0f1117] font-sans p-4">
+            <form onSubmit={handleSubmit} className="w-full max-w-sm bg-[#1a1d27] rounded-xl border border-white/5 p-7 shadow-2xl">
+                <div className="flex items-center mb-6">
+                    <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center mr-2.5 shadow-lg shadow-indigo-500/20">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+                    </div>
+                    <div>
+                        <p className="text-[14px] font-bold text-white tracking-tight">Sign in</p>
+                        <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">AgentOS Staff</p>
+                    </div>
+                </div>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-[10px] font-semibold text-slate-500 mb-1.5">Email</label>
+                        <input type="email" value={email} onChange={e => setEmail(e.target.value)} autoFocus required
+                            className="w-full bg-[#0f1117] border border-white/10 rounded-lg px-3.5 py-2.5 text-[13px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500/50 focus:border-indigo-500/50 transition-all" />
+                    </div>
+                    <div>
+                        <label className="block text-[10px] font-semibold text-slate-500 mb-1.5">Password</label>
+                        <input type="password" value={password} onChange={e => setPassword(e.target.value)} required
+                            className="w-full bg-[#0f1117] border border-white/10 rounded-lg px-3.5 py-2.5 text-[13px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500/50 focus:border-indigo-500/50 transition-all" />
+                    </div>
+                </div>
+
+                {error && <p className="mt-4 text-[11px] font-semibold text-red-400">{error}</p>}
+
+                <button type="submit" disabled={submitting}
+                    className="mt-6 w-full py-2.5 rounded-lg text-[12px] font-bold text-white bg-indigo-500 hover:bg-indigo-600 active:scale-95 disabled:opacity-50 transition-all shadow-lg shadow-indigo-500/25">
+                    {submitting ? 'Signing in...' : 'Sign in'}
+                </button>
+            </form>
+        </div>
+    )
+}
+
+export default Login
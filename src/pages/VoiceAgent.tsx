@@ -1,32 +1,16 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
-import { io } from 'socket.io-client'
 import KnowledgeSidebar from '../components/KnowledgeSidebar'
+import PolicyAlerts from '../components/PolicyAlerts'
+import { API_URL, authFetch, getCurrentUser, hasRole } from '../lib/auth'
+import type { Coaching, CoachingFailure, KnowledgeSnippet } from '../lib/api'
+import { coachingFailures, useLiveCoaching } from '../lib/coaching'
+import { customerLink, fetchCurrentTenant, Tenant } from '../lib/tenant'
+import { describeHandoff, describeTransferStatus, Handoff, Transfer, TransferMode, Whisper } from '../lib/transfer'
+import { LiveCall, staffSocket, TranscriptEntry, VoiceColleague } from '../lib/socket'
 
-const API_URL = import.meta.env.VITE_API_URL || ''
-const socket = io(API_URL || window.location.origin)
+const socket = staffSocket()
 
 
-// ──── Types ────
-type TranscriptEntry = {
-    id: string
-    speaker: 'agent' | 'customer'
-    text: string
-    time: string
-}
-
-type AiCoaching = {
-    nextAction: string
-    smartReplies: string[]
-    sentiment: 'positive' | 'neutral' | 'negative' | 'frustrated'
-    insights: { label: string; tip: string; color: 'green' | 'blue' | 'amber' | 'rose' }[]
-    escalationRisk: number
-}
-
-type KnowledgeSnippet = {
-    text: string
-    docName: string
-    score: number
-}
 
 // ──── Web Speech API type declarations ────
 declare global {
@@ -62,12 +46,6 @@ const VoiceAgent: React.FC = () => {
     const [transcript, setTranscript] = useState<TranscriptEntry[]>([])
     const [interimText, setInterimText] = useState('')
 
-    // ── AI Coaching (Gemini-powered, fully prompt-driven) ──
-    const [aiCoaching, setAiCoaching] = useState<AiCoaching | null>(null)
-    const [knowledgeSnippets, setKnowledgeSnippets] = useState<KnowledgeSnippet[]>([])
-    const [aiLoading, setAiLoading] = useState(false)
-    const [aiError, setAiError] = useState(false)
-
     // ── Summary ──
     const [summaryText, setSummaryText] = useState<string | null>(null)
     const [showSummary, setShowSummary] = useState(false)
@@ -78,33 +56,72 @@ const VoiceAgent: React.FC = () => {
 
     // Share link state
     const [linkCopied, setLinkCopied] = useState(false)
+    const [tenant, setTenant] = useState<Tenant | null>(null)
 
     // ── Session ──
-    const [sessionId] = useState(`voice-${Date.now()}`)
+    const [sessionId, setSessionId] = useState(`voice-${Date.now()}`)
     const [showMobileCoaching, setShowMobileCoaching] = useState(false)
 
+    // ── AI Coaching (Gemini-powered, fully prompt-driven), streamed by the server after every line of the call ──
+    const {
+        coaching: aiCoaching, snippets: knowledgeSnippets, query: knowledgeQuery, loading: aiLoading, error: aiError,
+        clear: clearCoaching, stop: stopCoaching
+    } = useLiveCoaching(socket, { kind: 'voice', id: sessionId })
+
+    // ── Transfers & supervision ──
+    const currentUser = getCurrentUser()
+    const isSupervisor = hasRole(currentUser, 'supervisor')
+    const [liveCalls, setLiveCalls] = useState<LiveCall[]>([])
+    const [colleagues, setColleagues] = useState<VoiceColleague[]>([])
+    const [transferOffers, setTransferOffers] = useState<Transfer[]>([])
+    const [pendingTransfer, setPendingTransfer] = useState<Transfer | null>(null)
+    const [showTransfer, setShowTransfer] = useState(false)
+    const [transferForm, setTransferForm] = useState<{ toAgentId: string; mode: TransferMode; note: string }>({ toAgentId: '', mode: 'warm', note: '' })
+    const [handoff, setHandoff] = useState<Handoff | null>(null)
+    const [monitoredCall, setMonitoredCall] = useState<LiveCall | null>(null)
+    const [whispers, setWhispers] = useState<Whisper[]>([])
+    const [whisperInput, setWhisperInput] = useState('')
+    const [notice, setNotice] = useState<string | null>(null)
+
+    const showNotice = (text: string) => {
+        setNotice(text)
+        setTimeout(() => setNotice(null), 4000)
+    }
+
     const recognitionRef = useRef<any>(null)
     const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
     const transcriptEndRef = useRef<HTMLDivElement>(null)
-    const coachingDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
     // WebRTC references
     const localStreamRef = useRef<MediaStream | null>(null)
     const peerConnectionRef = useRef<RTCPeerConnection | null>(null)
     const remoteAudioRef = useRef<HTMLAudioElement | null>(null)
 
+    // Customer links must carry the tenant's API key when the hostname does not identify it
+    useEffect(() => {
+        fetchCurrentTenant().then(setTenant)
+    }, [])
+
     // ──── Customer → Agent: receive entries the customer speaks ────
     useEffect(() => {
-        const handleNewEntry = ({ entry }: { entry: { id: string; speaker: string; text: string; time: string } }) => {
+        const handleNewEntry = ({ sessionId: entrySession, entry }: { sessionId: string; entry: TranscriptEntry }) => {
+            // A monitoring supervisor sees both sides of someone else's call
+            if (monitoredCall) {
+                if (entrySession === monitoredCall.id) setTranscript(prev => [...prev, entry])
+                return
+            }
             // Only add if it's from the customer (agent's own entries are already added locally)
             if (entry.speaker === 'customer') {
-                setTranscript(prev => [...prev, entry as any])
+                setTranscript(prev => [...prev, entry])
                 // Note: We no longer play TTS here. The real audio is coming through WebRTC!
             }
         }
 
         socket.on('voice_new_entry', handleNewEntry)
 
+        // History of a call joined mid-way — after a transfer, or when monitoring
+        socket.on('voice_history', (entries) => setTranscript(entries))
+
         // WebRTC Signaling handlers
         socket.on('voice_webrtc_offer', async ({ offer }) => {
             console.log("[WebRTC Agent] Received Offer")
@@ -143,15 +160,17 @@ const VoiceAgent: React.FC = () => {
 
         return () => {
             socket.off('voice_new_entry', handleNewEntry)
+            socket.off('voice_history')
             socket.off('voice_webrtc_offer')
             socket.off('voice_webrtc_answer')
             socket.off('voice_webrtc_ice_candidate')
         }
-    }, [sessionId])
+    }, [sessionId, monitoredCall])
 
     // ──── Rejoin room if socket reconnects ────
     useEffect(() => {
         const reJoin = () => {
+            socket.emit('voice_console')
             if (callActive) {
                 // Use voice_join to safely rejoin the room without wiping server history
                 socket.emit('voice_join', { sessionId })
@@ -161,6 +180,56 @@ const VoiceAgent: React.FC = () => {
         return () => { socket.off('connect', reJoin) }
     }, [callActive, sessionId])
 
+    // ──── Transfers & supervision: live calls, colleagues, offers and whispers ────
+    useEffect(() => {
+        socket.emit('voice_console')
+
+        socket.on('voice_status', ({ calls, agents }) => {
+            setLiveCalls(calls)
+            setColleagues(agents)
+        })
+
+        socket.on('transfer_offered', (transfer) => {
+            if (transfer.kind === 'voice') setTransferOffers(prev => [...prev.filter(t => t.id !== transfer.id), transfer])
+        })
+
+        socket.on('transfer_updated', ({ transfer, status }) => {
+            if (transfer.kind !== 'voice') return
+            if (transfer.from.id === currentUser?.id) {
+                setPendingTransfer(status === 'pending' ? transfer : null)
+                if (status !== 'pending') showNotice(describeTransferStatus(transfer, status))
+            }
+            if (status !== 'pending') setTransferOffers(prev => prev.filter(t => t.id !== transfer.id))
+        })
+
+        socket.on('transfer_error', ({ kind, error }) => {
+            if (!kind || kind === 'voice') showNotice(error)
+        })
+
+        socket.on('whisper_history', ({ kind, whispers }) => {
+            if (kind === 'voice') setWhispers(whispers)
+        })
+
+        socket.on('whisper', ({ kind, id, whisper }) => {
+            if (kind === 'voice' && (id === sessionId || id === monitoredCall?.id)) setWhispers(prev => [...prev, whisper])
+        })
+
+        socket.on('escalation_flagged', ({ kind, id, escalation }) => {
+            // Sent to the call's agent and to supervisors, who hear about every call of the tenant
+            if (kind === 'voice') showNotice(`${id === sessionId ? 'This call' : 'A call'} was flagged for escalation: ${escalation.policyName}`)
+        })
+
+        return () => {
+            socket.off('voice_status')
+            socket.off('transfer_offered')
+            socket.off('transfer_updated')
+            socket.off('transfer_error')
+            socket.off('whisper_history')
+            socket.off('whisper')
+            socket.off('escalation_flagged')
+        }
+    }, [sessionId, monitoredCall])
+
     // ──── Auto-scroll ────
     useEffect(() => {
         transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -172,46 +241,8 @@ const VoiceAgent: React.FC = () => {
         if (!SpeechRec) setSttSupported(false)
     }, [])
 
-    // ──── AI Coaching — debounced call to /api/coaching on every new transcript entry ────
-    useEffect(() => {
-        // Don't call if empty
-        const finalEntries = transcript.filter(e => e.text.trim())
-        if (finalEntries.length === 0) {
-            setAiCoaching(null)
-            return
-        }
-
-        // Debounce: wait 1.5s after the last new entry
-        if (coachingDebounceRef.current) clearTimeout(coachingDebounceRef.current)
-        setAiLoading(true)
-        setAiError(false)
-
-        coachingDebounceRef.current = setTimeout(async () => {
-            try {
-                const res = await fetch(`${API_URL}/api/coaching`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        transcript: finalEntries.map(e => ({ role: e.speaker, text: e.text }))
-                    })
-                })
-                const data = await res.json()
-                if (data.coaching) {
-                    setAiCoaching(data.coaching)
-                    setKnowledgeSnippets(data.knowledgeContext || [])
-                    setAiError(false)
-                } else {
-                    setAiError(true)
-                }
-            } catch {
-                setAiError(true)
-            }
-            setAiLoading(false)
-        }, 1500)
-    }, [transcript])
-
     // Initialize WebRTC Peer Connection
-    const initWebRTC = async () => {
+    const initWebRTC = async (callId: string) => {
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
             localStreamRef.current = stream
@@ -239,7 +270,7 @@ const VoiceAgent: React.FC = () => {
             pc.onicecandidate = event => {
                 if (event.candidate) {
                     console.log("[WebRTC Agent] Gathered local ICE candidate")
-                    socket.emit('voice_webrtc_ice_candidate', { sessionId, candidate: event.candidate })
+                    socket.emit('voice_webrtc_ice_candidate', { sessionId: callId, candidate: event.candidate })
                 }
             }
 
@@ -263,21 +294,29 @@ const VoiceAgent: React.FC = () => {
     }
 
     // ──── Start Call ────
-    const startCall = useCallback(async () => {
+    // `transferredId` picks up a call handed over by a colleague instead of opening a new session
+    const startCall = useCallback(async (transferredId?: string) => {
         const SpeechRec = window.SpeechRecognition || window.webkitSpeechRecognition
         if (!SpeechRec) return
+        const callId = transferredId || sessionId
 
-        await initWebRTC()
+        await initWebRTC(callId)
 
         setCallActive(true)
         setTranscript([])
         setInterimText('')
         setCallTimer(0)
-        setAiCoaching(null)
+        clearCoaching()
+        if (!transferredId) {
+            setHandoff(null)
+            setWhispers([])
+        }
 
-        socket.emit('voice_start', { sessionId, callerName })
+        // Joining sends the call's history back; starting opens a fresh session
+        if (transferredId) socket.emit('voice_join', { sessionId: callId })
+        else socket.emit('voice_start', { sessionId: callId, callerName })
         console.log("[WebRTC Agent] Emitting voice_request_offer")
-        socket.emit('voice_request_offer', { sessionId })
+        socket.emit('voice_request_offer', { sessionId: callId })
 
         // Start timer
         timerRef.current = setInterval(() => setCallTimer(t => t + 1), 1000)
@@ -303,7 +342,7 @@ const VoiceAgent: React.FC = () => {
                     }
                     setTranscript(prev => [...prev, entry])
                     setInterimText('')
-                    socket.emit('voice_transcript', { sessionId, entry })
+                    socket.emit('voice_transcript', { sessionId: callId, entry })
                 } else {
                     interim += result[0].transcript
                 }
@@ -325,8 +364,8 @@ const VoiceAgent: React.FC = () => {
         recognitionRef.current = recognition
     }, [sessionId, callerName])
 
-    // ──── End Call ────
-    const endCall = useCallback(() => {
+    // ──── Hang up locally (call ended, or handed to someone else) ────
+    const hangUp = useCallback(() => {
         setCallActive(false)
         if (timerRef.current) clearInterval(timerRef.current)
         if (recognitionRef.current) {
@@ -349,8 +388,93 @@ const VoiceAgent: React.FC = () => {
         }
 
         setInterimText('')
+        setPendingTransfer(null)
+    }, [])
+
+    // ──── End Call ────
+    const endCall = useCallback(() => {
+        hangUp()
         socket.emit('voice_end', { sessionId })
-    }, [sessionId])
+        stopCoaching()
+    }, [hangUp, sessionId, stopCoaching])
+
+    // ──── Call moved to or from this console ────
+    useEffect(() => {
+        socket.on('voice_handoff', ({ sessionId: callId, callerName: caller, handoff }) => {
+            if (callActive) return
+            if (monitoredCall) socket.emit('monitor_stop', { kind: 'voice', id: monitoredCall.id })
+            setMonitoredCall(null)
+            setSessionId(callId)
+            setCallerName(caller)
+            setHandoff(handoff)
+            setWhispers([])
+            startCall(callId)
+        })
+
+        // The transcript stays on screen so the agent can still write a summary
+        socket.on('handed_off', ({ kind, id, handoff }) => {
+            if (kind !== 'voice' || id !== sessionId) return
+            hangUp()
+            showNotice(handoff.mode === 'takeover' ? `${handoff.to.name} took over the call` : `Call transferred to ${handoff.to.name}`)
+        })
+
+        socket.on('voice_session_ended', ({ sessionId: endedId }) => {
+            if (monitoredCall && endedId === monitoredCall.id) {
+                setMonitoredCall(null)
+                showNotice('The call you were monitoring has ended')
+            }
+        })
+
+        return () => {
+            socket.off('voice_handoff')
+            socket.off('handed_off')
+            socket.off('voice_session_ended')
+        }
+    }, [callActive, monitoredCall, sessionId, startCall, hangUp])
+
+    const handleRequestTransfer = () => {
+        if (!transferForm.toAgentId) return
+        socket.emit('transfer_request', { kind: 'voice', id: sessionId, ...transferForm })
+        setShowTransfer(false)
+        setTransferForm({ toAgentId: '', mode: 'warm', note: '' })
+    }
+
+    const handleAnswerTransfer = (transfer: Transfer, accept: boolean) => {
+        socket.emit(accept ? 'transfer_accept' : 'transfer_decline', { transferId: transfer.id })
+        setTransferOffers(prev => prev.filter(t => t.id !== transfer.id))
+    }
+
+    // Supervisors listen in on a colleague's call: transcript only, the audio stays between agent and caller
+    const handleMonitorCall = (call: LiveCall) => {
+        if (monitoredCall) socket.emit('monitor_stop', { kind: 'voice', id: monitoredCall.id })
+        setMonitoredCall(call)
+        setTranscript([])
+        setWhispers([])
+        setHandoff(null)
+        setCallerName(call.callerName)
+        socket.emit('monitor_start', { kind: 'voice', id: call.id })
+    }
+
+    const handleStopMonitoring = () => {
+        if (monitoredCall) socket.emit('monitor_stop', { kind: 'voice', id: monitoredCall.id })
+        setMonitoredCall(null)
+        setTranscript([])
+        setWhispers([])
+    }
+
+    const handleTakeOverCall = (call: LiveCall) => {
+        if (!confirm(`Take over the call with ${call.callerName}? ${call.agent ? `${call.agent.name} will be disconnected.` : ''}`)) return
+        socket.emit('take_over', { kind: 'voice', id: call.id })
+    }
+
+    const handleSendWhisper = () => {
+        if (!whisperInput.trim() || !monitoredCall) return
+        socket.emit('whisper', { kind: 'voice', id: monitoredCall.id, text: whisperInput })
+        setWhisperInput('')
+    }
+
+    const otherCalls = liveCalls.filter(c => c.id !== sessionId && c.agent?.id !== currentUser?.id)
+    const transferCandidates = colleagues.filter(c => c.id !== currentUser?.id)
 
     // ──── Mute toggle ────
     const toggleMute = () => {
@@ -392,10 +516,10 @@ const VoiceAgent: React.FC = () => {
             const transcriptText = transcript
                 .map(e => `${e.speaker.toUpperCase()} [${e.time}]: ${e.text}`)
                 .join('\n')
-            const res = await fetch(`${API_URL}/api/voice/summary`, {
+            const res = await authFetch(`${API_URL}/api/voice/summary`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ transcript: transcriptText })
+                body: JSON.stringify({ transcript: transcriptText, sessionId, callerName, entries: transcript, sentiment: aiCoaching?.sentiment })
             })
             const data = await res.json()
             if (data.summary) { setSummaryText(data.summary); setShowSummary(true) }
@@ -444,7 +568,7 @@ const VoiceAgent: React.FC = () => {
                     )}
                 </div>
                 <div className="flex items-center gap-3 md:gap-4 border-l border-slate-200 pl-4 md:pl-6">
-                    <a href="/customer" target="_blank" className="text-[10px] md:text-xs font-bold text-indigo-600 hover:text-indigo-700 transition-colors">Customer</a>
+                    <a href={customerLink('/customer', tenant)} target="_blank" className="text-[10px] md:text-xs font-bold text-indigo-600 hover:text-indigo-700 transition-colors">Customer</a>
                     <button
                         onClick={() => setShowMobileCoaching(!showMobileCoaching)}
                         className="lg:hidden p-1.5 rounded-lg bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-colors"
@@ -498,7 +622,7 @@ const VoiceAgent: React.FC = () => {
                                     {/* Copy Customer Link */}
                                     <button
                                         onClick={() => {
-                                            const url = `${window.location.origin}/voice/customer?session=${sessionId}`
+                                            const url = customerLink('/voice/customer', tenant, { session: sessionId })
                                             navigator.clipboard.writeText(url)
                                             setLinkCopied(true)
                                             setTimeout(() => setLinkCopied(false), 2500)
@@ -509,6 +633,14 @@ const VoiceAgent: React.FC = () => {
                                     >
                                         {linkCopied ? '✅ Copied!' : <><span className="hidden xs:inline">🔗 </span>Link</>}
                                     </button>
+                                    <button
+                                        onClick={() => setShowTransfer(true)}
+                                        disabled={!!pendingTransfer}
+                                        title="Hand this call to a colleague"
+                                        className="px-3 py-2 rounded-full text-[9px] md:text-[10px] font-bold bg-white/20 hover:bg-white/30 text-white disabled:opacity-50 transition-all whitespace-nowrap"
+                                    >
+                                        Transfer
+                                    </button>
                                     <button
                                         onClick={toggleMute}
                                         title={isMuted ? 'Unmute' : 'Mute'}
@@ -526,8 +658,8 @@ const VoiceAgent: React.FC = () => {
                                 </>
                             ) : (
                                 <button
-                                    onClick={startCall}
-                                    disabled={!sttSupported}
+                                    onClick={() => startCall()}
+                                    disabled={!sttSupported || !!monitoredCall}
                                     className="flex items-center gap-2 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 md:px-5 py-2 rounded-full text-xs md:text-sm font-bold transition-all shadow-lg shadow-emerald-500/30 active:scale-95"
                                 >
                                     <svg xmlns="http://www.w3.org/2000/svg" className="w-3.5 h-3.5 md:w-4 md:h-4" viewBox="0 0 20 20" fill="currentColor"><path d="M2 3a1 1 0 011-1h2.153a1 1 0 01.986.836l.74 4.435a1 1 0 01-.54 1.06l-1.548.773a11.037 11.037 0 006.105 6.105l.774-1.548a1 1 0 011.059-.54l4.435.74a1 1 0 01.836.986V17a1 1 0 01-1 1h-2C7.82 18 2 12.18 2 2V3z" /></svg>
@@ -537,6 +669,59 @@ const VoiceAgent: React.FC = () => {
                         </div>
                     </div>
 
+                    {/* Transfers & supervision */}
+                    {(notice || transferOffers.length > 0 || pendingTransfer || handoff || monitoredCall) && (
+                        <div className="mx-4 md:mx-8 mt-4 space-y-2">
+                            {notice && <div className="px-4 py-2.5 rounded-xl bg-rose-50 text-rose-600 text-[10px] md:text-xs font-bold">{notice}</div>}
+                            {transferOffers.map(transfer => (
+                                <div key={transfer.id} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 px-4 py-3 rounded-xl bg-indigo-50 border border-indigo-100">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-[10px] md:text-xs font-bold text-indigo-700 uppercase tracking-wider">Call transfer from {transfer.from.name}</p>
+                                        {transfer.note && <p className="text-[11px] md:text-xs text-slate-600 mt-1 whitespace-pre-wrap">{transfer.note}</p>}
+                                    </div>
+                                    <div className="flex gap-2 shrink-0">
+                                        <button onClick={() => handleAnswerTransfer(transfer, true)} disabled={callActive} title={callActive ? 'Finish your current call first' : undefined} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-[10px] font-bold hover:bg-indigo-700 disabled:opacity-50 transition-colors">Accept</button>
+                                        <button onClick={() => handleAnswerTransfer(transfer, false)} className="px-3 py-1.5 rounded-lg bg-white text-slate-500 text-[10px] font-bold border border-slate-200 hover:bg-slate-100 transition-colors">Decline</button>
+                                    </div>
+                                </div>
+                            ))}
+                            {pendingTransfer && (
+                                <div className="flex items-center justify-between px-4 py-2.5 rounded-xl bg-indigo-50 text-indigo-700 text-[10px] md:text-xs font-bold">
+                                    <span>{describeTransferStatus(pendingTransfer, 'pending')}</span>
+                                    <button onClick={() => socket.emit('transfer_decline', { transferId: pendingTransfer.id })} className="uppercase tracking-wider text-indigo-500 hover:text-indigo-700">Cancel</button>
+                                </div>
+                            )}
+                            {handoff && callActive && (
+                                <div className="px-4 py-2.5 rounded-xl bg-indigo-50 border border-indigo-100">
+                                    <p className="text-[10px] md:text-xs font-bold text-indigo-700 uppercase tracking-wider">{describeHandoff(handoff)}</p>
+                                    {handoff.note && <p className="text-[11px] md:text-xs text-slate-600 mt-1 whitespace-pre-wrap">{handoff.note}</p>}
+                                </div>
+                            )}
+                            {monitoredCall && (
+                                <div className="px-4 py-2.5 rounded-xl bg-amber-50 border border-amber-100 text-[10px] md:text-xs text-amber-700 font-bold">
+                                    Monitoring {monitoredCall.callerName} with {monitoredCall.agent?.name || 'no agent yet'} — transcript only, the caller cannot hear or see you.
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Live calls for supervisors */}
+                    {isSupervisor && !callActive && otherCalls.length > 0 && (
+                        <div className="mx-4 md:mx-8 mt-4 bg-white border border-slate-200 rounded-xl divide-y divide-slate-100">
+                            <p className="px-4 py-2 text-[9px] md:text-[10px] font-bold text-slate-400 uppercase tracking-widest">Live Calls</p>
+                            {otherCalls.map(call => (
+                                <div key={call.id} className="px-4 py-2.5 flex items-center gap-3">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-xs font-bold text-slate-700 truncate">{call.callerName}</p>
+                                        <p className="text-[10px] text-slate-400 truncate">{call.agent ? `with ${call.agent.name}` : 'Waiting for an agent'}</p>
+                                    </div>
+                                    <button onClick={() => handleMonitorCall(call)} disabled={monitoredCall?.id === call.id} className="px-2.5 py-1 rounded-lg bg-amber-500 text-white text-[10px] font-bold hover:bg-amber-600 disabled:opacity-50 transition-colors">Monitor</button>
+                                    <button onClick={() => handleTakeOverCall(call)} className="px-2.5 py-1 rounded-lg bg-rose-500 text-white text-[10px] font-bold hover:bg-rose-600 transition-colors">Take Over</button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Chrome warning */}
                     {!sttSupported && (
                         <div className="mx-4 md:mx-8 mt-4 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 text-amber-700 text-[10px] md:text-xs font-medium uppercase tracking-tight">
@@ -546,7 +731,7 @@ const VoiceAgent: React.FC = () => {
 
                     {/* Transcript */}
                     <div className="flex-1 overflow-y-auto px-4 md:px-8 py-4 md:py-6 space-y-3">
-                        {transcript.length === 0 && !callActive && (
+                        {transcript.length === 0 && !callActive && !monitoredCall && (
                             <div className="flex flex-col items-center justify-center h-full text-center py-12 md:py-20">
                                 <div className="w-16 h-16 md:w-20 md:h-20 rounded-2xl bg-gradient-to-br from-indigo-100 to-purple-100 flex items-center justify-center text-3xl md:text-4xl mb-4 md:mb-5 shadow-inner">🎙️</div>
                                 <h3 className="text-base md:text-lg font-bold text-slate-700">Ready to take a call</h3>
@@ -577,6 +762,16 @@ const VoiceAgent: React.FC = () => {
                             </div>
                         ))}
 
+                        {/* Supervisor whispers — never sent to the caller */}
+                        {whispers.map(w => (
+                            <div key={w.id} className="flex justify-center">
+                                <div className="max-w-[85%] md:max-w-[68%] px-3 md:px-4 py-2 rounded-xl bg-amber-50 border border-dashed border-amber-200 text-[11px] md:text-xs text-amber-900">
+                                    <span className="font-bold uppercase tracking-wider text-[9px] text-amber-600 mr-2">Whisper · {w.from.name} · {w.time}</span>
+                                    {w.text}
+                                </div>
+                            </div>
+                        ))}
+
                         {/* Interim text bubble — always agent */}
                         {interimText && callActive && (
                             <div className="flex gap-2 md:gap-3 flex-row-reverse">
@@ -606,8 +801,26 @@ const VoiceAgent: React.FC = () => {
                         </div>
                     )}
 
+                    {/* Supervisor bar while monitoring */}
+                    {monitoredCall && (
+                        <div className="border-t border-slate-200 bg-white px-4 md:px-8 py-3 md:py-4 shrink-0">
+                            <div className="flex flex-wrap items-center gap-2 md:gap-3 max-w-4xl mx-auto">
+                                <input
+                                    className="flex-1 min-w-[200px] bg-amber-50 border border-amber-200 rounded-xl py-2 px-3 text-xs md:text-sm focus:outline-none focus:ring-2 focus:ring-amber-200"
+                                    placeholder={`Whisper to ${monitoredCall.agent?.name || 'the agent'}...`}
+                                    value={whisperInput}
+                                    onChange={e => setWhisperInput(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && handleSendWhisper()}
+                                />
+                                <button onClick={handleSendWhisper} className="px-3 md:px-4 py-2 bg-amber-500 text-white text-[10px] md:text-xs font-bold rounded-lg hover:bg-amber-600 transition-all">Whisper</button>
+                                <button onClick={() => handleTakeOverCall(monitoredCall)} className="px-3 md:px-4 py-2 bg-rose-500 text-white text-[10px] md:text-xs font-bold rounded-lg hover:bg-rose-600 transition-all">Take Over</button>
+                                <button onClick={handleStopMonitoring} className="px-3 md:px-4 py-2 text-[10px] md:text-xs font-bold text-slate-400 hover:text-slate-600 transition-colors">Stop</button>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Post-call bar */}
-                    {!callActive && transcript.length > 0 && (
+                    {!callActive && !monitoredCall && transcript.length > 0 && (
                         <div className="border-t border-slate-200 bg-white px-4 md:px-8 py-3 md:py-4 flex flex-wrap items-center gap-2 md:gap-4 shrink-0">
                             <p className="text-[10px] md:text-xs text-slate-500 font-medium w-full sm:w-auto">{transcript.length} entries</p>
                             <button
@@ -617,7 +830,7 @@ const VoiceAgent: React.FC = () => {
                             >
                                 {summaryLoading ? '⏳ AI...' : '✨ Generate AI Summary'}
                             </button>
-                            <button onClick={() => { setTranscript([]); setAiCoaching(null); setSummaryText(null) }} className="px-3 md:px-4 py-2 text-[10px] md:text-xs font-bold text-slate-400 hover:text-red-500 transition-colors">
+                            <button onClick={() => { setTranscript([]); clearCoaching(); setSummaryText(null) }} className="px-3 md:px-4 py-2 text-[10px] md:text-xs font-bold text-slate-400 hover:text-red-500 transition-colors">
                                 Clear
                             </button>
                         </div>
@@ -631,6 +844,8 @@ const VoiceAgent: React.FC = () => {
                         aiError={aiError}
                         aiCoaching={aiCoaching}
                         knowledgeSnippets={knowledgeSnippets}
+                        knowledgeQuery={knowledgeQuery}
+                        sessionId={sessionId}
                         smartReplies={smartReplies}
                         speakReply={speakReply}
                         callActive={callActive}
@@ -658,6 +873,8 @@ const VoiceAgent: React.FC = () => {
                                 aiError={aiError}
                                 aiCoaching={aiCoaching}
                                 knowledgeSnippets={knowledgeSnippets}
+                                knowledgeQuery={knowledgeQuery}
+                                sessionId={sessionId}
                                 smartReplies={smartReplies}
                                 speakReply={speakReply}
                                 callActive={callActive}
@@ -669,6 +886,48 @@ const VoiceAgent: React.FC = () => {
                 </div>
             </main>
 
+            {/* Transfer dialog */}
+            {showTransfer && (
+                <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 md:p-6 z-[60]">
+                    <div className="bg-white rounded-3xl w-full max-w-md flex flex-col shadow-2xl shadow-indigo-500/20 overflow-hidden">
+                        <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between">
+                            <h2 className="font-black text-slate-800 uppercase tracking-tight text-sm md:text-base">Transfer Call</h2>
+                            <button onClick={() => setShowTransfer(false)} className="p-2 hover:bg-slate-100 rounded-xl transition-colors text-slate-400">✕</button>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <div>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Colleague</label>
+                                {transferCandidates.length === 0 ? (
+                                    <p className="text-xs text-slate-400">Nobody else has the voice console open.</p>
+                                ) : (
+                                    <select value={transferForm.toAgentId} onChange={e => setTransferForm({ ...transferForm, toAgentId: e.target.value })} className="w-full bg-slate-50 border border-slate-200 rounded-xl py-2.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200">
+                                        <option value="">Choose a colleague…</option>
+                                        {transferCandidates.map(c => (
+                                            <option key={c.id} value={c.id} disabled={c.busy}>{c.name}{c.busy ? ' — on a call' : ''}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                            <div className="flex gap-2">
+                                {(['warm', 'cold'] as TransferMode[]).map(mode => (
+                                    <button key={mode} onClick={() => setTransferForm({ ...transferForm, mode })} className={`flex-1 px-3 py-2 rounded-xl text-xs font-bold border transition-colors ${transferForm.mode === mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}>
+                                        {mode === 'warm' ? 'Warm — they accept first' : 'Cold — hand over now'}
+                                    </button>
+                                ))}
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Handoff note</label>
+                                <textarea rows={3} value={transferForm.note} onChange={e => setTransferForm({ ...transferForm, note: e.target.value })} placeholder="What has been done so far and what the caller still needs" className="w-full bg-slate-50 border border-slate-200 rounded-xl py-2.5 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200 resize-none" />
+                            </div>
+                        </div>
+                        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3">
+                            <button onClick={() => setShowTransfer(false)} className="px-4 py-2 text-xs font-bold text-slate-500 hover:text-slate-700">Cancel</button>
+                            <button onClick={handleRequestTransfer} disabled={!transferForm.toAgentId} className="px-4 py-2 bg-indigo-600 text-white text-xs font-bold rounded-lg hover:bg-indigo-700 disabled:opacity-50">Transfer</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Summary Overlay */}
             {showSummary && summaryText && (
                 <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 md:p-6 z-[60]">
@@ -678,7 +937,7 @@ const VoiceAgent: React.FC = () => {
                                 <div className="w-9 h-9 md:w-10 md:h-10 rounded-xl bg-indigo-600 flex items-center justify-center text-white shadow-lg shadow-indigo-100 italic font-black">AI</div>
                                 <div>
                                     <h2 className="font-black text-slate-800 leading-tight uppercase tracking-tight text-sm md:text-base">Post-Call Report</h2>
-                                    <p className="text-[10px] md:text-[11px] text-slate-400 font-bold uppercase tracking-widest mt-0.5">Summary by Gemini 1.5 Flash</p>
+                                    <p className="text-[10px] md:text-[11px] text-slate-400 font-bold uppercase tracking-widest mt-0.5">AI Summary</p>
                                 </div>
                             </div>
                             <button onClick={() => setShowSummary(false)} className="p-2 hover:bg-slate-100 rounded-xl transition-colors text-slate-400">
@@ -711,15 +970,17 @@ const VoiceAgent: React.FC = () => {
 // ─── Sidebar Content Helper ───
 const SidebarContent: React.FC<{
     aiLoading: boolean;
-    aiError: boolean;
-    aiCoaching: AiCoaching | null;
+    aiError: CoachingFailure | null;
+    aiCoaching: Partial<Coaching> | null;
     knowledgeSnippets: KnowledgeSnippet[];
+    knowledgeQuery: string;
+    sessionId: string;
     smartReplies: string[];
     speakReply: (text: string) => void;
     callActive: boolean;
     ttsPlaying: string | null;
     apiUrl: string;
-}> = ({ aiLoading, aiError, aiCoaching, knowledgeSnippets, smartReplies, speakReply, callActive, ttsPlaying, apiUrl }) => {
+}> = ({ aiLoading, aiError, aiCoaching, knowledgeSnippets, knowledgeQuery, sessionId, smartReplies, speakReply, callActive, ttsPlaying, apiUrl }) => {
     return (
         <>
             {/* VIP Customer Profile (Mock CRM) */}
@@ -759,7 +1020,7 @@ const SidebarContent: React.FC<{
             {/* AI Status */}
             <div className="flex items-center justify-between mt-2">
                 <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">Live Coaching</span>
-                <div className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-[9px] font-bold ${aiLoading ? 'bg-amber-50 text-amber-600' : aiError ? 'bg-rose-50 text-rose-500' : aiCoaching ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>
+                <div title={aiError ? coachingFailures[aiError] : undefined} className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-[9px] font-bold ${aiLoading ? 'bg-amber-50 text-amber-600' : aiError ? 'bg-rose-50 text-rose-500' : aiCoaching ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>
                     {aiLoading ? 'Thinking...' : aiError ? 'Error' : aiCoaching ? 'Gemini✨' : 'Waiting'}
                 </div>
             </div>
@@ -793,15 +1054,17 @@ const SidebarContent: React.FC<{
                 </div>
             </section>
 
+            <PolicyAlerts verdicts={aiCoaching?.policies} />
+
             {/* Knowledge Assist */}
-            <KnowledgeSidebar autoSnippets={knowledgeSnippets} apiUrl={apiUrl} />
+            <KnowledgeSidebar autoSnippets={knowledgeSnippets} autoQuery={knowledgeQuery} conversation={{ kind: 'voice', id: sessionId }} apiUrl={apiUrl} />
 
             {/* Insights */}
             {(aiCoaching?.insights?.length || 0) > 0 && (
                 <section>
                     <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-2">Insights</h3>
                     <div className="space-y-2">
-                        {aiCoaching!.insights.map((ins, i) => (
+                        {aiCoaching!.insights!.map((ins, i) => (
                             <div key={i} className={`p-3 rounded-xl border text-[11px] ${insightColors[ins.color] || insightColors.blue}`}>
                                 <p className="font-bold mb-0.5">🎧 {ins.label}</p>
                                 <p className="opacity-80">{ins.tip}</p>
@@ -841,7 +1104,7 @@ const SidebarContent: React.FC<{
             </section>
 
             {/* Escalation Risk */}
-            {aiCoaching && (
+            {aiCoaching?.escalationRisk !== undefined && (
                 <section className={`p-4 rounded-xl border transition-all ${aiCoaching.escalationRisk > 70 ? 'bg-rose-50 border-rose-200 shadow-sm shadow-rose-100' : 'bg-white border-slate-200'}`}>
                     <div className="flex items-center justify-between mb-3">
                         <h3 className={`text-[10px] font-bold uppercase tracking-widest ${aiCoaching.escalationRisk > 70 ? 'text-rose-600' : 'text-slate-400'}`}>
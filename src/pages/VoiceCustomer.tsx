@@ -1,17 +1,11 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
-import { io } from 'socket.io-client'
+import { tenantHeaders } from '../lib/tenant'
+import { customerSocket, TranscriptEntry } from '../lib/socket'
 
 const API_URL = import.meta.env.VITE_API_URL || ''
-const socket = io(API_URL || window.location.origin)
+const socket = customerSocket()
 
 
-type TranscriptEntry = {
-    id: string
-    speaker: 'agent' | 'customer'
-    text: string
-    time: string
-}
-
 declare global {
     interface Window {
         SpeechRecognition: any
@@ -58,7 +52,7 @@ const VoiceCustomer: React.FC = () => {
 
     // Fetch agent name for display
     useEffect(() => {
-        fetch(`${API_URL}/api/admin/config`)
+        fetch(`${API_URL}/api/config/public`, { headers: tenantHeaders() })
             .then(r => r.json())
             .then(c => { if (c.agentName) setAgentName(c.agentName) })
             .catch(() => { })
@@ -78,12 +72,12 @@ const VoiceCustomer: React.FC = () => {
             joinRoom()
         }
 
-        socket.on('voice_history', (entries: TranscriptEntry[]) => {
+        socket.on('voice_history', (entries) => {
             setTranscript(entries)
         })
 
         // Receive agent's transcript entries in real time
-        socket.on('voice_new_entry', ({ entry }: { entry: TranscriptEntry }) => {
+        socket.on('voice_new_entry', ({ entry }) => {
             setTranscript(prev => [...prev, entry])
             // Note: We no longer play TTS here. The real audio is coming through WebRTC!
         })
@@ -130,6 +124,19 @@ const VoiceCustomer: React.FC = () => {
             }
         })
 
+        // Call transferred: the new agent's console asks for a fresh connection
+        socket.on('voice_request_offer', async () => {
+            if (!localStreamRef.current) return
+            console.log("[WebRTC Customer] Agent requested a new offer")
+            peerConnectionRef.current?.close()
+            createPeerConnection(localStreamRef.current)
+            await sendOffer()
+        })
+
+        socket.on('voice_agent_changed', ({ agentName }) => {
+            if (agentName) setAgentName(agentName)
+        })
+
         return () => {
             socket.off('connect', joinRoom)
             socket.off('voice_history')
@@ -137,6 +144,8 @@ const VoiceCustomer: React.FC = () => {
             socket.off('voice_session_ended')
             socket.off('voice_webrtc_offer')
             socket.off('voice_webrtc_ice_candidate')
+            socket.off('voice_request_offer')
+            socket.off('voice_agent_changed')
         }
     }, [urlSession, sessionId])
 
@@ -145,46 +154,64 @@ const VoiceCustomer: React.FC = () => {
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
             localStreamRef.current = stream
+            createPeerConnection(stream)
+        } catch (err) {
+            console.error("Failed to get local audio:", err)
+            alert("Microphone access is required for real voice transfer.")
+        }
+    }
 
-            const configuration = {
-                iceServers: [
-                    { urls: 'stun:stun.l.google.com:19302' },
-                    { urls: 'stun:stun1.l.google.com:19302' },
-                    { urls: 'stun:stun2.l.google.com:19302' },
-                    { urls: 'stun:stun3.l.google.com:19302' },
-                    { urls: 'stun:stun4.l.google.com:19302' }
-                ]
-            }
-            const pc = new RTCPeerConnection(configuration)
-            peerConnectionRef.current = pc
+    // One peer connection per agent — rebuilt from the same microphone stream when the call is transferred
+    const createPeerConnection = (stream: MediaStream) => {
+        const configuration = {
+            iceServers: [
+                { urls: 'stun:stun.l.google.com:19302' },
+                { urls: 'stun:stun1.l.google.com:19302' },
+                { urls: 'stun:stun2.l.google.com:19302' },
+                { urls: 'stun:stun3.l.google.com:19302' },
+                { urls: 'stun:stun4.l.google.com:19302' }
+            ]
+        }
+        const pc = new RTCPeerConnection(configuration)
+        peerConnectionRef.current = pc
 
-            // Add local tracks
-            stream.getTracks().forEach(track => pc.addTrack(track, stream))
+        // Add local tracks
+        stream.getTracks().forEach(track => pc.addTrack(track, stream))
 
-            // State changes
-            pc.oniceconnectionstatechange = () => console.log("[WebRTC Customer] ICE State:", pc.iceConnectionState)
-            pc.onconnectionstatechange = () => console.log("[WebRTC Customer] Connection State:", pc.connectionState)
+        // State changes
+        pc.oniceconnectionstatechange = () => console.log("[WebRTC Customer] ICE State:", pc.iceConnectionState)
+        pc.onconnectionstatechange = () => console.log("[WebRTC Customer] Connection State:", pc.connectionState)
 
-            // Handle ICE candidates
-            pc.onicecandidate = event => {
-                if (event.candidate) {
-                    console.log("[WebRTC Customer] Gathered local ICE candidate")
-                    socket.emit('voice_webrtc_ice_candidate', { sessionId, candidate: event.candidate })
-                }
+        // Handle ICE candidates
+        pc.onicecandidate = event => {
+            if (event.candidate) {
+                console.log("[WebRTC Customer] Gathered local ICE candidate")
+                socket.emit('voice_webrtc_ice_candidate', { sessionId, candidate: event.candidate })
             }
+        }
 
-            // Handle incoming remote audio stream
-            pc.ontrack = event => {
-                console.log("[WebRTC Customer] Received remote track")
-                if (remoteAudioRef.current && event.streams[0]) {
-                    remoteAudioRef.current.srcObject = event.streams[0]
-                    // Force play in case of browser autoplay policies
-                    remoteAudioRef.current.play().catch(e => console.error("Agent playback error:", e))
-                }
+        // Handle incoming remote audio stream
+        pc.ontrack = event => {
+            console.log("[WebRTC Customer] Received remote track")
+            if (remoteAudioRef.current && event.streams[0]) {
+                remoteAudioRef.current.srcObject = event.streams[0]
+                // Force play in case of browser autoplay policies
+                remoteAudioRef.current.play().catch(e => console.error("Agent playback error:", e))
             }
+        }
+    }
+
+    // ── WEBRTC: Customer creates the Offer to send to the Agent ──
+    const sendOffer = async () => {
+        if (!peerConnectionRef.current) return
+        try {
+            console.log("[WebRTC Customer] Creating Offer")
+            const offer = await peerConnectionRef.current.createOffer()
+            await peerConnectionRef.current.setLocalDescription(offer)
+            console.log("[WebRTC Customer] Sending Offer via Socket")
+            socket.emit('voice_webrtc_offer', { sessionId: urlSession || sessionId, offer })
         } catch (err) {
-            console.error("Failed to get local audio:", err)
-            alert("Microphone access is required for real voice transfer.")
+            console.error("Error creating WebRTC offer on Customer side:", err)
         }
     }
 
@@ -202,18 +229,7 @@ const VoiceCustomer: React.FC = () => {
         // If no URL session, create a new one
         if (!urlSession) socket.emit('voice_start', { sessionId, callerName: 'Customer' })
 
-        // ── WEBRTC: Customer creates the Offer to send to the Agent ──
-        if (peerConnectionRef.current) {
-            try {
-                console.log("[WebRTC Customer] Creating Offer")
-                const offer = await peerConnectionRef.current.createOffer()
-                await peerConnectionRef.current.setLocalDescription(offer)
-                console.log("[WebRTC Customer] Sending Offer via Socket")
-                socket.emit('voice_webrtc_offer', { sessionId: urlSession || sessionId, offer })
-            } catch (err) {
-                console.error("Error creating WebRTC offer on Customer side:", err)
-            }
-        }
+        await sendOffer()
 
         timerRef.current = setInterval(() => setCallTimer(t => t + 1), 1000)
 